@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getDecisionKeySet } from '@/lib/witness/decision-signing';
+
+// Keys come from runtime env — never prerender at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /.well-known/vericall-decision-keys.json
+ *
+ * Public keys behind the `signature` on Decision API responses: the active
+ * key first, then retired keys that older records were signed with.
+ * scripts/verify.ts --signed checks a record against this set offline.
+ */
+export async function GET() {
+  return NextResponse.json(getDecisionKeySet(), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
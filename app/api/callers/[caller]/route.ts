@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { decodeCallerParam, resolveCallerHashes } from '@/lib/caller-hash';
+import { eraseCaller } from '@/lib/retention';
+import { deleteLogsFrom } from '@/app/phone/_lib/store';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ caller: string }> };
+
+/**
+ * DELETE /api/callers/[caller]  (admin)
+ *
+ * Right to erasure. `caller` is an E.164 number (matched under every pepper
+ * version) or a callerHashShort. Deletes transcripts, reveal salts, caller
+ * details, voicemails, archived audio, stored Web Proofs and signed Decision
+ * API copies, and reputation history; the hashes behind on-chain records are kept.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const caller = decodeCallerParam((await params).caller);
+  if (!caller) {
+    return NextResponse.json({ error: 'Malformed caller' }, { status: 400 });
+  }
+
+  const callerHashes = resolveCallerHashes(caller);
+  const result = await eraseCaller(callerHashes);
+  // In-memory call logs keep the raw number, so they can only be found by it
+  const callLogs = caller.startsWith('+') ? deleteLogsFrom(caller) : 0;
+
+  return NextResponse.json({
+    callerHash: callerHashes[0],
+    erasedCalls: result.callSids,
+    audioFailed: result.audioFailed,
+    webProofs: result.webProofs,
+    signedDecisions: result.signedDecisions,
+    callerHistory: result.callerHistory,
+    callLogs,
+  });
+}
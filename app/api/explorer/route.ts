@@ -1,160 +1,224 @@
-import { NextResponse } from 'next/server';
-import { createPublicClient, http } from 'viem';
-import { baseSepolia } from 'viem/chains';
+import { NextRequest, NextResponse } from 'next/server';
 import { VERICALL_REGISTRY_ABI } from '@/lib/witness/abi';
-import { contractConfig, chainConfig } from '@/lib/config';
+import { chainConfig, findRegistryNetwork, registryNetworks } from '@/lib/config';
+import { explorerAddressUrl, findChainBySelector, findChainInfo } from '@/lib/chains';
+import { getPublicClient } from '@/lib/witness/tx-manager';
+import {
+  type RecordFilter,
+  getIndexCursor,
+  getIndexedStats,
+  queryBatchedAmendments,
+  queryIndexedBatches,
+  queryIndexedRecords,
+  type IndexedAmendment,
+} from '@/lib/witness/registry-store';
 
 // ─── Config ────────────────────────────────────────────────────
 
-const CONTRACT = contractConfig.address as `0x${string}`;
-const RPC_URL = chainConfig.rpcUrl;
-const BASESCAN = 'https://sepolia.basescan.org';
-
 const DECISION_LABELS = ['UNKNOWN', 'ACCEPT', 'BLOCK', 'RECORD'] as const;
+const AMENDMENT_KINDS = ['correction', 'dispute'] as const;
 const DECISION_EMOJI: Record<string, string> = {
   UNKNOWN: '❓',
   ACCEPT: '✅',
   BLOCK: '🚫',
   RECORD: '📝',
 };
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+/** Latest batches / batched-call amendments returned next to the records */
+const BATCH_LIST_SIZE = 20;
+
+// ─── Query Parsing ─────────────────────────────────────────────
+
+/** Unix seconds from `1700000000` or an ISO date */
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? NaN : Math.floor(ms / 1000);
+}
+
+function parseFilter(params: URLSearchParams): RecordFilter | string {
+  const filter: RecordFilter = {};
+
+  const decision = params.get('decision');
+  if (decision) {
+    const index = DECISION_LABELS.indexOf(decision.toUpperCase() as (typeof DECISION_LABELS)[number]);
+    if (index <= 0) return `Unknown decision "${decision}" (expected ACCEPT, BLOCK or RECORD)`;
+    filter.decision = index;
+  }
+
+  const verified = params.get('verified');
+  if (verified) {
+    if (verified !== 'true' && verified !== 'false') return 'verified must be true or false';
+    filter.verified = verified === 'true';
+  }
+
+  filter.submitter = params.get('submitter') || undefined;
+  filter.callId = params.get('callId') || undefined;
+
+  filter.since = parseTime(params.get('since'));
+  filter.until = parseTime(params.get('until'));
+  if (Number.isNaN(filter.since) || Number.isNaN(filter.until)) {
+    return 'since / until must be unix seconds or an ISO date';
+  }
+  return filter;
+}
+
+// ─── Formatting ────────────────────────────────────────────────
+
+function formatAmendment(a: IndexedAmendment) {
+  return {
+    index: a.index,
+    kind: AMENDMENT_KINDS[a.kind] || 'correction',
+    correctedDecision: a.correctedDecision ? DECISION_LABELS[a.correctedDecision] : null,
+    reason: a.reason,
+    filedBy: a.filedBy,
+    timestamp: a.timestamp,
+    timestampISO: new Date(a.timestamp * 1000).toISOString(),
+    submitter: a.submitter,
+  };
+}
 
 // ─── API Route ──────────────────────────────────────────────
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
-  try {
-    const client = createPublicClient({
-      chain: baseSepolia,
-      transport: http(RPC_URL),
-    });
+/**
+ * GET /api/explorer?network=<slug|chainId>
+ *
+ * Records from the registry on one network (default: CHAIN_ID), served
+ * from the event index (lib/witness/indexer.ts) in registration order.
+ *
+ *   ?limit=50&offset=0      page (limit ≤ 200)
+ *   ?order=desc             newest first
+ *   ?decision=BLOCK         ACCEPT | BLOCK | RECORD
+ *   ?verified=true
+ *   ?submitter=0x…  ?callId=0x…
+ *   ?since=…&until=…        record timestamp, unix seconds or ISO date
+ *
+ * Batched calls (WITNESS_BATCH_ENABLED) are not records: only their batch's
+ * Merkle root is on chain. The latest batches and the amendments filed on
+ * batched calls are listed separately, unfiltered; verify a batched call
+ * with its inclusion proof (scripts/verify.ts --inclusion, /verify).
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const selector = params.get('network');
+  const chain = selector ? findChainBySelector(selector) : findChainInfo(chainConfig.chainId);
+  if (!chain) {
+    return NextResponse.json({ error: `Unknown network "${selector ?? chainConfig.chainId}"` }, { status: 400 });
+  }
+  const network = findRegistryNetwork(chain.chain.id);
+  if (!network?.contractAddress) {
+    return NextResponse.json({ error: `No VeriCallRegistry deployed on ${chain.name}` }, { status: 404 });
+  }
+  const CONTRACT = network.contractAddress as `0x${string}`;
 
-    // Get stats
-    const stats = (await client.readContract({
-      address: CONTRACT,
-      abi: VERICALL_REGISTRY_ABI,
-      functionName: 'getStats',
-    })) as [bigint, bigint, bigint, bigint];
-
-    const owner = (await client.readContract({
-      address: CONTRACT,
-      abi: VERICALL_REGISTRY_ABI,
-      functionName: 'owner',
-    })) as string;
-
-    // V3: imageId + verifier
-    const imageId = (await client.readContract({
-      address: CONTRACT,
-      abi: VERICALL_REGISTRY_ABI,
-      functionName: 'imageId',
-    })) as string;
-
-    const verifier = (await client.readContract({
-      address: CONTRACT,
-      abi: VERICALL_REGISTRY_ABI,
-      functionName: 'verifier',
-    })) as string;
-
-    const totalRecords = Number(stats[0]);
-
-    // Fetch all records
-    const records = [];
-    for (let i = 0; i < totalRecords; i++) {
-      const callId = (await client.readContract({
-        address: CONTRACT,
-        abi: VERICALL_REGISTRY_ABI,
-        functionName: 'callIds',
-        args: [BigInt(i)],
-      })) as `0x${string}`;
-
-      const record = (await client.readContract({
-        address: CONTRACT,
-        abi: VERICALL_REGISTRY_ABI,
-        functionName: 'getRecord',
-        args: [callId],
-      })) as any;
-
-      const decision = Number(record.decision);
-      const decisionLabel = DECISION_LABELS[decision] || 'UNKNOWN';
-      const timestamp = Number(record.timestamp);
-
-      // V3: use on-chain getProvenData() for journal decoding (7 fields)
-      let provenData = {
-        method: 'N/A',
-        url: record.sourceUrl,
-        proofTimestamp: 0,
-        provenDecision: '',
-        provenReason: '',
-        notaryKeyFingerprint: '',
-        queriesHash: '',
-      };
-      try {
-        const pd = (await client.readContract({
-          address: CONTRACT,
-          abi: VERICALL_REGISTRY_ABI,
-          functionName: 'getProvenData',
-          args: [callId],
-        })) as any;
-        provenData = {
-          notaryKeyFingerprint: pd[0] || '',
-          method: pd[1] || 'N/A',
-          url: pd[2] || record.sourceUrl,
-          proofTimestamp: Number(pd[3] || 0),
-          queriesHash: pd[4] || '',
-          provenDecision: pd[5] || '',
-          provenReason: pd[6] || '',
-        };
-      } catch { /* journal may not be decodable */ }
-
-      // Verify journal integrity
-      let journalVerified = false;
-      try {
-        journalVerified = (await client.readContract({
-          address: CONTRACT,
-          abi: VERICALL_REGISTRY_ABI,
-          functionName: 'verifyJournal',
-          args: [callId, record.journalDataAbi],
-        })) as boolean;
-      } catch { /* ignore */ }
-
-      records.push({
-        index: i,
-        callId,
+  const filter = parseFilter(params);
+  if (typeof filter === 'string') {
+    return NextResponse.json({ error: filter }, { status: 400 });
+  }
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(params.get('limit') || '', 10) || DEFAULT_PAGE_SIZE));
+  const offset = Math.max(0, parseInt(params.get('offset') || '0', 10) || 0);
+  const order = params.get('order') === 'desc' ? 'desc' : 'asc';
+
+  try {
+    const key = { chainId: network.chainId, contract: CONTRACT };
+    const [page, stats, cursor, batches, batchedAmendments] = await Promise.all([
+      queryIndexedRecords(key, filter, { limit, offset, order }),
+      getIndexedStats(key),
+      getIndexCursor(key),
+      queryIndexedBatches(key, BATCH_LIST_SIZE),
+      queryBatchedAmendments(key, BATCH_LIST_SIZE),
+    ]);
+
+    // Registry settings — a fixed number of reads, independent of the record count
+    const client = getPublicClient(network.chainId);
+    const readSetting = (functionName: 'owner' | 'imageId' | 'verifier') =>
+      client
+        .readContract({ address: CONTRACT, abi: VERICALL_REGISTRY_ABI, functionName })
+        .then((value) => value as string)
+        .catch(() => null);
+    const [owner, imageId, verifier] = await Promise.all([
+      readSetting('owner'),
+      readSetting('imageId'),
+      readSetting('verifier'),
+    ]);
+
+    const records = page.records.map((record) => {
+      const decisionLabel = DECISION_LABELS[record.decision] || 'UNKNOWN';
+      const proven = record.proven;
+      return {
+        index: record.index,
+        callId: record.callId,
         decision: decisionLabel,
         decisionEmoji: DECISION_EMOJI[decisionLabel],
         reason: record.reason,
         sourceUrl: record.sourceUrl,
-        timestamp,
-        timestampISO: new Date(timestamp * 1000).toISOString(),
+        timestamp: record.timestamp,
+        timestampISO: new Date(record.timestamp * 1000).toISOString(),
         submitter: record.submitter,
-        verified: record.verified ?? false,
+        verified: record.verified,
         zkProofSeal: record.zkProofSeal,
         journalHash: record.journalHash,
-        journalVerified,
-        provenData,
-      });
-    }
+        journalVerified: record.journalVerified,
+        provenData: {
+          method: proven?.method || 'N/A',
+          url: proven?.url || record.sourceUrl,
+          proofTimestamp: proven?.proofTimestamp ?? 0,
+          provenDecision: proven?.decision ?? '',
+          provenReason: proven?.reason ?? '',
+          notaryKeyFingerprint: proven?.notaryKeyFingerprint ?? '',
+          queriesHash: proven?.queriesHash ?? '',
+        },
+        imageId: record.imageId ?? null,
+        blockNumber: record.blockNumber,
+        txHash: record.txHash,
+        // V5: amendment history — appended after registration, the record itself is unchanged
+        amendments: record.amendments.map(formatAmendment),
+      };
+    });
 
     return NextResponse.json({
       version: 'v3',
       contract: CONTRACT,
-      network: 'Base Sepolia',
-      chainId: 84532,
-      basescan: `${BASESCAN}/address/${CONTRACT}`,
+      network: chain.name,
+      chainId: network.chainId,
+      basescan: explorerAddressUrl(network.chainId, CONTRACT),
+      // Networks this server registers decisions on (primary first)
+      networks: registryNetworks.map((n) => ({
+        chainId: n.chainId,
+        slug: findChainInfo(n.chainId)?.slug,
+        contract: n.contractAddress,
+      })),
       owner,
       imageId,
       verifier,
-      stats: {
-        total: totalRecords,
-        accepted: Number(stats[1]),
-        blocked: Number(stats[2]),
-        recorded: Number(stats[3]),
-      },
+      // Counts over the indexed records (up to indexer.lastBlock)
+      stats,
+      indexer: cursor
+        ? { lastBlock: cursor.blockNumber, updatedAt: cursor.updatedAt }
+        : null,
+      pagination: { total: page.total, limit, offset, order },
       records,
+      // Latest anchored batches (stats.batches / stats.batchedCalls count them all)
+      batches: batches.map((batch) => ({
+        root: batch.root,
+        size: batch.size,
+        imageId: batch.imageId,
+        timestamp: batch.timestamp,
+        timestampISO: new Date(batch.timestamp * 1000).toISOString(),
+        submitter: batch.submitter,
+        blockNumber: batch.blockNumber,
+        txHash: batch.txHash,
+      })),
+      // Latest amendments on batched calls — there is no record to attach them to
+      batchedAmendments: batchedAmendments.map((a) => ({ callId: a.callId, ...formatAmendment(a) })),
     });
   } catch (err: any) {
     return NextResponse.json(
-      { error: err.message || 'Failed to read contract' },
+      { error: err.message || 'Failed to read the registry index' },
       { status: 500 },
     );
   }
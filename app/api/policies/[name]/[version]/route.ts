@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPolicy } from '@/lib/voice-ai/policy-registry';
+import { localizePolicy } from '@/lib/voice-ai/policy';
+import { getLanguageProfile, isSupportedLanguage } from '@/lib/voice-ai/languages';
+
+/**
+ * GET /api/policies/[name]/[version]
+ *
+ * Returns the exact prompt text of a policy version and its SHA-256 hash.
+ * The Decision API links here (`policyUrl`) so verifiers can recompute
+ * the on-chain systemPromptHash from the rules the call was screened with.
+ * `version` may be `latest`. `?language=ja-JP` returns the policy localized
+ * the way a call in that language was screened (and hashed).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; version: string }> },
+) {
+  const { name, version } = await params;
+
+  if (version !== 'latest' && !/^[1-9]\d*$/.test(version)) {
+    return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+  }
+
+  const language = request.nextUrl.searchParams.get('language');
+  if (language && !isSupportedLanguage(language)) {
+    return NextResponse.json({ error: `Unsupported language: ${language}` }, { status: 400 });
+  }
+
+  const published = await getPolicy(name, version === 'latest' ? undefined : parseInt(version, 10));
+  if (!published) {
+    return NextResponse.json({ error: 'Policy not found' }, { status: 404 });
+  }
+  const policy = language ? localizePolicy(published, getLanguageProfile(language)) : published;
+
+  return NextResponse.json({
+    name: policy.name,
+    version: policy.version,
+    hash: policy.hash,
+    source: policy.source,
+    description: policy.description ?? null,
+    language: policy.language ?? null,
+    prompt: policy.prompt,
+  });
+}
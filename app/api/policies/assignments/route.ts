@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { assignPolicy, listAssignments, PolicyRegistryError } from '@/lib/voice-ai/policy-registry';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/policies/assignments  (admin)
+ *
+ * Lists policy assignments per called number ('*' = deployment default).
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const assignments = await listAssignments();
+  return NextResponse.json({ total: assignments.length, assignments });
+}
+
+/**
+ * PUT /api/policies/assignments  (admin)
+ *
+ * Body: { calledNumber, policy } — policy is "name@version", "name" (always
+ * latest) or null to remove the assignment. Applies from the next call.
+ */
+export async function PUT(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  let body: { calledNumber?: unknown; policy?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (typeof body.calledNumber !== 'string' || !body.calledNumber) {
+    return NextResponse.json({ error: '`calledNumber` is required' }, { status: 400 });
+  }
+  if (body.policy !== null && typeof body.policy !== 'string') {
+    return NextResponse.json({ error: '`policy` must be "name@version", "name" or null' }, { status: 400 });
+  }
+
+  try {
+    await assignPolicy(body.calledNumber, body.policy);
+  } catch (error) {
+    if (error instanceof PolicyRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  return NextResponse.json({ calledNumber: body.calledNumber, policy: body.policy });
+}
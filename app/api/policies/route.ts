@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listPolicies, publishPolicy, PolicyRegistryError } from '@/lib/voice-ai/policy-registry';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/policies
+ *
+ * Lists every screening policy version (name, version, hash, source).
+ * Public — the prompt text is served by /api/policies/[name]/[version].
+ */
+export async function GET() {
+  const policies = await listPolicies();
+  return NextResponse.json({ total: policies.length, policies });
+}
+
+/**
+ * POST /api/policies  (admin)
+ *
+ * Publishes a new immutable policy version.
+ * Body: { name, prompt, version?, description? } — version defaults to latest + 1.
+ */
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  let body: { name?: unknown; prompt?: unknown; version?: unknown; description?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (typeof body.name !== 'string' || typeof body.prompt !== 'string') {
+    return NextResponse.json({ error: '`name` and `prompt` are required strings' }, { status: 400 });
+  }
+
+  try {
+    const policy = await publishPolicy({
+      name: body.name,
+      prompt: body.prompt,
+      version: typeof body.version === 'number' ? body.version : undefined,
+      description: typeof body.description === 'string' ? body.description : undefined,
+    });
+    const { prompt: _prompt, ...summary } = policy;
+    return NextResponse.json(summary, { status: 201 });
+  } catch (error) {
+    if (error instanceof PolicyRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { clearCallerReputation, getCallerReputation } from '@/lib/reputation';
+import { decodeCallerParam, resolveCallerHashes } from '@/lib/caller-hash';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ caller: string }> };
+
+/**
+ * GET /api/reputation/[caller]  (admin)
+ *
+ * Past screening outcomes for one caller.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const caller = decodeCallerParam((await params).caller);
+  if (!caller) {
+    return NextResponse.json({ error: 'Malformed caller' }, { status: 400 });
+  }
+
+  const reputation = await getCallerReputation(resolveCallerHashes(caller));
+  if (!reputation) {
+    return NextResponse.json({ error: 'No history for this caller' }, { status: 404 });
+  }
+  return NextResponse.json(reputation);
+}
+
+/**
+ * DELETE /api/reputation/[caller]  (admin)
+ *
+ * Forget a caller's history — e.g. a legitimate caller that got auto-rejected.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const caller = decodeCallerParam((await params).caller);
+  if (!caller) {
+    return NextResponse.json({ error: 'Malformed caller' }, { status: 400 });
+  }
+
+  const callerHashes = resolveCallerHashes(caller);
+  const deleted = await clearCallerReputation(callerHashes);
+  return NextResponse.json({ callerHash: callerHashes[0], deleted });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { retentionConfig } from '@/lib/config';
+import { purgeExpiredCallData } from '@/lib/retention';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/retention/purge  (admin)
+ *
+ * Run the retention purge now — for a scheduler when no instance stays up
+ * long enough for the built-in timer.
+ */
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const purged = await purgeExpiredCallData();
+  if (!purged) {
+    return NextResponse.json({ error: 'A purge is already running' }, { status: 409 });
+  }
+
+  const { transcriptDays, audioDays, summaryDays, callerHashDays } = retentionConfig;
+  return NextResponse.json({
+    retentionDays: { transcript: transcriptDays, audio: audioDays, summary: summaryDays, callerHash: callerHashDays },
+    purged,
+  });
+}
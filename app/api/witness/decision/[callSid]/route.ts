@@ -1,6 +1,6 @@
-import crypto from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { getDecisionForProof } from '@/lib/witness/decision-store';
+import { buildDecisionResponse } from '@/lib/witness/decision-response';
 
 /**
  * GET /api/witness/decision/[callSid]
@@ -10,6 +10,14 @@ import { getDecisionForProof } from '@/lib/witness/decision-store';
  *
  * vlayer TLSNotary proves via MPC that this server returned this exact JSON
  * response over TLS — creating a cryptographic attestation of the decision.
+ *
+ * The response is also signed with the server's decision key (`signature`,
+ * keys at /.well-known/vericall-decision-keys.json) — a weaker attestation
+ * that exists even when no Web Proof is taken.
+ *
+ * The transcript itself is not served: `transcriptHash` is a salted
+ * commitment, and the owner discloses the text (or single turns) through
+ * the authenticated /api/witness/transcript/[callSid] reveal endpoint.
  */
 export async function GET(
   _request: NextRequest,
@@ -25,28 +33,6 @@ export async function GET(
     );
   }
 
-  // Compute transcript hash (SHA-256) — only the hash is proven via ZK,
-  // not the full transcript text, preserving privacy while enabling verification.
-  const transcriptHash = crypto
-    .createHash('sha256')
-    .update(record.transcript)
-    .digest('hex');
-
-  // Return clean JSON that vlayer will attest via TLSNotary.
-  // JMESPath extracts: ["decision", "reason", "systemPromptHash", "transcriptHash", "sourceCodeCommit"]
-  return NextResponse.json({
-    service: 'VeriCall',
-    version: '1.1',
-    callSid: record.callSid,
-    decision: record.decision,
-    reason: record.reason,
-    transcript: record.transcript,
-    systemPromptHash: record.systemPromptHash,
-    transcriptHash,
-    sourceCodeCommit: record.sourceCodeCommit,
-    sourceCodeUrl: `https://github.com/rtree/veriCall/tree/${record.sourceCodeCommit}`,
-    callerHashShort: record.callerHashShort,
-    timestamp: record.timestamp,
-    conversationTurns: record.conversationTurns,
-  });
+  // Return clean JSON that vlayer will attest via TLSNotary
+  return NextResponse.json(await buildDecisionResponse(record));
 }
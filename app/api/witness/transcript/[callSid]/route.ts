@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getCallerDisclosure, getTranscriptSecret } from '@/lib/witness/decision-store';
+import { revealTranscript } from '@/lib/witness/transcript-commitment';
+import { getByCallSid } from '@/lib/witness/pipeline';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/witness/transcript/[callSid]  (admin)
+ *
+ * Selective reveal of a committed transcript. The owner hands the response
+ * to a third party, who recomputes the turn commitments and transcriptHash
+ * (verifyTranscriptReveal) and compares it with the on-chain journal.
+ *
+ * Query: ?turns=0,2 reveals those turns only (default: every turn).
+ *
+ * Caller details and voicemail are not in the public Decision API — the
+ * owner discloses them here too (`caller` / `voicemail`, null if none).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ callSid: string }> },
+) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { callSid } = await params;
+
+  let indices: number[] | undefined;
+  const turnsParam = request.nextUrl.searchParams.get('turns');
+  if (turnsParam) {
+    indices = turnsParam.split(',').map((t) => Number(t.trim()));
+    if (indices.some((i) => !Number.isInteger(i) || i < 0)) {
+      return NextResponse.json({ error: '`turns` must be a comma-separated list of turn indices' }, { status: 400 });
+    }
+  }
+
+  const [secret, disclosure] = await Promise.all([
+    getTranscriptSecret(callSid),
+    getCallerDisclosure(callSid),
+  ]);
+  if (!secret && !disclosure) {
+    return NextResponse.json(
+      { error: 'No salted transcript commitment or caller details for this call' },
+      { status: 404 },
+    );
+  }
+
+  const witness = await getByCallSid(callSid);
+
+  return NextResponse.json({
+    callSid,
+    ...(secret && revealTranscript(secret.salt, secret.turns, indices)),
+    turnCount: secret?.turns.length ?? 0,
+    caller: disclosure?.caller ?? null,
+    voicemail: disclosure?.voicemail ?? null,
+    witnessId: witness?.id ?? null,
+    onChain: witness?.onChain ?? null,
+  });
+}
@@ -13,6 +13,7 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import Link from 'next/link';
 import { createPublicClient, http, keccak256, sha256, parseAbiItem } from 'viem';
 import { baseSepolia } from 'viem/chains';
+import { decodeJournal } from '@/lib/verification';
 
 // ═══════════════════════════════════════════════════════════════
 // Types
@@ -73,7 +74,6 @@ const REGISTRY_ABI = [
   { type: 'function', name: 'verifier', inputs: [], outputs: [{ name: '', type: 'address' }], stateMutability: 'view' },
   { type: 'function', name: 'callIds', inputs: [{ name: '', type: 'uint256' }], outputs: [{ name: '', type: 'bytes32' }], stateMutability: 'view' },
   { type: 'function', name: 'getRecord', inputs: [{ name: 'callId', type: 'bytes32' }], outputs: [{ name: '', type: 'tuple', components: [{ name: 'decision', type: 'uint8' }, { name: 'reason', type: 'string' }, { name: 'journalHash', type: 'bytes32' }, { name: 'zkProofSeal', type: 'bytes' }, { name: 'journalDataAbi', type: 'bytes' }, { name: 'sourceUrl', type: 'string' }, { name: 'timestamp', type: 'uint256' }, { name: 'submitter', type: 'address' }, { name: 'verified', type: 'bool' }] }], stateMutability: 'view' },
-  { type: 'function', name: 'getProvenData', inputs: [{ name: 'callId', type: 'bytes32' }], outputs: [{ name: 'notaryKeyFingerprint', type: 'bytes32' }, { name: 'method', type: 'string' }, { name: 'url', type: 'string' }, { name: 'proofTimestamp', type: 'uint256' }, { name: 'queriesHash', type: 'bytes32' }, { name: 'provenDecision', type: 'string' }, { name: 'provenReason', type: 'string' }, { name: 'provenSystemPromptHash', type: 'string' }, { name: 'provenTranscriptHash', type: 'string' }, { name: 'provenSourceCodeCommit', type: 'string' }], stateMutability: 'view' },
   { type: 'function', name: 'verifyJournal', inputs: [{ name: 'callId', type: 'bytes32' }, { name: 'journalData', type: 'bytes' }], outputs: [{ name: '', type: 'bool' }], stateMutability: 'view' },
 ] as const;
 
@@ -202,13 +202,18 @@ function useDemo() {
             updated.logs = [...session.logs, makeEntry('🧮', 'ZK Proof', `Compressed (RISC Zero → Groth16, seal: ${data.sealHash})`, '#06b6d4', 'proof')];
             break;
 
+          case 'witness:batched':
+            updated.logs = [...session.logs, makeEntry('🌳', 'Batch', `Queued for Merkle batch anchoring (leaf ${String(data.leaf).slice(0, 10)}…)`, '#06b6d4', 'proof')];
+            break;
+
           case 'witness:on-chain': {
             const txHash = String(data.txHash ?? '');
             const blockNum = Number(data.blockNumber ?? 0);
+            const batchNote = data.batchRoot ? `  batch: leaf ${data.leafIndex}/${data.batchSize}` : '';
             updated.lastTxHash = txHash;
             updated.lastBlockNumber = blockNum;
             updated.phase = 'complete';
-            updated.logs = [...session.logs, makeEntry('⛓️', 'ON-CHAIN', `TX: ${txHash.slice(0, 10)}…${txHash.slice(-8)}  block: ${blockNum}`, '#22c55e', 'complete', txHash ? `${BASESCAN}/tx/${txHash}` : undefined)];
+            updated.logs = [...session.logs, makeEntry('⛓️', 'ON-CHAIN', `TX: ${txHash.slice(0, 10)}…${txHash.slice(-8)}  block: ${blockNum}${batchNote}`, '#22c55e', 'complete', txHash ? `${BASESCAN}/tx/${txHash}` : undefined)];
             break;
           }
 
@@ -217,6 +222,10 @@ function useDemo() {
             updated.logs = [...session.logs, makeEntry('❌', 'Failed', String(data.error), '#ef4444', 'error')];
             break;
 
+          case 'call:transfer':
+            updated.logs = [...session.logs, makeEntry('📲', 'Transfer', `Putting the caller through${data.whisper ? ' (whisper summary)' : ''}`, '#22c55e', 'decision')];
+            break;
+
           case 'call:end':
             if (!data.decision) {
               updated.logs = [...session.logs, makeEntry('📞', 'Hangup', 'Call ended without decision', '#888', 'call')];
@@ -487,14 +496,16 @@ export default function DemoPage() {
       let provenUrl = '';
       let notaryFP = '';
       let provenMethod = '';
+      let provenAudioHash = '';
       try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const pd = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'getProvenData', args: [callId] })) as any;
-        notaryFP = pd[0] as string;
-        provenMethod = pd[1] as string;
-        provenUrl = pd[2] as string;
-        provenDecision = pd[5] as string;
-        provenReason = pd[6] as string;
+        const pd = decodeJournal(record.journalDataAbi);
+        if (!pd) throw new Error('journal not decodable');
+        notaryFP = pd.notaryKeyFingerprint;
+        provenMethod = pd.method;
+        provenUrl = pd.url;
+        provenDecision = pd.provenDecision;
+        provenReason = pd.provenReason;
+        provenAudioHash = pd.provenAudioHash;
         const notaryNonZero = notaryFP !== '0x' + '0'.repeat(64);
         provenOk = notaryNonZero && provenMethod === 'GET' && provenUrl.length > 0 && provenDecision.length > 0 && provenReason.length > 0;
       } catch { /* */ }
@@ -504,6 +515,7 @@ export default function DemoPage() {
       if (provenUrl) sub(`URL: ${provenUrl}`);
       if (provenDecision) sub(`Proven decision: ${provenDecision}`);
       if (provenReason) sub(`Proven reason: "${provenReason.slice(0, 120)}${provenReason.length > 120 ? '…' : ''}"`);
+      if (provenAudioHash) sub(`Proven audio hash: ${provenAudioHash.slice(0, 14)}…${provenAudioHash.slice(-8)}`);
       await wait(150);
 
       // V5b: Decision consistency — proven data vs on-chain record
@@ -541,14 +553,9 @@ export default function DemoPage() {
       await wait(120);
 
       // V8: GitHub Code Attestation — source code commit
-      let sourceCommitOk = false;
-      let sourceCommit = '';
-      try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const pd = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'getProvenData', args: [callId] })) as any;
-        sourceCommit = (pd[9] as string) || '';
-        sourceCommitOk = /^[0-9a-f]{7,40}$/i.test(sourceCommit);
-      } catch { /* V3 contracts won't have this field */ }
+      // V3 journals (9 fields) have no commit
+      const sourceCommit = decodeJournal(record.journalDataAbi)?.provenSourceCodeCommit || '';
+      const sourceCommitOk = /^[0-9a-f]{7,40}$/i.test(sourceCommit);
       sourceCommitOk
         ? ok('V8', `GitHub Code Attestation — source code commit proven on-chain`)
         : ng('V8', 'Source code commit not found or invalid');
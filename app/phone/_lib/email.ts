@@ -5,7 +5,6 @@
 import sgMail from '@sendgrid/mail';
 
 const SENDGRID_API_KEY = process.env.SENDGRID_API_KEY || '';
-const NOTIFICATION_EMAIL = process.env.NOTIFICATION_EMAIL || '';
 const FROM_EMAIL = process.env.FROM_EMAIL || 'noreply@vericall.app';
 
 if (SENDGRID_API_KEY) {
@@ -19,6 +18,8 @@ export interface CallNotification {
   action: 'forward' | 'reject' | 'voicemail' | 'ai_screen';
   reason: string;
   timestamp: Date;
+  /** テナントの通知先 */
+  recipients: string[];
 }
 
 export async function sendCallNotification(notification: CallNotification): Promise<boolean> {
@@ -27,8 +28,8 @@ export async function sendCallNotification(notification: CallNotification): Prom
     return false;
   }
 
-  if (!NOTIFICATION_EMAIL) {
-    console.log('⚠️ NOTIFICATION_EMAIL not set, skipping email notification');
+  if (notification.recipients.length === 0) {
+    console.log('⚠️ No notification email for this tenant, skipping email notification');
     return false;
   }
 
@@ -98,16 +99,113 @@ Call ID: ${notification.callId}
 
   try {
     await sgMail.send({
-      to: NOTIFICATION_EMAIL,
+      to: notification.recipients,
       from: FROM_EMAIL,
       subject,
       text,
       html,
     });
-    console.log(`📧 Email sent to ${NOTIFICATION_EMAIL}`);
+    console.log(`📧 Email sent to ${notification.recipients.join(', ')}`);
     return true;
   } catch (error) {
     console.error('❌ Failed to send email:', error);
     return false;
   }
 }
+
+export interface VoicemailNotification {
+  callId: string;
+  from: string;
+  to: string;
+  recordingUrl: string;
+  durationSec?: number;
+  /** 文字起こし（失敗時は undefined） */
+  transcript?: string;
+  /** テナントの通知先 */
+  recipients: string[];
+}
+
+export async function sendVoicemailNotification(notification: VoicemailNotification): Promise<boolean> {
+  if (!SENDGRID_API_KEY) {
+    console.log('⚠️ SENDGRID_API_KEY not set, skipping email notification');
+    return false;
+  }
+
+  if (notification.recipients.length === 0) {
+    console.log('⚠️ No notification email for this tenant, skipping email notification');
+    return false;
+  }
+
+  const subject = `📝 ☎️VeriCall: ${notification.from} から留守電が届きました`;
+  const transcriptText = notification.transcript || '（文字起こしできませんでした。録音をお聞きください）';
+  const durationText = notification.durationSec !== undefined ? `${notification.durationSec}秒` : '不明';
+
+  const html = `
+    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">📝 留守電</h2>
+
+      <div style="background: #e3f2fd; padding: 15px; border-radius: 8px; margin-bottom: 20px; border-left: 4px solid #2196F3;">
+        <strong style="color: #1976D2;">メッセージ:</strong><br/>
+        <span style="color: #333;">${escapeHtml(transcriptText)}</span>
+      </div>
+
+      <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+        <tr>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; color: #666;">発信元</td>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; font-weight: bold;">${notification.from}</td>
+        </tr>
+        <tr>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; color: #666;">着信先</td>
+          <td style="padding: 10px; border-bottom: 1px solid #eee;">${notification.to}</td>
+        </tr>
+        <tr>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; color: #666;">録音</td>
+          <td style="padding: 10px; border-bottom: 1px solid #eee;"><a href="${notification.recordingUrl}">再生（${durationText}）</a></td>
+        </tr>
+        <tr>
+          <td style="padding: 10px; color: #666;">Call ID</td>
+          <td style="padding: 10px; font-family: monospace; font-size: 12px;">${notification.callId}</td>
+        </tr>
+      </table>
+
+      <p style="color: #999; font-size: 12px;">
+        Powered by ☎️VeriCall
+      </p>
+    </div>
+  `;
+
+  const text = `
+☎️VeriCall 留守電
+
+メッセージ: ${transcriptText}
+発信元: ${notification.from}
+着信先: ${notification.to}
+録音: ${notification.recordingUrl}（${durationText}）
+Call ID: ${notification.callId}
+  `.trim();
+
+  try {
+    await sgMail.send({
+      to: notification.recipients,
+      from: FROM_EMAIL,
+      subject,
+      text,
+      html,
+    });
+    console.log(`📧 Voicemail email sent to ${notification.recipients.join(', ')}`);
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to send voicemail email:', error);
+    return false;
+  }
+}
+
+/** 文字起こしは発信者の発話そのもの — HTMLに埋め込む前にエスケープ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
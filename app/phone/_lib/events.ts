@@ -1,6 +1,9 @@
+import type { Tenant } from '@/lib/tenants';
+import { maskPhone } from '@/lib/caller-hash';
+import { attachVoicemailToDecision, type VoicemailRecord } from '@/lib/witness/decision-store';
 import { CallRecord, Decision, CallLog } from './types';
-import { saveLog } from './store';
-import { sendCallNotification } from './email';
+import { saveLog, attachVoicemail } from './store';
+import { sendCallNotification, sendVoicemailNotification } from './email';
 
 /**
  * Phone Events
@@ -9,11 +12,11 @@ import { sendCallNotification } from './email';
 
 /** 着信時 */
 export async function onIncoming(call: CallRecord): Promise<void> {
-  console.log(`📞 Incoming: ${call.from} → ${call.to}`);
+  console.log(`📞 Incoming: ${maskPhone(call.from)} → ${call.to}`);
 }
 
 /** 判断確定時 */
-export async function onDecisionMade(call: CallRecord, decision: Decision): Promise<void> {
+export async function onDecisionMade(call: CallRecord, decision: Decision, tenant: Tenant): Promise<void> {
   // ログ保存
   const log: CallLog = { call, decision };
   saveLog(log);
@@ -30,6 +33,7 @@ export async function onDecisionMade(call: CallRecord, decision: Decision): Prom
       action: decision.action,
       reason: decision.reason,
       timestamp: new Date(),
+      recipients: tenant.notifications.email,
     }).catch((err) => console.error('Email notification error:', err));
   }
 
@@ -46,3 +50,40 @@ export async function onForwarded(callSid: string, duration: number): Promise<vo
 export async function onCompleted(callSid: string, status: string): Promise<void> {
   console.log(`📴 Completed: ${callSid} - ${status}`);
 }
+
+/**
+ * 留守電の録音・文字起こし受信時
+ * 通話ログに添付し、AIスクリーニング済みの通話（ACCEPT転送の不在など）は
+ * 判断記録にも残す → Decision API / Witness パイプラインから参照できる
+ */
+export async function onVoicemail(callSid: string, update: VoicemailRecord): Promise<VoicemailRecord> {
+  const voicemail = attachVoicemail(callSid, update);
+  console.log(`📝 Voicemail: ${callSid} (${voicemail.durationSec ?? '?'}s, transcript: ${voicemail.transcriptionStatus || 'pending'})`);
+
+  try {
+    if (await attachVoicemailToDecision(callSid, update)) {
+      console.log(`📝 Voicemail attached to decision record: ${callSid}`);
+    }
+  } catch (error) {
+    console.error(`📝 Voicemail: decision record update failed for ${callSid}:`, error);
+  }
+
+  return voicemail;
+}
+
+/** 文字起こし完了（または失敗）時にオーナーへ通知 */
+export async function onVoicemailTranscribed(
+  call: { callSid: string; from: string; to: string },
+  voicemail: VoicemailRecord,
+  tenant: Tenant,
+): Promise<void> {
+  await sendVoicemailNotification({
+    callId: call.callSid,
+    from: call.from,
+    to: call.to,
+    recordingUrl: voicemail.recordingUrl,
+    durationSec: voicemail.durationSec,
+    transcript: voicemail.transcript,
+    recipients: tenant.notifications.email,
+  });
+}
@@ -1,42 +1,68 @@
+import type { Tenant } from '@/lib/tenants';
+import { shouldAutoReject, type CallerReputation } from '@/lib/reputation';
+import { evaluateRules, matchesNumberPattern, type RoutingRule } from '@/lib/routing-rules';
+import { maskPhone } from '@/lib/caller-hash';
 import { CallRecord, Decision } from './types';
 
 /**
  * Call Router
  * 着信を誰に転送するか判断するロジック
- * MVP: ホワイトリスト以外は全てAIスクリーニング
+ *
+ * 評価順（最初に該当したもので決定）:
+ *   1. ホワイトリスト → 転送
+ *   2. ブロックリスト → 拒否
+ *   3. テナントのルーティングルール（国・市外局番・時間帯・非通知・着信頻度）
+ *   4. 過去に繰り返しBLOCKされた発信者 → 自動拒否
+ *   5. それ以外 → AIスクリーニング
+ *
+ * 設定は着信番号（call.to）のテナントごと
+ * （テナント設定は毎回読み直す — Cloud Runでシークレット更新を即反映するため）
  */
 
-/** 
- * ホワイトリストを毎回読み直す（Cloud Runでシークレット更新を即反映するため）
- */
-function getWhitelist(): string[] {
-  return (process.env.WHITELIST_NUMBERS || '').split(',').filter(Boolean);
-}
-
-function getDefaultDestination(): string {
-  return process.env.DESTINATION_PHONE_NUMBER || '';
-}
-
-/** 着信を評価して判断を返す */
-export function decide(call: CallRecord): Decision {
+/** 着信を評価して判断を返す（reputation = 発信者の過去の判断履歴） */
+export function decide(
+  call: CallRecord,
+  tenant: Tenant,
+  reputation: CallerReputation | null = null,
+  now = new Date(),
+): Decision {
   const { from } = call;
-  const whitelist = getWhitelist();
-  const defaultDestination = getDefaultDestination();
+  const { whitelist } = tenant;
 
   // ホワイトリストチェック
-  const isWhitelisted = whitelist.length > 0 && whitelist.some(pattern => {
-    if (pattern.endsWith('*')) {
-      return from.startsWith(pattern.slice(0, -1));
-    }
-    return from === pattern;
-  });
+  const isWhitelisted = whitelist.some(pattern => matchesNumberPattern(from, pattern));
 
   if (isWhitelisted) {
     // ホワイトリスト登録済み → 即転送
     return {
       action: 'forward',
       reason: `Caller ${maskPhone(from)} is in whitelist`,
-      forwardTo: defaultDestination,
+      forwardTo: tenant.forwardTo,
+      confidence: 1.0,
+    };
+  }
+
+  // ブロックリスト + ルーティングルール（理由はルールごとに説明）
+  const blocklist: RoutingRule[] = tenant.blocklist.length > 0
+    ? [{ id: 'blocklist', type: 'blocklist', numbers: tenant.blocklist, action: 'reject' }]
+    : [];
+  const match = evaluateRules(blocklist, call, now) ?? evaluateRules(tenant.rules, call, now);
+  if (match) {
+    return {
+      action: match.action,
+      reason: match.reason,
+      rule: match.ruleId,
+      forwardTo: match.action === 'forward' ? tenant.forwardTo : undefined,
+      confidence: 1.0,
+    };
+  }
+
+  // 常習スパム → 自動拒否（STT/LLMを使わない）
+  if (shouldAutoReject(reputation)) {
+    return {
+      action: 'reject',
+      reason: `Caller ${maskPhone(from)} was blocked ${reputation!.blockCount} times before - auto-rejected`,
+      rule: 'reputation',
       confidence: 1.0,
     };
   }
@@ -48,9 +74,3 @@ export function decide(call: CallRecord): Decision {
     confidence: 1.0,
   };
 }
-
-/** 電話番号をマスク */
-function maskPhone(phone: string): string {
-  if (phone.length < 8) return '***';
-  return phone.slice(0, 4) + '****' + phone.slice(-2);
-}
@@ -1,3 +1,4 @@
+import type { VoicemailRecord } from '@/lib/witness/decision-store';
 import { CallLog } from './types';
 
 /**
@@ -23,6 +24,18 @@ export function getAllLogs(): CallLog[] {
   return Array.from(logs.values());
 }
 
+/** 発信者のログを削除（消去リクエスト用）。削除件数を返す */
+export function deleteLogsFrom(from: string): number {
+  let deleted = 0;
+  for (const [callSid, log] of logs) {
+    if (log.call.from === from) {
+      logs.delete(callSid);
+      deleted++;
+    }
+  }
+  return deleted;
+}
+
 /** ログにWitness IDを追加（Vlayer連携用） */
 export function attachWitnessId(callSid: string, witnessId: string): void {
   const log = logs.get(callSid);
@@ -31,3 +44,24 @@ export function attachWitnessId(callSid: string, witnessId: string): void {
     logs.set(callSid, log);
   }
 }
+
+/**
+ * ログに留守電を追加（録音・文字起こしは別々のWebhookで届くのでマージ）
+ * ログがない通話（別インスタンスで着信など）はマージ結果だけ返す
+ */
+export function attachVoicemail(callSid: string, update: VoicemailRecord): VoicemailRecord {
+  const log = logs.get(callSid);
+  const current = log?.voicemail;
+  const voicemail: VoicemailRecord = {
+    recordingSid: update.recordingSid || current?.recordingSid || '',
+    recordingUrl: update.recordingUrl || current?.recordingUrl || '',
+    durationSec: update.durationSec ?? current?.durationSec,
+    transcript: update.transcript ?? current?.transcript,
+    transcriptionStatus: update.transcriptionStatus ?? current?.transcriptionStatus,
+    updatedAt: update.updatedAt,
+  };
+  if (log) {
+    log.voicemail = voicemail;
+  }
+  return voicemail;
+}
@@ -1,4 +1,6 @@
 import { twilioConfig, forwardingConfig, serverConfig } from '@/lib/config';
+import type { Tenant } from '@/lib/tenants';
+import { DEFAULT_LANGUAGE, getLanguageProfile, type LanguagePhrases } from '@/lib/voice-ai/languages';
 import { createVoiceResponse } from './twilio';
 import { Decision } from './types';
 
@@ -8,20 +10,45 @@ import { Decision } from './types';
  */
 
 type VoiceResponse = ReturnType<typeof createVoiceResponse>;
+type SayAttributes = Parameters<VoiceResponse['say']>[0];
+
+/** 通話情報（tenant = 着信番号のテナント） */
+interface CallInfo {
+  from?: string;
+  to?: string;
+  callSid?: string;
+  host?: string;
+  tenant?: Tenant;
+}
+
+/** 任意の文をその言語の音声で読み上げ */
+function sayText(twiml: VoiceResponse, text: string, language?: string) {
+  const profile = getLanguageProfile(language);
+  const attributes = {
+    voice: profile.twilioVoice as SayAttributes['voice'],
+    language: profile.code as SayAttributes['language'],
+  };
+  twiml.say(attributes, text);
+}
+
+/** テナントの言語で読み上げ（音声もその言語のもの） */
+function say(twiml: VoiceResponse, phrase: keyof LanguagePhrases, language?: string) {
+  sayText(twiml, getLanguageProfile(language).phrases[phrase], language);
+}
 
 /** 判断に応じたTwiMLを生成 */
-export function buildResponse(decision: Decision, callInfo?: { from?: string; callSid?: string; host?: string }): string {
+export function buildResponse(decision: Decision, callInfo?: CallInfo): string {
   const twiml = createVoiceResponse();
 
   switch (decision.action) {
     case 'forward':
-      sayAndDial(twiml, decision.forwardTo!);
+      sayAndDial(twiml, decision.forwardTo!, callInfo);
       break;
     case 'reject':
-      sayAndHangup(twiml);
+      sayAndHangup(twiml, callInfo);
       break;
     case 'voicemail':
-      sayAndRecord(twiml);
+      sayAndRecord(twiml, callInfo);
       break;
     case 'ai_screen':
       connectToAIStream(twiml, callInfo);
@@ -32,7 +59,7 @@ export function buildResponse(decision: Decision, callInfo?: { from?: string; ca
 }
 
 /** AI音声ストリームに接続 */
-function connectToAIStream(twiml: VoiceResponse, callInfo?: { from?: string; callSid?: string; host?: string }) {
+function connectToAIStream(twiml: VoiceResponse, callInfo?: CallInfo) {
   // Connect to WebSocket for AI screening (use host from request)
   let host = callInfo?.host;
   if (!host && serverConfig.baseUrl) {
@@ -44,7 +71,7 @@ function connectToAIStream(twiml: VoiceResponse, callInfo?: { from?: string; cal
   }
   if (!host) {
     console.error('[TwiML] No host available for WebSocket URL');
-    twiml.say({ voice: 'Polly.Amy', language: 'en-US' }, 'Sorry, there was a technical issue. Please try again later.');
+    say(twiml, 'technicalIssue', callInfo?.tenant?.language);
     twiml.hangup();
     return;
   }
@@ -59,54 +86,95 @@ function connectToAIStream(twiml: VoiceResponse, callInfo?: { from?: string; cal
   if (callInfo?.from) {
     stream.parameter({ name: 'From', value: callInfo.from });
   }
+  if (callInfo?.to) {
+    stream.parameter({ name: 'To', value: callInfo.to });
+  }
   if (callInfo?.callSid) {
     stream.parameter({ name: 'CallSid', value: callInfo.callSid });
   }
 }
 
-/** 転送 */
-function sayAndDial(twiml: VoiceResponse, destination: string) {
-  twiml.say(
-    { voice: 'Polly.Amy', language: 'en-US' },
-    'Please hold while we connect your call.'
-  );
+/** 転送（発信者番号はテナントの着信番号） */
+function sayAndDial(twiml: VoiceResponse, destination: string, callInfo?: CallInfo) {
+  say(twiml, 'connecting', callInfo?.tenant?.language);
 
   const dial = twiml.dial({
-    callerId: twilioConfig.phoneNumber,
-    timeout: forwardingConfig.timeout,
+    callerId: callInfo?.to || twilioConfig.phoneNumber,
+    timeout: callInfo?.tenant?.forwardTimeout ?? forwardingConfig.timeout,
     action: `${serverConfig.baseUrl}/phone/status`,
   });
   dial.number(destination);
 }
 
 /** 拒否 */
-function sayAndHangup(twiml: VoiceResponse) {
-  twiml.say(
-    { voice: 'Polly.Amy', language: 'en-US' },
-    'Sorry, we are unable to take your call at this time. Goodbye.'
-  );
+function sayAndHangup(twiml: VoiceResponse, callInfo?: CallInfo) {
+  say(twiml, 'rejected', callInfo?.tenant?.language);
   twiml.hangup();
 }
 
-/** 留守電 */
-function sayAndRecord(twiml: VoiceResponse) {
-  twiml.say(
-    { voice: 'Polly.Amy', language: 'en-US' },
-    'No one is available. Please leave a message after the beep.'
-  );
+/**
+ * 録音（終了後は /phone/recording、文字起こしは /phone/transcription へ）
+ * action がないと Twilio は現在のURL（/phone/incoming）を再リクエストしてしまう
+ */
+function recordVoicemail(twiml: VoiceResponse) {
   twiml.record({
     maxLength: 120,
     transcribe: true,
+    action: `${serverConfig.baseUrl}/phone/recording`,
+    transcribeCallback: `${serverConfig.baseUrl}/phone/transcription`,
   });
 }
 
+/** 留守電 */
+function sayAndRecord(twiml: VoiceResponse, callInfo?: CallInfo) {
+  say(twiml, 'voicemail', callInfo?.tenant?.language);
+  recordVoicemail(twiml);
+}
+
 /** 転送失敗時のフォールバック */
-export function buildVoicemailFallback(): string {
+export function buildVoicemailFallback(language?: string): string {
+  const twiml = createVoiceResponse();
+  say(twiml, 'unavailable', language);
+  recordVoicemail(twiml);
+  return twiml.toString();
+}
+
+/** 録音後に切断 */
+export function buildHangup(): string {
   const twiml = createVoiceResponse();
-  twiml.say(
-    { voice: 'Polly.Amy', language: 'en-US' },
-    'The person you are trying to reach is unavailable. Please leave a message.'
-  );
-  twiml.record({ maxLength: 120, transcribe: true });
+  twiml.hangup();
+  return twiml.toString();
+}
+
+/**
+ * ACCEPT後の転送（AIが「おつなぎします」と案内済みなので<Say>なし）
+ * whisper有効時は、つながる前に転送先へ要約を読み上げる
+ */
+export function buildTransfer(tenant: Tenant, callInfo: { to?: string; callSid?: string }): string {
+  if (!tenant.forwardTo) {
+    return buildVoicemailFallback(tenant.language);
+  }
+
+  const twiml = createVoiceResponse();
+  const dial = twiml.dial({
+    callerId: callInfo.to || twilioConfig.phoneNumber,
+    timeout: tenant.forwardTimeout ?? forwardingConfig.timeout,
+    action: `${serverConfig.baseUrl}/phone/status`,
+  });
+  const whisperUrl = tenant.whisper && callInfo.callSid
+    ? `${serverConfig.baseUrl}/phone/whisper?callSid=${encodeURIComponent(callInfo.callSid)}`
+    : undefined;
+  dial.number(whisperUrl ? { url: whisperUrl } : {}, tenant.forwardTo);
+  return twiml.toString();
+}
+
+/** 転送先（オーナー）にだけ聞こえる要約 */
+export function buildWhisper(summary: string | undefined, language?: string): string {
+  const twiml = createVoiceResponse();
+  say(twiml, 'whisper', language);
+  // 要約は英語で生成される（generateSummary）
+  if (summary) {
+    sayText(twiml, summary, DEFAULT_LANGUAGE);
+  }
   return twiml.toString();
 }
@@ -1,3 +1,5 @@
+import type { VoicemailRecord } from '@/lib/witness/decision-store';
+
 /**
  * Phone Types
  * 電話関連の型定義
@@ -8,6 +10,8 @@ export interface CallRecord {
   callSid: string;
   from: string;
   to: string;
+  /** 着信番号を所有するテナント */
+  tenantId?: string;
   callerCity?: string;
   callerState?: string;
   callerCountry?: string;
@@ -22,6 +26,8 @@ export type DecisionAction = 'forward' | 'reject' | 'voicemail' | 'ai_screen';
 export interface Decision {
   action: DecisionAction;
   reason: string;
+  /** 判断したルールのID（ルール・ブロックリスト・reputation） */
+  rule?: string;
   forwardTo?: string;
   confidence: number;
 }
@@ -31,4 +37,6 @@ export interface CallLog {
   call: CallRecord;
   decision: Decision;
   witnessId?: string; // Vlayer連携用（後で使う）
+  /** 留守電（録音・文字起こし） */
+  voicemail?: VoicemailRecord;
 }
@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getTenantForNumber } from '@/lib/tenants';
+import { lookupCallerReputation, recordCallerOutcome } from '@/lib/reputation';
+import { recordCallAttempt } from '@/lib/routing-rules';
 import { CallRecord } from '../_lib/types';
 import { decide } from '../_lib/router';
 import { buildResponse } from '../_lib/twiml-builder';
@@ -12,11 +15,15 @@ export async function POST(request: NextRequest) {
   const formData = await request.formData();
   const body = Object.fromEntries(formData.entries()) as Record<string, string>;
 
+  // 着信番号からテナントを特定
+  const tenant = getTenantForNumber(body.To);
+
   // 通話情報を抽出
   const call: CallRecord = {
     callSid: body.CallSid || '',
     from: body.From || '',
     to: body.To || '',
+    tenantId: tenant.id,
     callerCity: body.CallerCity,
     callerState: body.CallerState,
     callerCountry: body.CallerCountry,
@@ -27,17 +34,34 @@ export async function POST(request: NextRequest) {
   // イベント発火
   await onIncoming(call);
 
+  // 着信頻度ルール用にカウント
+  recordCallAttempt(call.from);
+
+  // 発信者の過去の判断履歴（タイムアウト・DB障害時は null）
+  const reputation = await lookupCallerReputation(call.from);
+
   // ルーティング判断
-  const decision = decide(call);
+  const decision = decide(call, tenant, reputation);
+
+  // ルール・reputationによる拒否も履歴に残す（着信頻度の集計用）
+  if (decision.action === 'reject') {
+    recordCallerOutcome({
+      from: call.from,
+      callSid: call.callSid,
+      outcome: 'REJECT',
+      reason: decision.reason,
+      tenantId: tenant.id,
+    }).catch((err) => console.error('🧾 [Reputation] Record failed:', err));
+  }
 
   // イベント発火（Vlayer連携ポイント）
-  await onDecisionMade(call, decision);
+  await onDecisionMade(call, decision, tenant);
 
   // ホスト名を取得（WebSocket URL用）
   const host = request.headers.get('host') || request.headers.get('x-forwarded-host') || '';
 
   // TwiMLレスポンス生成
-  const twiml = buildResponse(decision, { from: call.from, callSid: call.callSid, host });
+  const twiml = buildResponse(decision, { from: call.from, to: call.to, callSid: call.callSid, host, tenant });
 
   return new NextResponse(twiml, {
     status: 200,
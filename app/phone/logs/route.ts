@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server';
 import { getAllLogs, getLog } from '../_lib/store';
 import { NextRequest } from 'next/server';
+import { CallLog } from '../_lib/types';
 
 /**
  * GET /phone/logs
- * 通話ログ一覧
+ * 通話ログ一覧（?tenant=ID でテナント別に絞り込み）
+ * 留守電（文字起こし・録音URL）は含めない — 管理者用の GET /phone/voicemail で取得
  */
 export async function GET(request: NextRequest) {
   const callSid = request.nextUrl.searchParams.get('callSid');
@@ -14,12 +16,21 @@ export async function GET(request: NextRequest) {
     if (!log) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
-    return NextResponse.json(log);
+    return NextResponse.json(withoutVoicemail(log));
   }
 
-  const logs = getAllLogs();
+  const tenantId = request.nextUrl.searchParams.get('tenant');
+  const logs = getAllLogs()
+    .filter((log) => !tenantId || log.call.tenantId === tenantId)
+    .map(withoutVoicemail);
   return NextResponse.json({
     total: logs.length,
     logs,
   });
 }
+
+function withoutVoicemail(log: CallLog): Omit<CallLog, 'voicemail'> & { hasVoicemail: boolean } {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { voicemail, ...rest } = log;
+  return { ...rest, hasVoicemail: voicemail !== undefined };
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildHangup } from '../_lib/twiml-builder';
+import { onVoicemail } from '../_lib/events';
+
+/**
+ * POST /phone/recording
+ * 留守電の録音完了（<Record action>）— 録音情報を保存して切断
+ */
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const body = Object.fromEntries(formData.entries()) as Record<string, string>;
+
+  // 何も話さずに切った場合は RecordingUrl がない
+  if (body.RecordingUrl) {
+    await onVoicemail(body.CallSid, {
+      recordingSid: body.RecordingSid || '',
+      recordingUrl: body.RecordingUrl,
+      durationSec: parseInt(body.RecordingDuration || '0', 10),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  return new NextResponse(buildHangup(), {
+    status: 200,
+    headers: { 'Content-Type': 'text/xml' },
+  });
+}
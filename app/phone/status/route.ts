@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getTenantForNumber } from '@/lib/tenants';
 import { buildVoicemailFallback } from '../_lib/twiml-builder';
 import { onForwarded, onCompleted } from '../_lib/events';
 
@@ -21,10 +22,10 @@ export async function POST(request: NextRequest) {
   }
   await onCompleted(callSid, callStatus);
 
-  // 転送失敗時は留守電へ
+  // 転送失敗時は留守電へ（テナントの言語で案内）
   let twiml = '';
   if (['no-answer', 'busy', 'failed'].includes(dialCallStatus)) {
-    twiml = buildVoicemailFallback();
+    twiml = buildVoicemailFallback(getTenantForNumber(body.To).language);
   }
 
   return new NextResponse(twiml || '<Response/>', {
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTenantForNumber } from '@/lib/tenants';
+import { getLog } from '../_lib/store';
+import { onVoicemail, onVoicemailTranscribed } from '../_lib/events';
+
+/**
+ * POST /phone/transcription
+ * 留守電の文字起こし（<Record transcribeCallback>）— 保存してオーナーへ通知
+ */
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const body = Object.fromEntries(formData.entries()) as Record<string, string>;
+
+  const callSid = body.CallSid;
+  const completed = body.TranscriptionStatus === 'completed';
+
+  const voicemail = await onVoicemail(callSid, {
+    recordingSid: body.RecordingSid || '',
+    recordingUrl: body.RecordingUrl || '',
+    transcript: completed ? body.TranscriptionText : undefined,
+    transcriptionStatus: body.TranscriptionStatus || 'failed',
+    updatedAt: new Date().toISOString(),
+  });
+
+  // 通話ログがあればそちらの番号・テナントを優先
+  const call = getLog(callSid)?.call;
+  const from = call?.from || body.From || '';
+  const to = call?.to || body.To || '';
+  await onVoicemailTranscribed({ callSid, from, to }, voicemail, getTenantForNumber(to));
+
+  return new NextResponse('<Response/>', {
+    status: 200,
+    headers: { 'Content-Type': 'text/xml' },
+  });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTenantForNumber } from '@/lib/tenants';
+import { buildTransfer } from '../_lib/twiml-builder';
+
+/**
+ * POST /phone/transfer
+ * ACCEPT判定後の転送TwiML（Voice AI SessionがREST APIで通話をここへリダイレクト）
+ */
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const body = Object.fromEntries(formData.entries()) as Record<string, string>;
+
+  // 着信番号からテナントを特定
+  const tenant = getTenantForNumber(body.To);
+  console.log(`📲 Transfer: ${body.CallSid} → ${tenant.forwardTo || '(no forwardTo, voicemail)'}`);
+
+  const twiml = buildTransfer(tenant, { to: body.To, callSid: body.CallSid });
+
+  return new NextResponse(twiml, {
+    status: 200,
+    headers: { 'Content-Type': 'text/xml' },
+  });
+}
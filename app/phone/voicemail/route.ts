@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getLog } from '../_lib/store';
+
+/**
+ * GET /phone/voicemail?callSid=
+ * 通話の留守電（録音URL・文字起こし）を返す（管理者のみ）
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const callSid = request.nextUrl.searchParams.get('callSid');
+  if (!callSid) {
+    return NextResponse.json({ error: 'callSid is required' }, { status: 400 });
+  }
+
+  const voicemail = getLog(callSid)?.voicemail;
+  if (!voicemail) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json({ callSid, voicemail });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTenantForNumber } from '@/lib/tenants';
+import { getDecisionForProof } from '@/lib/witness/decision-store';
+import { buildWhisper } from '../_lib/twiml-builder';
+
+/**
+ * POST /phone/whisper?callSid=CA...
+ * 転送先が応答した直後、通話をつなぐ前にオーナーへ要約を読み上げる
+ */
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const body = Object.fromEntries(formData.entries()) as Record<string, string>;
+  const callSid = request.nextUrl.searchParams.get('callSid') || '';
+
+  // 転送の発信者番号はテナントの着信番号（buildTransfer の callerId）
+  const tenant = getTenantForNumber(body.From);
+
+  // 要約が取れなくても転送は止めない
+  let summary: string | undefined;
+  try {
+    summary = (await getDecisionForProof(callSid))?.reason;
+  } catch (error) {
+    console.error(`📲 Whisper: decision lookup failed for ${callSid}:`, error);
+  }
+
+  return new NextResponse(buildWhisper(summary, tenant.language), {
+    status: 200,
+    headers: { 'Content-Type': 'text/xml' },
+  });
+}
@@ -6,12 +6,23 @@
  * This page runs verification checks ENTIRELY in the browser.
  * It connects directly to the Base Sepolia public RPC.
  * No VeriCall backend APIs are used for verification.
+ * (A batched call's inclusion proof is fetched from /witness/verify/[id],
+ * but only as input — each check is done against the chain. A server-signed
+ * decision is checked offline and shown apart, as a lower trust level.)
  *
  * Inspect source: browser DevTools → Sources → verify/page.tsx
  */
 
 import { useState } from 'react';
-import { useVerify, CONFIG, type Check, type RecordData } from './useVerify';
+import { CHECKS, RECORD_CHECK_IDS } from '@/lib/verification';
+import {
+  useVerify,
+  useInclusionVerify,
+  useSignedDecisionVerify,
+  CONFIG,
+  type Check,
+  type RecordData,
+} from './useVerify';
 
 /** Format hash as 0x656a...ba82 */
 function fmtHash(h: string) {
@@ -182,6 +193,11 @@ export default function VerifyPage() {
                         <span style={{ color: '#ccc', fontSize: '0.85rem' }}>
                           {rec.decisionLabel}
                         </span>
+                        {rec.amendments.length > 0 && (
+                          <span style={styles.amendedBadge}>
+                            amended ×{rec.amendments.length}
+                          </span>
+                        )}
                       </div>
                       <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
                         {rec.txHash && (
@@ -212,6 +228,12 @@ export default function VerifyPage() {
         );
       })()}
 
+      {/* ─── Batched Call ───────────────────────────────── */}
+      <InclusionPanel />
+
+      {/* ─── Server-Signed Decision (lower trust) ───────── */}
+      <SignedDecisionPanel />
+
       {/* ─── Trust Model + Reproduce ────────────────────── */}
       {state.phase === 'done' && (
         <>
@@ -229,14 +251,9 @@ export default function VerifyPage() {
               <div style={{ marginTop: '1rem' }}>
                 <strong>What each check proves:</strong>
                 <div style={styles.checkExplain}>
-                  <div><code>V1</code> ZK proof was verified by the on-chain verifier at registration time</div>
-                  <div><code>V2</code> Journal data has not been modified (keccak256 commitment)</div>
-                  <div><code>V3</code> Contract confirms journal integrity (on-chain verifyJournal)</div>
-                  <div><code>V4</code> Independent re-verification — calling verifier.verify() directly</div>
-                  <div><code>V5</code> TLSNotary HTTP metadata is well-formed and non-trivial</div>
-                  <div><code>V6</code> Registration transaction is findable on-chain</div>
-                  <div><code>V7</code> ProofVerified event confirms ZK verification happened</div>
-                  <div><code>V8</code> <strong>GitHub Code Attestation</strong> — git commit SHA proven on-chain, linking to auditable source code</div>
+                  {RECORD_CHECK_IDS.map(id => (
+                    <div key={id}><code>{id}</code> {CHECKS[id].proves}</div>
+                  ))}
                 </div>
               </div>
             </div>
@@ -366,45 +383,227 @@ function RecordDetail({ record }: { record: RecordData }) {
         )}
       </div>
 
+      {/* Amendment History */}
+      {record.amendments.length > 0 && (
+        <div style={styles.amendmentBox}>
+          <div style={{ fontSize: '0.8rem', fontWeight: 600, color: '#f59e0b', marginBottom: '0.4rem' }}>
+            Amendment history — the record above is unchanged
+          </div>
+          {record.amendments.map(a => (
+            <div key={a.index} style={{ fontSize: '0.8rem', padding: '0.3rem 0', borderTop: a.index > 0 ? '1px solid #1a1a1a' : 'none' }}>
+              <div>
+                <code style={{ color: '#888', marginRight: '0.4rem' }}>#{a.index}</code>
+                <span style={{ color: '#e0e0e0', fontWeight: 600, textTransform: 'uppercase' as const }}>{a.kind}</span>
+                {a.correctedDecisionLabel && (
+                  <span style={{ color: '#ccc' }}> {record.decisionLabel} → {a.correctedDecisionLabel}</span>
+                )}
+                <span style={{ color: '#aaa' }}> · filed by {a.filedBy} · {a.timestamp}</span>
+              </div>
+              <div style={{ color: '#ccc', fontStyle: 'italic' as const, paddingLeft: '1rem' }}>
+                &ldquo;{a.reason}&rdquo;
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* ZK Checks — single column */}
-      <div style={{ display: 'flex', flexDirection: 'column' as const, gap: '0.4rem' }}>
-        {record.checks.map(c => (
-          <div key={c.id} style={styles.zkCheckCell}>
-            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-              <div style={{ display: 'flex', flexDirection: 'column' as const, gap: '0.15rem' }}>
-                <span>
-                  <code style={{ color: '#888', fontSize: '0.75rem', marginRight: '0.4rem' }}>[{c.id}]</code>
-                  <span style={{ fontSize: '0.85rem', color: '#e0e0e0' }}>{c.label}</span>
+      <CheckList checks={record.checks} />
+    </div>
+  );
+}
+
+function CheckList({ checks }: { checks: Check[] }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column' as const, gap: '0.4rem' }}>
+      {checks.map(c => (
+        <div key={c.id} style={styles.zkCheckCell}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <div style={{ display: 'flex', flexDirection: 'column' as const, gap: '0.15rem' }}>
+              <span>
+                <code style={{ color: '#888', fontSize: '0.75rem', marginRight: '0.4rem' }}>[{c.id}]</code>
+                <span style={{ fontSize: '0.85rem', color: '#e0e0e0' }}>{c.label}</span>
+              </span>
+              {c.detail && (
+                c.detailLink
+                  ? <a href={c.detailLink} target="_blank" rel="noopener" style={{ color: '#aaa', fontSize: '0.75rem', paddingLeft: '1rem', textDecoration: 'none' }}>
+                      {c.detail} ↗
+                    </a>
+                  : <span style={{ color: '#aaa', fontSize: '0.75rem', paddingLeft: '1rem' }}>
+                      {c.detail}
+                    </span>
+              )}
+              {c.subDetails && c.subDetails.map((sub, si) => (
+                <span key={si} style={{ color: '#888', fontSize: '0.7rem', paddingLeft: '1rem', fontFamily: 'monospace' }}>
+                  {sub.link
+                    ? <a href={sub.link} target="_blank" rel="noopener" style={{ color: '#888', textDecoration: 'none' }}>{sub.text} ↗</a>
+                    : sub.text
+                  }
                 </span>
-                {c.detail && (
-                  c.detailLink
-                    ? <a href={c.detailLink} target="_blank" rel="noopener" style={{ color: '#aaa', fontSize: '0.75rem', paddingLeft: '1rem', textDecoration: 'none' }}>
-                        {c.detail} ↗
-                      </a>
-                    : <span style={{ color: '#aaa', fontSize: '0.75rem', paddingLeft: '1rem' }}>
-                        {c.detail}
-                      </span>
-                )}
-                {c.subDetails && c.subDetails.map((sub, si) => (
-                  <span key={si} style={{ color: '#888', fontSize: '0.7rem', paddingLeft: '1rem', fontFamily: 'monospace' }}>
-                    {sub.link
-                      ? <a href={sub.link} target="_blank" rel="noopener" style={{ color: '#888', textDecoration: 'none' }}>{sub.text} ↗</a>
-                      : sub.text
-                    }
-                  </span>
-                ))}
+              ))}
+            </div>
+            <span style={{
+              color: c.status === 'pass' ? '#22c55e' : '#ef4444',
+              fontWeight: 600, flexShrink: 0,
+            }}>
+              {c.status === 'pass' ? '✓' : '✗'}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function InclusionPanel() {
+  const { state, run } = useInclusionVerify();
+  const [input, setInput] = useState('');
+  const allOk = state.checks.length > 0 && state.checks.every(c => c.status === 'pass');
+
+  return (
+    <section style={styles.section}>
+      <h2 style={styles.sectionTitle}>🌳 Batched Call — Inclusion Proof</h2>
+      <div style={styles.recordCard}>
+        <p style={{ color: '#ccc', fontSize: '0.85rem', marginBottom: '0.75rem' }}>
+          Calls anchored in a Merkle batch share one on-chain root. Enter a witness ID or
+          call SID (or paste the inclusion proof JSON) — the proof is checked against the
+          anchored root and the verifier, not the server.
+        </p>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <input
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            placeholder="wit_… / CA… / { inclusion JSON }"
+            style={styles.inclusionInput}
+          />
+          <button
+            onClick={() => run(input)}
+            disabled={!input.trim() || state.phase === 'running'}
+            style={{ ...styles.startButton, marginTop: 0, padding: '0.5rem 1.25rem', fontSize: '0.9rem' }}
+          >
+            {state.phase === 'running' ? 'Verifying…' : 'Verify'}
+          </button>
+        </div>
+
+        {state.error && <div style={styles.errorBanner}>{state.error}</div>}
+
+        {state.proof && (
+          <div style={{ ...styles.recordMeta, marginTop: '1rem' }}>
+            <div>
+              <span style={{ color: '#aaa' }}>Root </span>
+              <code style={{ color: '#e0e0e0' }}>{fmtHash(state.proof.batchRoot)}</code>
+              <span style={{ color: '#aaa' }}> · leaf #{state.proof.leafIndex} of {state.proof.batchSize}</span>
+            </div>
+            <div>
+              <span style={{ color: '#aaa' }}>Registry </span>
+              <a href={addrLink(state.proof.contractAddress)} target="_blank" rel="noopener" style={{ color: '#ccc', textDecoration: 'none' }}>
+                <code>{fmtHash(state.proof.contractAddress)}</code> ↗
+              </a>
+            </div>
+            {state.proof.txHash && (
+              <div>
+                <span style={{ color: '#aaa' }}>Anchor TX </span>
+                <a href={txLink(state.proof.txHash)} target="_blank" rel="noopener" style={{ color: '#22c55e', textDecoration: 'none' }}>
+                  <code>{fmtHash(state.proof.txHash)}</code> ↗
+                </a>
               </div>
-              <span style={{
-                color: c.status === 'pass' ? '#22c55e' : '#ef4444',
-                fontWeight: 600, flexShrink: 0,
-              }}>
-                {c.status === 'pass' ? '✓' : '✗'}
+            )}
+            {state.phase === 'done' && (
+              <div style={{ color: allOk ? '#22c55e' : '#ef4444', fontWeight: 700 }}>
+                {allOk ? '✓ Included and verified' : '✗ Failed'}
+              </div>
+            )}
+          </div>
+        )}
+
+        {state.checks.length > 0 && <CheckList checks={state.checks} />}
+      </div>
+    </section>
+  );
+}
+
+function SignedDecisionPanel() {
+  const { state, run } = useSignedDecisionVerify();
+  const [input, setInput] = useState('');
+  const [keysInput, setKeysInput] = useState('');
+  const allOk = state.checks.length > 0 && state.checks.every(c => c.status === 'pass');
+  const { decision } = state;
+
+  return (
+    <section style={styles.section}>
+      <h2 style={styles.sectionTitle}>🔏 Server-Signed Decision</h2>
+      <div style={{ ...styles.recordCard, borderColor: '#f59e0b30' }}>
+        <div style={{ ...styles.amendmentBox, color: '#f59e0b', fontSize: '0.85rem' }}>
+          Lower trust level than the on-chain proof: a valid signature shows the holder of the
+          server&apos;s decision key issued this record — not what the server told anyone else, and not
+          that it ran the proven code. Use it only for calls that are not on-chain yet.
+        </div>
+        <p style={{ color: '#ccc', fontSize: '0.85rem', marginBottom: '0.75rem' }}>
+          Enter a witness ID or call SID (or paste a signed decision JSON). The signature is checked
+          in your browser. Paste a key set you obtained elsewhere to avoid trusting the one this
+          server publishes.
+        </p>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <input
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              placeholder="wit_… / CA… / { signed decision JSON }"
+              style={styles.inclusionInput}
+            />
+            <button
+              onClick={() => run(input, keysInput)}
+              disabled={!input.trim() || state.phase === 'running'}
+              style={{ ...styles.startButton, marginTop: 0, padding: '0.5rem 1.25rem', fontSize: '0.9rem' }}
+            >
+              {state.phase === 'running' ? 'Verifying…' : 'Verify'}
+            </button>
+          </div>
+          <input
+            value={keysInput}
+            onChange={e => setKeysInput(e.target.value)}
+            placeholder={'Optional: pinned key set { "keys": [...] } (default: /.well-known/vericall-decision-keys.json)'}
+            style={styles.inclusionInput}
+          />
+        </div>
+
+        {state.error && <div style={styles.errorBanner}>{state.error}</div>}
+
+        {state.attestation === 'zk-proof' && (
+          <div style={{ ...styles.recordMeta, marginTop: '1rem', color: '#22c55e' }}>
+            This call is on-chain — its ZK proof is the stronger attestation (see the records above).
+          </div>
+        )}
+
+        {decision && (
+          <div style={{ ...styles.recordMeta, marginTop: '1rem' }}>
+            <div>
+              <span style={{ color: '#aaa' }}>Call </span>
+              <code style={{ color: '#e0e0e0' }}>{decision.callSid}</code>
+              <span style={{ color: '#aaa' }}> · {decision.decision}</span>
+              {typeof decision.timestamp === 'string' && <span style={{ color: '#aaa' }}> · {decision.timestamp}</span>}
+            </div>
+            {typeof decision.reason === 'string' && (
+              <div style={{ color: '#ccc' }}>{decision.reason}</div>
+            )}
+            <div>
+              <span style={{ color: '#aaa' }}>Key </span>
+              <code style={{ color: '#e0e0e0' }}>{decision.signature.algorithm} {decision.signature.keyId}</code>
+              <span style={{ color: state.keySource === 'pinned' ? '#22c55e' : '#f59e0b' }}>
+                {state.keySource === 'pinned' ? ' · pinned key set' : ' · key set published by this server'}
               </span>
             </div>
+            {state.phase === 'done' && (
+              <div style={{ color: allOk ? '#f59e0b' : '#ef4444', fontWeight: 700 }}>
+                {allOk ? '✓ Signature valid — trust level: server-signed' : '✗ Signature not verified'}
+              </div>
+            )}
           </div>
-        ))}
+        )}
+
+        {state.checks.length > 0 && <CheckList checks={state.checks} />}
       </div>
-    </div>
+    </section>
   );
 }
 
@@ -533,12 +732,30 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '0.8rem', marginBottom: '1rem',
   },
 
+  // Amendments
+  amendedBadge: {
+    color: '#f59e0b', fontSize: '0.7rem', fontWeight: 600,
+    padding: '0.1rem 0.5rem', borderRadius: '999px',
+    border: '1px solid #f59e0b40',
+  },
+  amendmentBox: {
+    padding: '0.6rem 0.75rem', marginBottom: '1rem',
+    background: '#f59e0b0a', border: '1px solid #f59e0b30', borderRadius: '8px',
+  },
+
   // ZK Checks
   zkCheckCell: {
     padding: '0.5rem 0.75rem', background: '#050505',
     borderRadius: '8px', border: '1px solid #1a1a1a',
   },
 
+  // Inclusion Proof
+  inclusionInput: {
+    flex: 1, padding: '0.5rem 0.75rem', background: '#050505',
+    border: '1px solid #333', borderRadius: '8px', color: '#e0e0e0',
+    fontSize: '0.85rem', fontFamily: 'monospace',
+  },
+
   // Trust Model
   trustModelBox: {
     background: '#111', border: '1px solid #1a1a1a', borderRadius: '12px',
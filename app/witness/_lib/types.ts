@@ -4,7 +4,17 @@
  */
 
 /** 証明のステータス */
-export type ProofStatus = 'pending' | 'web-proof' | 'zk-proof' | 'on-chain' | 'failed';
+export type ProofStatus = 'pending' | 'web-proof' | 'zk-proof' | 'batched' | 'on-chain' | 'failed' | 'dead-letter';
+
+/** オンチェーンTXの最終レシート */
+export interface TxReceipt {
+  from: string;
+  nonce: number;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  feeBumps: number;
+  replacedTxHashes: string[];
+}
 
 /** 証明記録 */
 export interface WitnessRecord {
@@ -22,11 +32,36 @@ export interface WitnessRecord {
     hash: string;
     generatedAt: string;
   };
+  // トップレベルはプライマリネットワーク（CHAIN_ID）のTX
   onChain?: {
     txHash: string;
     blockNumber: number;
     contractAddress?: string;
     submittedAt: string;
+    // 最終レシート（ガス使用量・実効ガス価格・置き換えられたTX）
+    receipt?: TxReceipt;
+    // 登録済みの全ネットワーク（プライマリが先頭、続いてミラー）
+    networks?: Array<{
+      chainId: number;
+      network: string;
+      txHash: string;
+      blockNumber: number;
+      contractAddress: string;
+      submittedAt: string;
+      receipt?: TxReceipt;
+    }>;
+  };
+  // Merkleバッチでアンカーされた場合の包含証明
+  batch?: {
+    id: string;
+    root: string;
+    leaf: string;
+    leafIndex: number;
+    proof: string[];
+  };
+  // サーバー署名付きの判定（証明対象のフィールドのみ。ZK証明より弱い証明）
+  signedDecision?: Record<string, unknown> & {
+    signature: { algorithm: 'ed25519' | 'secp256k1'; keyId: string; value: string };
   };
   
   error?: string;
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { amendWitness, AmendmentError } from '@/lib/witness/pipeline';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const KINDS = ['correction', 'dispute'] as const;
+
+/**
+ * POST /witness/amend/[id]
+ * オンチェーンに記録済みの判定へ訂正・異議を追記（管理者用）
+ *
+ * 元のCallRecordは変更されず、callIdに紐づく履歴として追加される。
+ * バッチ記録はバッチルートへのインクルージョン証明を添えて追記する。
+ * Body: { kind: 'correction' | 'dispute', reason, filedBy, correctedDecision? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  let body: { kind?: unknown; reason?: unknown; filedBy?: unknown; correctedDecision?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const kind = KINDS.find((k) => k === body.kind);
+  if (!kind) {
+    return NextResponse.json({ error: '`kind` must be "correction" or "dispute"' }, { status: 400 });
+  }
+  if (typeof body.reason !== 'string' || !body.reason.trim()
+    || typeof body.filedBy !== 'string' || !body.filedBy.trim()) {
+    return NextResponse.json({ error: '`reason` and `filedBy` are required strings' }, { status: 400 });
+  }
+
+  try {
+    const result = await amendWitness(id, {
+      kind,
+      reason: body.reason.trim(),
+      filedBy: body.filedBy.trim(),
+      correctedDecision: typeof body.correctedDecision === 'string' ? body.correctedDecision : undefined,
+    });
+    return NextResponse.json({ id, kind, ...result }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AmendmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getDeadLetteredRecords } from '@/lib/witness/pipeline';
+
+/**
+ * GET /witness/dead-letter
+ * リトライ上限に達した証明記録を取得（管理者用）
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const records = await getDeadLetteredRecords();
+
+  return NextResponse.json({
+    total: records.length,
+    records,
+  });
+}
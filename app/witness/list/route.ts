@@ -6,7 +6,7 @@ import { getAllRecords } from '@/lib/witness/pipeline';
  * 全証明記録を取得
  */
 export async function GET() {
-  const records = getAllRecords();
+  const records = await getAllRecords();
   
   return NextResponse.json({
     total: records.length,
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { requeueWitness } from '@/lib/witness/pipeline';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /witness/requeue/[id]
+ * デッドレター化した証明ジョブを再投入（管理者用）
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  const record = await requeueWitness(id);
+  if (!record) {
+    return NextResponse.json(
+      { error: 'Witness record not found or not dead-lettered' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    id: record.id,
+    callSid: record.callSid,
+    status: record.status,
+    requeued: true,
+  });
+}
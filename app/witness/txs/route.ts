@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listTxs, type TxStatus } from '@/lib/witness/tx-store';
+
+const STATUSES: TxStatus[] = ['pending', 'confirmed', 'reverted', 'cancelled', 'dropped'];
+
+/**
+ * GET /witness/txs
+ * 送信済みトランザクション（nonce・手数料の引き上げ履歴・レシート）を取得（管理者用）
+ * ?status=pending で状態を絞り込み
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const status = request.nextUrl.searchParams.get('status');
+  if (status && !STATUSES.includes(status as TxStatus)) {
+    return NextResponse.json(
+      { error: `Unknown status "${status}" (expected one of ${STATUSES.join(', ')})` },
+      { status: 400 },
+    );
+  }
+
+  const txs = await listTxs((status as TxStatus) || undefined);
+
+  return NextResponse.json({
+    total: txs.length,
+    txs,
+  });
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRecord, getByCallSid } from '@/lib/witness/pipeline';
+import { getRecord, getByCallSid, getInclusionProof } from '@/lib/witness/pipeline';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -8,6 +8,12 @@ interface RouteParams {
 /**
  * GET /witness/verify/[id]
  * 証明を検証
+ *
+ * バッチでアンカーされた通話は inclusion（Merkle包含証明 + seal + journal）を返す。
+ * scripts/verify.ts --inclusion と /verify ページがオンチェーンのルートと照合する。
+ *
+ * signedDecision はサーバー署名付きの判定（証明対象のフィールドのみ、個人情報なし。scripts/verify.ts --signed と /verify ページで検証）。
+ * attestation は最も強い証明の種類: zk-proof（オンチェーン）> server-signed > none。
  */
 export async function GET(
   request: NextRequest,
@@ -16,9 +22,9 @@ export async function GET(
   const { id } = await params;
 
   // IDまたはCallSidで検索
-  let record = getRecord(id);
+  let record = await getRecord(id);
   if (!record) {
-    record = getByCallSid(id);
+    record = await getByCallSid(id);
   }
 
   if (!record) {
@@ -28,6 +34,8 @@ export async function GET(
     );
   }
 
+  const inclusion = record.batch ? await getInclusionProof(record.id) : undefined;
+
   return NextResponse.json({
     id: record.id,
     callSid: record.callSid,
@@ -36,7 +44,12 @@ export async function GET(
     webProof: record.webProof,
     zkProof: record.zkProof,
     onChain: record.onChain,
+    inclusion,
+    signedDecision: record.signedDecision,
+    attestation: record.status === 'on-chain' ? 'zk-proof' : record.signedDecision ? 'server-signed' : 'none',
     verified: record.status === 'on-chain',
     error: record.error,
+    attempts: record.attempts,
+    deadLetter: record.deadLetter,
   });
 }
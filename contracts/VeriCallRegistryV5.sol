@@ -0,0 +1,563 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import "./interfaces/IRiscZeroVerifier.sol";
+
+/**
+ * @title VeriCallRegistryV5
+ * @notice On-chain registry for AI phone call decisions with ZK proof verification,
+ *         journal-bound decision integrity, source code attestation, and
+ *         Merkle-batched anchoring.
+ *
+ * @dev    Upgrades from V4:
+ *         1. Batch anchoring — instead of one registerCallDecision() per call,
+ *            the server can collect N decisions and anchor a single Merkle root
+ *            with anchorBatch(). Each call keeps its own seal + journal off-chain
+ *            and receives an inclusion proof. The batch records the imageId
+ *            its seals were proven with, so updateImageId() does not strand it.
+ *         2. verifyBatchedDecision() — a view that checks a call against an
+ *            anchored root: Merkle inclusion, ZK seal (verifier.verify), journal
+ *            fields and decision binding. Same checks as registerCallDecision(),
+ *            without storing anything per call.
+ *         3. Amendments — an append-only list per callId of corrections
+ *            (the owner confirms the decision was wrong) and disputes (the
+ *            caller contests it). The original CallRecord is never modified;
+ *            readers combine it with getAmendments(callId). Batched calls
+ *            are amended with amendBatchedDecision() and their inclusion proof.
+ *         4. Audio commitment — the journal gains provenAudioHash (SHA-256 of
+ *            the archived caller audio), so the proof covers the recording the
+ *            decision was made on, not just the TLSNotary presentation.
+ *
+ *         Leaf (double-hashed, sorted-pair tree — OpenZeppelin MerkleProof compatible):
+ *           keccak256(bytes.concat(keccak256(abi.encode(
+ *             bytes32 callId, uint8 decision, keccak256(journalDataAbi), keccak256(zkProofSeal)
+ *           ))))
+ *
+ *         Journal format (11 fields): V4's 10 fields + provenAudioHash.
+ *           provenAudioHash may be empty — calls screened with the audio
+ *           archive disabled have no recording to commit to.
+ *
+ *         Verifier injection (same as V3/V4):
+ *           - Dev/Hackathon: RiscZeroMockVerifier(0xFFFFFFFF)
+ *           - Production:    RiscZeroVerifierRouter(0x0b144e07...)
+ */
+contract VeriCallRegistryV5 {
+    // ─── Types ─────────────────────────────────────────────────
+
+    enum Decision { UNKNOWN, ACCEPT, BLOCK, RECORD }
+
+    struct CallRecord {
+        Decision decision;         // AI decision (bound to journal extractedData)
+        string reason;             // AI reasoning (bound to journal extractedData)
+        bytes32 journalHash;       // keccak256(journalDataAbi) — commitment
+        bytes zkProofSeal;         // RISC Zero seal
+        bytes journalDataAbi;      // ABI-encoded public outputs (11 fields)
+        string sourceUrl;          // URL from journal (not external arg)
+        uint256 timestamp;         // block.timestamp when registered
+        address submitter;         // TX sender address
+        bool verified;             // ZK proof verification passed
+    }
+
+    enum AmendmentKind { CORRECTION, DISPUTE }
+
+    struct Amendment {
+        AmendmentKind kind;
+        Decision correctedDecision; // UNKNOWN when no decision is proposed
+        string reason;             // why the original decision is wrong / contested
+        string filedBy;            // who raised it (e.g. "owner", "caller") — relayed by the submitter
+        uint256 timestamp;         // block.timestamp when appended
+        address submitter;         // TX sender address
+    }
+
+    struct Batch {
+        uint256 size;              // number of leaves
+        uint256 timestamp;         // block.timestamp when anchored
+        address submitter;         // TX sender address
+        bytes32 imageId;           // guest image the batch's seals were proven with
+    }
+
+    // ─── Immutable State ───────────────────────────────────────
+
+    IRiscZeroVerifier public immutable verifier;
+    bytes32 public imageId;
+    bytes32 public immutable EXPECTED_NOTARY_KEY_FP;
+    bytes32 public expectedQueriesHash;
+    string public expectedUrlPrefix;
+    address public owner;
+
+    // ─── Storage ───────────────────────────────────────────────
+
+    mapping(bytes32 => CallRecord) public records;
+    bytes32[] public callIds;
+
+    uint256 public totalAccepted;
+    uint256 public totalBlocked;
+    uint256 public totalRecorded;
+
+    mapping(bytes32 => Batch) public batches;   // Merkle root → batch
+    bytes32[] public batchRoots;
+    uint256 public totalBatchedCalls;
+
+    mapping(bytes32 => Amendment[]) internal amendments;   // callId → history (append-only)
+    uint256 public totalAmendments;
+
+    // ─── Events ────────────────────────────────────────────────
+
+    event CallDecisionRecorded(
+        bytes32 indexed callId,
+        Decision decision,
+        uint256 timestamp,
+        address submitter
+    );
+
+    event ProofVerified(
+        bytes32 indexed callId,
+        bytes32 imageId,
+        bytes32 journalDigest
+    );
+
+    event ImageIdUpdated(bytes32 oldImageId, bytes32 newImageId);
+
+    event BatchAnchored(
+        bytes32 indexed root,
+        uint256 size,
+        bytes32 imageId,
+        uint256 timestamp,
+        address submitter
+    );
+
+    event DecisionAmended(
+        bytes32 indexed callId,
+        uint256 index,
+        AmendmentKind kind,
+        Decision correctedDecision,
+        string filedBy,
+        uint256 timestamp,
+        address submitter
+    );
+
+    // ─── Errors ────────────────────────────────────────────────
+
+    error AlreadyRegistered();
+    error InvalidDecision();
+    error InvalidNotaryKeyFingerprint();
+    error InvalidHttpMethod();
+    error InvalidQueriesHash();
+    error InvalidUrl();
+    error DecisionMismatch();
+    error ReasonMismatch();
+    error ZKProofVerificationFailed();
+    error BatchAlreadyAnchored();
+    error EmptyBatch();
+    error RecordNotFound();
+    error EmptyAmendmentReason();
+    error NotInBatch();
+
+    // ─── Constructor ───────────────────────────────────────────
+
+    constructor(
+        IRiscZeroVerifier _verifier,
+        bytes32 _imageId,
+        bytes32 _expectedNotaryFP,
+        bytes32 _expectedQueriesHash,
+        string memory _expectedUrlPrefix
+    ) {
+        verifier = _verifier;
+        imageId = _imageId;
+        EXPECTED_NOTARY_KEY_FP = _expectedNotaryFP;
+        expectedQueriesHash = _expectedQueriesHash;
+        expectedUrlPrefix = _expectedUrlPrefix;
+        owner = msg.sender;
+    }
+
+    // ─── Modifiers ─────────────────────────────────────────────
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    // ─── Core: Register with Full Verification ─────────────────
+
+    /**
+     * @notice Register a call decision with on-chain ZK proof verification
+     *         and journal-bound decision integrity check.
+     *
+     * @dev    Flow:
+     *         1. verifier.verify(seal, imageId, sha256(journal)) — ZK check
+     *         2. abi.decode(journal) — extract 11 fields
+     *         3. Validate notaryKeyFP, method, queriesHash, URL prefix
+     *         4. Validate systemPromptHash, transcriptHash, sourceCodeCommit are non-empty
+     *         5. Reconstruct extractedData from decision+reason, compare hash
+     *         6. Store CallRecord (decision/reason/url derived from journal)
+     */
+    function registerCallDecision(
+        bytes32 callId,
+        Decision decision,
+        string calldata reason,
+        bytes calldata zkProofSeal,
+        bytes calldata journalDataAbi
+    ) external {
+        if (records[callId].timestamp != 0) revert AlreadyRegistered();
+        if (decision == Decision.UNKNOWN) revert InvalidDecision();
+
+        // ── Step 1: ZK Proof Verification ──────────────────────
+        bytes32 journalDigest = sha256(journalDataAbi);
+        try verifier.verify(zkProofSeal, imageId, journalDigest) {
+        } catch {
+            revert ZKProofVerificationFailed();
+        }
+
+        emit ProofVerified(callId, imageId, journalDigest);
+
+        // ── Step 2: Decode Journal (11 fields) ────────────────
+        (
+            bytes32 notaryKeyFingerprint,
+            string memory method,
+            string memory url,
+            ,  // timestamp — informational
+            bytes32 queriesHash,
+            string memory provenDecision,
+            string memory provenReason,
+            string memory provenSystemPromptHash,
+            string memory provenTranscriptHash,
+            string memory provenSourceCodeCommit,
+            // provenAudioHash — bound by the ZK proof, optional
+        ) = abi.decode(journalDataAbi, (bytes32, string, string, uint256, bytes32, string, string, string, string, string, string));
+
+        // ── Step 3: Validate Journal Fields ────────────────────
+        if (notaryKeyFingerprint != EXPECTED_NOTARY_KEY_FP)
+            revert InvalidNotaryKeyFingerprint();
+
+        if (keccak256(bytes(method)) != keccak256("GET"))
+            revert InvalidHttpMethod();
+
+        if (expectedQueriesHash != bytes32(0) && queriesHash != expectedQueriesHash)
+            revert InvalidQueriesHash();
+
+        _validateUrlPrefix(url);
+
+        // Validate proven hashes and source code commit are non-empty
+        require(bytes(provenSystemPromptHash).length > 0, "Empty systemPromptHash");
+        require(bytes(provenTranscriptHash).length > 0, "Empty transcriptHash");
+        require(bytes(provenSourceCodeCommit).length > 0, "Empty sourceCodeCommit");
+
+        // ── Step 4: Decision–Journal Binding ───────────────────
+        _validateDecisionBinding(decision, reason, provenDecision, provenReason);
+
+        // ── Step 5: Store Record ───────────────────────────────
+        records[callId] = CallRecord({
+            decision: decision,
+            reason: reason,
+            journalHash: keccak256(journalDataAbi),
+            zkProofSeal: zkProofSeal,
+            journalDataAbi: journalDataAbi,
+            sourceUrl: url,
+            timestamp: block.timestamp,
+            submitter: msg.sender,
+            verified: true
+        });
+
+        callIds.push(callId);
+
+        if (decision == Decision.ACCEPT) totalAccepted++;
+        else if (decision == Decision.BLOCK) totalBlocked++;
+        else if (decision == Decision.RECORD) totalRecorded++;
+
+        emit CallDecisionRecorded(callId, decision, block.timestamp, msg.sender);
+    }
+
+    // ─── Core: Batch Anchoring ─────────────────────────────────
+
+    /**
+     * @notice Anchor the Merkle root of a batch of call decisions.
+     *
+     * @dev    The root itself is not checked against any proof — each call is
+     *         verified against it with verifyBatchedDecision(). Restricted to
+     *         the owner so third parties cannot anchor roots under this
+     *         registry's name. The current imageId is pinned to the batch, so
+     *         a later updateImageId() does not invalidate it.
+     */
+    function anchorBatch(bytes32 root, uint256 size) external onlyOwner {
+        if (size == 0) revert EmptyBatch();
+        if (batches[root].timestamp != 0) revert BatchAlreadyAnchored();
+
+        batches[root] = Batch({
+            size: size,
+            timestamp: block.timestamp,
+            submitter: msg.sender,
+            imageId: imageId
+        });
+        batchRoots.push(root);
+        totalBatchedCalls += size;
+
+        emit BatchAnchored(root, size, imageId, block.timestamp, msg.sender);
+    }
+
+    /**
+     * @notice Check one batched call decision against an anchored root.
+     *
+     * @dev    Returns false (never reverts) if any of these fail:
+     *         1. root was anchored with anchorBatch()
+     *         2. leaf(callId, decision, journal, seal) is included under root
+     *         3. verifier.verify(seal, batch imageId, sha256(journal)) — ZK check
+     *         4. journal fields: notaryKeyFP, method, queriesHash, URL prefix,
+     *            non-empty hashes and source code commit
+     *         5. decision matches the journal's provenDecision
+     */
+    function verifyBatchedDecision(
+        bytes32 root,
+        bytes32 callId,
+        Decision decision,
+        bytes calldata zkProofSeal,
+        bytes calldata journalDataAbi,
+        bytes32[] calldata proof
+    ) external view returns (bool) {
+        Batch storage batch = batches[root];
+        if (batch.timestamp == 0) return false;
+        if (decision == Decision.UNKNOWN) return false;
+
+        bytes32 leaf = batchLeaf(callId, decision, journalDataAbi, zkProofSeal);
+        if (!verifyInclusion(root, leaf, proof)) return false;
+
+        try verifier.verify(zkProofSeal, batch.imageId, sha256(journalDataAbi)) {
+        } catch {
+            return false;
+        }
+
+        return _journalMatches(journalDataAbi, decision);
+    }
+
+    /// @notice Merkle leaf for a batched call decision
+    function batchLeaf(
+        bytes32 callId,
+        Decision decision,
+        bytes calldata journalDataAbi,
+        bytes calldata zkProofSeal
+    ) public pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(
+            callId, uint8(decision), keccak256(journalDataAbi), keccak256(zkProofSeal)
+        ))));
+    }
+
+    /// @notice Sorted-pair Merkle proof check
+    function verifyInclusion(
+        bytes32 root,
+        bytes32 leaf,
+        bytes32[] calldata proof
+    ) public pure returns (bool) {
+        bytes32 hash = leaf;
+        for (uint256 i = 0; i < proof.length; i++) {
+            bytes32 sibling = proof[i];
+            hash = hash < sibling
+                ? keccak256(abi.encodePacked(hash, sibling))
+                : keccak256(abi.encodePacked(sibling, hash));
+        }
+        return hash == root;
+    }
+
+    // ─── Core: Amendments ──────────────────────────────────────
+
+    /**
+     * @notice Append a correction or dispute to a registered call decision.
+     *
+     * @dev    The CallRecord and its counters stay as registered — the
+     *         amendment only adds to the callId's history. Restricted to the
+     *         owner: callers and phone owners have no wallet, so the server
+     *         files on their behalf and records who raised it in `filedBy`.
+     */
+    function amendDecision(
+        bytes32 callId,
+        AmendmentKind kind,
+        Decision correctedDecision,
+        string calldata reason,
+        string calldata filedBy
+    ) external onlyOwner returns (uint256 index) {
+        if (records[callId].timestamp == 0) revert RecordNotFound();
+        return _appendAmendment(callId, kind, correctedDecision, reason, filedBy);
+    }
+
+    /**
+     * @notice Append a correction or dispute to a call decision anchored in a batch.
+     *
+     * @dev    A batched call has no CallRecord — instead the leaf for
+     *         (callId, decision, journal, seal) must be included under an
+     *         anchored root. The history lives under callId either way, so
+     *         getAmendments(callId) reads the same for both.
+     */
+    function amendBatchedDecision(
+        bytes32 root,
+        bytes32 callId,
+        Decision decision,
+        bytes calldata zkProofSeal,
+        bytes calldata journalDataAbi,
+        bytes32[] calldata proof,
+        AmendmentKind kind,
+        Decision correctedDecision,
+        string calldata reason,
+        string calldata filedBy
+    ) external onlyOwner returns (uint256 index) {
+        if (batches[root].timestamp == 0) revert RecordNotFound();
+        bytes32 leaf = batchLeaf(callId, decision, journalDataAbi, zkProofSeal);
+        if (!verifyInclusion(root, leaf, proof)) revert NotInBatch();
+        return _appendAmendment(callId, kind, correctedDecision, reason, filedBy);
+    }
+
+    function _appendAmendment(
+        bytes32 callId,
+        AmendmentKind kind,
+        Decision correctedDecision,
+        string calldata reason,
+        string calldata filedBy
+    ) internal returns (uint256 index) {
+        if (bytes(reason).length == 0) revert EmptyAmendmentReason();
+
+        index = amendments[callId].length;
+        amendments[callId].push(Amendment({
+            kind: kind,
+            correctedDecision: correctedDecision,
+            reason: reason,
+            filedBy: filedBy,
+            timestamp: block.timestamp,
+            submitter: msg.sender
+        }));
+        totalAmendments++;
+
+        emit DecisionAmended(callId, index, kind, correctedDecision, filedBy, block.timestamp, msg.sender);
+    }
+
+    // ─── Internal: URL Prefix Validation ───────────────────────
+
+    function _validateUrlPrefix(string memory url) internal view {
+        if (!_hasUrlPrefix(url)) revert InvalidUrl();
+    }
+
+    function _hasUrlPrefix(string memory url) internal view returns (bool) {
+        bytes memory urlBytes = bytes(url);
+        bytes memory prefixBytes = bytes(expectedUrlPrefix);
+        if (urlBytes.length < prefixBytes.length) return false;
+        for (uint256 i = 0; i < prefixBytes.length; i++) {
+            if (urlBytes[i] != prefixBytes[i]) return false;
+        }
+        return true;
+    }
+
+    // ─── Internal: Batched Journal Check ───────────────────────
+
+    /// @dev Same journal checks as registerCallDecision(), as a bool
+    function _journalMatches(bytes calldata journalDataAbi, Decision decision) internal view returns (bool) {
+        (
+            bytes32 notaryKeyFingerprint,
+            string memory method,
+            string memory url,
+            ,
+            bytes32 queriesHash,
+            string memory provenDecision,
+            ,
+            string memory provenSystemPromptHash,
+            string memory provenTranscriptHash,
+            string memory provenSourceCodeCommit,
+        ) = abi.decode(journalDataAbi, (bytes32, string, string, uint256, bytes32, string, string, string, string, string, string));
+
+        if (notaryKeyFingerprint != EXPECTED_NOTARY_KEY_FP) return false;
+        if (keccak256(bytes(method)) != keccak256("GET")) return false;
+        if (expectedQueriesHash != bytes32(0) && queriesHash != expectedQueriesHash) return false;
+        if (!_hasUrlPrefix(url)) return false;
+        if (bytes(provenSystemPromptHash).length == 0) return false;
+        if (bytes(provenTranscriptHash).length == 0) return false;
+        if (bytes(provenSourceCodeCommit).length == 0) return false;
+
+        return keccak256(bytes(provenDecision)) == keccak256(bytes(_decisionString(decision)));
+    }
+
+    // ─── Internal: Decision–Journal Binding ────────────────────
+
+    function _validateDecisionBinding(
+        Decision decision,
+        string calldata reason,
+        string memory provenDecision,
+        string memory provenReason
+    ) internal pure {
+        if (decision == Decision.UNKNOWN) revert InvalidDecision();
+
+        if (keccak256(bytes(provenDecision)) != keccak256(bytes(_decisionString(decision))))
+            revert DecisionMismatch();
+        if (keccak256(bytes(provenReason)) != keccak256(bytes(reason)))
+            revert ReasonMismatch();
+    }
+
+    function _decisionString(Decision decision) internal pure returns (string memory) {
+        if (decision == Decision.BLOCK) return "BLOCK";
+        if (decision == Decision.RECORD) return "RECORD";
+        if (decision == Decision.ACCEPT) return "ACCEPT";
+        return "";
+    }
+
+    // ─── View: Decoded Proven Data (11 fields) ─────────────────
+
+    function getProvenData(bytes32 callId) external view returns (
+        bytes32 notaryKeyFingerprint,
+        string memory method,
+        string memory url,
+        uint256 proofTimestamp,
+        bytes32 queriesHash,
+        string memory provenDecision,
+        string memory provenReason,
+        string memory provenSystemPromptHash,
+        string memory provenTranscriptHash,
+        string memory provenSourceCodeCommit,
+        string memory provenAudioHash
+    ) {
+        bytes memory journal = records[callId].journalDataAbi;
+        require(journal.length > 0, "Record not found");
+        return abi.decode(journal, (bytes32, string, string, uint256, bytes32, string, string, string, string, string, string));
+    }
+
+    // ─── View: Standard Accessors ──────────────────────────────
+
+    function getRecord(bytes32 callId) external view returns (CallRecord memory) {
+        return records[callId];
+    }
+
+    function getTotalRecords() external view returns (uint256) {
+        return callIds.length;
+    }
+
+    function getStats() external view returns (
+        uint256 total, uint256 accepted, uint256 blocked, uint256 recorded
+    ) {
+        return (callIds.length, totalAccepted, totalBlocked, totalRecorded);
+    }
+
+    function getTotalBatches() external view returns (uint256) {
+        return batchRoots.length;
+    }
+
+    function getAmendments(bytes32 callId) external view returns (Amendment[] memory) {
+        return amendments[callId];
+    }
+
+    function getAmendmentCount(bytes32 callId) external view returns (uint256) {
+        return amendments[callId].length;
+    }
+
+    function verifyJournal(bytes32 callId, bytes calldata journalData) external view returns (bool) {
+        return records[callId].journalHash == keccak256(journalData);
+    }
+
+    // ─── Admin Functions ───────────────────────────────────────
+
+    function updateImageId(bytes32 _imageId) external onlyOwner {
+        emit ImageIdUpdated(imageId, _imageId);
+        imageId = _imageId;
+    }
+
+    function updateExpectedQueriesHash(bytes32 _hash) external onlyOwner {
+        expectedQueriesHash = _hash;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), "Zero address");
+        owner = newOwner;
+    }
+}
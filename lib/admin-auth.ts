@@ -0,0 +1,34 @@
+/**
+ * Admin Route Authentication
+ *
+ * Operator-only routes (re-queueing witness jobs, publishing policies, etc.) require
+ * `Authorization: Bearer <VERICALL_ADMIN_TOKEN>`.
+ * Fails closed: if the token is not configured, every request is rejected.
+ */
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Returns a 401/503 response if the request is not authorized, otherwise null.
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const expected = process.env.VERICALL_ADMIN_TOKEN;
+  if (!expected) {
+    return NextResponse.json(
+      { error: 'Admin API disabled (VERICALL_ADMIN_TOKEN not set)' },
+      { status: 503 },
+    );
+  }
+
+  const auth = request.headers.get('authorization');
+  const token = auth?.startsWith('Bearer ') ? auth.slice(7) : '';
+
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,83 @@
+/**
+ * Caller Hashing — keyed, versioned caller identifiers
+ *
+ * A plain SHA-256 of a phone number is reversible with a lookup table (the
+ * number space is tiny), so callers are identified by
+ *
+ *   <version>.<first 16 hex of HMAC-SHA256(pepper[version], number)>
+ *
+ * with the peppers from CALLER_HASH_PEPPERS (never stored next to the data).
+ * The version prefix makes rotation possible: new calls are hashed with the
+ * newest pepper, lookups try every configured version plus (optionally) the
+ * legacy unkeyed hash, and rows under an older hash are re-keyed the next
+ * time the same number calls (reputation.ts, decision-store.ts).
+ */
+
+import crypto from 'crypto';
+import { callerHashConfig } from '@/lib/config';
+
+let _warnedUnkeyed = false;
+
+/** Pre-pepper identifier: SHA-256 truncated to 16 hex, no prefix */
+export function legacyCallerHash(phone: string): string {
+  return crypto.createHash('sha256').update(phone).digest('hex').slice(0, 16);
+}
+
+function keyedHash(phone: string, version: string, pepper: string): string {
+  const mac = crypto.createHmac('sha256', pepper).update(phone).digest('hex');
+  return `${version}.${mac.slice(0, 16)}`;
+}
+
+/**
+ * Identifier for new records, under the newest pepper.
+ * Falls back to the legacy hash (with a warning) when no pepper is configured.
+ */
+export function hashCaller(phone: string): string {
+  const [current] = callerHashConfig.peppers;
+  if (!current) {
+    if (!_warnedUnkeyed) {
+      _warnedUnkeyed = true;
+      console.warn('⚠️  CALLER_HASH_PEPPERS not set — caller hashes are unkeyed and reversible');
+    }
+    return legacyCallerHash(phone);
+  }
+  return keyedHash(phone, current.version, current.pepper);
+}
+
+/**
+ * Every identifier this number may be stored under, current one first:
+ * each configured pepper version, then the legacy hash (CALLER_HASH_MATCH_LEGACY).
+ */
+export function callerHashCandidates(phone: string): string[] {
+  const hashes = callerHashConfig.peppers.map(({ version, pepper }) => keyedHash(phone, version, pepper));
+  if (hashes.length === 0 || callerHashConfig.matchLegacy) {
+    hashes.push(legacyCallerHash(phone));
+  }
+  return hashes;
+}
+
+/**
+ * Decode an admin API `caller` route parameter (`%2B81…` → `+81…`).
+ * Returns null if it is not valid percent-encoding.
+ */
+export function decodeCallerParam(raw: string): string | null {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Identifiers for a decoded admin API `caller` parameter: an E.164 number
+ * matches under every pepper version, anything else is taken as a stored hash.
+ */
+export function resolveCallerHashes(caller: string): string[] {
+  return caller.startsWith('+') ? callerHashCandidates(caller) : [caller];
+}
+
+/** Log-safe form of a phone number (+814****78) — raw numbers never go to logs */
+export function maskPhone(phone: string): string {
+  if (phone.length < 8) return '***';
+  return phone.slice(0, 4) + '****' + phone.slice(-2);
+}
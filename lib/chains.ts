@@ -0,0 +1,101 @@
+/**
+ * Supported Chains
+ *
+ * Every network a VeriCallRegistry can live on, with its viem chain,
+ * default RPC and block-explorer links:
+ *
+ *   84532  base-sepolia   Base Sepolia (default CHAIN_ID, staging)
+ *   8453   base           Base mainnet
+ *   10     optimism       OP Mainnet
+ *   42161  arbitrum       Arbitrum One
+ *   31337  local          Local devnet — anvil, set up by scripts/devnet.ts
+ *
+ * CHAIN_ID picks the primary network, WITNESS_MIRROR_CHAIN_IDS the ones
+ * each decision is also registered on (config.ts). The registry address
+ * comes from the chain's deployment manifest (contracts/deployments/<chainId>.json).
+ */
+
+import type { Chain } from 'viem';
+import { arbitrum, base, baseSepolia, foundry, optimism } from 'viem/chains';
+
+export interface ChainInfo {
+  chain: Chain;
+  /** Short name accepted by `--network` / `?network=` */
+  slug: string;
+  /** Human-readable name for logs and API responses */
+  name: string;
+  defaultRpcUrl: string;
+  /** Block explorer base URL (null on a local devnet) */
+  explorerUrl: string | null;
+}
+
+export const DEVNET_CHAIN_ID = foundry.id;
+
+const CHAINS: Record<number, ChainInfo> = {
+  [baseSepolia.id]: {
+    chain: baseSepolia,
+    slug: 'base-sepolia',
+    name: 'Base Sepolia',
+    defaultRpcUrl: 'https://sepolia.base.org',
+    explorerUrl: 'https://sepolia.basescan.org',
+  },
+  [base.id]: {
+    chain: base,
+    slug: 'base',
+    name: 'Base',
+    defaultRpcUrl: 'https://mainnet.base.org',
+    explorerUrl: 'https://basescan.org',
+  },
+  [optimism.id]: {
+    chain: optimism,
+    slug: 'optimism',
+    name: 'OP Mainnet',
+    defaultRpcUrl: 'https://mainnet.optimism.io',
+    explorerUrl: 'https://optimistic.etherscan.io',
+  },
+  [arbitrum.id]: {
+    chain: arbitrum,
+    slug: 'arbitrum',
+    name: 'Arbitrum One',
+    defaultRpcUrl: 'https://arb1.arbitrum.io/rpc',
+    explorerUrl: 'https://arbiscan.io',
+  },
+  [foundry.id]: {
+    chain: foundry,
+    slug: 'local',
+    name: 'Local devnet',
+    defaultRpcUrl: 'http://127.0.0.1:8545',
+    explorerUrl: null,
+  },
+};
+
+/** undefined for a chain VeriCall has no settings for */
+export function findChainInfo(chainId: number): ChainInfo | undefined {
+  return CHAINS[chainId];
+}
+
+/** Resolve a `--network` / `?network=` value: a slug or a numeric chain ID */
+export function findChainBySelector(selector: string): ChainInfo | undefined {
+  const value = selector.trim().toLowerCase();
+  if (/^\d+$/.test(value)) return CHAINS[Number(value)];
+  return Object.values(CHAINS).find((info) => info.slug === value);
+}
+
+export function getChainInfo(chainId: number): ChainInfo {
+  const info = CHAINS[chainId];
+  if (!info) {
+    throw new Error(`Unsupported CHAIN_ID ${chainId} (supported: ${Object.keys(CHAINS).join(', ')})`);
+  }
+  return info;
+}
+
+/** Block explorer link for a TX, or null without an explorer */
+export function explorerTxUrl(chainId: number, txHash: string): string | null {
+  const base = findChainInfo(chainId)?.explorerUrl;
+  return base ? `${base}/tx/${txHash}` : null;
+}
+
+export function explorerAddressUrl(chainId: number, address: string): string | null {
+  const base = findChainInfo(chainId)?.explorerUrl;
+  return base ? `${base}/address/${address}` : null;
+}
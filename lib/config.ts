@@ -2,27 +2,32 @@
  * VeriCall Configuration
  * 共通設定ファイル
  *
- * コントラクトアドレスの優先順位:
- *   1. 環境変数 VERICALL_CONTRACT_ADDRESS（Cloud Run / .env.local）
- *   2. contracts/deployment.json（deploy-v3.ts が自動生成）
+ * コントラクトアドレスの優先順位（ネットワークごと）:
+ *   1. 環境変数 VERICALL_CONTRACT_ADDRESS（プライマリ）/ VERICALL_CONTRACT_ADDRESS_<chainId>（ミラー）
+ *   2. contracts/deployments/<chainId>.json（deploy-v4.ts / scripts/devnet.ts が自動生成）
  *   ハードコードフォールバックは持たない。設定漏れは起動時に検知する。
  */
 
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
+import { findChainInfo } from './chains';
 
-// ─── deployment.json loader ───────────────────────────────────
+// ─── Deployment manifest loader ───────────────────────────────
 
-function loadDeploymentAddress(): string {
+function readDeploymentManifest(chainId: number): { contractAddress?: string; blockNumber?: number } {
   try {
-    const depPath = resolve(process.cwd(), 'contracts/deployment.json');
-    const dep = JSON.parse(readFileSync(depPath, 'utf-8'));
-    return dep.contractAddress || '';
+    return JSON.parse(
+      readFileSync(resolve(process.cwd(), `contracts/deployments/${chainId}.json`), 'utf-8'),
+    );
   } catch {
-    return '';
+    return {};
   }
 }
 
+function loadDeploymentAddress(chainId: number): string {
+  return readDeploymentManifest(chainId).contractAddress || '';
+}
+
 // Twilio Configuration
 export const twilioConfig = {
   accountSid: process.env.TWILIO_ACCOUNT_SID || '',
@@ -37,6 +42,91 @@ export const forwardingConfig = {
   whitelist: (process.env.WHITELIST_NUMBERS || '').split(',').filter(Boolean),
 };
 
+// Voice AI Providers (google/gemini = production; scripted/tone/silence/rules = offline)
+export const voiceAIConfig = {
+  sttProvider: (process.env.VOICE_STT_PROVIDER || 'google') as 'google' | 'scripted',
+  ttsProvider: (process.env.VOICE_TTS_PROVIDER || 'google') as 'google' | 'tone' | 'silence',
+  llmProvider: (process.env.VOICE_LLM_PROVIDER || 'gemini') as 'gemini' | 'rules',
+  // Scripted STT: file with one caller utterance per line
+  sttScriptPath: process.env.VOICE_STT_SCRIPT || '',
+};
+
+// Screening Policies (versioned rule sets; DB assignments take precedence over these)
+function parsePolicyMap(raw: string | undefined): Record<string, string> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn('⚠️  SCREENING_POLICY_BY_NUMBER is not valid JSON — ignored');
+    return {};
+  }
+}
+
+export const policyConfig = {
+  // Directory of file policies: <dir>/<name>/<version>.txt
+  dir: process.env.POLICY_DIR || resolve(process.cwd(), 'policies'),
+  // Deployment default: "name@version" or "name" (latest version)
+  defaultRef: process.env.SCREENING_POLICY || '',
+  // Per called number: {"+15551234567": "name@version"}
+  byNumber: parsePolicyMap(process.env.SCREENING_POLICY_BY_NUMBER),
+};
+
+// Caller Hashing (HMAC with a secret pepper; "version:pepper,…", newest first)
+function parsePeppers(raw: string | undefined): Array<{ version: string; pepper: string }> {
+  if (!raw) return [];
+  return raw.split(',').flatMap((entry) => {
+    const sep = entry.indexOf(':');
+    const version = entry.slice(0, sep).trim();
+    const pepper = entry.slice(sep + 1).trim();
+    if (sep <= 0 || !/^[a-z0-9]+$/i.test(version) || !pepper) {
+      console.warn('⚠️  CALLER_HASH_PEPPERS entry is not "version:pepper" — ignored');
+      return [];
+    }
+    return [{ version, pepper }];
+  });
+}
+
+export const callerHashConfig = {
+  // The first entry hashes new calls; the rest are only matched on lookup
+  peppers: parsePeppers(process.env.CALLER_HASH_PEPPERS),
+  // Also match pre-pepper (plain SHA-256) hashes until they have been re-keyed
+  matchLegacy: process.env.CALLER_HASH_MATCH_LEGACY !== 'false',
+};
+
+// Caller Reputation (past decisions per hashed caller number)
+export const reputationConfig = {
+  enabled: process.env.REPUTATION_ENABLED !== 'false',
+  // Auto-reject after this many BLOCKs with no RECORD / ACCEPT since (0 = never auto-reject)
+  autoRejectAfterBlocks: parseInt(process.env.REPUTATION_AUTO_REJECT_BLOCKS || '3', 10),
+  windowDays: parseInt(process.env.REPUTATION_WINDOW_DAYS || '180', 10),
+  // The incoming-call webhook must answer Twilio quickly
+  lookupTimeoutMs: parseInt(process.env.REPUTATION_LOOKUP_TIMEOUT_MS || '1500', 10),
+};
+
+// Call Audio Archive (caller + AI audio per call; SHA-256 goes into the decision record)
+export const audioArchiveConfig = {
+  enabled: process.env.AUDIO_ARCHIVE_ENABLED !== 'false',
+  provider: (process.env.AUDIO_ARCHIVE_PROVIDER || 'file') as 'file',
+  // File provider: <dir>/<callSid>/caller.wav, ai.wav
+  dir: process.env.AUDIO_ARCHIVE_DIR || resolve(process.cwd(), 'audio-archive'),
+};
+
+// Data Retention (days per data class, 0 = keep forever; hashes behind on-chain records are never purged)
+export const retentionConfig = {
+  // How long the Decision API serves a record — the Web Proof has to be taken within it
+  decisionApiTtlMinutes: parseInt(process.env.DECISION_API_TTL_MINUTES || '60', 10),
+  // Transcript text, turns + salt (no reveals after this), voicemail transcript
+  transcriptDays: parseInt(process.env.RETENTION_TRANSCRIPT_DAYS || '30', 10),
+  // Archived caller.wav / ai.wav
+  audioDays: parseInt(process.env.RETENTION_AUDIO_DAYS || '30', 10),
+  // Caller name / organization / purpose, voicemail
+  summaryDays: parseInt(process.env.RETENTION_SUMMARY_DAYS || '90', 10),
+  // callerHashShort on decision records + caller_history (reputation)
+  callerHashDays: parseInt(process.env.RETENTION_CALLER_HASH_DAYS || '180', 10),
+  purgeEnabled: process.env.RETENTION_PURGE_ENABLED !== 'false',
+  purgeIntervalMs: parseInt(process.env.RETENTION_PURGE_INTERVAL_MS || '3600000', 10),
+};
+
 // Vlayer Configuration
 export const vlayerConfig = {
   webProverUrl: process.env.VLAYER_WEB_PROVER_URL || 'https://web-prover.vlayer.xyz',
@@ -45,25 +135,173 @@ export const vlayerConfig = {
   clientId: process.env.VLAYER_CLIENT_ID || '',
 };
 
-// Blockchain Configuration
+// Decision Signing (server signature on every Decision API response — weaker than the Web Proof,
+// but there when vlayer is not). Ed25519 key: PKCS#8 PEM or 32-byte hex seed; secp256k1: hex private key.
+function parseRetiredKeys(raw: string | undefined): Array<{ algorithm: 'ed25519' | 'secp256k1'; publicKey: `0x${string}` }> {
+  if (!raw) return [];
+  return raw.split(',').flatMap((entry) => {
+    const [algorithm, publicKey] = entry.trim().split(':');
+    if ((algorithm !== 'ed25519' && algorithm !== 'secp256k1') || !/^0x[0-9a-fA-F]+$/.test(publicKey ?? '')) {
+      console.warn('⚠️  DECISION_SIGNING_RETIRED_KEYS entry is not "algorithm:0xPublicKey" — ignored');
+      return [];
+    }
+    return [{ algorithm, publicKey: publicKey as `0x${string}` }];
+  });
+}
+
+export const decisionSigningConfig = {
+  algorithm: (process.env.DECISION_SIGNING_ALGORITHM || 'ed25519') as 'ed25519' | 'secp256k1',
+  privateKey: process.env.DECISION_SIGNING_KEY || '',
+  // Former keys, still published so the records they signed keep verifying ("algorithm:0xPublicKey,…")
+  retiredKeys: parseRetiredKeys(process.env.DECISION_SIGNING_RETIRED_KEYS),
+};
+
+// Witness Pipeline Worker (resumes interrupted proof jobs after a restart)
+export const witnessConfig = {
+  workerEnabled: process.env.WITNESS_WORKER_ENABLED !== 'false',
+  workerIntervalMs: parseInt(process.env.WITNESS_WORKER_INTERVAL_MS || '60000', 10),
+  leaseMs: parseInt(process.env.WITNESS_JOB_LEASE_MS || '600000', 10),
+  batchSize: parseInt(process.env.WITNESS_WORKER_BATCH_SIZE || '5', 10),
+};
+
+// Witness Batch Anchoring (one Merkle root per N calls / T ms instead of one TX per call;
+// needs VeriCallRegistryV5)
+export const witnessBatchConfig = {
+  enabled: process.env.WITNESS_BATCH_ENABLED === 'true',
+  maxSize: parseInt(process.env.WITNESS_BATCH_MAX_SIZE || '32', 10),
+  maxWaitMs: parseInt(process.env.WITNESS_BATCH_MAX_WAIT_MS || '600000', 10),
+};
+
+// Witness Retry Policies (per pipeline step; exponential backoff with full jitter)
+function retryPolicyFromEnv(prefix: string, defaults: { maxAttempts: number; baseDelayMs: number; maxDelayMs: number }) {
+  return {
+    maxAttempts: parseInt(process.env[`${prefix}_MAX_ATTEMPTS`] || String(defaults.maxAttempts), 10),
+    baseDelayMs: parseInt(process.env[`${prefix}_BASE_DELAY_MS`] || String(defaults.baseDelayMs), 10),
+    maxDelayMs: parseInt(process.env[`${prefix}_MAX_DELAY_MS`] || String(defaults.maxDelayMs), 10),
+  };
+}
+
+export const retryConfig = {
+  webProof: retryPolicyFromEnv('WITNESS_RETRY_WEB_PROOF', { maxAttempts: 4, baseDelayMs: 2000, maxDelayMs: 30000 }),
+  zkProof: retryPolicyFromEnv('WITNESS_RETRY_ZK_PROOF', { maxAttempts: 4, baseDelayMs: 5000, maxDelayMs: 60000 }),
+  onChain: retryPolicyFromEnv('WITNESS_RETRY_ON_CHAIN', { maxAttempts: 5, baseDelayMs: 3000, maxDelayMs: 45000 }),
+  // vlayer HTTP status codes worth retrying
+  retryableHttpCodes: (process.env.WITNESS_RETRYABLE_HTTP_CODES || '408,425,429,500,502,503,504')
+    .split(',')
+    .map((c) => parseInt(c.trim(), 10))
+    .filter((c) => !isNaN(c)),
+};
+
+// Blockchain Configuration (84532 = Base Sepolia, 31337 = local devnet — see lib/chains.ts)
+const _chainId = parseInt(process.env.CHAIN_ID || '84532', 10);
 export const chainConfig = {
-  rpcUrl: process.env.ETHEREUM_RPC_URL || 'https://sepolia.base.org',
-  chainId: parseInt(process.env.CHAIN_ID || '84532', 10),
+  rpcUrl: process.env.ETHEREUM_RPC_URL || findChainInfo(_chainId)?.defaultRpcUrl || 'https://sepolia.base.org',
+  chainId: _chainId,
 };
 
-// VeriCallRegistry Contract (Base Sepolia)
-// Single Source of Truth: env var > deployment.json > error
-const _contractAddr = process.env.VERICALL_CONTRACT_ADDRESS || loadDeploymentAddress();
+// VeriCallRegistry Contract
+// Single Source of Truth: env var > deployment manifest for CHAIN_ID > error
+const _contractAddr = process.env.VERICALL_CONTRACT_ADDRESS || loadDeploymentAddress(_chainId);
 if (!_contractAddr) {
   console.warn(
-    '⚠️  VERICALL_CONTRACT_ADDRESS not set and contracts/deployment.json not found. ' +
-    'Run `npx tsx scripts/deploy-v3.ts` to deploy and generate it.',
+    `⚠️  VERICALL_CONTRACT_ADDRESS not set and no deployment manifest for chainId ${_chainId}. ` +
+    'Run `npx tsx scripts/deploy-v4.ts` (Base Sepolia) or `npx tsx scripts/devnet.ts` (local) to generate it.',
   );
 }
 export const contractConfig = {
   address: _contractAddr,
 };
 
+// Registry Networks
+// CHAIN_ID is the primary network (batch anchoring, amendments, explorer default).
+// WITNESS_MIRROR_CHAIN_IDS lists networks every per-call decision is also registered on,
+// each with RPC_URL_<chainId> and VERICALL_CONTRACT_ADDRESS_<chainId> (or its manifest).
+export interface RegistryNetwork {
+  chainId: number;
+  rpcUrl: string;
+  contractAddress: string;
+}
+
+/** Registry on `chainId`, or null if the chain is unknown or has no deployment */
+export function findRegistryNetwork(chainId: number): RegistryNetwork | null {
+  if (chainId === chainConfig.chainId) {
+    return { chainId, rpcUrl: chainConfig.rpcUrl, contractAddress: contractConfig.address };
+  }
+  const info = findChainInfo(chainId);
+  const contractAddress = process.env[`VERICALL_CONTRACT_ADDRESS_${chainId}`] || loadDeploymentAddress(chainId);
+  if (!info || !contractAddress) return null;
+  return {
+    chainId,
+    rpcUrl: process.env[`RPC_URL_${chainId}`] || info.defaultRpcUrl,
+    contractAddress,
+  };
+}
+
+function loadMirrorNetworks(raw: string | undefined): RegistryNetwork[] {
+  const chainIds = (raw || '')
+    .split(',')
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => Number.isFinite(id) && id !== _chainId);
+
+  return [...new Set(chainIds)].flatMap((chainId) => {
+    const network = findRegistryNetwork(chainId);
+    if (!network) {
+      console.warn(
+        `⚠️  WITNESS_MIRROR_CHAIN_IDS: chainId ${chainId} is unsupported or has no registry ` +
+        `(set VERICALL_CONTRACT_ADDRESS_${chainId} or add contracts/deployments/${chainId}.json) — skipped`,
+      );
+      return [];
+    }
+    return [network];
+  });
+}
+
+/** Primary network first, then mirrors */
+export const registryNetworks: RegistryNetwork[] = [
+  findRegistryNetwork(_chainId)!,
+  ...loadMirrorNetworks(process.env.WITNESS_MIRROR_CHAIN_IDS),
+];
+
+// Registry Event Indexer (CallDecisionRecorded / ProofVerified logs → Postgres — indexer.ts)
+export const indexerConfig = {
+  enabled: process.env.INDEXER_ENABLED !== 'false',
+  intervalMs: parseInt(process.env.INDEXER_INTERVAL_MS || '15000', 10),
+  // Blocks per eth_getLogs call (public RPCs cap the range)
+  blockRange: parseInt(process.env.INDEXER_BLOCK_RANGE || '2000', 10),
+  // Blocks re-scanned when the last indexed block is no longer canonical
+  reorgDepth: parseInt(process.env.INDEXER_REORG_DEPTH || '64', 10),
+  leaseMs: parseInt(process.env.INDEXER_LEASE_MS || '60000', 10),
+};
+
+/**
+ * First block the indexer scans for a registry: INDEXER_START_BLOCK_<chainId>,
+ * else the manifest's deploy block if the manifest is for this address, else 0.
+ */
+export function findIndexStartBlock(network: RegistryNetwork): number {
+  const fromEnv = process.env[`INDEXER_START_BLOCK_${network.chainId}`];
+  if (fromEnv) return parseInt(fromEnv, 10);
+  const manifest = readDeploymentManifest(network.chainId);
+  return manifest.contractAddress?.toLowerCase() === network.contractAddress.toLowerCase()
+    ? manifest.blockNumber ?? 0
+    : 0;
+}
+
+// Transaction Manager (local nonces, fee strategy, speed-up / cancel of stuck TXs — tx-manager.ts)
+export const txConfig = {
+  // Multiplier (percent) on the node's fee estimate for the first broadcast
+  feeMultiplierPercent: parseInt(process.env.TX_FEE_MULTIPLIER_PERCENT || '120', 10),
+  // Fee increase per speed-up (nodes reject replacements below +10%)
+  bumpPercent: Math.max(10, parseInt(process.env.TX_BUMP_PERCENT || '15', 10)),
+  // Unmined this long after the last broadcast = stuck
+  stuckAfterMs: parseInt(process.env.TX_STUCK_AFTER_MS || '45000', 10),
+  // Speed-ups before the TX is cancelled (0-value self-transfer at the same nonce)
+  maxBumps: parseInt(process.env.TX_MAX_BUMPS || '4', 10),
+  // Hard cap on maxFeePerGas in gwei (0 = none)
+  maxFeeGwei: parseFloat(process.env.TX_MAX_FEE_GWEI || '0'),
+  pollIntervalMs: parseInt(process.env.TX_POLL_INTERVAL_MS || '3000', 10),
+  leaseMs: parseInt(process.env.TX_LEASE_MS || '60000', 10),
+};
+
 // Server Configuration
 export const serverConfig = {
   baseUrl: process.env.NEXT_PUBLIC_BASE_URL || '',
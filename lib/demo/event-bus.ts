@@ -15,6 +15,7 @@ export type DemoEventType =
   | 'call:start'
   | 'call:greeting'
   | 'call:end'
+  | 'call:transfer'
   // Conversation
   | 'stt:transcript'
   | 'ai:response'
@@ -25,6 +26,7 @@ export type DemoEventType =
   | 'witness:start'
   | 'witness:web-proof'
   | 'witness:zk-proof'
+  | 'witness:batched'
   | 'witness:on-chain'
   | 'witness:failed';
 
@@ -0,0 +1,280 @@
+/**
+ * Caller Reputation — PostgreSQL (Cloud SQL)
+ *
+ * Remembers every screening outcome per caller, keyed by the keyed caller
+ * hash (lib/caller-hash.ts — the raw number is never stored):
+ *
+ *   caller_history  one row per decision: BLOCK / RECORD / ACCEPT (AI) or REJECT
+ *                   (auto-rejected by the router on reputation alone)
+ *
+ * Aggregated on read into a CallerReputation: block/record counts,
+ * call frequency and the most recent reasons. Used by
+ *   - router.decide()  → auto-reject repeat scammers before any STT/LLM time
+ *   - VoiceAISession   → "blocked N times before" hint for the screening model
+ *
+ * Lookups are best-effort: a slow or missing DB means "no history",
+ * never a failed call. They match the caller under every configured pepper
+ * version; recording an outcome re-keys the caller's older rows.
+ */
+
+import { query } from '@/lib/db';
+import { reputationConfig } from '@/lib/config';
+import { callerHashCandidates } from '@/lib/caller-hash';
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type CallerOutcome = 'BLOCK' | 'RECORD' | 'ACCEPT' | 'REJECT';
+
+export interface CallerReputation {
+  callerHash: string;
+  blockCount: number;
+  recordCount: number;
+  acceptCount: number;
+  autoRejectCount: number;
+  /** All outcomes within the reputation window */
+  totalCalls: number;
+  callsLast24h: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  /** Most recent AI decision (BLOCK / RECORD / ACCEPT), ignoring auto-rejects */
+  lastDecision: 'BLOCK' | 'RECORD' | 'ACCEPT' | null;
+  /** Newest first */
+  recentReasons: Array<{ outcome: CallerOutcome; reason: string; at: string }>;
+}
+
+const MAX_REASON_LENGTH = 280;
+const RECENT_REASONS = 3;
+
+// ─── Schema ───────────────────────────────────────────────────
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS caller_history (
+    id           BIGSERIAL PRIMARY KEY,
+    caller_hash  TEXT NOT NULL,
+    call_sid     TEXT NOT NULL,
+    tenant_id    TEXT,
+    outcome      TEXT NOT NULL,
+    reason       TEXT NOT NULL DEFAULT '',
+    created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+  CREATE INDEX IF NOT EXISTS caller_history_caller_idx ON caller_history (caller_hash, created_at DESC);
+`;
+
+let _schemaReady: Promise<void> | null = null;
+
+/** Create the caller_history table on first use (idempotent) */
+function ensureSchema(): Promise<void> {
+  if (!_schemaReady) {
+    _schemaReady = query(SCHEMA)
+      .then(() => undefined)
+      .catch((err) => {
+        _schemaReady = null;
+        throw err;
+      });
+  }
+  return _schemaReady;
+}
+
+function toIso(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// ─── Store ────────────────────────────────────────────────────
+
+/**
+ * Only real numbers have a reputation — "Anonymous", "Restricted" etc.
+ * would all collapse into one shared hash.
+ */
+export function isIdentifiableCaller(from: string): boolean {
+  return /^\+?\d{6,}$/.test(from);
+}
+
+/**
+ * Append one outcome to the caller's history, moving rows stored under an
+ * older pepper version (or the legacy hash) to the current identifier.
+ */
+export async function recordCallerOutcome(params: {
+  from: string;
+  callSid: string;
+  outcome: CallerOutcome;
+  reason: string;
+  tenantId?: string;
+}): Promise<void> {
+  if (!reputationConfig.enabled || !isIdentifiableCaller(params.from)) return;
+
+  const [callerHash, ...previous] = callerHashCandidates(params.from);
+
+  await ensureSchema();
+  if (previous.length > 0) {
+    await query(
+      'UPDATE caller_history SET caller_hash = $1 WHERE caller_hash = ANY($2)',
+      [callerHash, previous],
+    );
+  }
+  await query(
+    `INSERT INTO caller_history (caller_hash, call_sid, tenant_id, outcome, reason)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [
+      callerHash,
+      params.callSid,
+      params.tenantId ?? null,
+      params.outcome,
+      params.reason.slice(0, MAX_REASON_LENGTH),
+    ],
+  );
+}
+
+/**
+ * Aggregate a caller's history within the reputation window.
+ * `callerHashes` are the identifiers the caller may be stored under
+ * (callerHashCandidates), current one first.
+ * Returns null if the caller has never been screened.
+ */
+export async function getCallerReputation(callerHashes: string | string[]): Promise<CallerReputation | null> {
+  const hashes = Array.isArray(callerHashes) ? callerHashes : [callerHashes];
+  await ensureSchema();
+
+  const window = `NOW() - $2::int * interval '1 day'`;
+  const [agg, recent, lastDecision] = await Promise.all([
+    query(
+      `SELECT COUNT(*) FILTER (WHERE outcome = 'BLOCK')  AS block_count,
+              COUNT(*) FILTER (WHERE outcome = 'RECORD') AS record_count,
+              COUNT(*) FILTER (WHERE outcome = 'ACCEPT') AS accept_count,
+              COUNT(*) FILTER (WHERE outcome = 'REJECT') AS reject_count,
+              COUNT(*)                                    AS total_calls,
+              COUNT(*) FILTER (WHERE created_at > NOW() - interval '24 hours') AS calls_24h,
+              MIN(created_at) AS first_seen_at,
+              MAX(created_at) AS last_seen_at
+       FROM caller_history
+       WHERE caller_hash = ANY($1) AND created_at > ${window}`,
+      [hashes, reputationConfig.windowDays],
+    ),
+    query(
+      `SELECT outcome, reason, created_at FROM caller_history
+       WHERE caller_hash = ANY($1) AND created_at > ${window}
+       ORDER BY created_at DESC LIMIT ${RECENT_REASONS}`,
+      [hashes, reputationConfig.windowDays],
+    ),
+    query(
+      `SELECT outcome FROM caller_history
+       WHERE caller_hash = ANY($1) AND created_at > ${window} AND outcome IN ('BLOCK', 'RECORD', 'ACCEPT')
+       ORDER BY created_at DESC LIMIT 1`,
+      [hashes, reputationConfig.windowDays],
+    ),
+  ]);
+
+  const row = agg.rows[0];
+  if (!row || Number(row.total_calls) === 0) return null;
+
+  return {
+    callerHash: hashes[0],
+    blockCount: Number(row.block_count),
+    recordCount: Number(row.record_count),
+    acceptCount: Number(row.accept_count),
+    autoRejectCount: Number(row.reject_count),
+    totalCalls: Number(row.total_calls),
+    callsLast24h: Number(row.calls_24h),
+    firstSeenAt: toIso(row.first_seen_at),
+    lastSeenAt: toIso(row.last_seen_at),
+    lastDecision: lastDecision.rows[0]?.outcome ?? null,
+    recentReasons: recent.rows.map((r) => ({
+      outcome: r.outcome,
+      reason: r.reason,
+      at: toIso(r.created_at),
+    })),
+  };
+}
+
+/**
+ * Forget a caller (false positive, or on request). Returns rows deleted.
+ */
+export async function clearCallerReputation(callerHashes: string | string[]): Promise<number> {
+  const hashes = Array.isArray(callerHashes) ? callerHashes : [callerHashes];
+  await ensureSchema();
+  const res = await query('DELETE FROM caller_history WHERE caller_hash = ANY($1)', [hashes]);
+  return res.rowCount ?? 0;
+}
+
+/** Retention: delete history older than `days` (RETENTION_CALLER_HASH_DAYS). Returns rows deleted. */
+export async function purgeCallerHistory(days: number): Promise<number> {
+  await ensureSchema();
+  const res = await query(
+    'DELETE FROM caller_history WHERE created_at < NOW() - make_interval(days => $1)',
+    [days],
+  );
+  return res.rowCount ?? 0;
+}
+
+/**
+ * Retention: blank the AI summary kept as `reason` on history older than `days`
+ * (RETENTION_SUMMARY_DAYS). The outcome stays for reputation. Returns rows cleared.
+ */
+export async function purgeCallerHistoryReasons(days: number): Promise<number> {
+  await ensureSchema();
+  const res = await query(
+    `UPDATE caller_history SET reason = ''
+     WHERE reason <> '' AND created_at < NOW() - make_interval(days => $1)`,
+    [days],
+  );
+  return res.rowCount ?? 0;
+}
+
+// ─── Call-time helpers ────────────────────────────────────────
+
+/**
+ * Reputation for an incoming caller, bounded by REPUTATION_LOOKUP_TIMEOUT_MS.
+ * Never throws — null on anonymous callers, timeouts or DB errors.
+ */
+export async function lookupCallerReputation(from: string): Promise<CallerReputation | null> {
+  if (!reputationConfig.enabled || !isIdentifiableCaller(from)) return null;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => {
+      console.warn(`🧾 [Reputation] Lookup timed out after ${reputationConfig.lookupTimeoutMs}ms`);
+      resolve(null);
+    }, reputationConfig.lookupTimeoutMs);
+  });
+
+  try {
+    return await Promise.race([getCallerReputation(callerHashCandidates(from)), timeout]);
+  } catch (error) {
+    console.warn('🧾 [Reputation] Lookup failed:', (error as Error).message);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Repeat scammer: blocked at least REPUTATION_AUTO_REJECT_BLOCKS times and
+ * not RECORDed or ACCEPTed since. 0 disables auto-reject.
+ */
+export function shouldAutoReject(reputation: CallerReputation | null): boolean {
+  const threshold = reputationConfig.autoRejectAfterBlocks;
+  return !!reputation
+    && threshold > 0
+    && reputation.blockCount >= threshold
+    && reputation.lastDecision === 'BLOCK';
+}
+
+/**
+ * One-paragraph history hint for the screening model.
+ * Deliberately factual — the model still judges the current call on its own.
+ */
+export function describeReputation(reputation: CallerReputation): string {
+  const days = Math.max(1, Math.round((Date.now() - Date.parse(reputation.firstSeenAt)) / 86_400_000));
+  const parts = [
+    `This caller's number has been screened ${reputation.blockCount + reputation.recordCount + reputation.acceptCount} time(s) in the last ${days} day(s):`,
+    `BLOCKED ${reputation.blockCount} time(s), RECORDED ${reputation.recordCount} time(s)${reputation.acceptCount ? `, put through ${reputation.acceptCount} time(s)` : ''}.`,
+  ];
+  if (reputation.callsLast24h > 1) {
+    parts.push(`They called ${reputation.callsLast24h} times in the last 24 hours.`);
+  }
+  const lastAi = reputation.recentReasons.find((r) => r.outcome !== 'REJECT');
+  if (lastAi?.reason) {
+    parts.push(`Most recent outcome (${lastAi.outcome}): ${lastAi.reason}`);
+  }
+  parts.push('Use this only as context; decide based on what the caller says now.');
+  return parts.join(' ');
+}
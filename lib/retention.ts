@@ -0,0 +1,189 @@
+/**
+ * Data Retention — scheduled purge and per-caller erasure
+ *
+ * Call data is kept per class, each with its own RETENTION_*_DAYS (0 = forever):
+ *
+ *   transcript   transcript text, turns + salt, voicemail transcript
+ *   audio        archived caller.wav / ai.wav
+ *   summary      caller name / organization / purpose, voicemail,
+ *                the summary kept as caller_history.reason,
+ *                the stored Web Proof presentation and signed copy of the
+ *                Decision API response
+ *   callerHash   callerHashShort on decision records, caller_history rows
+ *
+ * What a verifier needs is never purged: the decision, reason, policy and
+ * the transcript / audio / prompt hashes stay on the decision record, and
+ * the on-chain record does not depend on this database at all.
+ *
+ * The purge runs on a timer from server.ts (and via POST /api/retention/purge);
+ * eraseCaller() backs the erasure API (DELETE /api/callers/[caller]).
+ */
+
+import { retentionConfig } from '@/lib/config';
+import {
+  eraseCallerDecisions,
+  getCallerCallSids,
+  getDecisionsWithExpiredAudio,
+  markDecisionAudioPurged,
+  purgeDecisionCallerHashes,
+  purgeDecisionSummaries,
+  purgeDecisionTranscripts,
+} from '@/lib/witness/decision-store';
+import { dropSignedDecisions, dropWebProofs } from '@/lib/witness/job-store';
+import { deleteCallAudio } from '@/lib/voice-ai/audio-archive';
+import { clearCallerReputation, purgeCallerHistory, purgeCallerHistoryReasons } from '@/lib/reputation';
+
+// ─── Types ────────────────────────────────────────────────────
+
+/** Records touched per class by one purge run */
+export interface PurgeResult {
+  transcripts: number;
+  audio: number;
+  summaries: number;
+  webProofs: number;
+  signedDecisions: number;
+  historyReasons: number;
+  callerHashes: number;
+  callerHistory: number;
+}
+
+export interface ErasureResult {
+  /** Calls whose decision records were erased */
+  callSids: string[];
+  /** Calls whose audio could not be deleted — still linked to the caller, so erase again to retry */
+  audioFailed: string[];
+  webProofs: number;
+  signedDecisions: number;
+  callerHistory: number;
+}
+
+/** Audio files deleted per run — the rest wait for the next one */
+const AUDIO_PURGE_LIMIT = 200;
+
+let _timer: NodeJS.Timeout | null = null;
+let _purging = false;
+
+// ─── Purge ────────────────────────────────────────────────────
+
+/**
+ * Purge every class past its retention period.
+ * Concurrent calls on the same instance return null.
+ */
+export async function purgeExpiredCallData(): Promise<PurgeResult | null> {
+  if (_purging) return null;
+  _purging = true;
+
+  try {
+    const { transcriptDays, audioDays, summaryDays, callerHashDays } = retentionConfig;
+    const result: PurgeResult = {
+      transcripts: 0, audio: 0, summaries: 0, webProofs: 0, signedDecisions: 0, historyReasons: 0,
+      callerHashes: 0, callerHistory: 0,
+    };
+
+    if (transcriptDays > 0) {
+      result.transcripts = (await purgeDecisionTranscripts(transcriptDays)).length;
+    }
+
+    if (audioDays > 0) {
+      const { deleted } = await deleteAudio(await getDecisionsWithExpiredAudio(audioDays, AUDIO_PURGE_LIMIT));
+      result.audio = deleted.length;
+    }
+
+    if (summaryDays > 0) {
+      const callSids = await purgeDecisionSummaries(summaryDays);
+      result.summaries = callSids.length;
+      result.webProofs = await dropWebProofs(callSids);
+      result.signedDecisions = await dropSignedDecisions(callSids);
+      result.historyReasons = await purgeCallerHistoryReasons(summaryDays);
+    }
+
+    if (callerHashDays > 0) {
+      result.callerHashes = await purgeDecisionCallerHashes(callerHashDays);
+      result.callerHistory = await purgeCallerHistory(callerHashDays);
+    }
+
+    if (Object.values(result).some((n) => n > 0)) {
+      console.log(
+        `🧹 [Retention] Purged transcripts=${result.transcripts} audio=${result.audio} ` +
+        `summaries=${result.summaries} webProofs=${result.webProofs} signedDecisions=${result.signedDecisions} ` +
+        `historyReasons=${result.historyReasons} ` +
+        `callerHashes=${result.callerHashes} callerHistory=${result.callerHistory}`,
+      );
+    }
+    return result;
+  } finally {
+    _purging = false;
+  }
+}
+
+// ─── Erasure ──────────────────────────────────────────────────
+
+/**
+ * Delete a caller's personal data: decision record fields, archived audio,
+ * Web Proof presentations, signed Decision API copies and reputation history. `callerHashes` are every
+ * identifier the caller may be stored under (resolveCallerHashes).
+ *
+ * The artifacts go first and the caller hash link on the decision records
+ * last, so an erasure that fails part-way can simply be run again. Calls
+ * whose audio delete fails keep the link and are reported in `audioFailed`.
+ *
+ * Records whose caller hash has already been purged can no longer be
+ * linked to the caller — keep RETENTION_CALLER_HASH_DAYS the longest period.
+ */
+export async function eraseCaller(callerHashes: string[]): Promise<ErasureResult> {
+  const callSids = await getCallerCallSids(callerHashes);
+
+  const { failed: audioFailed } = await deleteAudio(callSids);
+  const webProofs = await dropWebProofs(callSids);
+  const signedDecisions = await dropSignedDecisions(callSids);
+  const callerHistory = await clearCallerReputation(callerHashes);
+  const erased = await eraseCallerDecisions(callerHashes, audioFailed);
+
+  console.log(
+    `🧹 [Retention] Erased caller ${callerHashes[0]}: ${erased.length} call(s), ${callerHistory} history row(s)` +
+    (audioFailed.length > 0 ? `, audio delete failed for ${audioFailed.length}` : ''),
+  );
+  return { callSids: erased, audioFailed, webProofs, signedDecisions, callerHistory };
+}
+
+/** Delete each call's archived audio, one failure not stopping the rest */
+async function deleteAudio(callSids: string[]): Promise<{ deleted: string[]; failed: string[] }> {
+  const deleted: string[] = [];
+  const failed: string[] = [];
+  for (const callSid of callSids) {
+    try {
+      await deleteCallAudio(callSid);
+      deleted.push(callSid);
+    } catch (err) {
+      failed.push(callSid);
+      console.warn(`🧹 [Retention] Audio delete failed for ${callSid}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  await markDecisionAudioPurged(deleted);
+  return { deleted, failed };
+}
+
+// ─── Worker ───────────────────────────────────────────────────
+
+/** Start the periodic purge (no-op if disabled or already running) */
+export function startRetentionWorker(): void {
+  if (!retentionConfig.purgeEnabled || _timer) return;
+
+  const sweep = () => {
+    purgeExpiredCallData().catch((err) => {
+      console.error('🧹 [Retention] Purge failed:', err instanceof Error ? err.message : err);
+    });
+  };
+
+  console.log(`🧹 [Retention] Purge started (interval ${retentionConfig.purgeIntervalMs}ms)`);
+  sweep();
+  _timer = setInterval(sweep, retentionConfig.purgeIntervalMs);
+  _timer.unref();
+}
+
+export function stopRetentionWorker(): void {
+  if (_timer) {
+    clearInterval(_timer);
+    _timer = null;
+  }
+}
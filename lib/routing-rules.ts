@@ -0,0 +1,258 @@
+/**
+ * Call Routing Rules
+ *
+ * Ordered rules evaluated by router.decide() before AI screening.
+ * The first rule that matches decides the call; its explanation becomes
+ * `Decision.reason`, so every reject / voicemail can be traced to a rule.
+ *
+ *   blocklist    caller number matches a pattern (`*` suffix = prefix match)
+ *   country      CallerCountry is (or with `negate`, is not) in the list
+ *   area-code    caller number prefix or CallerState matches (or `negate`)
+ *   time-window  local time in `timezone` is within start–end (may cross midnight;
+ *                `days` are the days the window starts on)
+ *   anonymous    caller ID withheld / restricted / unknown
+ *   rate-limit   caller made more than `maxCalls` calls within `windowMinutes`
+ *
+ * Rules are configured per tenant (lib/tenants.ts) or, for the default
+ * tenant, in ROUTING_RULES (JSON array).
+ *
+ * The rate limiter counts calls in memory, per instance.
+ */
+
+import { isIdentifiableCaller } from '@/lib/reputation';
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type RuleAction = 'forward' | 'reject' | 'voicemail' | 'ai_screen';
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+interface RuleBase {
+  /** Shown in Decision.reason (defaults to the rule type and position) */
+  id?: string;
+  action: RuleAction;
+}
+
+export type RoutingRule =
+  | RuleBase & { type: 'blocklist'; numbers: string[] }
+  | RuleBase & { type: 'country'; countries: string[]; negate?: boolean }
+  | RuleBase & { type: 'area-code'; prefixes?: string[]; states?: string[]; negate?: boolean }
+  | RuleBase & { type: 'time-window'; timezone: string; start: string; end: string; days?: Weekday[] }
+  | RuleBase & { type: 'anonymous' }
+  | RuleBase & { type: 'rate-limit'; maxCalls: number; windowMinutes: number };
+
+/** What the rules can see about a call */
+export interface RuleCaller {
+  from: string;
+  callerCountry?: string;
+  callerState?: string;
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  action: RuleAction;
+  reason: string;
+}
+
+const ACTIONS: RuleAction[] = ['forward', 'reject', 'voicemail', 'ai_screen'];
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const HH_MM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** Twilio's caller IDs for withheld numbers */
+const ANONYMOUS_CALLER_IDS = [
+  '', 'anonymous', 'restricted', 'unknown', 'unavailable', 'blocked', 'private',
+  '+266696687', '+7378742833', '+2562533', '+8656696',
+];
+
+// ─── Number patterns ──────────────────────────────────────────
+
+/** `+1555*` = prefix match, anything else = exact match */
+export function matchesNumberPattern(number: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? number.startsWith(pattern.slice(0, -1)) : number === pattern;
+}
+
+export function isAnonymousCaller(from: string): boolean {
+  return ANONYMOUS_CALLER_IDS.includes(from.trim().toLowerCase());
+}
+
+// ─── Rate limiter (in-memory, per instance) ───────────────────
+
+const MAX_TRACKED_WINDOW_MS = 24 * 60 * 60 * 1000;
+const callAttempts = new Map<string, number[]>();
+
+/**
+ * Count an incoming call for rate-limit rules. Call once per webhook.
+ */
+export function recordCallAttempt(from: string, now = Date.now()): void {
+  if (!isIdentifiableCaller(from)) return;
+  const recent = (callAttempts.get(from) || []).filter((t) => now - t < MAX_TRACKED_WINDOW_MS);
+  recent.push(now);
+  callAttempts.set(from, recent);
+
+  // Keep the map bounded: drop callers with no recent calls
+  if (callAttempts.size > 10_000) {
+    for (const [key, times] of callAttempts) {
+      if (now - times[times.length - 1] >= MAX_TRACKED_WINDOW_MS) callAttempts.delete(key);
+    }
+  }
+}
+
+function countCallAttempts(from: string, windowMs: number, now: number): number {
+  return (callAttempts.get(from) || []).filter((t) => now - t < windowMs).length;
+}
+
+// ─── Time windows ─────────────────────────────────────────────
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function localTime(now: Date, timezone: string): { weekday: Weekday; minutes: number; label: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  const hour = get('hour');
+  const minute = get('minute');
+  return {
+    weekday: get('weekday').slice(0, 3).toLowerCase() as Weekday,
+    minutes: Number(hour) * 60 + Number(minute),
+    label: `${get('weekday')} ${hour}:${minute}`,
+  };
+}
+
+// ─── Validation ───────────────────────────────────────────────
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Returns an error message, or null if the rule is well-formed */
+function validateRule(rule: any): string | null {
+  if (!rule || typeof rule !== 'object') return 'not an object';
+  if (!ACTIONS.includes(rule.action)) return `invalid action "${rule.action}"`;
+
+  switch (rule.type) {
+    case 'blocklist':
+      return isStringList(rule.numbers) && rule.numbers.length > 0 ? null : '`numbers` must be a non-empty string array';
+    case 'country':
+      return isStringList(rule.countries) && rule.countries.length > 0 ? null : '`countries` must be a non-empty string array';
+    case 'area-code':
+      if (rule.prefixes !== undefined && !isStringList(rule.prefixes)) return '`prefixes` must be a string array';
+      if (rule.states !== undefined && !isStringList(rule.states)) return '`states` must be a string array';
+      return (rule.prefixes?.length || rule.states?.length) ? null : 'needs `prefixes` or `states`';
+    case 'time-window':
+      if (!isValidTimezone(rule.timezone)) return `invalid timezone "${rule.timezone}"`;
+      if (!HH_MM.test(rule.start) || !HH_MM.test(rule.end)) return '`start` / `end` must be HH:MM';
+      if (rule.days !== undefined && !(isStringList(rule.days) && rule.days.every((d: string) => WEEKDAYS.includes(d as Weekday)))) {
+        return '`days` must be weekdays like "mon"';
+      }
+      return null;
+    case 'anonymous':
+      return null;
+    case 'rate-limit':
+      return Number.isInteger(rule.maxCalls) && rule.maxCalls > 0
+        && typeof rule.windowMinutes === 'number' && rule.windowMinutes > 0
+        && rule.windowMinutes * 60_000 <= MAX_TRACKED_WINDOW_MS
+        ? null
+        : '`maxCalls` (integer > 0) and `windowMinutes` (≤ 1440) are required';
+    default:
+      return `unknown type "${rule.type}"`;
+  }
+}
+
+/**
+ * Validate a rules array from config. Invalid rules are logged and dropped
+ * (a typo must not take down call routing).
+ */
+export function parseRoutingRules(raw: unknown, origin: string): RoutingRule[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    console.warn(`🚦 [Rules] ${origin}: expected an array — ignored`);
+    return [];
+  }
+  return raw.filter((rule, i) => {
+    const error = validateRule(rule);
+    if (error) console.warn(`🚦 [Rules] ${origin} rule #${i + 1} skipped: ${error}`);
+    return !error;
+  });
+}
+
+// ─── Evaluation ───────────────────────────────────────────────
+
+/** Why the rule matches this call, or null if it does not */
+function explain(rule: RoutingRule, caller: RuleCaller, now: Date): string | null {
+  switch (rule.type) {
+    case 'blocklist': {
+      const pattern = rule.numbers.find((p) => matchesNumberPattern(caller.from, p));
+      return pattern ? `caller number matches blocklist pattern ${pattern}` : null;
+    }
+    case 'country': {
+      const country = (caller.callerCountry || '').toUpperCase();
+      if (!country) return null;
+      const listed = rule.countries.some((c) => c.toUpperCase() === country);
+      if (listed === !!rule.negate) return null;
+      return `caller country ${country} is ${rule.negate ? 'not ' : ''}in [${rule.countries.join(', ')}]`;
+    }
+    case 'area-code': {
+      const prefix = rule.prefixes?.find((p) => caller.from.startsWith(p));
+      const state = caller.callerState
+        && rule.states?.find((s) => s.toUpperCase() === caller.callerState!.toUpperCase());
+      const hit = prefix ? `number prefix ${prefix}` : state ? `caller state ${state}` : null;
+      if (!rule.negate) return hit ? `${hit} matches area-code rule` : null;
+      return hit ? null : `caller is outside [${[...(rule.prefixes || []), ...(rule.states || [])].join(', ')}]`;
+    }
+    case 'time-window': {
+      const local = localTime(now, rule.timezone);
+      const start = toMinutes(rule.start);
+      const end = toMinutes(rule.end);
+      const inside = start <= end
+        ? local.minutes >= start && local.minutes < end
+        : local.minutes >= start || local.minutes < end;
+      if (!inside) return null;
+      // `days` are the days a window starts on: fri 22:00–06:00 covers Saturday 01:00
+      const afterMidnight = start > end && local.minutes < end;
+      const day = afterMidnight ? WEEKDAYS[(WEEKDAYS.indexOf(local.weekday) + 6) % 7] : local.weekday;
+      if (rule.days && !rule.days.includes(day)) return null;
+      const window = `${rule.days ? `${day} ` : ''}${rule.start}–${rule.end}`;
+      return `call at ${local.label} ${rule.timezone} is within ${window}`;
+    }
+    case 'anonymous':
+      return isAnonymousCaller(caller.from) ? `caller ID withheld (${caller.from || 'empty'})` : null;
+    case 'rate-limit': {
+      const calls = countCallAttempts(caller.from, rule.windowMinutes * 60_000, now.getTime());
+      return calls > rule.maxCalls
+        ? `caller made ${calls} calls in ${rule.windowMinutes} min (limit ${rule.maxCalls})`
+        : null;
+    }
+  }
+}
+
+/**
+ * First matching rule, in order. null = no rule applies.
+ */
+export function evaluateRules(rules: RoutingRule[], caller: RuleCaller, now = new Date()): RuleMatch | null {
+  for (const [i, rule] of rules.entries()) {
+    const why = explain(rule, caller, now);
+    if (why) {
+      const ruleId = rule.id || `${rule.type}#${i + 1}`;
+      return { ruleId, action: rule.action, reason: `Rule ${ruleId}: ${why} → ${rule.action}` };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,473 @@
+/**
+ * Twilio Media Streams Call Simulator
+ *
+ * Plays the Twilio side of a `/stream` WebSocket so the voice pipeline can
+ * be exercised end-to-end without a real phone call:
+ *
+ *   connected → start → media (20ms μ-law frames, continuous) … → stop
+ *
+ * Like Twilio, it keeps streaming silence between caller turns, plays the
+ * AI's outbound audio in (simulated) real time and echoes each `mark` once
+ * the audio queued before it has finished playing. A `clear` flushes the
+ * playback buffer and returns all pending marks immediately.
+ *
+ * Two modes:
+ *   - in-process (no `url`): mounts handleMediaStreamConnection on a local
+ *     port and listens to demoBus directly. Configure offline providers
+ *     (VOICE_*_PROVIDER) BEFORE importing this module.
+ *   - remote (`url`): connects to a running server; events come from the
+ *     SSE endpoint (`eventsUrl`, /api/demo/stream) when given.
+ *
+ * For text turns the caller "speaks" a tone burst and the utterances are
+ * passed to the server as the `SimulatorScript` stream parameter, which the
+ * scripted STT provider replays in order.
+ */
+
+import crypto from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { demoBus, type DemoEvent, type DemoEventType } from '@/lib/demo/event-bus';
+import { handleMediaStreamConnection } from '@/lib/voice-ai/stream-handler';
+import {
+  FRAME_MS,
+  loadAudioFile,
+  silenceFrame,
+  speechBurst,
+  toFrames,
+} from './caller-audio';
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type CallerTurn =
+  | { text: string; pauseMs?: number }
+  | { audioFile: string; text?: string; pauseMs?: number };
+
+export interface SimulationExpectations {
+  decision?: string;
+  /** Event types that must occur in this order (others may be interleaved) */
+  events?: DemoEventType[];
+}
+
+export interface SimulatorOptions {
+  /** ws://host/stream of a running server — omit to run in-process */
+  url?: string;
+  /** SSE endpoint for demo events in remote mode */
+  eventsUrl?: string;
+  eventsToken?: string;
+  callSid?: string;
+  from?: string;
+  /** Called number (selects the screening policy) */
+  to?: string;
+  turns: CallerTurn[];
+  expect?: SimulationExpectations;
+  /** Playback speed factor (2 = twice real time) */
+  speed?: number;
+  /** Max wait for the AI to answer one caller turn */
+  turnTimeoutMs?: number;
+  /** Max wait for the server to end the call after the last turn */
+  hangupTimeoutMs?: number;
+  /** Extra time to collect trailing events (witness pipeline) */
+  settleMs?: number;
+  /** Called for every demo event as it arrives */
+  onEvent?: (event: DemoEvent) => void;
+}
+
+export interface SimulationResult {
+  callSid: string;
+  streamSid: string;
+  decision: string | null;
+  events: DemoEvent[];
+  aiUtterances: number;
+  aiAudioMs: number;
+  marksAcknowledged: number;
+  closedByServer: boolean;
+  durationMs: number;
+  failures: string[];
+  passed: boolean;
+}
+
+// ─── Simulator ────────────────────────────────────────────────
+
+export class TwilioMediaStreamSimulator {
+  private options: Required<Omit<SimulatorOptions, 'url' | 'eventsUrl' | 'eventsToken' | 'to' | 'expect' | 'onEvent'>>
+    & Pick<SimulatorOptions, 'url' | 'eventsUrl' | 'eventsToken' | 'to' | 'expect' | 'onEvent'>;
+  private streamSid = `MZ${crypto.randomBytes(16).toString('hex')}`;
+  private ws: WebSocket | null = null;
+  private sequence = 0;
+  private mediaTimestamp = 0;
+  private chunk = 0;
+  private outbound: Buffer[] = [];
+  private pump: NodeJS.Timeout | null = null;
+
+  // Playback of the AI's audio (simulated)
+  private playbackEndsAt = 0;
+  private pendingMarks: Array<{ name: string; timer: NodeJS.Timeout }> = [];
+  private aiUtterances = 0;
+  private aiAudioMs = 0;
+  private marksAcknowledged = 0;
+
+  private events: DemoEvent[] = [];
+  private closed = false;
+  private closingByClient = false;  // We sent `stop` — the close that follows is ours
+  private closedByServer = false;
+  private waiters: Array<() => void> = [];
+  private failures: string[] = [];
+
+  constructor(options: SimulatorOptions) {
+    // Options explicitly passed as undefined (e.g. unset CLI flags) keep the default
+    const given = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined),
+    ) as SimulatorOptions;
+    this.options = {
+      callSid: `CA${crypto.randomBytes(16).toString('hex')}`,
+      from: '+15555550100',
+      speed: 1,
+      turnTimeoutMs: 20_000,
+      hangupTimeoutMs: 15_000,
+      settleMs: 1_000,
+      ...given,
+    };
+  }
+
+  /**
+   * Run the whole call and evaluate expectations.
+   */
+  async run(): Promise<SimulationResult> {
+    const started = Date.now();
+    const { callSid } = this.options;
+    const local = this.options.url ? null : await startInProcessServer();
+    const stopEvents = this.subscribeEvents();
+
+    try {
+      await this.connect(local ? local.url : this.options.url!);
+      this.send({ event: 'connected', protocol: 'Call', version: '1.0.0' });
+      this.send({
+        event: 'start',
+        start: {
+          accountSid: 'ACsimulator',
+          streamSid: this.streamSid,
+          callSid,
+          tracks: ['inbound'],
+          mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000, channels: 1 },
+          customParameters: {
+            From: this.options.from,
+            ...(this.options.to ? { To: this.options.to } : {}),
+            CallSid: callSid,
+            SimulatorScript: JSON.stringify(this.scriptedUtterances()),
+          },
+        },
+      });
+      this.startPump();
+
+      // Greeting
+      await this.waitForAiTurn(0, 'greeting');
+
+      for (const [i, turn] of this.options.turns.entries()) {
+        if (this.closed) {
+          this.failures.push(`call ended before caller turn ${i + 1}`);
+          break;
+        }
+        await sleep((turn.pauseMs ?? 300) / this.options.speed);
+        const before = this.aiUtterances;
+        this.outbound.push(...toFrames('audioFile' in turn ? loadAudioFile(turn.audioFile) : speechBurst(turn.text)));
+        await this.waitUntil(() => this.outbound.length === 0 || this.closed, this.options.turnTimeoutMs);
+        await this.waitForAiTurn(before, `caller turn ${i + 1}`);
+      }
+
+      // The session hangs up by itself after a decision
+      if (!this.closed) {
+        await this.waitUntil(() => this.closed, this.options.hangupTimeoutMs);
+      }
+      if (!this.closed) {
+        this.send({ event: 'stop', stop: { accountSid: 'ACsimulator', callSid } });
+        this.closingByClient = true;
+        this.ws?.close();
+      }
+
+      await sleep(this.options.settleMs);
+    } catch (err) {
+      this.failures.push(err instanceof Error ? err.message : String(err));
+    } finally {
+      this.stopPump();
+      this.pendingMarks.forEach((m) => clearTimeout(m.timer));
+      stopEvents();
+      if (this.ws && !this.closed) this.ws.terminate();
+      await local?.close();
+    }
+
+    const decision = this.decision();
+    this.checkExpectations(decision);
+
+    return {
+      callSid,
+      streamSid: this.streamSid,
+      decision,
+      events: this.events,
+      aiUtterances: this.aiUtterances,
+      aiAudioMs: this.aiAudioMs,
+      marksAcknowledged: this.marksAcknowledged,
+      closedByServer: this.closedByServer,
+      durationMs: Date.now() - started,
+      failures: this.failures,
+      passed: this.failures.length === 0,
+    };
+  }
+
+  // ─── Protocol ───────────────────────────────────────────────
+
+  private connect(url: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      ws.once('open', () => {
+        this.ws = ws;
+        resolve();
+      });
+      ws.once('error', reject);
+      ws.on('message', (data) => this.handleServerMessage(data.toString()));
+      ws.on('close', () => {
+        if (!this.closed && !this.closingByClient) this.closedByServer = true;
+        this.closed = true;
+        this.notify();
+      });
+    });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this.sequence++;
+    this.ws.send(JSON.stringify({
+      ...message,
+      sequenceNumber: String(this.sequence),
+      streamSid: this.streamSid,
+    }));
+  }
+
+  /** Caller audio is continuous, like a real line: queued speech, else silence */
+  private startPump(): void {
+    this.pump = setInterval(() => {
+      const frame = this.outbound.shift() ?? silenceFrame();
+      this.chunk++;
+      this.mediaTimestamp += FRAME_MS;
+      this.send({
+        event: 'media',
+        media: {
+          track: 'inbound',
+          chunk: String(this.chunk),
+          timestamp: String(this.mediaTimestamp),
+          payload: frame.toString('base64'),
+        },
+      });
+      if (this.outbound.length === 0) this.notify();
+    }, FRAME_MS / this.options.speed);
+  }
+
+  private stopPump(): void {
+    if (this.pump) clearInterval(this.pump);
+    this.pump = null;
+  }
+
+  private handleServerMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.failures.push(`server sent non-JSON message: ${raw.slice(0, 80)}`);
+      return;
+    }
+
+    const now = Date.now();
+    switch (message.event) {
+      case 'media': {
+        const bytes = Buffer.from(message.media?.payload || '', 'base64').length;
+        const ms = bytes / 8; // 8kHz μ-law: 8 bytes per ms
+        this.aiAudioMs += ms;
+        this.playbackEndsAt = Math.max(now, this.playbackEndsAt) + ms / this.options.speed;
+        break;
+      }
+      case 'mark': {
+        // The session marks the end of each thing it says
+        this.aiUtterances++;
+        const name = message.mark?.name || '';
+        const delay = Math.max(0, this.playbackEndsAt - now);
+        const timer = setTimeout(() => this.acknowledgeMark(name), delay);
+        this.pendingMarks.push({ name, timer });
+        break;
+      }
+      case 'clear':
+        // Twilio drops buffered audio and returns every pending mark at once
+        this.playbackEndsAt = now;
+        for (const mark of [...this.pendingMarks]) {
+          clearTimeout(mark.timer);
+          this.acknowledgeMark(mark.name);
+        }
+        break;
+    }
+    this.notify();
+  }
+
+  private acknowledgeMark(name: string): void {
+    this.pendingMarks = this.pendingMarks.filter((m) => m.name !== name);
+    this.marksAcknowledged++;
+    this.send({ event: 'mark', mark: { name } });
+    this.notify();
+  }
+
+  // ─── Waiting ────────────────────────────────────────────────
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((w) => w());
+  }
+
+  private async waitUntil(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return false;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, Math.min(remaining, 250));
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+    return true;
+  }
+
+  /** Wait until the AI has spoken since `before` and all its marks are back */
+  private async waitForAiTurn(before: number, label: string): Promise<void> {
+    const ok = await this.waitUntil(
+      () => this.closed || (this.aiUtterances > before && this.pendingMarks.length === 0),
+      this.options.turnTimeoutMs,
+    );
+    if (!ok) this.failures.push(`no AI response to ${label} within ${this.options.turnTimeoutMs}ms`);
+  }
+
+  // ─── Events ─────────────────────────────────────────────────
+
+  private scriptedUtterances(): string[] {
+    return this.options.turns.map((t) => t.text ?? '').filter(Boolean);
+  }
+
+  private recordEvent(event: DemoEvent): void {
+    if (event.callSid !== this.options.callSid) return;
+    this.events.push(event);
+    this.options.onEvent?.(event);
+  }
+
+  private subscribeEvents(): () => void {
+    if (!this.options.url) {
+      const listener = (event: DemoEvent) => this.recordEvent(event);
+      demoBus.on('demo', listener);
+      return () => demoBus.off('demo', listener);
+    }
+    if (this.options.eventsUrl) {
+      const controller = new AbortController();
+      readServerSentEvents(this.options.eventsUrl, this.options.eventsToken, controller.signal, (e) => this.recordEvent(e))
+        .catch((err) => {
+          if (!controller.signal.aborted) this.failures.push(`event stream failed: ${err.message}`);
+        });
+      return () => controller.abort();
+    }
+    return () => {};
+  }
+
+  private decision(): string | null {
+    const event = this.events.find((e) => e.type === 'ai:decision');
+    return event ? String(event.data.decision) : null;
+  }
+
+  private checkExpectations(decision: string | null): void {
+    const expect = this.options.expect;
+    if (!expect) return;
+
+    const observable = !this.options.url || !!this.options.eventsUrl;
+    if (!observable && (expect.decision || expect.events)) {
+      this.failures.push('expectations need demo events — run in-process or pass eventsUrl');
+      return;
+    }
+
+    if (expect.decision && decision !== expect.decision) {
+      this.failures.push(`expected decision ${expect.decision}, got ${decision ?? 'none'}`);
+    }
+
+    if (expect.events) {
+      let cursor = 0;
+      for (const type of expect.events) {
+        const index = this.events.findIndex((e, i) => i >= cursor && e.type === type);
+        if (index === -1) {
+          this.failures.push(`expected event "${type}"${cursor > 0 ? ` after "${this.events[cursor - 1].type}"` : ''}`);
+          return;
+        }
+        cursor = index + 1;
+      }
+    }
+  }
+}
+
+/** Convenience wrapper: run one simulated call */
+export function simulateCall(options: SimulatorOptions): Promise<SimulationResult> {
+  return new TwilioMediaStreamSimulator(options).run();
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Mount the real /stream handler on an ephemeral local port */
+async function startInProcessServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  const server: Server = createServer();
+  const wss = new WebSocketServer({ server, path: '/stream' });
+  wss.on('connection', (ws, request) => handleMediaStreamConnection(ws, request));
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `ws://127.0.0.1:${port}/stream`,
+    close: () => new Promise<void>((resolve) => {
+      wss.clients.forEach((c) => c.terminate());
+      wss.close(() => server.close(() => resolve()));
+    }),
+  };
+}
+
+/** Minimal SSE reader for /api/demo/stream */
+async function readServerSentEvents(
+  url: string,
+  token: string | undefined,
+  signal: AbortSignal,
+  onEvent: (event: DemoEvent) => void,
+): Promise<void> {
+  const res = await fetch(url, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    signal,
+  });
+  if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}`);
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = block.split('\n').find((line) => line.startsWith('data: '));
+      if (data) {
+        try {
+          onEvent(JSON.parse(data.slice(6)) as DemoEvent);
+        } catch { /* ignore malformed event */ }
+      }
+    }
+  }
+}
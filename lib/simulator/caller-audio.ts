@@ -0,0 +1,96 @@
+/**
+ * Caller Audio for the Call Simulator
+ *
+ * Produces the 8kHz μ-law frames a Twilio Media Stream would carry:
+ *   - speechBurst(): a tone whose length follows the word count, standing in
+ *     for spoken text (the scripted STT provider only looks at energy)
+ *   - loadAudioFile(): real caller audio from a WAV (16-bit PCM) or raw μ-law file
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { linear16ToMulaw, resample } from '@/lib/voice-ai/audio-utils';
+
+export const SAMPLE_RATE = 8000;
+/** Twilio sends 20ms frames: 160 μ-law bytes */
+export const FRAME_BYTES = 160;
+export const FRAME_MS = 20;
+
+const MULAW_SILENCE = 0xff;
+
+/** One frame of μ-law silence */
+export function silenceFrame(): Buffer {
+  return Buffer.alloc(FRAME_BYTES, MULAW_SILENCE);
+}
+
+/** Split μ-law audio into 20ms frames (last frame padded with silence) */
+export function toFrames(mulaw: Buffer): Buffer[] {
+  const frames: Buffer[] = [];
+  for (let i = 0; i < mulaw.length; i += FRAME_BYTES) {
+    const frame = silenceFrame();
+    mulaw.copy(frame, 0, i, Math.min(i + FRAME_BYTES, mulaw.length));
+    frames.push(frame);
+  }
+  return frames;
+}
+
+/**
+ * A tone burst standing in for `text` being spoken (~300ms per word).
+ */
+export function speechBurst(text: string, msPerWord = 300): Buffer {
+  const words = Math.max(1, text.trim().split(/\s+/).filter(Boolean).length);
+  const samples = Math.round((words * msPerWord * SAMPLE_RATE) / 1000);
+  const linear16 = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.round(6000 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE));
+    linear16.writeInt16LE(value, i * 2);
+  }
+  return linear16ToMulaw(linear16);
+}
+
+/**
+ * Load caller audio as 8kHz μ-law.
+ *   .wav            — 16-bit PCM, mono; resampled to 8kHz if needed
+ *   .ulaw / .raw    — headerless 8kHz μ-law
+ */
+export function loadAudioFile(path: string): Buffer {
+  const data = readFileSync(path);
+  const ext = extname(path).toLowerCase();
+
+  if (ext !== '.wav') return data;
+
+  if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error(`Not a WAV file: ${path}`);
+  }
+
+  let offset = 12;
+  let sampleRate = SAMPLE_RATE;
+  let channels = 1;
+  let bitsPerSample = 16;
+  let format = 1;
+  while (offset + 8 <= data.length) {
+    const chunkId = data.toString('ascii', offset, offset + 4);
+    const chunkSize = data.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      format = data.readUInt16LE(body);
+      channels = data.readUInt16LE(body + 2);
+      sampleRate = data.readUInt32LE(body + 4);
+      bitsPerSample = data.readUInt16LE(body + 14);
+    } else if (chunkId === 'data') {
+      if (format === 7 && bitsPerSample === 8 && sampleRate === SAMPLE_RATE && channels === 1) {
+        return data.subarray(body, body + chunkSize); // already μ-law
+      }
+      if (format !== 1 || bitsPerSample !== 16 || channels !== 1) {
+        throw new Error(`Unsupported WAV (format=${format}, bits=${bitsPerSample}, channels=${channels}): ${path}`);
+      }
+      const pcm = data.subarray(body, body + chunkSize);
+      return linear16ToMulaw(resample(Buffer.from(pcm), sampleRate, SAMPLE_RATE));
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error(`WAV file has no data chunk: ${path}`);
+}
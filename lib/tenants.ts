@@ -0,0 +1,219 @@
+/**
+ * Tenants — one protected household / business per called Twilio number
+ *
+ * A tenant owns one or more Twilio numbers (`CallRecord.to`) and carries
+ * everything that used to be a single deployment-wide env var:
+ * whitelist, blocklist, routing rules, forward destination, screening
+ * policy, language and notification channels.
+ *
+ * Defined in JSON (re-read when it changes, no redeploy):
+ *   TENANTS_FILE  path to a JSON array (default ./tenants.json), or
+ *   TENANTS       the JSON array inline (Cloud Run secret)
+ *
+ *   [{ "id": "home-office", "numbers": ["+15551230000"],
+ *      "forwardTo": "+819012345678", "whisper": true, "whitelist": ["+8190*"],
+ *      "blocklist": ["+1900*"], "rules": [{ "type": "anonymous", "action": "voicemail" }],
+ *      "policy": "household@2", "language": "en-US", "alternativeLanguages": ["ja-JP"],
+ *      "notifications": { "email": ["owner@example.com"] } }]
+ *
+ * Calls to a number no tenant claims fall back to the `default` tenant,
+ * built from the legacy env vars (DESTINATION_PHONE_NUMBER,
+ * WHITELIST_NUMBERS, BLOCKLIST_NUMBERS, ROUTING_RULES, NOTIFICATION_EMAIL,
+ * VOICE_LANGUAGE, VOICE_ALTERNATIVE_LANGUAGES, TRANSFER_WHISPER) — single-tenant deployments
+ * keep working unchanged.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { resolve } from 'path';
+import { parseRoutingRules, type RoutingRule } from '@/lib/routing-rules';
+import {
+  DEFAULT_LANGUAGE,
+  MAX_ALTERNATIVE_LANGUAGES,
+  isSupportedLanguage,
+} from '@/lib/voice-ai/languages';
+
+// ─── Types ────────────────────────────────────────────────────
+
+export interface TenantNotifications {
+  /** Email recipients for call notifications */
+  email: string[];
+}
+
+export interface Tenant {
+  id: string;
+  name?: string;
+  /** Twilio numbers (E.164) owned by this tenant */
+  numbers: string[];
+  /** Where whitelisted and ACCEPTed callers are forwarded */
+  forwardTo: string;
+  /** Read the screening summary to forwardTo before an ACCEPTed call connects */
+  whisper: boolean;
+  /** Caller numbers forwarded without screening (`*` suffix = prefix match) */
+  whitelist: string[];
+  /** Caller numbers rejected outright (checked after the whitelist) */
+  blocklist: string[];
+  /** Ordered routing rules (lib/routing-rules.ts), evaluated after the blocklist */
+  rules: RoutingRule[];
+  /** Screening policy reference (`name@version` or `name`) */
+  policy?: string;
+  /** BCP-47 language for STT/TTS, greetings and TwiML prompts */
+  language: string;
+  /** Other languages callers may speak — STT auto-detects and the session follows (max 3) */
+  alternativeLanguages: string[];
+  /** Seconds to ring the forward destination */
+  forwardTimeout?: number;
+  notifications: TenantNotifications;
+}
+
+export const DEFAULT_TENANT_ID = 'default';
+
+// ─── Loading ──────────────────────────────────────────────────
+
+let _cache: { key: string; tenants: Tenant[] } | null = null;
+
+function splitList(raw: string | undefined): string[] {
+  return (raw || '').split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.length > 0) : [];
+}
+
+/** Primary language, if we have a screening profile for it */
+function parseLanguage(code: unknown, origin: string): string {
+  if (typeof code !== 'string' || !code) return DEFAULT_LANGUAGE;
+  if (isSupportedLanguage(code)) return code;
+  console.warn(`🏠 [Tenants] ${origin}: unsupported language ${code} — using ${DEFAULT_LANGUAGE}`);
+  return DEFAULT_LANGUAGE;
+}
+
+/** Alternative languages we have a screening profile for (the primary one excluded) */
+function parseLanguages(codes: string[], primary: string, origin: string): string[] {
+  const supported = codes.filter((code) => {
+    if (code === primary) return false;
+    if (isSupportedLanguage(code)) return true;
+    console.warn(`🏠 [Tenants] ${origin}: unsupported language ${code} — ignored`);
+    return false;
+  });
+  if (supported.length > MAX_ALTERNATIVE_LANGUAGES) {
+    console.warn(`🏠 [Tenants] ${origin}: only the first ${MAX_ALTERNATIVE_LANGUAGES} alternative languages are used`);
+  }
+  return supported.slice(0, MAX_ALTERNATIVE_LANGUAGES);
+}
+
+function parseTenant(raw: any, index: number): Tenant | null {
+  if (!raw || typeof raw.id !== 'string' || !raw.id) {
+    console.warn(`🏠 [Tenants] Entry #${index} has no id — skipped`);
+    return null;
+  }
+  const numbers = toStringList(raw.numbers);
+  if (numbers.length === 0) {
+    console.warn(`🏠 [Tenants] ${raw.id} has no numbers — skipped`);
+    return null;
+  }
+
+  const language = parseLanguage(raw.language, `tenant ${raw.id}`);
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : undefined,
+    numbers,
+    forwardTo: typeof raw.forwardTo === 'string' ? raw.forwardTo : '',
+    whisper: raw.whisper !== false,
+    whitelist: toStringList(raw.whitelist),
+    blocklist: toStringList(raw.blocklist),
+    rules: parseRoutingRules(raw.rules, `tenant ${raw.id}`),
+    policy: typeof raw.policy === 'string' && raw.policy ? raw.policy : undefined,
+    language,
+    alternativeLanguages: parseLanguages(toStringList(raw.alternativeLanguages), language, `tenant ${raw.id}`),
+    forwardTimeout: typeof raw.forwardTimeout === 'number' ? raw.forwardTimeout : undefined,
+    notifications: { email: toStringList(raw.notifications?.email) },
+  };
+}
+
+function parseTenants(json: string, origin: string): Tenant[] {
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error('expected a JSON array');
+    return parsed.map(parseTenant).filter((t): t is Tenant => t !== null);
+  } catch (error) {
+    console.error(`🏠 [Tenants] Invalid ${origin}: ${(error as Error).message}`);
+    return [];
+  }
+}
+
+/**
+ * Configured tenants. Re-read when TENANTS or the file's mtime changes
+ * (Cloud Run secret updates apply without a restart).
+ */
+export function listTenants(): Tenant[] {
+  const inline = process.env.TENANTS;
+  const path = process.env.TENANTS_FILE || resolve(process.cwd(), 'tenants.json');
+
+  let key: string;
+  let load: () => Tenant[];
+  if (inline) {
+    key = `env:${inline}`;
+    load = () => parseTenants(inline, 'TENANTS');
+  } else if (existsSync(path)) {
+    key = `file:${path}:${statSync(path).mtimeMs}`;
+    load = () => parseTenants(readFileSync(path, 'utf-8'), path);
+  } else {
+    return [];
+  }
+
+  if (_cache?.key !== key) {
+    const tenants = load();
+    _cache = { key, tenants };
+    console.log(`🏠 [Tenants] Loaded ${tenants.length} tenant(s)`);
+  }
+  return _cache.tenants;
+}
+
+let _defaultRules: { raw: string; rules: RoutingRule[] } | null = null;
+
+/** ROUTING_RULES, parsed once per distinct value */
+function getDefaultRules(): RoutingRule[] {
+  const raw = process.env.ROUTING_RULES || '';
+  if (_defaultRules?.raw !== raw) {
+    let parsed: unknown = [];
+    try {
+      parsed = raw ? JSON.parse(raw) : [];
+    } catch {
+      console.error('🏠 [Tenants] ROUTING_RULES is not valid JSON — ignored');
+    }
+    _defaultRules = { raw, rules: parseRoutingRules(parsed, 'ROUTING_RULES') };
+  }
+  return _defaultRules.rules;
+}
+
+/** The legacy single-tenant configuration (read on every call) */
+export function getDefaultTenant(): Tenant {
+  const language = parseLanguage(process.env.VOICE_LANGUAGE, 'VOICE_LANGUAGE');
+  return {
+    id: DEFAULT_TENANT_ID,
+    numbers: splitList(process.env.TWILIO_PHONE_NUMBER),
+    forwardTo: process.env.DESTINATION_PHONE_NUMBER || '',
+    whisper: process.env.TRANSFER_WHISPER !== 'false',
+    whitelist: splitList(process.env.WHITELIST_NUMBERS),
+    blocklist: splitList(process.env.BLOCKLIST_NUMBERS),
+    rules: getDefaultRules(),
+    language,
+    alternativeLanguages: parseLanguages(
+      splitList(process.env.VOICE_ALTERNATIVE_LANGUAGES),
+      language,
+      'VOICE_ALTERNATIVE_LANGUAGES',
+    ),
+    notifications: { email: splitList(process.env.NOTIFICATION_EMAIL) },
+  };
+}
+
+/**
+ * Tenant owning the called number, or the default tenant.
+ */
+export function getTenantForNumber(calledNumber: string | undefined): Tenant {
+  if (calledNumber) {
+    const tenant = listTenants().find((t) => t.numbers.includes(calledNumber));
+    if (tenant) return tenant;
+  }
+  return getDefaultTenant();
+}
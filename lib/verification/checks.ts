@@ -0,0 +1,163 @@
+/**
+ * Verification Check Catalog
+ *
+ * Every check has a stable ID that means the same thing in scripts/verify.ts,
+ * the /verify page and the demo viewer — reports, docs and bug reports can
+ * refer to "V4" without saying which tool printed it.
+ *
+ *   C1–C5    the registry contract (once per run)
+ *   V1–V8    one registered record (V9, V10 with --deep)
+ *   V11–V12  reproduced from what the verifier brings (--repo, --transcript)
+ *   B1–B8    one batched call against its anchored Merkle root
+ *   S1–S3    a server-signed Decision API response (offline, weaker than V/B)
+ *
+ * IDs are never renumbered: a retired check keeps its ID reserved.
+ */
+
+import type { CheckNote, CheckResult } from './types';
+
+export const CHECKS = {
+  // ─── Contract ───────────────────────────────────────────────
+  C1: {
+    label: 'Contract bytecode exists',
+    proves: 'A contract is deployed at the registry address',
+  },
+  C2: {
+    label: 'Registry responds (getStats)',
+    proves: 'The contract answers the VeriCallRegistry interface',
+  },
+  C3: {
+    label: 'Verifier contract configured',
+    proves: 'The registry points at a deployed ZK verifier (MockVerifier is flagged)',
+  },
+  C4: {
+    label: 'Image ID (ZK guest program) configured',
+    proves: 'Proofs are checked against a fixed guest program',
+  },
+  C5: {
+    label: 'Owner address',
+    proves: 'Who can amend records and rotate the image ID',
+  },
+
+  // ─── Record ─────────────────────────────────────────────────
+  V1: {
+    label: 'ZK proof verified on-chain (verified flag)',
+    proves: 'The ZK proof was verified by the on-chain verifier during registration',
+  },
+  V2: {
+    label: 'Journal hash integrity (keccak256)',
+    proves: 'The journal data has not been modified after submission (keccak256 commitment)',
+  },
+  V3: {
+    label: 'On-chain verifyJournal()',
+    proves: 'The contract itself confirms journal integrity',
+  },
+  V4: {
+    label: 'Independent seal re-verification (verifier.verify())',
+    proves: 'Independent re-verification — calling verifier.verify() directly',
+  },
+  V5: {
+    label: 'TLSNotary web proof metadata (decoded journal)',
+    proves: 'The TLSNotary/HTTP metadata in the journal is well-formed and non-trivial',
+  },
+  V5b: {
+    label: 'Decision consistency (proven vs on-chain)',
+    proves: 'The proven decision matches the on-chain record decision',
+  },
+  V6: {
+    label: 'CallDecisionRecorded event found',
+    proves: 'The registration transaction exists and is findable on-chain',
+  },
+  V7: {
+    label: 'ProofVerified event emitted',
+    proves: 'The ProofVerified event confirms ZK verification happened on-chain',
+  },
+  V8: {
+    label: 'Source code attestation (commit SHA on-chain)',
+    proves: 'The source code commit SHA is proven on-chain, linking to auditable code',
+  },
+  V9: {
+    label: 'Source URL currently accessible',
+    proves: 'The Decision API URL still answers (current state, not part of the proof)',
+  },
+  V10: {
+    label: 'Current API response consistent with on-chain data',
+    proves: 'The Decision API still returns the decision that was proven',
+  },
+  V11: {
+    label: 'System prompt reproduced from source (systemPromptHash)',
+    proves: 'The proven systemPromptHash is the hash of a prompt in the source at the proven commit',
+  },
+  V12: {
+    label: 'Disclosed transcript matches transcriptHash',
+    proves: 'The transcript the owner disclosed is the one committed to when the call was proven',
+  },
+
+  // ─── Batched call ───────────────────────────────────────────
+  B1: {
+    label: 'Batch root anchored on-chain (batches(root))',
+    proves: 'The Merkle root was anchored at this registry with the claimed size',
+  },
+  B2: {
+    label: 'Leaf recomputed from callId + decision + journal + seal',
+    proves: 'The leaf commits to exactly this call, decision, journal and seal',
+  },
+  B3: {
+    label: 'Merkle path → root (offline)',
+    proves: 'The sibling path leads from the leaf to the anchored root',
+  },
+  B4: {
+    label: 'On-chain verifyInclusion()',
+    proves: 'The contract walks the same path to the same root',
+  },
+  B5: {
+    label: 'Independent seal re-verification (verifier.verify())',
+    proves: 'Independent re-verification — calling verifier.verify() directly with the imageId pinned to the batch',
+  },
+  B6: {
+    label: 'Journal decoded — TLSNotary metadata valid, decision matches leaf',
+    proves: 'The proven decision is the one committed in the leaf',
+  },
+  B7: {
+    label: 'verifyBatchedDecision() returns true',
+    proves: 'The registry accepts the call: inclusion + ZK proof + journal binding',
+  },
+  B8: {
+    label: 'BatchAnchored event found',
+    proves: 'The anchoring transaction exists and is the one claimed',
+  },
+
+  // ─── Server signature ───────────────────────────────────────
+  S1: {
+    label: 'Signing key published',
+    proves: 'The record names a key from the published decision key set',
+  },
+  S2: {
+    label: 'Key ID matches the public key',
+    proves: 'The published public key is the one its key ID commits to',
+  },
+  S3: {
+    label: 'Signature valid over the decision record',
+    proves: 'The key holder issued exactly this record — not that the call went this way: the operator can sign anything',
+  },
+} as const;
+
+export type CheckId = keyof typeof CHECKS;
+
+/** In the order the checks run */
+export const CONTRACT_CHECK_IDS: CheckId[] = ['C1', 'C2', 'C3', 'C4', 'C5'];
+export const RECORD_CHECK_IDS: CheckId[] = ['V1', 'V2', 'V3', 'V4', 'V5', 'V5b', 'V6', 'V7', 'V8'];
+export const DEEP_CHECK_IDS: CheckId[] = ['V9', 'V10'];
+export const REPRODUCTION_CHECK_IDS: CheckId[] = ['V11', 'V12'];
+export const INCLUSION_CHECK_IDS: CheckId[] = ['B1', 'B2', 'B3', 'B4', 'B5', 'B6', 'B7', 'B8'];
+export const SIGNATURE_CHECK_IDS: CheckId[] = ['S1', 'S2', 'S3'];
+
+/** A result for check `id`, labelled from the catalog */
+export function checkResult(
+  id: CheckId,
+  passed: boolean,
+  detail: string,
+  extra: { link?: string; notes?: CheckNote[] } = {},
+): CheckResult {
+  return { id, label: CHECKS[id].label, passed, detail, link: extra.link, notes: extra.notes ?? [] };
+}
@@ -0,0 +1,97 @@
+/**
+ * Verification RPC Client
+ *
+ * The verification core only reads: bytecode, view calls and event logs.
+ * Anything that offers those four methods can be plugged in — a public
+ * RPC over HTTP (the default), the user's own node, an injected wallet
+ * provider via viem's custom() transport, or a test double.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  getAbiItem,
+  http,
+  type AbiEvent,
+  type Chain,
+  type PublicClient,
+  type Transport,
+} from 'viem';
+import { VERICALL_REGISTRY_ABI } from '../witness/abi';
+import type { Hex } from './types';
+
+export type VerificationClient = Pick<
+  PublicClient<Transport, Chain>,
+  'getCode' | 'readContract' | 'getLogs' | 'getBlockNumber'
+>;
+
+/** A URL becomes an HTTP transport; pass a Transport for anything else */
+export function createVerificationClient(chain: Chain, transport: string | Transport): VerificationClient {
+  return createPublicClient({
+    chain,
+    transport: typeof transport === 'string' ? http(transport) : transport,
+  });
+}
+
+// ─── Event Lookup ─────────────────────────────────────────────
+
+/** Public RPCs reject eth_getLogs over large block ranges */
+const LOG_CHUNK_SIZE = BigInt(5000);
+
+export interface FoundLog {
+  transactionHash: Hex;
+  blockNumber: bigint;
+  args: Record<string, unknown>;
+}
+
+type RegistryEventName = 'CallDecisionRecorded' | 'ProofVerified' | 'BatchAnchored';
+
+/**
+ * First registry event matching the indexed `args`, from `fromBlock` to head.
+ * The whole range is tried first; if the RPC refuses it, the range is
+ * walked in LOG_CHUNK_SIZE steps and the first chunk with a hit wins.
+ */
+export async function findEventLog(
+  client: VerificationClient,
+  registry: Hex,
+  eventName: RegistryEventName,
+  args: Record<string, Hex>,
+  fromBlock: number,
+): Promise<FoundLog | null> {
+  const event = getAbiItem({ abi: VERICALL_REGISTRY_ABI, name: eventName }) as AbiEvent;
+  const getLogs = async (from: bigint, to: bigint) => {
+    const logs = await client.getLogs({ address: registry, event, args, fromBlock: from, toBlock: to });
+    const log = logs[0];
+    return log
+      ? { transactionHash: log.transactionHash!, blockNumber: log.blockNumber!, args: log.args as Record<string, unknown> }
+      : null;
+  };
+
+  const head = await client.getBlockNumber();
+  try {
+    return await getLogs(BigInt(fromBlock), head);
+  } catch { /* range too large for this RPC — fall back to chunks */ }
+
+  for (let start = BigInt(fromBlock); start <= head; start += LOG_CHUNK_SIZE) {
+    const end = start + LOG_CHUNK_SIZE - BigInt(1) > head ? head : start + LOG_CHUNK_SIZE - BigInt(1);
+    try {
+      const found = await getLogs(start, end);
+      if (found) return found;
+    } catch { /* chunk failed, continue */ }
+  }
+  return null;
+}
+
+// ─── Errors ───────────────────────────────────────────────────
+
+/**
+ * A revert with no data — what a registry without the called function
+ * (e.g. getAmendments() before V5) answers. RPC, network and decoding
+ * errors, and reverts carrying a reason or custom error, are not.
+ */
+export function isMissingFunctionError(err: unknown): boolean {
+  if (!(err instanceof BaseError)) return false;
+  const revert = err.walk((e) => e instanceof ContractFunctionRevertedError);
+  return revert instanceof ContractFunctionRevertedError && !revert.raw;
+}
@@ -0,0 +1,43 @@
+/**
+ * Pinned Deployments
+ *
+ * The registry addresses a verifier checks against, written into the code
+ * on purpose: a verifier should not take them from .env, a config file or
+ * a VeriCall API. Each one is public and checkable on its block explorer
+ * (and matches contracts/deployments/<chainId>.json).
+ *
+ * Networks without an entry here can still be verified, but the caller
+ * has to supply the registry address it expects.
+ */
+
+import { baseSepolia } from 'viem/chains';
+import type { Hex } from './types';
+
+export const VERICALL_REPO = 'https://github.com/rtree/veriCall';
+
+export interface PinnedDeployment {
+  chainId: number;
+  registry: Hex;
+  mockVerifier: Hex;
+  deployer: Hex;
+  /** Block of the registry deployment — event lookups start here */
+  deployBlock: number;
+  /** Guest program image ID the registry was deployed with */
+  imageId: Hex;
+}
+
+export const PINNED_DEPLOYMENTS: Record<number, PinnedDeployment> = {
+  [baseSepolia.id]: {
+    chainId: baseSepolia.id,
+    registry: '0x9a6015c6a0f13a816174995137e8a57a71250b81',
+    mockVerifier: '0xea998b642b469736a3f656328853203da3d92724',
+    deployer: '0x485A974140923524a74B0D72aF117852F31B412D',
+    deployBlock: 37374494,
+    imageId: '0x6e251f4d993427d02a4199e1201f3b54462365d7c672a51be57f776d509b47eb',
+  },
+};
+
+/** undefined for a network with no pinned deployment */
+export function findPinnedDeployment(chainId: number): PinnedDeployment | undefined {
+  return PINNED_DEPLOYMENTS[chainId];
+}
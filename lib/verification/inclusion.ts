@@ -0,0 +1,178 @@
+/**
+ * Batched Call Verification — B1–B8
+ *
+ * A batched call has no record of its own; the registry only holds the
+ * Merkle root of its batch. The inclusion proof (GET /witness/verify/[id])
+ * is taken as input and every claim in it is checked: the leaf is
+ * recomputed, the path walked to the root, the root looked up on-chain
+ * and the seal re-verified against the registry's verifier.
+ *
+ * Where the proof comes from (URL, file, paste) is up to the caller.
+ */
+
+import { sha256 } from 'viem';
+import { MOCK_VERIFIER_ABI, VERICALL_REGISTRY_ABI } from '../witness/abi';
+import { batchLeaf, merkleRootFromProof } from '../witness/merkle';
+import { checkResult } from './checks';
+import { findEventLog, type VerificationClient } from './client';
+import { decisionLabel, decodeJournal, explorerLink } from './registry';
+import type {
+  CheckListener,
+  CheckNote,
+  CheckResult,
+  Hex,
+  InclusionProof,
+  InclusionReport,
+  RegistryTarget,
+} from './types';
+
+/**
+ * A /witness/verify/[id] response (its `inclusion` field) or the bare proof.
+ * Throws if there is no proof in it — the call may not be anchored yet.
+ */
+export function parseInclusionProof(raw: unknown): InclusionProof {
+  const body = (raw ?? {}) as { inclusion?: unknown; error?: string };
+  const proof = (body.inclusion ?? raw) as Partial<InclusionProof> | null;
+  if (!proof?.batchRoot || !Array.isArray(proof.proof)) {
+    throw new Error(body.error || 'No inclusion proof — the call is not (yet) anchored in a batch');
+  }
+  return proof as InclusionProof;
+}
+
+/**
+ * Check `proof` against `target.registry` — which should be a registry the
+ * caller pinned, not the proof's own contractAddress, to avoid trusting
+ * the server that handed out the proof.
+ */
+export async function verifyInclusion(
+  client: VerificationClient,
+  target: RegistryTarget,
+  proof: InclusionProof,
+  onCheck?: CheckListener,
+): Promise<InclusionReport> {
+  const { registry } = target;
+  const p = proof;
+  const checks: CheckResult[] = [];
+  const push = (check: CheckResult) => {
+    checks.push(check);
+    onCheck?.(check);
+  };
+
+  // B1: Root anchored
+  let anchored: { size: number; timestamp: number; submitter: string; imageId: Hex } | null = null;
+  try {
+    const [size, timestamp, submitter, imageId] = await client.readContract({
+      address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'batches', args: [p.batchRoot],
+    });
+    if (timestamp > BigInt(0)) anchored = { size: Number(size), timestamp: Number(timestamp), submitter, imageId };
+  } catch { /* not a V5 registry */ }
+  push(checkResult('B1', !!anchored && anchored.size === p.batchSize,
+    anchored
+      ? `${anchored.size} call(s), anchored ${new Date(anchored.timestamp * 1000).toISOString()} by ${anchored.submitter}`
+      : `Root not anchored at ${registry}`, {
+      link: explorerLink(target, `address/${registry}`),
+      notes: [
+        { text: `Root: ${p.batchRoot}` },
+        ...(anchored ? [{ text: `ImageID: ${anchored.imageId}` }] : []),
+      ],
+    }));
+
+  // B2: Leaf
+  const leaf = batchLeaf(p) as Hex;
+  push(checkResult('B2', leaf === p.leaf,
+    leaf === p.leaf ? 'keccak256(callId, decision, journal, seal) matches' : `MISMATCH: computed ${leaf} ≠ claimed ${p.leaf}`, {
+      notes: [{ text: `Leaf: ${leaf}` }],
+    }));
+
+  // B3: Merkle path (offline)
+  const root = merkleRootFromProof(leaf, p.proof);
+  const rootMatch = root.toLowerCase() === p.batchRoot.toLowerCase();
+  push(checkResult('B3', rootMatch,
+    rootMatch
+      ? `Leaf #${p.leafIndex} of ${p.batchSize}, ${p.proof.length} sibling(s)`
+      : `MISMATCH: computed root ${root}`));
+
+  // B4: verifyInclusion()
+  let included = false;
+  try {
+    included = await client.readContract({
+      address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'verifyInclusion',
+      args: [p.batchRoot, leaf, p.proof],
+    });
+  } catch { /* marked failed */ }
+  push(checkResult('B4', included, included ? 'verifyInclusion() → true' : 'verifyInclusion() failed'));
+
+  // B5: Seal re-verification, against the imageId pinned when the batch was anchored
+  let sealError = '';
+  try {
+    if (!anchored) throw new Error('batch not anchored');
+    const verifier = await client.readContract({
+      address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'verifier',
+    });
+    await client.readContract({
+      address: verifier, abi: MOCK_VERIFIER_ABI, functionName: 'verify',
+      args: [p.zkProofSeal, anchored.imageId, sha256(p.journalDataAbi)],
+    });
+  } catch (err) {
+    sealError = err instanceof Error ? err.message.slice(0, 100) : 'Unknown error';
+  }
+  push(checkResult('B5', !sealError,
+    sealError
+      ? `verifier.verify() failed: ${sealError}`
+      : 'verifier.verify(seal, batch imageId, sha256(journal)) — passed'));
+
+  // B6: Journal
+  const label = decisionLabel(p.decision);
+  const journal = decodeJournal(p.journalDataAbi);
+  const provenDecision = journal?.provenDecision ?? '';
+  const journalOk = !!journal
+    && journal.notaryKeyFingerprint !== `0x${'0'.repeat(64)}`
+    && journal.method === 'GET'
+    && journal.url.length > 0
+    && provenDecision.toUpperCase() === label;
+  const b6Notes: CheckNote[] = [];
+  if (journal) {
+    const commit = journal.provenSourceCodeCommit;
+    b6Notes.push({ text: `URL: ${journal.url}` });
+    if (commit) b6Notes.push({ text: `Source code commit: ${commit}`, link: `${target.repo}/tree/${commit}` });
+    if (journal.provenAudioHash) b6Notes.push({ text: `Proven audio hash: ${journal.provenAudioHash}` });
+  }
+  push(checkResult('B6', journalOk,
+    journal
+      ? `Proven "${provenDecision || '?'}" ${journalOk ? '==' : '≠'} leaf "${label}"`
+      : 'Failed to decode journalDataAbi', { notes: b6Notes }));
+
+  // B7: The registry's own full check
+  let batchedOk = false;
+  try {
+    batchedOk = await client.readContract({
+      address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'verifyBatchedDecision',
+      args: [p.batchRoot, p.callId, p.decision, p.zkProofSeal, p.journalDataAbi, p.proof],
+    });
+  } catch { /* marked failed */ }
+  push(checkResult('B7', batchedOk,
+    batchedOk ? 'verifyBatchedDecision() → true' : 'verifyBatchedDecision() failed'));
+
+  // B8: BatchAnchored event
+  let anchorTx: string | null = null;
+  try {
+    const log = await findEventLog(client, registry, 'BatchAnchored', { root: p.batchRoot }, target.deployBlock);
+    anchorTx = log?.transactionHash ?? null;
+  } catch { /* event lookup may fail on some RPCs */ }
+  const txMatch = !!anchorTx && anchorTx.toLowerCase() === p.txHash.toLowerCase();
+  push(checkResult('B8', txMatch,
+    anchorTx
+      ? `TX: ${anchorTx}${txMatch ? '' : ` ≠ claimed ${p.txHash}`}`
+      : 'Could not find BatchAnchored event (RPC may not support historical logs)', {
+      link: anchorTx ? explorerLink(target, `tx/${anchorTx}`) : undefined,
+    }));
+
+  return {
+    generated: new Date().toISOString(),
+    registry,
+    proof: p,
+    decisionLabel: label,
+    checks,
+    allPassed: checks.every((c) => c.passed),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Verification core exports — shared by scripts/verify.ts, the /verify
+ * page, scripts/demo.ts and scripts/check-registry.ts. The server signs
+ * Decision API responses with signature.ts's message format.
+ *
+ * Browser-safe: no Node built-ins, no server config.
+ */
+
+export {
+  CHECKS,
+  CONTRACT_CHECK_IDS,
+  RECORD_CHECK_IDS,
+  DEEP_CHECK_IDS,
+  REPRODUCTION_CHECK_IDS,
+  INCLUSION_CHECK_IDS,
+  SIGNATURE_CHECK_IDS,
+  checkResult,
+  type CheckId,
+} from './checks';
+export {
+  createVerificationClient,
+  findEventLog,
+  isMissingFunctionError,
+  type VerificationClient,
+  type FoundLog,
+} from './client';
+export {
+  VERICALL_REPO,
+  PINNED_DEPLOYMENTS,
+  findPinnedDeployment,
+  type PinnedDeployment,
+} from './deployments';
+export {
+  DECISION_LABELS,
+  decisionLabel,
+  explorerLink,
+  decodeJournal,
+  readProvenData,
+  readAmendments,
+  verifyContract,
+  verifyRecord,
+  verifyRegistry,
+  type RecordOptions,
+  type RegistryOptions,
+} from './registry';
+export { parseInclusionProof, verifyInclusion } from './inclusion';
+export {
+  DECISION_SIGNATURE_DOMAIN,
+  canonicalJson,
+  decisionKeyId,
+  decisionSigningMessage,
+  parseDecisionKeySet,
+  parseSignedDecision,
+  verifySignedDecision,
+} from './signature';
+export type {
+  AmendmentEntry,
+  CheckListener,
+  CheckNote,
+  CheckResult,
+  ContractReport,
+  DecisionKeySet,
+  DecisionPublicKey,
+  DecisionSignature,
+  DecisionSigningAlgorithm,
+  Hex,
+  InclusionProof,
+  InclusionReport,
+  ProvenData,
+  RecordReport,
+  RegistryTarget,
+  SignedDecision,
+  SignedDecisionReport,
+  VerificationReport,
+  VerificationSummary,
+} from './types';
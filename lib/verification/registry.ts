@@ -0,0 +1,507 @@
+/**
+ * Registry Verification — C1–C5 and V1–V10
+ *
+ * Reads a VeriCallRegistry and its records straight from the chain and
+ * checks them. Nothing here trusts a VeriCall server: the only inputs are
+ * the registry address (pinned in deployments.ts or given by the user)
+ * and an RPC client.
+ *
+ * Failing checks don't throw — they come back with passed=false. Only a
+ * registry that can't be read at all (no bytecode, getStats() reverts)
+ * aborts the run.
+ */
+
+import { decodeAbiParameters, hexToBigInt, keccak256, sha256, slice } from 'viem';
+import { MOCK_VERIFIER_ABI, VERICALL_REGISTRY_ABI } from '../witness/abi';
+import { checkResult } from './checks';
+import { findEventLog, isMissingFunctionError, type VerificationClient } from './client';
+import type {
+  AmendmentEntry,
+  CheckListener,
+  CheckNote,
+  CheckResult,
+  ContractReport,
+  Hex,
+  ProvenData,
+  RecordReport,
+  RegistryTarget,
+  VerificationReport,
+} from './types';
+
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+
+/** RISC Zero MockVerifier — accepts any seal starting with this selector */
+const MOCK_SELECTOR = '0xffffffff';
+
+export const DECISION_LABELS: Record<number, string> = {
+  0: 'UNKNOWN', 1: 'ACCEPT', 2: 'BLOCK', 3: 'RECORD',
+};
+
+export function decisionLabel(decision: number): string {
+  return DECISION_LABELS[decision] ?? 'UNKNOWN';
+}
+
+/** Explorer link under the target's explorer, or undefined on a devnet */
+export function explorerLink(target: Pick<RegistryTarget, 'explorerUrl'>, path: string): string | undefined {
+  return target.explorerUrl ? `${target.explorerUrl}/${path}` : undefined;
+}
+
+function abbreviate(value: string): string {
+  return `${value.slice(0, 14)}…${value.slice(-8)}`;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message.slice(0, 100) : 'Unknown error';
+}
+
+// ─── Reads ────────────────────────────────────────────────────
+
+const EMPTY_PROVEN_DATA: ProvenData = {
+  notaryKeyFingerprint: '',
+  method: '',
+  url: '',
+  proofTimestamp: 'N/A',
+  queriesHash: '',
+  provenDecision: '',
+  provenReason: '',
+  provenSystemPromptHash: '',
+  provenTranscriptHash: '',
+  provenSourceCodeCommit: '',
+  provenAudioHash: '',
+  extractedData: '',
+};
+
+/** Journal fields in commit order — V3 stops after the transcript hash, V4 after the commit */
+const JOURNAL_PARAMS = [
+  { type: 'bytes32' }, { type: 'string' }, { type: 'string' }, { type: 'uint256' }, { type: 'bytes32' },
+  { type: 'string' }, { type: 'string' }, { type: 'string' }, { type: 'string' },
+  { type: 'string' }, { type: 'string' },
+] as const;
+
+/**
+ * Decode a journal of any registry version, or null if it isn't one.
+ * The first string's offset is the size of the head, i.e. 32 × the
+ * number of fields, so the layout doesn't have to be known up front.
+ */
+export function decodeJournal(journalDataAbi: Hex): ProvenData | null {
+  try {
+    const fieldCount = Number(hexToBigInt(slice(journalDataAbi, 32, 64))) / 32;
+    if (!Number.isInteger(fieldCount) || fieldCount < 9 || fieldCount > JOURNAL_PARAMS.length) return null;
+    const fields = decodeAbiParameters(JOURNAL_PARAMS.slice(0, fieldCount), journalDataAbi) as unknown[];
+    const [notaryKeyFingerprint, method, url, timestamp, queriesHash, decision, reason, ...hashes] = fields as [
+      string, string, string, bigint, string, string, string, ...string[]
+    ];
+    return {
+      notaryKeyFingerprint,
+      method,
+      url,
+      proofTimestamp: timestamp > BigInt(0) ? new Date(Number(timestamp) * 1000).toISOString() : 'N/A',
+      queriesHash,
+      provenDecision: decision,
+      provenReason: reason,
+      provenSystemPromptHash: hashes[0],
+      provenTranscriptHash: hashes[1],
+      provenSourceCodeCommit: hashes[2] ?? '',
+      provenAudioHash: hashes[3] ?? '',
+      extractedData: `${decision}|${reason}`,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** A record's decoded journal, or null if it can't be read or decoded */
+export async function readProvenData(
+  client: VerificationClient,
+  registry: Hex,
+  callId: Hex,
+): Promise<ProvenData | null> {
+  try {
+    const record = await client.readContract({
+      address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'getRecord', args: [callId],
+    });
+    return decodeJournal(record.journalDataAbi);
+  } catch {
+    return null;
+  }
+}
+
+/** getAmendments() — empty on a pre-V5 registry; any other read error is thrown */
+export async function readAmendments(
+  client: VerificationClient,
+  registry: Hex,
+  callId: Hex,
+): Promise<AmendmentEntry[]> {
+  let rows;
+  try {
+    rows = await client.readContract({
+      address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'getAmendments', args: [callId],
+    });
+  } catch (err) {
+    if (isMissingFunctionError(err)) return [];
+    throw err;
+  }
+  return rows.map((a, i) => ({
+    index: i,
+    kind: a.kind === 1 ? 'dispute' : 'correction',
+    correctedDecision: a.correctedDecision ? decisionLabel(a.correctedDecision) : null,
+    reason: a.reason,
+    filedBy: a.filedBy,
+    timestamp: new Date(Number(a.timestamp) * 1000).toISOString(),
+    submitter: a.submitter,
+  }));
+}
+
+// ─── Contract (C1–C5) ─────────────────────────────────────────
+
+export async function verifyContract(
+  client: VerificationClient,
+  target: RegistryTarget,
+  onCheck?: CheckListener,
+): Promise<ContractReport> {
+  const { registry } = target;
+  const checks: CheckResult[] = [];
+  const push = (check: CheckResult) => {
+    checks.push(check);
+    onCheck?.(check);
+  };
+
+  // C1: Bytecode
+  const bytecode = await client.getCode({ address: registry });
+  const bytecodeSize = bytecode ? (bytecode.length - 2) / 2 : 0;
+  push(checkResult('C1', bytecodeSize > 0, `${bytecodeSize} bytes at ${registry}`, {
+    link: explorerLink(target, `address/${registry}`),
+  }));
+  if (bytecodeSize === 0) throw new Error(`No contract at ${registry} — cannot verify`);
+
+  // C2: Stats
+  const [total, accepted, blocked, recorded] = await client.readContract({
+    address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'getStats',
+  });
+  const stats = {
+    total: Number(total), accepted: Number(accepted),
+    blocked: Number(blocked), recorded: Number(recorded),
+  };
+  push(checkResult('C2', true,
+    `getStats() → total=${stats.total}, accepted=${stats.accepted}, blocked=${stats.blocked}, recorded=${stats.recorded}`));
+
+  // C3: Verifier
+  const verifier = await client.readContract({
+    address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'verifier',
+  });
+  const verifierCode = await client.getCode({ address: verifier });
+  let isMockVerifier = false;
+  try {
+    const selector = await client.readContract({
+      address: verifier, abi: MOCK_VERIFIER_ABI, functionName: 'SELECTOR',
+    });
+    isMockVerifier = selector === MOCK_SELECTOR;
+  } catch { /* not a mock verifier */ }
+  push(checkResult('C3', !!verifierCode && verifierCode !== '0x',
+    isMockVerifier ? `MockVerifier at ${verifier} (SELECTOR=0xFFFFFFFF)` : `Verifier at ${verifier}`, {
+      link: explorerLink(target, `address/${verifier}`),
+      notes: isMockVerifier
+        ? [{ text: 'MockVerifier for development — production uses RiscZeroVerifierRouter' }]
+        : [],
+    }));
+
+  // C4: Image ID
+  const imageId = await client.readContract({
+    address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'imageId',
+  });
+  push(checkResult('C4', imageId !== ZERO_HASH, imageId));
+
+  // C5: Owner
+  const owner = await client.readContract({
+    address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'owner',
+  });
+  push(checkResult('C5', true, owner, { link: explorerLink(target, `address/${owner}`) }));
+
+  return { registry, bytecodeSize, verifier, isMockVerifier, imageId, owner, stats, checks };
+}
+
+// ─── Record (V1–V10) ──────────────────────────────────────────
+
+export interface RecordOptions {
+  /** Also run V9/V10 against the live Decision API */
+  deep?: boolean;
+  onCheck?: CheckListener;
+}
+
+export async function verifyRecord(
+  client: VerificationClient,
+  target: RegistryTarget,
+  contract: Pick<ContractReport, 'verifier' | 'imageId'>,
+  index: number,
+  options: RecordOptions = {},
+): Promise<RecordReport> {
+  const { registry } = target;
+  const checks: CheckResult[] = [];
+  const push = (check: CheckResult) => {
+    checks.push(check);
+    options.onCheck?.(check);
+  };
+
+  const callId = await client.readContract({
+    address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'callIds', args: [BigInt(index)],
+  });
+  const record = await client.readContract({
+    address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'getRecord', args: [callId],
+  });
+  const decision = Number(record.decision);
+  const label = decisionLabel(decision);
+
+  // V1: verified flag
+  const seal = record.zkProofSeal;
+  const sealBytes = seal.length > 2 ? (seal.length - 2) / 2 : 0;
+  const sealPrefix = seal.slice(0, 10);
+  push(checkResult('V1', record.verified,
+    record.verified
+      ? 'record.verified == true — the contract verified the ZK proof at registration'
+      : 'NOT verified — record was stored without passing ZK verification', {
+      notes: [{
+        text: `Seal: ${sealPrefix}… (${sealBytes} bytes)${sealPrefix === MOCK_SELECTOR ? ' ← RISC Zero Mock selector' : ''}`,
+      }],
+    }));
+
+  // V2: Journal hash (offline)
+  const computedHash = keccak256(record.journalDataAbi);
+  const hashMatch = computedHash === record.journalHash;
+  push(checkResult('V2', hashMatch,
+    hashMatch ? 'keccak256(journalDataAbi) == stored journalHash' : 'MISMATCH', {
+      notes: [{ text: `Stored:   ${record.journalHash}` }, { text: `Computed: ${computedHash}` }],
+    }));
+
+  // V3: verifyJournal()
+  let journalOk = false;
+  try {
+    journalOk = await client.readContract({
+      address: registry, abi: VERICALL_REGISTRY_ABI, functionName: 'verifyJournal',
+      args: [callId, record.journalDataAbi],
+    });
+  } catch { /* marked failed */ }
+  push(checkResult('V3', journalOk,
+    journalOk
+      ? 'verifyJournal() → true — contract re-computed keccak256 and confirmed the match'
+      : 'Contract rejected journal data integrity'));
+
+  // V4: Direct seal re-verification
+  const journalDigest = sha256(record.journalDataAbi);
+  let sealError = '';
+  try {
+    await client.readContract({
+      address: contract.verifier, abi: MOCK_VERIFIER_ABI, functionName: 'verify',
+      args: [seal, contract.imageId, journalDigest],
+    });
+  } catch (err) {
+    sealError = errorMessage(err);
+  }
+  push(checkResult('V4', !sealError,
+    sealError
+      ? `verifier.verify() failed: ${sealError}`
+      : 'verifier.verify(seal, imageId, sha256(journal)) — passed', {
+      notes: [
+        { text: `ImageID: ${abbreviate(contract.imageId)}` },
+        { text: `JournalDigest: ${abbreviate(journalDigest)}` },
+      ],
+    }));
+
+  // V5: Proven data
+  const proven = decodeJournal(record.journalDataAbi);
+  const provenData = proven ?? EMPTY_PROVEN_DATA;
+  const provenOk = !!proven
+    && proven.notaryKeyFingerprint !== ZERO_HASH
+    && proven.method === 'GET'
+    && proven.url.length > 0
+    && proven.provenDecision.length > 0;
+  const commit = provenData.provenSourceCodeCommit;
+  const v5Notes: CheckNote[] = [];
+  if (proven) {
+    v5Notes.push({ text: `NotaryKey FP: ${abbreviate(proven.notaryKeyFingerprint)}` });
+    v5Notes.push({ text: `Method: ${proven.method}` });
+    v5Notes.push({ text: `URL: ${proven.url}` });
+    v5Notes.push({ text: `Proof time: ${proven.proofTimestamp}` });
+    v5Notes.push({ text: `Proven decision: ${proven.provenDecision}` });
+    if (proven.provenReason) {
+      const reason = proven.provenReason;
+      v5Notes.push({ text: `Proven reason: "${reason.slice(0, 120)}${reason.length > 120 ? '…' : ''}"` });
+    }
+    if (commit) v5Notes.push({ text: `Source code commit: ${commit}`, link: `${target.repo}/tree/${commit}` });
+    if (proven.provenAudioHash) v5Notes.push({ text: `Proven audio hash: ${proven.provenAudioHash}` });
+  }
+  push(checkResult('V5', provenOk,
+    provenOk
+      ? `Method=${provenData.method}, URL present, Notary FP non-zero, data extracted`
+      : 'Failed to decode or validate journal proven data fields', { notes: v5Notes }));
+
+  // V5b: Decision consistency — proven data vs on-chain record
+  const decisionMatch = !!provenData.provenDecision && provenData.provenDecision.toUpperCase() === label;
+  push(checkResult('V5b', decisionMatch,
+    decisionMatch
+      ? `Proven "${provenData.provenDecision}" matches on-chain "${label}"`
+      : `Proven "${provenData.provenDecision || '?'}" ≠ on-chain "${label}"`));
+
+  // V6: Registration TX
+  let recorded: Awaited<ReturnType<typeof findEventLog>> = null;
+  try {
+    recorded = await findEventLog(client, registry, 'CallDecisionRecorded', { callId }, target.deployBlock);
+  } catch { /* event lookup may fail on some RPCs */ }
+  const txHash = recorded?.transactionHash ?? null;
+  const blockNumber = recorded ? Number(recorded.blockNumber) : null;
+  push(checkResult('V6', !!txHash,
+    txHash ? `TX: ${txHash}` : 'Could not find CallDecisionRecorded event (RPC may not support historical logs)', {
+      link: txHash ? explorerLink(target, `tx/${txHash}`) : undefined,
+      notes: blockNumber !== null
+        ? [{ text: `Block: ${blockNumber}`, link: explorerLink(target, `block/${blockNumber}`) }]
+        : [],
+    }));
+
+  // V7: ProofVerified event
+  let proofEvent: Awaited<ReturnType<typeof findEventLog>> = null;
+  try {
+    proofEvent = await findEventLog(client, registry, 'ProofVerified', { callId }, target.deployBlock);
+  } catch { /* event lookup may fail */ }
+  push(checkResult('V7', !!proofEvent,
+    proofEvent ? 'ZK verification confirmed on-chain' : 'Could not find ProofVerified event', {
+      notes: proofEvent
+        ? [
+            { text: `Event imageId: ${abbreviate(String(proofEvent.args.imageId))}` },
+            { text: `Event journalDigest: ${abbreviate(String(proofEvent.args.journalDigest))}` },
+          ]
+        : [],
+    }));
+
+  // V8: Source code attestation — the commit itself is checked on GitHub by the reader
+  const v8Notes: CheckNote[] = [];
+  let v8Passed = false;
+  let v8Detail: string;
+  if (commit && commit.length >= 7 && commit !== 'unknown') {
+    v8Passed = /^[0-9a-f]{7,40}$/.test(commit);
+    v8Detail = v8Passed
+      ? `Commit ${commit.slice(0, 7)}… on-chain — verify on GitHub`
+      : `Invalid commit format: "${commit}"`;
+    if (v8Passed) {
+      v8Notes.push({ text: `GitHub: ${target.repo}/tree/${commit}`, link: `${target.repo}/tree/${commit}` });
+      v8Notes.push({
+        text: `System prompt: ${target.repo}/blob/${commit}/lib/voice-ai/gemini.ts`,
+        link: `${target.repo}/blob/${commit}/lib/voice-ai/gemini.ts`,
+      });
+      v8Notes.push({ text: 'Hash the prompt yourself, or run scripts/verify.ts --repo <clone> (V11)' });
+    }
+  } else {
+    v8Detail = commit === 'unknown'
+      ? 'sourceCodeCommit = "unknown" — record created before attestation was deployed'
+      : 'Source code commit not in journal — cannot verify logic';
+  }
+  push(checkResult('V8', v8Passed, v8Detail, { notes: v8Notes }));
+
+  // V9/V10: Live Decision API (current state — not part of the proof)
+  let currentResponse: string | null | undefined;
+  if (options.deep && provenData.url) {
+    currentResponse = await verifyCurrentResponse(provenData, push);
+  }
+
+  return {
+    index,
+    callId,
+    decision,
+    decisionLabel: label,
+    reason: record.reason,
+    timestamp: new Date(Number(record.timestamp) * 1000).toISOString(),
+    sourceUrl: record.sourceUrl,
+    submitter: record.submitter,
+    zkProofSeal: seal,
+    journalHash: record.journalHash,
+    txHash,
+    blockNumber,
+    provenData,
+    amendments: await readAmendments(client, registry, callId),
+    checks,
+    currentResponse,
+  };
+}
+
+/** V9 + V10 — returns the body the Decision API answers with now */
+async function verifyCurrentResponse(
+  proven: ProvenData,
+  push: (check: CheckResult) => void,
+): Promise<string | null> {
+  let currentResponse: string | null = null;
+  try {
+    const resp = await fetch(proven.url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(10000),
+    });
+    if (resp.ok) currentResponse = await resp.text();
+  } catch { /* not reachable or timed out */ }
+
+  push(checkResult('V9', currentResponse !== null,
+    currentResponse !== null
+      ? `HTTP 200 from ${proven.url}`
+      : `Could not reach ${proven.url} (may be expected if ephemeral)`));
+
+  let consistent = false;
+  if (currentResponse !== null) {
+    try {
+      const current = JSON.parse(currentResponse);
+      consistent = String(current.decision).toUpperCase() === proven.provenDecision.toUpperCase()
+        && current.reason === proven.provenReason;
+    } catch {
+      consistent = currentResponse.includes(proven.provenDecision) && currentResponse.includes(proven.provenReason);
+    }
+  }
+  push(checkResult('V10', consistent,
+    consistent
+      ? 'Decision API currently returns the same decision as the on-chain proof'
+      : currentResponse !== null
+        ? 'Response differs from on-chain data (acceptable — the Web Proof locked the historical state)'
+        : 'Could not compare (URL not accessible)'));
+
+  return currentResponse;
+}
+
+// ─── Registry ─────────────────────────────────────────────────
+
+export interface RegistryOptions extends RecordOptions {
+  /** Record indexes to verify, or 'latest' (default: every record) */
+  records?: number[] | 'latest';
+  onContract?: (contract: ContractReport) => void;
+  onRecord?: (record: RecordReport) => void;
+}
+
+/** Contract checks, then each selected record in index order */
+export async function verifyRegistry(
+  client: VerificationClient,
+  target: RegistryTarget,
+  options: RegistryOptions = {},
+): Promise<VerificationReport> {
+  const contract = await verifyContract(client, target, options.onCheck);
+  options.onContract?.(contract);
+
+  const { total } = contract.stats;
+  const indexes = options.records === 'latest'
+    ? (total > 0 ? [total - 1] : [])
+    : options.records ?? Array.from({ length: total }, (_, i) => i);
+
+  const records: RecordReport[] = [];
+  for (const index of indexes) {
+    const record = await verifyRecord(client, target, contract, index, options);
+    records.push(record);
+    options.onRecord?.(record);
+  }
+
+  const allChecks = [...contract.checks, ...records.flatMap((r) => r.checks)];
+  const passCount = allChecks.filter((c) => c.passed).length;
+  return {
+    generated: new Date().toISOString(),
+    target,
+    contract,
+    records,
+    summary: {
+      totalRecords: records.length,
+      passCount,
+      failCount: allChecks.length - passCount,
+      allPassed: passCount === allChecks.length,
+    },
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Server-Signed Decision Records — S1–S3
+ *
+ * Every Decision API response carries a `signature` made with the server's
+ * decision key. It is a weaker attestation than the Web Proof + ZK path:
+ * it shows that the holder of the key issued this record, nothing about
+ * what the server told anyone else, and the operator can sign whatever it
+ * likes. It is there so a decision stays attested when vlayer is down or
+ * not configured.
+ *
+ *   message    = "vericall-decision-v1" ‖ "\n" ‖ canonicalJson(response without `signature`)
+ *   ed25519    raw signature over the message bytes
+ *   secp256k1  EIP-191 signMessage(message)
+ *   keyId      = first 16 hex chars of SHA-256(public key bytes)
+ *
+ * Runs offline (Web Crypto + viem), so it works in the browser too.
+ * The key set is input: pinning one obtained out-of-band is stronger
+ * than fetching it from the server that signed the record.
+ */
+
+import { hashMessage, hexToBytes, recoverPublicKey, sha256, stringToBytes } from 'viem';
+import { checkResult } from './checks';
+import type {
+  CheckListener,
+  CheckResult,
+  DecisionKeySet,
+  DecisionPublicKey,
+  Hex,
+  SignedDecision,
+  SignedDecisionReport,
+} from './types';
+
+export const DECISION_SIGNATURE_DOMAIN = 'vericall-decision-v1';
+
+const ALGORITHMS = ['ed25519', 'secp256k1'];
+
+// ─── Message ──────────────────────────────────────────────────
+
+/** JSON with object keys sorted and undefined fields dropped, no whitespace */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJson(v ?? null)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj)
+      .sort()
+      .filter((k) => obj[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** What a decision signature covers — the response minus its `signature` */
+export function decisionSigningMessage(response: Record<string, unknown>): string {
+  const { signature: _signature, ...record } = response;
+  return `${DECISION_SIGNATURE_DOMAIN}\n${canonicalJson(record)}`;
+}
+
+export function decisionKeyId(publicKey: Hex): string {
+  return sha256(publicKey).slice(2, 18);
+}
+
+// ─── Input ────────────────────────────────────────────────────
+
+/**
+ * A Decision API response, or a /witness/verify/[id] response (its
+ * `signedDecision` field). Throws if there is no signature in it.
+ */
+export function parseSignedDecision(raw: unknown): SignedDecision {
+  const body = (raw ?? {}) as { signedDecision?: unknown; error?: string };
+  const decision = (body.signedDecision ?? raw) as Partial<SignedDecision> | null;
+  const sig = decision?.signature;
+  if (!sig || !ALGORITHMS.includes(sig.algorithm) || !sig.keyId || !sig.value) {
+    throw new Error(body.error || 'No server signature — the record was served before signing was enabled, or without a key');
+  }
+  return decision as SignedDecision;
+}
+
+export function parseDecisionKeySet(raw: unknown): DecisionKeySet {
+  const keys = (raw as Partial<DecisionKeySet> | null)?.keys;
+  if (!Array.isArray(keys)) throw new Error('Not a decision key set (expected { keys: [...] })');
+  return { keys: keys.filter((k) => ALGORITHMS.includes(k?.algorithm) && k.keyId && k.publicKey) };
+}
+
+// ─── Verify ───────────────────────────────────────────────────
+
+/** Copied into a plain ArrayBuffer-backed array, as Web Crypto wants */
+function bufferOf(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(bytes);
+}
+
+async function signatureMatches(key: DecisionPublicKey, message: string, value: Hex): Promise<boolean> {
+  try {
+    if (key.algorithm === 'secp256k1') {
+      const recovered = await recoverPublicKey({ hash: hashMessage(message), signature: value });
+      return recovered.toLowerCase() === key.publicKey.toLowerCase();
+    }
+    const { subtle } = globalThis.crypto;
+    const publicKey = await subtle.importKey('raw', bufferOf(hexToBytes(key.publicKey)), { name: 'Ed25519' }, false, ['verify']);
+    return await subtle.verify({ name: 'Ed25519' }, publicKey, bufferOf(hexToBytes(value)), bufferOf(stringToBytes(message)));
+  } catch {
+    return false;
+  }
+}
+
+/** S1–S3 against `keySet` */
+export async function verifySignedDecision(
+  decision: SignedDecision,
+  keySet: DecisionKeySet,
+  onCheck?: CheckListener,
+): Promise<SignedDecisionReport> {
+  const { signature } = decision;
+  const checks: CheckResult[] = [];
+  const push = (check: CheckResult) => {
+    checks.push(check);
+    onCheck?.(check);
+  };
+
+  // S1: Key published
+  const key = keySet.keys.find((k) => k.keyId === signature.keyId && k.algorithm === signature.algorithm) ?? null;
+  push(checkResult('S1', !!key,
+    key
+      ? `${key.algorithm} key ${key.keyId} (${key.status})`
+      : `${signature.algorithm} key ${signature.keyId} is not in the key set (${keySet.keys.length} key(s))`));
+
+  // S2: Key ID
+  const derivedId = key ? decisionKeyId(key.publicKey) : null;
+  push(checkResult('S2', !!key && derivedId === key.keyId,
+    !key
+      ? 'No key to check'
+      : derivedId === key.keyId
+        ? `sha256(publicKey) → ${derivedId}`
+        : `MISMATCH: sha256(publicKey) → ${derivedId} ≠ ${key.keyId}`, {
+      notes: key ? [{ text: `Public key: ${key.publicKey}` }] : [],
+    }));
+
+  // S3: Signature
+  const valid = !!key && await signatureMatches(key, decisionSigningMessage(decision), signature.value);
+  push(checkResult('S3', valid,
+    valid
+      ? `Signed: ${decision.decision} for ${decision.callSid}`
+      : key
+        ? 'Signature does not match the record — it was altered, or signed by another key'
+        : 'No key to verify with'));
+
+  return {
+    generated: new Date().toISOString(),
+    decision,
+    key,
+    checks,
+    allPassed: checks.every((c) => c.passed),
+  };
+}
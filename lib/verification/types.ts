@@ -0,0 +1,193 @@
+/**
+ * Verification Report Types
+ *
+ * What the verification core (registry.ts, inclusion.ts) returns. Plain
+ * data only — no bigint — so a report can go straight to JSON.stringify
+ * or React state.
+ */
+
+import type { CheckId } from './checks';
+
+export type Hex = `0x${string}`;
+
+// ─── Checks ───────────────────────────────────────────────────
+
+/** A line of supporting detail under a check */
+export interface CheckNote {
+  text: string;
+  link?: string;
+}
+
+export interface CheckResult {
+  id: CheckId;
+  label: string;
+  passed: boolean;
+  detail: string;
+  /** Explorer (or GitHub) link for the detail value */
+  link?: string;
+  notes: CheckNote[];
+}
+
+/** Called as each check finishes, for progressive output */
+export type CheckListener = (check: CheckResult) => void;
+
+// ─── Target ───────────────────────────────────────────────────
+
+/** The registry being verified and where to look for it */
+export interface RegistryTarget {
+  chainId: number;
+  network: string;
+  registry: Hex;
+  /** First block searched for events (0 = genesis) */
+  deployBlock: number;
+  /** Block explorer base URL (null on a local devnet) */
+  explorerUrl: string | null;
+  /** Source repository the attested commits live in */
+  repo: string;
+}
+
+// ─── Registry ─────────────────────────────────────────────────
+
+export interface ContractReport {
+  registry: Hex;
+  bytecodeSize: number;
+  verifier: Hex;
+  isMockVerifier: boolean;
+  imageId: Hex;
+  owner: Hex;
+  stats: { total: number; accepted: number; blocked: number; recorded: number };
+  checks: CheckResult[];
+}
+
+/** The journal the ZK proof committed to, as decodeJournal() reads it */
+export interface ProvenData {
+  notaryKeyFingerprint: string;
+  method: string;
+  url: string;
+  /** ISO timestamp, or 'N/A' */
+  proofTimestamp: string;
+  queriesHash: string;
+  provenDecision: string;
+  provenReason: string;
+  provenSystemPromptHash: string;
+  provenTranscriptHash: string;
+  provenSourceCodeCommit: string;
+  /** SHA-256 of the caller audio — '' in pre-V5 (10-field) journals or without an archive */
+  provenAudioHash: string;
+  /** `decision|reason` */
+  extractedData: string;
+}
+
+/** A correction or dispute appended after registration — informational, not a check */
+export interface AmendmentEntry {
+  index: number;
+  kind: 'correction' | 'dispute';
+  correctedDecision: string | null;
+  reason: string;
+  filedBy: string;
+  timestamp: string;
+  submitter: string;
+}
+
+export interface RecordReport {
+  index: number;
+  callId: Hex;
+  decision: number;
+  decisionLabel: string;
+  reason: string;
+  timestamp: string;
+  sourceUrl: string;
+  submitter: string;
+  zkProofSeal: Hex;
+  journalHash: Hex;
+  txHash: string | null;
+  blockNumber: number | null;
+  provenData: ProvenData;
+  amendments: AmendmentEntry[];
+  checks: CheckResult[];
+  /** --deep: the Decision API as it answers now */
+  currentResponse?: string | null;
+}
+
+export interface VerificationSummary {
+  totalRecords: number;
+  passCount: number;
+  failCount: number;
+  allPassed: boolean;
+}
+
+export interface VerificationReport {
+  generated: string;
+  target: RegistryTarget;
+  contract: ContractReport;
+  records: RecordReport[];
+  summary: VerificationSummary;
+}
+
+// ─── Batched calls ────────────────────────────────────────────
+
+/** Merkle inclusion proof for a batched call (GET /witness/verify/[id] → inclusion) */
+export interface InclusionProof {
+  contractAddress: Hex;
+  batchRoot: Hex;
+  batchSize: number;
+  txHash: string;
+  callId: Hex;
+  decision: number;
+  leaf: Hex;
+  leafIndex: number;
+  proof: Hex[];
+  zkProofSeal: Hex;
+  journalDataAbi: Hex;
+}
+
+export interface InclusionReport {
+  generated: string;
+  registry: Hex;
+  proof: InclusionProof;
+  decisionLabel: string;
+  checks: CheckResult[];
+  allPassed: boolean;
+}
+
+// ─── Server signatures ────────────────────────────────────────
+
+export type DecisionSigningAlgorithm = 'ed25519' | 'secp256k1';
+
+/** `signature` in a Decision API response */
+export interface DecisionSignature {
+  algorithm: DecisionSigningAlgorithm;
+  keyId: string;
+  value: Hex;
+}
+
+/** One entry of /.well-known/vericall-decision-keys.json */
+export interface DecisionPublicKey {
+  algorithm: DecisionSigningAlgorithm;
+  keyId: string;
+  /** ed25519: 32 raw bytes; secp256k1: uncompressed (0x04…) */
+  publicKey: Hex;
+  /** Retired keys sign nothing new but still verify older records */
+  status: 'active' | 'retired';
+}
+
+export interface DecisionKeySet {
+  keys: DecisionPublicKey[];
+}
+
+/** A Decision API response with its signature (other fields are whatever the server sent) */
+export interface SignedDecision {
+  callSid: string;
+  decision: string;
+  signature: DecisionSignature;
+  [field: string]: unknown;
+}
+
+export interface SignedDecisionReport {
+  generated: string;
+  decision: SignedDecision;
+  /** The key that verified it (null if not in the key set) */
+  key: DecisionPublicKey | null;
+  checks: CheckResult[];
+  allPassed: boolean;
+}
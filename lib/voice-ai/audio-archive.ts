@@ -0,0 +1,161 @@
+/**
+ * Call Audio Archive
+ *
+ * Keeps the raw audio of a screening call so a disputed transcript
+ * ("that's not what I said") can be checked against what was actually said:
+ *
+ *   caller.wav  inbound Twilio media (8kHz μ-law, exactly as received)
+ *   ai.wav      what the assistant played (TTS output, in send order)
+ *
+ * When the decision is made, CallAudioRecorder.seal() writes both tracks to
+ * the archive store and returns their SHA-256. The hashes go into the
+ * decision record and the Decision API response, so the Web Proof commits
+ * to the audio as well as the transcript. Audio after the decision (the
+ * goodbye, hang-up) is not part of the sealed files.
+ *
+ * Storage sits behind AudioArchiveStore; `file` (AUDIO_ARCHIVE_DIR) is the
+ * only built-in provider — an object store only has to implement put/get/delete.
+ * The files are deleted after RETENTION_AUDIO_DAYS or on erasure (lib/retention.ts);
+ * the hashes stay on the decision record.
+ */
+
+import crypto from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { audioArchiveConfig } from '@/lib/config';
+import { mulawToWav, stripWavHeader } from './audio-utils';
+
+// ─── Store ────────────────────────────────────────────────────
+
+export interface AudioArchiveStore {
+  /** Store an object; returns its URI */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  /** null if the object does not exist */
+  get(key: string): Promise<Buffer | null>;
+  /** Remove an object (no-op if it does not exist) */
+  delete(key: string): Promise<void>;
+}
+
+/** Local directory stand-in for an object store */
+export class FileAudioArchiveStore implements AudioArchiveStore {
+  constructor(private readonly dir: string) {}
+
+  private pathFor(key: string): string {
+    const path = resolve(this.dir, key);
+    if (!path.startsWith(resolve(this.dir) + sep)) {
+      throw new Error(`Invalid archive key: ${key}`);
+    }
+    return path;
+  }
+
+  async put(key: string, data: Buffer): Promise<string> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+    return `file://${path}`;
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+let _store: AudioArchiveStore | null = null;
+
+/** The configured archive store (AUDIO_ARCHIVE_PROVIDER) */
+export function getAudioArchiveStore(): AudioArchiveStore {
+  if (!_store) {
+    _store = new FileAudioArchiveStore(audioArchiveConfig.dir);
+  }
+  return _store;
+}
+
+// ─── Recorder ─────────────────────────────────────────────────
+
+export interface ArchivedCallAudio {
+  /** SHA-256 (hex) of caller.wav */
+  audioHash: string;
+  /** SHA-256 (hex) of ai.wav */
+  aiAudioHash: string;
+  callerUri: string;
+  aiUri: string;
+  callerBytes: number;
+  aiBytes: number;
+}
+
+/** Archive object keys for a call */
+export function audioArchiveKeys(callSid: string): { caller: string; ai: string } {
+  return { caller: join(callSid, 'caller.wav'), ai: join(callSid, 'ai.wav') };
+}
+
+/** Delete both tracks of a call (retention / erasure) */
+export async function deleteCallAudio(
+  callSid: string,
+  store: AudioArchiveStore = getAudioArchiveStore(),
+): Promise<void> {
+  const keys = audioArchiveKeys(callSid);
+  await Promise.all([store.delete(keys.caller), store.delete(keys.ai)]);
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Collects one call's audio in memory until the decision seals it.
+ */
+export class CallAudioRecorder {
+  private caller: Buffer[] = [];
+  private ai: Buffer[] = [];
+  private sealed = false;
+
+  constructor(
+    private readonly callSid: string,
+    private readonly store: AudioArchiveStore = getAudioArchiveStore(),
+  ) {}
+
+  /** Inbound μ-law frame from Twilio */
+  appendCaller(mulaw: Buffer): void {
+    if (!this.sealed) this.caller.push(mulaw);
+  }
+
+  /** μ-law audio sent to the caller (a WAV header, if any, is dropped) */
+  appendAI(audio: Buffer): void {
+    if (!this.sealed) this.ai.push(stripWavHeader(audio));
+  }
+
+  /**
+   * Write both tracks to the store and hash them. Later audio is ignored.
+   */
+  async seal(): Promise<ArchivedCallAudio> {
+    this.sealed = true;
+    const callerWav = mulawToWav(Buffer.concat(this.caller));
+    const aiWav = mulawToWav(Buffer.concat(this.ai));
+    this.caller = [];
+    this.ai = [];
+
+    const keys = audioArchiveKeys(this.callSid);
+    const [callerUri, aiUri] = await Promise.all([
+      this.store.put(keys.caller, callerWav, 'audio/wav'),
+      this.store.put(keys.ai, aiWav, 'audio/wav'),
+    ]);
+
+    return {
+      audioHash: sha256(callerWav),
+      aiAudioHash: sha256(aiWav),
+      callerUri,
+      aiUri,
+      callerBytes: callerWav.length,
+      aiBytes: aiWav.length,
+    };
+  }
+}
@@ -88,3 +88,43 @@ export function resample(buffer: Buffer, fromRate: number, toRate: number): Buff
 
   return output;
 }
+
+/**
+ * Wrap 8kHz mono μ-law audio in a WAV container (format 7, 8-bit)
+ * @param mulawBuffer - Headerless μ-law audio
+ * @returns WAV file bytes
+ */
+export function mulawToWav(mulawBuffer: Buffer): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + mulawBuffer.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);       // fmt chunk size
+  header.writeUInt16LE(7, 20);        // format: μ-law
+  header.writeUInt16LE(1, 22);        // channels
+  header.writeUInt32LE(8000, 24);     // sample rate
+  header.writeUInt32LE(8000, 28);     // byte rate
+  header.writeUInt16LE(1, 32);        // block align
+  header.writeUInt16LE(8, 34);        // bits per sample
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(mulawBuffer.length, 40);
+  return Buffer.concat([header, mulawBuffer]);
+}
+
+/**
+ * Audio samples of a WAV file (Google TTS prefixes MULAW output with a
+ * WAV header); anything else is returned unchanged
+ */
+export function stripWavHeader(buffer: Buffer): Buffer {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF') return buffer;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    if (buffer.toString('ascii', offset, offset + 4) === 'data') {
+      return buffer.subarray(offset + 8, offset + 8 + chunkSize);
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return buffer;
+}
@@ -0,0 +1,31 @@
+/**
+ * Warm transfer for ACCEPTed calls
+ *
+ * While screening, the call is parked in <Connect><Stream>. Redirecting it
+ * through the Twilio REST API ends the stream and makes Twilio fetch
+ * /phone/transfer, which dials the tenant's forwardTo. With whisper on, the
+ * owner first hears /phone/whisper (the stored screening summary) before
+ * the two legs are bridged.
+ */
+
+import twilio from 'twilio';
+import { serverConfig, twilioConfig } from '@/lib/config';
+
+/**
+ * Hand the live call to the owner. Throws if Twilio is not configured
+ * or rejects the update — the caller is still on the stream then.
+ */
+export async function transferCall(callSid: string): Promise<void> {
+  if (!twilioConfig.accountSid || !twilioConfig.authToken) {
+    throw new Error('TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN not set');
+  }
+  if (!serverConfig.baseUrl) {
+    throw new Error('NEXT_PUBLIC_BASE_URL not set — Twilio cannot fetch the transfer TwiML');
+  }
+
+  const client = twilio(twilioConfig.accountSid, twilioConfig.authToken);
+  await client.calls(callSid).update({
+    url: `${serverConfig.baseUrl}/phone/transfer`,
+    method: 'POST',
+  });
+}
@@ -3,9 +3,9 @@
  */
 
 import sgMail from '@sendgrid/mail';
+import { describeCaller, type CallDecision, type CallerDetails } from './gemini';
 
 const SENDGRID_API_KEY = process.env.SENDGRID_API_KEY || '';
-const NOTIFICATION_EMAIL = process.env.NOTIFICATION_EMAIL || '';
 const FROM_EMAIL = process.env.FROM_EMAIL || 'noreply@vericall.app';
 
 if (SENDGRID_API_KEY) {
@@ -23,7 +23,15 @@ export interface VoiceAINotification {
   transcript: string;  // Plain text for fallback
   entries?: ConversationEntry[];  // Structured for HTML table
   summary?: string;
-  decision: 'RECORD' | 'BLOCK';
+  decision: CallDecision;
+  /** Model confidence in the decision (0–1) */
+  confidence?: number;
+  /** Policy rule IDs behind the decision */
+  matchedRules?: string[];
+  /** Name / organization / purpose as the caller stated them */
+  caller?: CallerDetails;
+  /** Tenant's notification emails */
+  recipients: string[];
 }
 
 export async function sendVoiceAINotification(notification: VoiceAINotification): Promise<boolean> {
@@ -32,14 +40,15 @@ export async function sendVoiceAINotification(notification: VoiceAINotification)
     return false;
   }
 
-  if (!NOTIFICATION_EMAIL) {
-    console.log('⚠️ NOTIFICATION_EMAIL not set, skipping email notification');
+  if (notification.recipients.length === 0) {
+    console.log('⚠️ No notification email for this tenant, skipping email notification');
     return false;
   }
 
   const isScam = notification.decision === 'BLOCK';
-  const emoji = isScam ? '🚨' : '📞';
-  const title = isScam ? 'Scam Alert' : 'New Call Message';
+  const isTransfer = notification.decision === 'ACCEPT';
+  const emoji = isScam ? '🚨' : isTransfer ? '📲' : '📞';
+  const title = isScam ? 'Scam Alert' : isTransfer ? 'Call Put Through' : 'New Call Message';
   const subject = `${emoji} VeriCall: ${title} from ${notification.from}`;
   
   // Colors based on decision
@@ -48,7 +57,12 @@ export async function sendVoiceAINotification(notification: VoiceAINotification)
   const summaryBorder = isScam ? '#f44336' : '#2196F3';
   const summaryLabel = isScam ? '#c62828' : '#1976D2';
   const decisionBg = isScam ? '#f44336' : '#4CAF50';
-  const decisionText = isScam ? 'SCAM' : 'OK';
+  const decisionText = isScam ? 'SCAM' : isTransfer ? 'CONNECTED' : 'OK';
+  const callerText = notification.caller ? describeCaller(notification.caller) : '';
+  const confidenceText = notification.confidence !== undefined
+    ? `${Math.round(notification.confidence * 100)}%`
+    : '';
+  const rulesText = (notification.matchedRules || []).join(', ');
 
   const html = `
     <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
@@ -66,6 +80,12 @@ export async function sendVoiceAINotification(notification: VoiceAINotification)
           <td style="padding: 10px; border-bottom: 1px solid #eee; color: #666;">From</td>
           <td style="padding: 10px; border-bottom: 1px solid #eee; font-weight: bold;">${notification.from}</td>
         </tr>
+        ${callerText ? `
+        <tr>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; color: #666;">Caller</td>
+          <td style="padding: 10px; border-bottom: 1px solid #eee;">${callerText}</td>
+        </tr>
+        ` : ''}
         <tr>
           <td style="padding: 10px; border-bottom: 1px solid #eee; color: #666;">Time</td>
           <td style="padding: 10px; border-bottom: 1px solid #eee;">${new Date(notification.timestamp).toLocaleString()}</td>
@@ -76,8 +96,15 @@ export async function sendVoiceAINotification(notification: VoiceAINotification)
             <span style="background: ${decisionBg}; color: white; padding: 4px 8px; border-radius: 4px;">
               ${decisionText}
             </span>
+            ${confidenceText ? `<span style="color: #666; margin-left: 8px;">${confidenceText} confident</span>` : ''}
           </td>
         </tr>
+        ${rulesText ? `
+        <tr>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; color: #666;">Rules</td>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; font-family: monospace;">${rulesText}</td>
+        </tr>
+        ` : ''}
       </table>
       
       <h3 style="color: #333;">📝 Conversation Transcript</h3>
@@ -112,9 +139,9 @@ ${title}
 ================
 ${notification.summary ? `Summary: ${notification.summary}\n` : ''}
 From: ${notification.from}
-Time: ${new Date(notification.timestamp).toLocaleString()}
-Decision: ${decisionText}
-
+${callerText ? `Caller: ${callerText}\n` : ''}Time: ${new Date(notification.timestamp).toLocaleString()}
+Decision: ${decisionText}${confidenceText ? ` (${confidenceText} confident)` : ''}
+${rulesText ? `Rules: ${rulesText}\n` : ''}
 Transcript:
 ${notification.transcript}
   `;
@@ -126,13 +153,13 @@ ${notification.transcript}
 
   try {
     await sgMail.send({
-      to: NOTIFICATION_EMAIL,
+      to: notification.recipients,
       from: FROM_EMAIL,
       subject,
       text,
       html,
     });
-    console.log(`✅ Voice AI notification sent to ${NOTIFICATION_EMAIL}`);
+    console.log(`✅ Voice AI notification sent to ${notification.recipients.join(', ')}`);
     return true;
   } catch (error) {
     console.error('❌ Failed to send Voice AI notification:', error);
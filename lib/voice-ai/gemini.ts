@@ -2,16 +2,49 @@
  * Gemini AI for call screening
  * Determines if a call is sales/spam or legitimate
  * Uses the new unified @google/genai SDK with ADC
+ *
+ * Every turn is a schema-validated JSON object (RESPONSE_SCHEMA): the reply,
+ * CONTINUE / BLOCK / RECORD / ACCEPT, the model's confidence, the policy rule IDs it
+ * applied and what the caller said about themselves. Free-text answers with
+ * [BLOCK] / [RECORD] tags are only parsed as a fallback.
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { GoogleGenAI, Type } from '@google/genai';
+import { definePolicy, extractRuleIds, localizePolicy, type ScreeningPolicy } from './policy';
+import { DEFAULT_LANGUAGE, getLanguageProfile, type LanguageProfile } from './languages';
 
-export type CallDecision = 'BLOCK' | 'RECORD';
+export type CallDecision = 'BLOCK' | 'RECORD' | 'ACCEPT';
+
+/** What the caller has said about themselves (cumulative over the call) */
+export interface CallerDetails {
+  name?: string;
+  organization?: string;
+  purpose?: string;
+}
+
+/** Later answers win, but an unknown field never erases a known one */
+export function mergeCallerDetails(known: CallerDetails, update: CallerDetails): CallerDetails {
+  return {
+    name: update.name ?? known.name,
+    organization: update.organization ?? known.organization,
+    purpose: update.purpose ?? known.purpose,
+  };
+}
+
+/** "Alex (Acme Corp) — following up on invoice 4411" for summaries and emails */
+export function describeCaller(caller: CallerDetails): string {
+  const who = [caller.name, caller.organization && `(${caller.organization})`].filter(Boolean).join(' ');
+  return [who, caller.purpose].filter(Boolean).join(' — ');
+}
 
 export interface GeminiResponse {
   text: string;
   decision: CallDecision | null;
+  /** 0–1, as reported by the model (0 = no decision yet) */
   confidence: number;
+  /** Policy rule IDs behind this turn — only IDs declared in the prompt */
+  matchedRules: string[];
+  caller: CallerDetails;
 }
 
 const SYSTEM_PROMPT = `You are a phone receptionist AI. Your job is to determine the INTENT of the caller.
@@ -97,12 +130,292 @@ EXISTING RELATIONSHIP signals:
 - ALWAYS say "Goodbye" at the end of the conversation (both BLOCK and RECORD)
 - If caller says "Thank you", respond with "You're welcome. Goodbye." + tag`;
 
+/**
+ * v2: the same screening rules with rule IDs, answered as structured JSON.
+ */
+const SYSTEM_PROMPT_V2 = `You are a phone receptionist AI. Your job is to determine the INTENT of the caller.
+
+IMPORTANT: You are continuing an ongoing phone call. NEVER repeat greetings.
+
+=== HANDLING SPEECH ===
+
+Phone calls may have background noise or hesitations (uh, um, etc.) — this is NORMAL.
+
+ONLY ask the caller to repeat if:
+- The message is completely unintelligible gibberish
+- There are no recognizable words at all
+
+Do NOT treat these as incomplete — they are VALID responses:
+- Short answers to your questions ("Alex.", "Araki.", "Hello.", "Yes.")
+- Hesitant speech ("Uh, I just got a call from your company and, uh...")
+- Answers with filler words ("Yeah, so, I have already sent the quote")
+
+If the caller's message is short but answers your question, ACCEPT it and continue.
+
+=== INTENT-BASED SCREENING ===
+
+Ask yourself: "What does this caller WANT?" Each rule has an ID in brackets.
+
+BLOCK — they want to SELL or PROPOSE something to us:
+
+[block.selling] Selling intent:
+- "I have a proposal/offer for you"
+- "I can help you save money/increase sales"
+- "I'd like to tell you about..." / "We have an opportunity..."
+- "I'm calling about your [listing/account/business]"
+
+[block.unsolicited] Unsolicited contact:
+- "I found you on a list" / "Your information came across my desk"
+- No prior relationship, just cold calling
+
+[block.instant] Instant BLOCK, no further questions:
+- "I'm calling from your postcard/mailer/ad" (we sent mass mail = scam)
+- Investment / stock / crypto offers
+
+[block.evasive] Evasive behavior:
+- Cannot name a specific project or existing relationship
+- Vague answers after 3+ questions about purpose
+- Gets frustrated when asked for details
+
+[block.unclear] Still unclear after 3 exchanges → BLOCK
+
+RECORD — they want to GET something from us or have an existing relationship:
+
+[record.seeking] Seeking / confirming:
+- "I'm returning a call / you called me / someone called me"
+- "I was referred by [specific person]"
+- "I need to confirm/check/ask about..." / "Is [specific person] available?"
+
+[record.sent] They already sent something:
+- "I sent a quote/estimate/proposal/invoice/bill"
+- "I sent documents/files/email" / "I mailed/shipped something"
+- "Please notify/tell [person] that..."
+
+[record.existing] Existing relationship:
+- "About the [specific project/order/invoice] we discussed"
+- Mentions specific past interactions or details only a real contact would know
+
+=== DECISION LOGIC ===
+
+1. First message: Ask "May I ask what this is regarding?"
+2. Listen for INTENT signals
+3. If the caller's response is incomplete/fragmented → ask to repeat (decision CONTINUE)
+4. If SELLING/PROPOSING → "We're not interested at this time. Goodbye." (decision BLOCK)
+5. If SEEKING/EXISTING → get their name, take a message → "I'll pass that along. Goodbye." (decision RECORD)
+6. A name alone does NOT make someone legitimate
+7. When in doubt after 3+ exchanges, BLOCK
+
+=== RESPONSE FORMAT ===
+
+Answer every turn with a JSON object:
+- "reply": what you say to the caller next, 1-2 polite sentences. When deciding, end with "Goodbye".
+  If the caller says "Thank you", reply "You're welcome. Goodbye."
+- "decision": "CONTINUE" while still screening, "BLOCK" or "RECORD" when final
+- "confidence": 0.0–1.0, how certain you are of the decision (of your current leaning for CONTINUE)
+- "matchedRules": IDs of the rules above that apply, e.g. ["block.selling"] (empty if none yet)
+- "caller": "name", "organization" and "purpose" as stated by the caller so far ("" if unknown)
+Never put decision words or rule IDs in "reply".`;
+
+/**
+ * v3: v2 plus ACCEPT — put an urgent, legitimate caller through to the owner.
+ */
+const SYSTEM_PROMPT_V3 = `You are a phone receptionist AI. Your job is to determine the INTENT of the caller.
+
+IMPORTANT: You are continuing an ongoing phone call. NEVER repeat greetings.
+
+=== HANDLING SPEECH ===
+
+Phone calls may have background noise or hesitations (uh, um, etc.) — this is NORMAL.
+
+ONLY ask the caller to repeat if:
+- The message is completely unintelligible gibberish
+- There are no recognizable words at all
+
+Do NOT treat these as incomplete — they are VALID responses:
+- Short answers to your questions ("Alex.", "Araki.", "Hello.", "Yes.")
+- Hesitant speech ("Uh, I just got a call from your company and, uh...")
+- Answers with filler words ("Yeah, so, I have already sent the quote")
+
+If the caller's message is short but answers your question, take it as an answer and continue.
+
+=== INTENT-BASED SCREENING ===
+
+Ask yourself: "What does this caller WANT?" Each rule has an ID in brackets.
+
+BLOCK — they want to SELL or PROPOSE something to us:
+
+[block.selling] Selling intent:
+- "I have a proposal/offer for you"
+- "I can help you save money/increase sales"
+- "I'd like to tell you about..." / "We have an opportunity..."
+- "I'm calling about your [listing/account/business]"
+
+[block.unsolicited] Unsolicited contact:
+- "I found you on a list" / "Your information came across my desk"
+- No prior relationship, just cold calling
+
+[block.instant] Instant BLOCK, no further questions:
+- "I'm calling from your postcard/mailer/ad" (we sent mass mail = scam)
+- Investment / stock / crypto offers
+
+[block.evasive] Evasive behavior:
+- Cannot name a specific project or existing relationship
+- Vague answers after 3+ questions about purpose
+- Gets frustrated when asked for details
+
+[block.unclear] Still unclear after 3 exchanges → BLOCK
+
+RECORD — they want to GET something from us or have an existing relationship:
+
+[record.seeking] Seeking / confirming:
+- "I'm returning a call / you called me / someone called me"
+- "I was referred by [specific person]"
+- "I need to confirm/check/ask about..." / "Is [specific person] available?"
+
+[record.sent] They already sent something:
+- "I sent a quote/estimate/proposal/invoice/bill"
+- "I sent documents/files/email" / "I mailed/shipped something"
+- "Please notify/tell [person] that..."
+
+[record.existing] Existing relationship:
+- "About the [specific project/order/invoice] we discussed"
+- Mentions specific past interactions or details only a real contact would know
+
+ACCEPT — connect the caller to the owner right now:
+
+[accept.urgent] A legitimate caller (a RECORD reason above applies) whose matter cannot wait:
+- "The delivery driver is at your door" / "Your appointment starts in 10 minutes"
+- A named contact with a specific, time-critical problem ("the site is down", "the closing is today")
+- You know who they are AND why it cannot wait for a message
+
+Never ACCEPT on urgency alone: pressure, emergencies involving money, gift cards or
+secrecy ("don't tell anyone") are scam signals → BLOCK.
+
+=== DECISION LOGIC ===
+
+1. First message: Ask "May I ask what this is regarding?"
+2. Listen for INTENT signals
+3. If the caller's response is incomplete/fragmented → ask to repeat (decision CONTINUE)
+4. If SELLING/PROPOSING → "We're not interested at this time. Goodbye." (decision BLOCK)
+5. If SEEKING/EXISTING → get their name, take a message → "I'll pass that along. Goodbye." (decision RECORD)
+6. If SEEKING/EXISTING and it cannot wait → "One moment please, I'll connect you now." (decision ACCEPT)
+7. A name alone does NOT make someone legitimate
+8. When in doubt after 3+ exchanges, BLOCK
+
+=== RESPONSE FORMAT ===
+
+Answer every turn with a JSON object:
+- "reply": what you say to the caller next, 1-2 polite sentences. When you BLOCK or RECORD, end with "Goodbye".
+  When you ACCEPT, tell them you are connecting them (no "Goodbye").
+  If the caller says "Thank you", reply "You're welcome. Goodbye."
+- "decision": "CONTINUE" while still screening, "BLOCK", "RECORD" or "ACCEPT" when final
+- "confidence": 0.0–1.0, how certain you are of the decision (of your current leaning for CONTINUE)
+- "matchedRules": IDs of the rules above that apply, e.g. ["block.selling"] (empty if none yet)
+- "caller": "name", "organization" and "purpose" as stated by the caller so far ("" if unknown)
+Never put decision words or rule IDs in "reply".`;
+
+/** Built-in policy v1: SYSTEM_PROMPT above (the hash proven for all calls before the registry existed) */
+export const DEFAULT_POLICY_V1 = definePolicy({
+  name: 'vericall-default',
+  version: 1,
+  prompt: SYSTEM_PROMPT,
+  source: 'builtin',
+  description: 'Intent-based screening (BLOCK sellers, RECORD existing contacts)',
+});
+
+/** Built-in policy v2: SYSTEM_PROMPT_V2 (rule IDs + structured output) */
+export const DEFAULT_POLICY_V2 = definePolicy({
+  name: 'vericall-default',
+  version: 2,
+  prompt: SYSTEM_PROMPT_V2,
+  source: 'builtin',
+  description: 'Intent-based screening with rule IDs and structured JSON output',
+});
+
+/** Built-in policy v3: SYSTEM_PROMPT_V3 (v2 + ACCEPT warm transfer) — the default */
+export const DEFAULT_POLICY = definePolicy({
+  name: 'vericall-default',
+  version: 3,
+  prompt: SYSTEM_PROMPT_V3,
+  source: 'builtin',
+  description: 'Intent-based screening with rule IDs, structured JSON output and ACCEPT for urgent callers',
+});
+
+/** Structured output for every chat turn (Gemini responseSchema) */
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    reply: { type: Type.STRING },
+    decision: { type: Type.STRING, enum: ['CONTINUE', 'BLOCK', 'RECORD', 'ACCEPT'] },
+    confidence: { type: Type.NUMBER },
+    matchedRules: { type: Type.ARRAY, items: { type: Type.STRING } },
+    caller: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        organization: { type: Type.STRING },
+        purpose: { type: Type.STRING },
+      },
+    },
+  },
+  required: ['reply', 'decision', 'confidence', 'matchedRules', 'caller'],
+  propertyOrdering: ['reply', 'decision', 'confidence', 'matchedRules', 'caller'],
+};
+
+interface StructuredTurn {
+  reply: string;
+  decision: 'CONTINUE' | CallDecision;
+  confidence: number;
+  matchedRules: string[];
+  caller: CallerDetails;
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate a model answer against RESPONSE_SCHEMA.
+ * Returns null if it is not JSON or not shaped like a turn.
+ */
+function parseStructuredTurn(raw: string): StructuredTurn | null {
+  let value: any;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+  if (typeof value.reply !== 'string') return null;
+  if (!['CONTINUE', 'BLOCK', 'RECORD', 'ACCEPT'].includes(value.decision)) return null;
+  if (typeof value.confidence !== 'number' || Number.isNaN(value.confidence)) return null;
+
+  return {
+    reply: value.reply.trim(),
+    decision: value.decision,
+    confidence: Math.min(1, Math.max(0, value.confidence)),
+    matchedRules: Array.isArray(value.matchedRules)
+      ? value.matchedRules.filter((id: unknown): id is string => typeof id === 'string')
+      : [],
+    caller: {
+      name: optionalText(value.caller?.name),
+      organization: optionalText(value.caller?.organization),
+      purpose: optionalText(value.caller?.purpose),
+    },
+  };
+}
+
 export class GeminiChat {
   private conversationHistory: Array<{ role: string; content: string }> = [];
   private projectId: string;
   private location: string;
+  private policy: ScreeningPolicy;
+  private callerContext: string | null = null;
+  private language: LanguageProfile = getLanguageProfile(DEFAULT_LANGUAGE);
+  private callerDetails: CallerDetails = {};
 
-  constructor() {
+  constructor(policy: ScreeningPolicy = DEFAULT_POLICY) {
+    this.policy = policy;
     this.projectId = process.env.GCP_PROJECT_ID || 'ethglobal-479011';
     this.location = process.env.GCP_REGION || 'us-central1';
   }
@@ -119,12 +432,51 @@ export class GeminiChat {
   }
 
   /**
-   * Get the system prompt (for hashing/verification)
+   * Get the built-in system prompt (for hashing/verification)
    */
   static getSystemPrompt(): string {
     return SYSTEM_PROMPT;
   }
 
+  /** The policy this conversation is screened with, localized to the caller's language */
+  getPolicy(): ScreeningPolicy {
+    return localizePolicy(this.policy, this.language);
+  }
+
+  /**
+   * Switch to another policy (before the conversation starts)
+   */
+  usePolicy(policy: ScreeningPolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Caller background (past decisions for this number).
+   * Appended to the system instruction at call time, so the policy hash is unchanged.
+   */
+  setCallerContext(context: string): void {
+    this.callerContext = context;
+  }
+
+  /**
+   * Language the caller speaks (may change mid-call when STT detects another).
+   * Its section is folded into the policy, so it is part of the policy hash.
+   */
+  useLanguage(language: LanguageProfile): void {
+    this.language = language;
+  }
+
+  /**
+   * Localized policy prompt + caller history
+   */
+  private buildSystemInstruction(): string {
+    const sections = [this.getPolicy().prompt];
+    if (this.callerContext) {
+      sections.push(`=== CALLER HISTORY ===\n${this.callerContext}`);
+    }
+    return sections.join('\n\n');
+  }
+
   /**
    * Send a message and get AI response
    * @param userMessage - What the caller said (transcribed)
@@ -139,7 +491,10 @@ export class GeminiChat {
 
     // Build the prompt
     const messages = [
-      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'system',
+        content: this.buildSystemInstruction(),
+      },
       ...this.conversationHistory,
     ];
 
@@ -153,32 +508,70 @@ export class GeminiChat {
     try {
       // Use Vertex AI Gemini
       const response = await this.callGemini(messages);
+      const turn = parseStructuredTurn(response);
+
+      if (!turn) {
+        // Free-text answer (e.g. a policy that asks for tags) — fall back to tag parsing
+        console.warn('[Gemini] Response is not structured JSON, falling back to tag parsing');
+        const { decision, confidence, cleanedText } = this.parseDecision(response);
+        this.conversationHistory.push({
+          role: 'assistant',
+          content: response,
+        });
+        return {
+          text: cleanedText || this.cleanResponse(response),
+          decision,
+          confidence,
+          matchedRules: [],
+          caller: this.callerDetails,
+        };
+      }
 
-      // Parse decision from response
-      const { decision, confidence, cleanedText } = this.parseDecision(response);
+      const decision = turn.decision === 'CONTINUE' ? null : turn.decision;
+      const text = turn.reply || (decision === 'BLOCK'
+        ? this.language.phrases.blockFallback
+        : decision === 'RECORD' ? this.language.phrases.recordFallback
+        : decision === 'ACCEPT' ? this.language.phrases.acceptFallback : this.language.phrases.trouble);
+      this.callerDetails = mergeCallerDetails(this.callerDetails, turn.caller);
+
+      // Only rule IDs the system instruction actually declares
+      const knownRules = new Set(extractRuleIds(messages[0].content));
+      const matchedRules = turn.matchedRules.filter((id) => knownRules.has(id));
+      if (matchedRules.length < turn.matchedRules.length) {
+        console.warn(`[Gemini] Dropped unknown rule IDs: ${turn.matchedRules.filter((id) => !knownRules.has(id)).join(', ')}`);
+      }
 
-      // Add assistant response to history (use original for context)
+      // History keeps the spoken reply (the transcript is what gets hashed)
       this.conversationHistory.push({
         role: 'assistant',
-        content: response,
+        content: text,
       });
 
       return {
-        text: cleanedText || this.cleanResponse(response),
+        text,
         decision,
-        confidence,
+        confidence: turn.confidence,
+        matchedRules,
+        caller: this.callerDetails,
       };
     } catch (error) {
       console.error('[Gemini] Error:', error);
       // Fallback response
       return {
-        text: "I'm sorry, I'm having trouble understanding. Could you please repeat that?",
+        text: this.language.phrases.trouble,
         decision: null,
         confidence: 0,
+        matchedRules: [],
+        caller: this.callerDetails,
       };
     }
   }
 
+  /** What the caller has said about themselves so far */
+  getCallerDetails(): CallerDetails {
+    return this.callerDetails;
+  }
+
   /**
    * Call Gemini API via new unified SDK with ADC
    */
@@ -215,6 +608,8 @@ export class GeminiChat {
         maxOutputTokens: 1024,
         temperature: 0.7,
         thinkingConfig: { thinkingBudget: 0 },
+        responseMimeType: 'application/json',
+        responseSchema: RESPONSE_SCHEMA,
       },
     });
 
@@ -222,7 +617,8 @@ export class GeminiChat {
   }
 
   /**
-   * Parse decision from AI response
+   * Parse decision from a free-text AI response ([BLOCK] / [RECORD] tags).
+   * Fallback only — structured turns carry the decision explicitly.
    */
   private parseDecision(response: string): { decision: CallDecision | null; confidence: number; cleanedText: string } {
     const upperResponse = response.toUpperCase();
@@ -253,7 +649,7 @@ export class GeminiChat {
       if (bareBlockAtStart && !isBlock) console.log('[Gemini] Detected bare BLOCK at start of response (no brackets)');
       // If response is just the tag with no text, provide a default message
       if (!cleanedText || cleanedText.length < 10) {
-        cleanedText = "Thank you for calling, but we're not interested at this time. Goodbye.";
+        cleanedText = this.language.phrases.blockFallback;
         console.log('[Gemini] Added fallback message for BLOCK');
       }
       return { decision: 'BLOCK', confidence: 0.9, cleanedText };
@@ -261,7 +657,7 @@ export class GeminiChat {
     if (isRecord || bareRecordAtStart) {
       if (bareRecordAtStart && !isRecord) console.log('[Gemini] Detected bare RECORD at start of response (no brackets)');
       if (!cleanedText || cleanedText.length < 10) {
-        cleanedText = "Got it, I'll pass along your message. Have a great day!";
+        cleanedText = this.language.phrases.recordFallback;
         console.log('[Gemini] Added fallback message for RECORD');
       }
       return { decision: 'RECORD', confidence: 0.9, cleanedText };
@@ -398,14 +794,30 @@ export class GeminiChat {
    */
   async generateSummary(decision: CallDecision): Promise<string> {
     const transcript = this.getTranscript();
+    const caller = describeCaller(this.callerDetails);
+    const notes = [
+      caller && `Caller details given during the call: ${caller}`,
+      this.language.code !== DEFAULT_LANGUAGE && `The call was in ${this.language.name}. Write the summary in English.`,
+    ].filter(Boolean).join('\n');
+    const notesBlock = notes ? `\n${notes}\n` : '';
     
-    const prompt = decision === 'BLOCK' 
+    const prompt = decision === 'ACCEPT'
+      ? `You are summarizing a phone call that is being put through to the owner right now.
+The summary is read aloud to the owner before the call connects.
+
+Write ONE short sentence: who is calling and why it cannot wait.
+${notesBlock}
+Transcript:
+${transcript}
+
+Write ONLY the summary, nothing else:`
+      : decision === 'BLOCK'
       ? `You are summarizing a phone call that was blocked as spam/scam.
 
 Write 1-2 sentences explaining:
 - What the caller was trying to sell or promote
 - Why it was flagged (e.g., unsolicited, postcard scam, cold call)
-
+${notesBlock}
 Transcript:
 ${transcript}
 
@@ -416,7 +828,7 @@ Write 1-2 sentences covering ALL of the following:
 - Caller's name (if given)
 - Purpose of the call (why they called)
 - Key details (what they need, what they sent, who they want to reach)
-
+${notesBlock}
 Transcript:
 ${transcript}
 
@@ -450,9 +862,12 @@ Write ONLY the summary, nothing else:`;
   }
 
   /**
-   * Simple fallback summary (no AI)
+   * Simple fallback summary (no AI): the extracted caller details, else the caller's first words
    */
   private getSimpleSummary(): string {
+    const caller = describeCaller(this.callerDetails);
+    if (caller) return caller;
+
     const callerMessages = this.conversationHistory
       .filter(m => m.role === 'user')
       .map(m => m.content)
@@ -475,5 +890,6 @@ Write ONLY the summary, nothing else:`;
    */
   reset(): void {
     this.conversationHistory = [];
+    this.callerDetails = {};
   }
 }
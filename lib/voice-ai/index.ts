@@ -4,6 +4,53 @@
 
 export { SpeechToText } from './speech-to-text';
 export { TextToSpeech } from './text-to-speech';
-export { GeminiChat, type CallDecision, type GeminiResponse } from './gemini';
+export {
+  GeminiChat,
+  DEFAULT_POLICY,
+  DEFAULT_POLICY_V1,
+  DEFAULT_POLICY_V2,
+  describeCaller,
+  type CallDecision,
+  type CallerDetails,
+  type GeminiResponse,
+} from './gemini';
+export { ScriptedSpeechToText } from './scripted-stt';
+export { LocalTextToSpeech } from './local-tts';
+export { RuleBasedScreener, RULES_POLICY } from './rule-screener';
+export {
+  definePolicy,
+  extractRuleIds,
+  formatPolicyRef,
+  parsePolicyRef,
+  type ScreeningPolicy,
+  type PolicyRef,
+} from './policy';
+export {
+  getPolicy,
+  listPolicies,
+  publishPolicy,
+  assignPolicy,
+  listAssignments,
+  resolvePolicyForCall,
+  PolicyRegistryError,
+  type ScreeningPolicySummary,
+  type PolicyAssignment,
+} from './policy-registry';
+export {
+  getLanguageProfile,
+  listLanguageProfiles,
+  DEFAULT_LANGUAGE,
+  type LanguageProfile,
+  type LanguagePhrases,
+} from './languages';
+export {
+  createVoiceProviders,
+  loadTranscriptScript,
+  type SpeechRecognizer,
+  type SpeechSynthesizer,
+  type ScreeningModel,
+  type ScreeningResponse,
+  type VoiceProviders,
+} from './providers';
 export { VoiceAISession, createSession, getSession, removeSession } from './session';
 export { mulawToLinear16, linear16ToMulaw, resample } from './audio-utils';
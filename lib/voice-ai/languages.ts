@@ -0,0 +1,226 @@
+/**
+ * Screening Languages
+ *
+ * Everything VoiceAISession and the TwiML builder need to screen a call in
+ * one language: STT/TTS codes and voices, what the assistant says, which
+ * short replies are just fillers, and language-specific scam patterns for
+ * the screening model (e.g. Japanese "オレオレ詐欺"), with rule IDs the
+ * model can report like the policy's own.
+ *
+ * A tenant picks its primary `language`; listing `alternativeLanguages`
+ * lets Google STT auto-detect among them, and the session switches
+ * voice, fillers and screening hints to whatever the caller speaks.
+ */
+
+// ─── Types ────────────────────────────────────────────────────
+
+export interface LanguagePhrases {
+  /** First thing the assistant says */
+  greeting: string;
+  /** Silence prompt */
+  repeat: string;
+  /** Screening model unavailable */
+  trouble: string;
+  /** Closing line when the model decides without a reply of its own */
+  blockFallback: string;
+  recordFallback: string;
+  acceptFallback: string;
+  /** Read to the owner before an ACCEPTed call is connected, followed by the summary */
+  whisper: string;
+  // TwiML <Say> prompts (lib/phone twiml-builder)
+  connecting: string;
+  rejected: string;
+  voicemail: string;
+  unavailable: string;
+  technicalIssue: string;
+}
+
+export interface LanguageProfile {
+  /** BCP-47 code used for STT and TTS */
+  code: string;
+  /** English name, as the screening model is told */
+  name: string;
+  /** Google Cloud TTS voice */
+  ttsVoice: string;
+  /** Twilio <Say> voice */
+  twilioVoice: string;
+  phrases: LanguagePhrases;
+  /** Acknowledgements that must not interrupt the assistant */
+  fillers: string[];
+  /** STT speech-context hints */
+  sttPhrases: string[];
+  /** Language-specific screening guidance (appended to the system instruction) */
+  screeningNotes: string;
+}
+
+/** Google STT accepts at most this many alternative languages */
+export const MAX_ALTERNATIVE_LANGUAGES = 3;
+
+// ─── Profiles ─────────────────────────────────────────────────
+
+const EN_US: LanguageProfile = {
+  code: 'en-US',
+  name: 'English',
+  ttsVoice: 'en-US-Wavenet-F',
+  twilioVoice: 'Polly.Amy',
+  phrases: {
+    greeting: "Hello, this is an automated assistant. May I ask who's calling and the purpose of your call?",
+    repeat: "I'm sorry, I didn't catch that. Could you please repeat?",
+    trouble: "I'm sorry, I'm having trouble understanding. Could you please repeat that?",
+    blockFallback: "Thank you for calling, but we're not interested at this time. Goodbye.",
+    recordFallback: "Got it, I'll pass along your message. Have a great day!",
+    acceptFallback: "Thank you. One moment please, I'll connect you now.",
+    whisper: 'Screened call from VeriCall.',
+    connecting: 'Please hold while we connect your call.',
+    rejected: 'Sorry, we are unable to take your call at this time. Goodbye.',
+    voicemail: 'No one is available. Please leave a message after the beep.',
+    unavailable: 'The person you are trying to reach is unavailable. Please leave a message.',
+    technicalIssue: 'Sorry, there was a technical issue. Please try again later.',
+  },
+  fillers: [
+    'yeah', 'yes', 'yep', 'okay', 'ok', 'uh', 'um', 'uh-huh',
+    'right', 'sure', 'mhm', 'hmm', 'ah', 'oh', 'i see',
+  ],
+  sttPhrases: [
+    // Name introduction patterns
+    'my name is', 'this is', 'I am', 'speaking', 'calling from',
+    // Common follow-up phrases
+    'regarding', 'about', 'following up', 'returning your call',
+  ],
+  screeningNotes: '',
+};
+
+const JA_JP: LanguageProfile = {
+  code: 'ja-JP',
+  name: 'Japanese',
+  ttsVoice: 'ja-JP-Wavenet-A',
+  twilioVoice: 'Polly.Mizuki',
+  phrases: {
+    greeting: 'お電話ありがとうございます。こちらは自動応答です。お名前とご用件をお伺いしてもよろしいですか？',
+    repeat: '申し訳ありません、聞き取れませんでした。もう一度お願いできますか？',
+    trouble: '申し訳ありません、うまく聞き取れませんでした。もう一度おっしゃっていただけますか？',
+    blockFallback: 'お電話ありがとうございました。今回は結構です。失礼いたします。',
+    recordFallback: '承知しました。ご伝言をお伝えいたします。失礼いたします。',
+    acceptFallback: 'ありがとうございます。ただいまおつなぎしますので、少々お待ちください。',
+    whisper: 'VeriCallで確認済みのお電話です。',
+    connecting: 'おつなぎしますので、少々お待ちください。',
+    rejected: '申し訳ありませんが、ただいまお電話をお受けできません。失礼いたします。',
+    voicemail: 'ただいま電話に出ることができません。発信音の後にメッセージをどうぞ。',
+    unavailable: 'おかけになった相手は電話に出られません。メッセージをどうぞ。',
+    technicalIssue: '申し訳ありません、システムに問題が発生しました。後ほどおかけ直しください。',
+  },
+  fillers: [
+    'はい', 'うん', 'ええ', 'えー', 'えっと', 'あの', 'あのー', 'はいはい',
+    'そうですか', 'なるほど', 'そうです', 'ああ',
+  ],
+  sttPhrases: ['と申します', 'です', 'の件で', 'からお電話', '折り返し', 'お世話になっております'],
+  screeningNotes: `Japanese scam patterns — instant BLOCK:
+- [block.ore-ore] "オレオレ詐欺": the caller claims to be a son, grandson or relative without giving their name ("オレだよ", "オレオレ"), says they lost their phone or changed numbers, and needs money urgently (accident, lawsuit, lost company money)
+- [block.fake-official] Fake police, bank, 市役所 or 年金事務所 staff offering a refund (還付金) or asking for cash cards, PINs or an ATM visit
+- [block.selling] Unsolicited offers for 投資, 不動産, 光回線 or switching 電力会社
+A caller who says "お世話になっております" is only being polite; it is NOT proof of an existing relationship.`,
+};
+
+const ES_ES: LanguageProfile = {
+  code: 'es-ES',
+  name: 'Spanish',
+  ttsVoice: 'es-ES-Wavenet-C',
+  twilioVoice: 'Polly.Conchita',
+  phrases: {
+    greeting: 'Hola, le atiende un asistente automático. ¿Me puede decir quién llama y el motivo de su llamada?',
+    repeat: 'Disculpe, no le he entendido. ¿Podría repetirlo, por favor?',
+    trouble: 'Disculpe, tengo problemas para entenderle. ¿Podría repetirlo, por favor?',
+    blockFallback: 'Gracias por llamar, pero no nos interesa en este momento. Adiós.',
+    recordFallback: 'Entendido, pasaré su mensaje. Que tenga un buen día. Adiós.',
+    acceptFallback: 'Gracias. Un momento, por favor, le paso la llamada ahora.',
+    whisper: 'Llamada verificada por VeriCall.',
+    connecting: 'Por favor, espere mientras le conectamos.',
+    rejected: 'Lo sentimos, no podemos atender su llamada en este momento. Adiós.',
+    voicemail: 'No hay nadie disponible. Por favor, deje un mensaje después de la señal.',
+    unavailable: 'La persona con la que intenta comunicarse no está disponible. Por favor, deje un mensaje.',
+    technicalIssue: 'Lo sentimos, ha habido un problema técnico. Por favor, inténtelo más tarde.',
+  },
+  fillers: ['sí', 'si', 'vale', 'ok', 'okay', 'eh', 'em', 'ajá', 'claro', 'bueno', 'ya', 'entiendo', 'ah'],
+  sttPhrases: ['me llamo', 'soy', 'le llamo de', 'llamo por', 'devolver la llamada'],
+  screeningNotes: `Spanish scam patterns — instant BLOCK:
+- [block.virtual-kidnapping] "Secuestro virtual": the caller says a relative has been kidnapped or detained and demands immediate payment
+- [block.advance-fee] A prize or lottery win ("premio", "sorteo") that requires paying a fee first
+- [block.fake-official] Fake bank staff asking for card numbers, codes or PINs`,
+};
+
+const DE_DE: LanguageProfile = {
+  code: 'de-DE',
+  name: 'German',
+  ttsVoice: 'de-DE-Wavenet-C',
+  twilioVoice: 'Polly.Marlene',
+  phrases: {
+    greeting: 'Guten Tag, hier spricht ein automatischer Assistent. Darf ich fragen, wer spricht und worum es geht?',
+    repeat: 'Entschuldigung, das habe ich nicht verstanden. Könnten Sie das bitte wiederholen?',
+    trouble: 'Entschuldigung, ich habe Schwierigkeiten, Sie zu verstehen. Könnten Sie das bitte wiederholen?',
+    blockFallback: 'Vielen Dank für Ihren Anruf, aber wir haben kein Interesse. Auf Wiederhören.',
+    recordFallback: 'Verstanden, ich gebe Ihre Nachricht weiter. Auf Wiederhören.',
+    acceptFallback: 'Vielen Dank. Einen Moment bitte, ich verbinde Sie jetzt.',
+    whisper: 'Von VeriCall geprüfter Anruf.',
+    connecting: 'Bitte warten Sie, Sie werden verbunden.',
+    rejected: 'Leider können wir Ihren Anruf im Moment nicht entgegennehmen. Auf Wiederhören.',
+    voicemail: 'Zurzeit ist niemand erreichbar. Bitte hinterlassen Sie eine Nachricht nach dem Signalton.',
+    unavailable: 'Die gewünschte Person ist nicht erreichbar. Bitte hinterlassen Sie eine Nachricht.',
+    technicalIssue: 'Entschuldigung, es ist ein technisches Problem aufgetreten. Bitte versuchen Sie es später erneut.',
+  },
+  fillers: ['ja', 'jo', 'okay', 'ok', 'äh', 'ähm', 'hm', 'hmm', 'genau', 'aha', 'alles klar', 'verstehe', 'ach so'],
+  sttPhrases: ['mein Name ist', 'hier ist', 'ich rufe an wegen', 'Rückruf', 'von der Firma'],
+  screeningNotes: `German scam patterns — instant BLOCK:
+- [block.grandchild-trick] "Enkeltrick": the caller claims to be a grandchild or relative ("Rate mal, wer hier ist") and needs money urgently
+- [block.fake-official] "Schockanruf": fake police, doctors or lawyers report an accident and demand bail (Kaution) or payment
+- [block.advance-fee] Fake "Microsoft Support" or bank staff, and prize draws (Gewinnspiel) that require a fee`,
+};
+
+const PROFILES: LanguageProfile[] = [EN_US, JA_JP, ES_ES, DE_DE];
+
+export const DEFAULT_LANGUAGE = EN_US.code;
+
+// ─── Lookup ───────────────────────────────────────────────────
+
+export function listLanguageProfiles(): LanguageProfile[] {
+  return PROFILES;
+}
+
+/**
+ * Profile for a BCP-47 code. Matches the exact code first, then the base
+ * language ("es-MX" → Spanish, "ja" → Japanese); unknown languages fall
+ * back to English. Case-insensitive (STT reports codes like "ja-jp").
+ */
+export function getLanguageProfile(code: string | undefined): LanguageProfile {
+  if (!code) return EN_US;
+  const wanted = code.toLowerCase();
+  const base = wanted.split('-')[0];
+  return PROFILES.find((p) => p.code.toLowerCase() === wanted)
+    ?? PROFILES.find((p) => p.code.toLowerCase().split('-')[0] === base)
+    ?? EN_US;
+}
+
+export function isSupportedLanguage(code: string): boolean {
+  const base = code.toLowerCase().split('-')[0];
+  return PROFILES.some((p) => p.code.toLowerCase().split('-')[0] === base);
+}
+
+// ─── Text helpers ─────────────────────────────────────────────
+
+/**
+ * Word count that also works for languages written without spaces
+ * (Intl.Segmenter splits Japanese into words).
+ */
+export function countWords(text: string, code: string): number {
+  const segmenter = new Intl.Segmenter(code, { granularity: 'word' });
+  let count = 0;
+  for (const segment of segmenter.segment(text)) {
+    if (segment.isWordLike) count++;
+  }
+  return count;
+}
+
+/** True if the utterance is only an acknowledgement ("uh-huh", "はい") */
+export function isFillerUtterance(text: string, profile: LanguageProfile): boolean {
+  const normalized = text.toLowerCase().trim().replace(/[.,!?¡¿。、！？…]/g, '').trim();
+  return profile.fillers.includes(normalized);
+}
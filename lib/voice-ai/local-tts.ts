@@ -0,0 +1,54 @@
+/**
+ * Local Text-to-Speech (offline stand-in)
+ *
+ * Produces 8kHz μ-law audio without calling any service:
+ *   - tone:    a 440Hz sine, long enough to "say" the text
+ *   - silence: μ-law silence of the same length
+ * Duration is derived from the word count, so playback timing (marks,
+ * barge-in windows) behaves roughly like real speech.
+ */
+
+import { linear16ToMulaw } from './audio-utils';
+import { countWords } from './languages';
+
+export interface LocalTTSConfig {
+  mode?: 'tone' | 'silence';
+  /** Simulated speaking time per word */
+  msPerWord?: number;
+  frequencyHz?: number;
+}
+
+const SAMPLE_RATE = 8000;
+const MULAW_SILENCE = 0xff;
+
+export class LocalTextToSpeech {
+  private config: Required<LocalTTSConfig>;
+
+  constructor(config: LocalTTSConfig = {}) {
+    this.config = {
+      mode: config.mode || 'tone',
+      msPerWord: config.msPerWord || 350,
+      frequencyHz: config.frequencyHz || 440,
+    };
+  }
+
+  /**
+   * Synthesize text to speech
+   * @returns Base64 encoded μ-law audio
+   */
+  async synthesize(text: string, languageCode = 'en-US'): Promise<string> {
+    const words = Math.max(1, countWords(text, languageCode));
+    const samples = Math.round((words * this.config.msPerWord * SAMPLE_RATE) / 1000);
+
+    if (this.config.mode === 'silence') {
+      return Buffer.alloc(samples, MULAW_SILENCE).toString('base64');
+    }
+
+    const linear16 = Buffer.alloc(samples * 2);
+    for (let i = 0; i < samples; i++) {
+      const value = Math.round(8000 * Math.sin((2 * Math.PI * this.config.frequencyHz * i) / SAMPLE_RATE));
+      linear16.writeInt16LE(value, i * 2);
+    }
+    return linear16ToMulaw(linear16).toString('base64');
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Screening Policy Registry
+ *
+ * Policies come from three places (same `name@version` resolves in this order):
+ *   1. db       — `screening_policies` table, published via POST /api/policies
+ *   2. file     — <POLICY_DIR>/<name>/<version>.txt (re-read on every lookup)
+ *   3. builtin  — vericall-default@1/@2/@3 (Gemini system prompts), vericall-rules@1
+ *
+ * Which policy a call uses is resolved when the stream starts, so new
+ * versions and assignments take effect on the next call without a redeploy:
+ *   1. DB assignment for the called number
+ *   2. The called number's tenant (`policy` in lib/tenants.ts)
+ *   3. SCREENING_POLICY_BY_NUMBER[called number]
+ *   4. DB assignment for '*' (deployment default)
+ *   5. SCREENING_POLICY
+ *   6. vericall-default (latest built-in version)
+ *
+ * A missing DB only disables sources 1/4 and db policies — calls never
+ * fail because the registry is unavailable.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { query } from '@/lib/db';
+import { policyConfig } from '@/lib/config';
+import { getTenantForNumber } from '@/lib/tenants';
+import { DEFAULT_POLICY, DEFAULT_POLICY_V1, DEFAULT_POLICY_V2 } from './gemini';
+import { RULES_POLICY } from './rule-screener';
+import {
+  definePolicy,
+  formatPolicyRef,
+  isValidPolicyName,
+  parsePolicyRef,
+  type PolicyRef,
+  type ScreeningPolicy,
+} from './policy';
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type ScreeningPolicySummary = Omit<ScreeningPolicy, 'prompt'>;
+
+export interface PolicyAssignment {
+  /** E.164 called number, or '*' for the deployment default */
+  calledNumber: string;
+  policyName: string;
+  /** null = always the latest version */
+  policyVersion: number | null;
+  updatedAt: string;
+}
+
+/** Wildcard called number for the deployment-wide DB assignment */
+export const DEFAULT_ASSIGNMENT = '*';
+
+export class PolicyRegistryError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'PolicyRegistryError';
+  }
+}
+
+const BUILTIN_POLICIES: ScreeningPolicy[] = [DEFAULT_POLICY_V1, DEFAULT_POLICY_V2, DEFAULT_POLICY, RULES_POLICY];
+
+// ─── Schema ───────────────────────────────────────────────────
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS screening_policies (
+    name         TEXT NOT NULL,
+    version      INT NOT NULL,
+    prompt       TEXT NOT NULL,
+    hash         TEXT NOT NULL,
+    description  TEXT,
+    created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (name, version)
+  );
+  CREATE TABLE IF NOT EXISTS screening_policy_assignments (
+    called_number   TEXT PRIMARY KEY,
+    policy_name     TEXT NOT NULL,
+    policy_version  INT,
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+`;
+
+let _schemaReady: Promise<void> | null = null;
+
+/** Create the policy tables on first use (idempotent) */
+function ensureSchema(): Promise<void> {
+  if (!_schemaReady) {
+    _schemaReady = query(SCHEMA)
+      .then(() => undefined)
+      .catch((err) => {
+        _schemaReady = null;
+        throw err;
+      });
+  }
+  return _schemaReady;
+}
+
+function rowToPolicy(row: any): ScreeningPolicy {
+  return {
+    name: row.name,
+    version: row.version,
+    prompt: row.prompt,
+    hash: row.hash,
+    source: 'db',
+    description: row.description || undefined,
+  };
+}
+
+function summarize({ prompt: _prompt, ...summary }: ScreeningPolicy): ScreeningPolicySummary {
+  return summary;
+}
+
+// ─── Sources ──────────────────────────────────────────────────
+
+async function getDbPolicy(name: string, version?: number): Promise<ScreeningPolicy | undefined> {
+  await ensureSchema();
+  const res = version
+    ? await query('SELECT * FROM screening_policies WHERE name = $1 AND version = $2', [name, version])
+    : await query('SELECT * FROM screening_policies WHERE name = $1 ORDER BY version DESC LIMIT 1', [name]);
+  return res.rows[0] ? rowToPolicy(res.rows[0]) : undefined;
+}
+
+/** Versions available as <dir>/<name>/<version>.txt */
+function listFileVersions(name: string): number[] {
+  const dir = join(policyConfig.dir, name);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .map((file) => /^([1-9]\d*)\.txt$/.exec(file))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map((m) => parseInt(m[1], 10))
+    .sort((a, b) => a - b);
+}
+
+function getFilePolicy(name: string, version?: number): ScreeningPolicy | undefined {
+  const versions = listFileVersions(name);
+  const v = version ?? versions[versions.length - 1];
+  if (!v || !versions.includes(v)) return undefined;
+  return definePolicy({
+    name,
+    version: v,
+    prompt: readFileSync(join(policyConfig.dir, name, `${v}.txt`), 'utf-8'),
+    source: 'file',
+  });
+}
+
+function listFilePolicies(): ScreeningPolicy[] {
+  if (!existsSync(policyConfig.dir)) return [];
+  return readdirSync(policyConfig.dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && isValidPolicyName(entry.name))
+    .flatMap((entry) => listFileVersions(entry.name).map((v) => getFilePolicy(entry.name, v)!));
+}
+
+function getBuiltinPolicy(name: string, version?: number): ScreeningPolicy | undefined {
+  return BUILTIN_POLICIES.find((p) => p.name === name && (!version || p.version === version));
+}
+
+// ─── Lookup ───────────────────────────────────────────────────
+
+/**
+ * Get a policy by name and version (omit version for the latest).
+ * "Latest" compares versions across all sources.
+ */
+export async function getPolicy(name: string, version?: number): Promise<ScreeningPolicy | undefined> {
+  let db: ScreeningPolicy | undefined;
+  try {
+    db = await getDbPolicy(name, version);
+  } catch (error) {
+    console.warn(`📜 [Policy] DB lookup failed for ${formatPolicyRef({ name, version })}:`, (error as Error).message);
+  }
+
+  const candidates = [db, getFilePolicy(name, version), getBuiltinPolicy(name, version)]
+    .filter((p): p is ScreeningPolicy => p !== undefined);
+  if (version) return candidates[0];
+
+  // Highest version wins; on a tie the earlier source (db > file > builtin)
+  return candidates.reduce<ScreeningPolicy | undefined>(
+    (best, p) => (!best || p.version > best.version ? p : best),
+    undefined,
+  );
+}
+
+/**
+ * Every known policy version (without prompt text), newest first per name.
+ */
+export async function listPolicies(): Promise<ScreeningPolicySummary[]> {
+  let db: ScreeningPolicy[] = [];
+  try {
+    await ensureSchema();
+    const res = await query('SELECT * FROM screening_policies');
+    db = res.rows.map(rowToPolicy);
+  } catch (error) {
+    console.warn('📜 [Policy] DB listing failed:', (error as Error).message);
+  }
+
+  const seen = new Set<string>();
+  return [...db, ...listFilePolicies(), ...BUILTIN_POLICIES]
+    .filter((p) => {
+      const key = formatPolicyRef(p);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.name.localeCompare(b.name) || b.version - a.version)
+    .map(summarize);
+}
+
+// ─── Publishing ───────────────────────────────────────────────
+
+/**
+ * Publish a new policy version to the DB.
+ * `version` defaults to latest + 1. Existing versions can never be replaced.
+ */
+export async function publishPolicy(params: {
+  name: string;
+  prompt: string;
+  version?: number;
+  description?: string;
+}): Promise<ScreeningPolicy> {
+  if (!isValidPolicyName(params.name)) {
+    throw new PolicyRegistryError(`Invalid policy name: ${params.name}`, 400);
+  }
+  if (!params.prompt.trim()) {
+    throw new PolicyRegistryError('Policy prompt is empty', 400);
+  }
+  if (params.version !== undefined && (!Number.isInteger(params.version) || params.version < 1)) {
+    throw new PolicyRegistryError(`Invalid policy version: ${params.version}`, 400);
+  }
+
+  const latest = await getPolicy(params.name);
+  const version = params.version ?? (latest ? latest.version + 1 : 1);
+  const existing = await getPolicy(params.name, version);
+  if (existing) {
+    throw new PolicyRegistryError(
+      `${formatPolicyRef({ name: params.name, version })} already exists (${existing.source})`,
+      409,
+    );
+  }
+
+  const policy = definePolicy({
+    name: params.name,
+    version,
+    prompt: params.prompt,
+    source: 'db',
+    description: params.description,
+  });
+
+  await ensureSchema();
+  const res = await query(
+    `INSERT INTO screening_policies (name, version, prompt, hash, description)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (name, version) DO NOTHING`,
+    [policy.name, policy.version, policy.prompt, policy.hash, policy.description ?? null],
+  );
+  if (res.rowCount === 0) {
+    throw new PolicyRegistryError(`${formatPolicyRef(policy)} already exists (db)`, 409);
+  }
+
+  console.log(`📜 [Policy] Published ${formatPolicyRef(policy)} (${policy.hash.slice(0, 12)}…)`);
+  return policy;
+}
+
+// ─── Assignments ──────────────────────────────────────────────
+
+export async function listAssignments(): Promise<PolicyAssignment[]> {
+  await ensureSchema();
+  const res = await query('SELECT * FROM screening_policy_assignments ORDER BY called_number');
+  return res.rows.map((row) => ({
+    calledNumber: row.called_number,
+    policyName: row.policy_name,
+    policyVersion: row.policy_version,
+    updatedAt: row.updated_at instanceof Date ? row.updated_at.toISOString() : String(row.updated_at),
+  }));
+}
+
+/**
+ * Assign a policy to a called number ('*' = deployment default).
+ * `ref` null removes the assignment.
+ */
+export async function assignPolicy(calledNumber: string, ref: string | null): Promise<void> {
+  await ensureSchema();
+
+  if (ref === null) {
+    await query('DELETE FROM screening_policy_assignments WHERE called_number = $1', [calledNumber]);
+    console.log(`📜 [Policy] Unassigned ${calledNumber}`);
+    return;
+  }
+
+  const parsed = parsePolicyRef(ref);
+  if (!parsed) throw new PolicyRegistryError(`Invalid policy reference: ${ref}`, 400);
+  if (!(await getPolicy(parsed.name, parsed.version))) {
+    throw new PolicyRegistryError(`Policy not found: ${ref}`, 404);
+  }
+
+  await query(
+    `INSERT INTO screening_policy_assignments (called_number, policy_name, policy_version, updated_at)
+     VALUES ($1, $2, $3, NOW())
+     ON CONFLICT (called_number) DO UPDATE SET
+       policy_name = EXCLUDED.policy_name,
+       policy_version = EXCLUDED.policy_version,
+       updated_at = EXCLUDED.updated_at`,
+    [calledNumber, parsed.name, parsed.version ?? null],
+  );
+  console.log(`📜 [Policy] Assigned ${formatPolicyRef(parsed)} → ${calledNumber}`);
+}
+
+async function getDbAssignment(calledNumber: string): Promise<PolicyRef | undefined> {
+  await ensureSchema();
+  const res = await query(
+    'SELECT policy_name, policy_version FROM screening_policy_assignments WHERE called_number = $1',
+    [calledNumber],
+  );
+  const row = res.rows[0];
+  return row ? { name: row.policy_name, version: row.policy_version ?? undefined } : undefined;
+}
+
+// ─── Resolution ───────────────────────────────────────────────
+
+/**
+ * Resolve the policy for a call to `calledNumber` (see order in header).
+ * Unknown references are logged and skipped; never throws.
+ */
+export async function resolvePolicyForCall(calledNumber?: string): Promise<ScreeningPolicy> {
+  const tenant = getTenantForNumber(calledNumber);
+  const configRef = (raw: string | undefined) => (raw ? parsePolicyRef(raw) ?? undefined : undefined);
+
+  let dbNumber: PolicyRef | undefined;
+  let dbDefault: PolicyRef | undefined;
+  try {
+    if (calledNumber) dbNumber = await getDbAssignment(calledNumber);
+    dbDefault = await getDbAssignment(DEFAULT_ASSIGNMENT);
+  } catch (error) {
+    console.warn('📜 [Policy] DB assignments unavailable:', (error as Error).message);
+  }
+
+  const chain: Array<{ ref: PolicyRef | undefined; from: string }> = [
+    { ref: dbNumber, from: `assignment ${calledNumber}` },
+    { ref: configRef(tenant.policy), from: `tenant ${tenant.id}` },
+    { ref: configRef(calledNumber ? policyConfig.byNumber[calledNumber] : undefined), from: 'SCREENING_POLICY_BY_NUMBER' },
+    { ref: dbDefault, from: `assignment ${DEFAULT_ASSIGNMENT}` },
+    { ref: configRef(policyConfig.defaultRef), from: 'SCREENING_POLICY' },
+  ];
+
+  for (const { ref, from } of chain) {
+    if (!ref) continue;
+    const policy = await getPolicy(ref.name, ref.version);
+    if (policy) {
+      console.log(`📜 [Policy] ${calledNumber || '(unknown number)'} → ${formatPolicyRef(policy)} via ${from}`);
+      return policy;
+    }
+    console.warn(`📜 [Policy] ${formatPolicyRef(ref)} (${from}) not found — skipping`);
+  }
+
+  return DEFAULT_POLICY;
+}
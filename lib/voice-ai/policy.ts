@@ -0,0 +1,95 @@
+/**
+ * Screening Policy — a named, versioned rule set for the screening model
+ *
+ * A policy's `hash` (SHA-256 of the prompt text) is what gets proven
+ * on-chain as `systemPromptHash`, so `name@version` + hash lets a verifier
+ * fetch the exact rules a call was screened with and check them.
+ *
+ * Versions are immutable: changing the rules means publishing a new version.
+ *
+ * A call screened in another language gets the policy localized to it
+ * (localizePolicy): the language section — reply language plus that
+ * language's scam patterns — is part of the prompt, so it is covered by
+ * the hash like every other rule.
+ *
+ * Rules inside a prompt can carry IDs written as `[block.selling]`; the
+ * model reports the ones it applied, and only IDs present in the prompt
+ * are kept.
+ */
+
+import crypto from 'crypto';
+import { DEFAULT_LANGUAGE, type LanguageProfile } from './languages';
+
+export type PolicySource = 'builtin' | 'file' | 'db';
+
+export interface ScreeningPolicy {
+  name: string;
+  version: number;
+  prompt: string;
+  /** SHA-256 hex of `prompt` */
+  hash: string;
+  source: PolicySource;
+  description?: string;
+  /** BCP-47 code of the language section folded into `prompt` (absent = not localized) */
+  language?: string;
+}
+
+/** `name@version` (version omitted = latest) */
+export interface PolicyRef {
+  name: string;
+  version?: number;
+}
+
+const POLICY_NAME = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+export function isValidPolicyName(name: string): boolean {
+  return POLICY_NAME.test(name);
+}
+
+export function hashPolicyPrompt(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt).digest('hex');
+}
+
+export function definePolicy(policy: Omit<ScreeningPolicy, 'hash'>): ScreeningPolicy {
+  return { ...policy, hash: hashPolicyPrompt(policy.prompt) };
+}
+
+/**
+ * `policy` with the screening language's section appended to its prompt
+ * (and hashed with it). Unchanged for the default language without notes.
+ */
+export function localizePolicy(
+  policy: ScreeningPolicy,
+  language: Pick<LanguageProfile, 'code' | 'name' | 'screeningNotes'>,
+): ScreeningPolicy {
+  if (language.code === DEFAULT_LANGUAGE && !language.screeningNotes) return policy;
+  const section = [
+    '=== LANGUAGE ===',
+    `The caller is speaking ${language.name} (${language.code}). Reply ONLY in ${language.name}, following all rules above.`,
+    'Keep the decision values and rule IDs exactly as written (BLOCK / RECORD, [block.selling]).',
+    language.screeningNotes,
+  ].filter(Boolean).join('\n');
+  return definePolicy({ ...policy, prompt: `${policy.prompt}\n\n${section}`, language: language.code });
+}
+
+const RULE_ID = /\[([a-z][a-z0-9-]*(?:\.[a-z0-9-]+)+)\]/g;
+
+/** Rule IDs (`[block.selling]`) declared in a prompt, in order of appearance */
+export function extractRuleIds(prompt: string): string[] {
+  return [...new Set(Array.from(prompt.matchAll(RULE_ID), (m) => m[1]))];
+}
+
+export function formatPolicyRef(ref: PolicyRef): string {
+  return ref.version ? `${ref.name}@${ref.version}` : ref.name;
+}
+
+/**
+ * Parse "name@version" or "name". Returns null if malformed.
+ */
+export function parsePolicyRef(raw: string): PolicyRef | null {
+  const [name, version, ...rest] = raw.trim().split('@');
+  if (rest.length > 0 || !isValidPolicyName(name)) return null;
+  if (version === undefined) return { name };
+  if (!/^[1-9]\d*$/.test(version)) return null;
+  return { name, version: parseInt(version, 10) };
+}
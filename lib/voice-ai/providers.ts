@@ -0,0 +1,141 @@
+/**
+ * Voice AI Provider Abstraction
+ *
+ * VoiceAISession talks to three pluggable providers:
+ *   - SpeechRecognizer   (caller audio → text)
+ *   - SpeechSynthesizer  (AI text → μ-law audio)
+ *   - ScreeningModel     (conversation → reply + BLOCK/RECORD decision)
+ *
+ * Which implementation is used is chosen through config (VOICE_*_PROVIDER):
+ *
+ *   STT:  google (default) | scripted   — scripted transcripts, no network
+ *   TTS:  google (default) | tone | silence
+ *   LLM:  gemini (default) | rules      — deterministic rule-based screener
+ *
+ * The local stand-ins need no Google Cloud credentials, so the whole call
+ * flow can run in CI and on laptops without network access.
+ */
+
+import { readFileSync } from 'fs';
+import { voiceAIConfig } from '@/lib/config';
+import { SpeechToText, type STTResultCallback } from './speech-to-text';
+import { TextToSpeech } from './text-to-speech';
+import { GeminiChat, type CallDecision, type GeminiResponse } from './gemini';
+import { ScriptedSpeechToText } from './scripted-stt';
+import { LocalTextToSpeech } from './local-tts';
+import { RuleBasedScreener } from './rule-screener';
+import type { ScreeningPolicy } from './policy';
+import type { LanguageProfile } from './languages';
+
+// ─── Interfaces ───────────────────────────────────────────────
+
+export interface SpeechRecognizer {
+  /** Feed Linear16 PCM audio (8kHz) */
+  writeAudio(audioData: Buffer): void;
+  onResult(callback: STTResultCallback): void;
+  stop(): void;
+  isActive(): boolean;
+}
+
+export interface SpeechSynthesizer {
+  /** Returns base64 μ-law audio (8kHz) ready for Twilio, in `languageCode` if given */
+  synthesize(text: string, languageCode?: string): Promise<string>;
+}
+
+export type ScreeningResponse = GeminiResponse;
+
+export interface ScreeningModel {
+  addInitialGreeting(greeting: string): void;
+  chat(userMessage: string): Promise<ScreeningResponse>;
+  getTranscript(): string;
+  getConversationEntries(): Array<{ role: 'Caller' | 'AI'; content: string }>;
+  generateSummary(decision: CallDecision): Promise<string>;
+  /** The policy this model screens with (its hash is proven as systemPromptHash) */
+  getPolicy(): ScreeningPolicy;
+  /** Switch policy before the call starts — omitted by models with compiled-in rules */
+  usePolicy?(policy: ScreeningPolicy): void;
+  /** Background on the caller (e.g. reputation), kept outside the hashed policy prompt */
+  setCallerContext?(context: string): void;
+  /** Language the caller speaks — replies and language-specific scam patterns follow it */
+  useLanguage?(language: LanguageProfile): void;
+}
+
+export interface VoiceProviders {
+  stt: SpeechRecognizer;
+  tts: SpeechSynthesizer;
+  screener: ScreeningModel;
+}
+
+export type STTProviderName = 'google' | 'scripted';
+export type TTSProviderName = 'google' | 'tone' | 'silence';
+export type LLMProviderName = 'gemini' | 'rules';
+
+// ─── Factory ──────────────────────────────────────────────────
+
+/**
+ * Read a transcript script: one caller utterance per line.
+ * Blank lines and `#` comments are ignored.
+ */
+export function loadTranscriptScript(path: string): string[] {
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+/**
+ * Create the providers selected in config.
+ * `script` overrides VOICE_STT_SCRIPT for the scripted recognizer.
+ * Providers given in `overrides` are used as-is and the configured ones
+ * are never constructed, so injecting all three needs no credentials.
+ */
+export function createVoiceProviders(options: {
+  languageCode: string;
+  /** Languages STT may auto-detect besides `languageCode` */
+  alternativeLanguageCodes?: string[];
+  script?: string[];
+  overrides?: Partial<VoiceProviders>;
+}): VoiceProviders {
+  const { overrides = {} } = options;
+  return {
+    stt: overrides.stt ?? createRecognizer(options),
+    tts: overrides.tts ?? createSynthesizer(options.languageCode),
+    screener: overrides.screener ?? createScreener(),
+  };
+}
+
+function createRecognizer(options: {
+  languageCode: string;
+  alternativeLanguageCodes?: string[];
+  script?: string[];
+}): SpeechRecognizer {
+  const { languageCode, alternativeLanguageCodes } = options;
+  switch (voiceAIConfig.sttProvider) {
+    case 'scripted': {
+      const script = options.script
+        ?? (voiceAIConfig.sttScriptPath ? loadTranscriptScript(voiceAIConfig.sttScriptPath) : []);
+      return new ScriptedSpeechToText(script);
+    }
+    default:
+      return new SpeechToText({ languageCode, alternativeLanguageCodes });
+  }
+}
+
+function createSynthesizer(languageCode: string): SpeechSynthesizer {
+  switch (voiceAIConfig.ttsProvider) {
+    case 'tone':
+    case 'silence':
+      return new LocalTextToSpeech({ mode: voiceAIConfig.ttsProvider });
+    default:
+      return new TextToSpeech({ languageCode });
+  }
+}
+
+function createScreener(): ScreeningModel {
+  switch (voiceAIConfig.llmProvider) {
+    case 'rules':
+      return new RuleBasedScreener();
+    default:
+      return new GeminiChat();
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Rule-Based Screener (offline stand-in for GeminiChat)
+ *
+ * A deterministic keyword screener that follows the same decision logic
+ * as the Gemini SYSTEM_PROMPT:
+ *   - SELLING / UNSOLICITED signals      → BLOCK
+ *   - SEEKING / SENT / EXISTING signals  → RECORD
+ *   - Unclear after MAX_UNCLEAR_TURNS    → BLOCK
+ *
+ * Good enough to drive the full call flow in CI without Vertex AI.
+ */
+
+import { describeCaller, mergeCallerDetails, type CallDecision, type CallerDetails, type GeminiResponse } from './gemini';
+import { definePolicy, type ScreeningPolicy } from './policy';
+
+interface Rule {
+  id: string;
+  decision: CallDecision;
+  label: string;
+  patterns: RegExp[];
+}
+
+/** Checked in order — BLOCK rules first, matching the prompt's priority */
+const RULES: Rule[] = [
+  {
+    id: 'block.instant',
+    decision: 'BLOCK',
+    label: 'postcard/mailer or investment pitch',
+    patterns: [/post ?card/i, /mailer/i, /invest/i, /stock/i, /crypto/i, /bitcoin/i],
+  },
+  {
+    id: 'block.selling',
+    decision: 'BLOCK',
+    label: 'selling or proposing something',
+    patterns: [
+      /\bproposal\b/i, /\boffer\b/i, /save (you )?money/i, /increase (your )?sales/i,
+      /tell you about/i, /opportunity/i, /calling about your (listing|account|business)/i,
+      /special (deal|promotion)/i, /limited time/i,
+    ],
+  },
+  {
+    id: 'block.unsolicited',
+    decision: 'BLOCK',
+    label: 'unsolicited contact',
+    patterns: [/found you on/i, /came across my desk/i, /on a list/i],
+  },
+  {
+    id: 'record.seeking',
+    decision: 'RECORD',
+    label: 'returning a call or seeking information',
+    patterns: [
+      /return(ing)? (a|your) call/i, /you called me/i, /someone called me/i,
+      /referred by/i, /need to (confirm|check|ask)/i, /is \w+ available/i,
+    ],
+  },
+  {
+    id: 'record.sent',
+    decision: 'RECORD',
+    label: 'already sent something',
+    patterns: [
+      /\bsent (a|an|the|you)\b/i, /\b(quote|estimate|invoice|bill)\b/i,
+      /\b(mailed|shipped)\b/i, /please (notify|tell|let)/i,
+    ],
+  },
+  {
+    id: 'record.existing',
+    decision: 'RECORD',
+    label: 'existing relationship',
+    patterns: [/we discussed/i, /\bour (order|project|meeting|appointment)\b/i, /following up/i],
+  },
+];
+
+const MAX_UNCLEAR_TURNS = 3;
+
+/** Self-introductions: "my name is Alex", "calling from Acme Corp" */
+const NAME_PATTERN = /\b(?:[Mm]y name is|[Tt]his is|I am|I'm)\s+([A-Z][a-z]+(?:\s[A-Z][a-z]+)?)/;
+const ORGANIZATION_PATTERN = /\b(?:[Cc]alling from|with|from)\s+((?:[A-Z][\w&.-]*\s?)+)/;
+
+const REPLIES = {
+  ask: 'May I ask what this is regarding?',
+  askAgain: 'Could you tell me a bit more about the purpose of your call?',
+  block: "We're not interested at this time. Goodbye.",
+  record: "Thank you, I'll pass that along. Goodbye.",
+};
+
+/**
+ * Built-in policy: canonical description of the rule table (hashed as systemPromptHash).
+ * The rules are compiled in, so this screener cannot switch policies.
+ */
+export const RULES_POLICY = definePolicy({
+  name: 'vericall-rules',
+  version: 1,
+  prompt: [
+    'VeriCall rule-based screener',
+    ...RULES.map((r) => `${r.id} [${r.decision}] ${r.label}: ${r.patterns.map((p) => p.source).join(' | ')}`),
+    `default [BLOCK] unclear after ${MAX_UNCLEAR_TURNS} turns`,
+  ].join('\n'),
+  source: 'builtin',
+  description: 'Deterministic keyword rules (offline screener)',
+});
+
+/** More matching patterns = more certain: 0.7 for one, up to 0.95 */
+function ruleConfidence(rule: Rule, message: string): number {
+  const hits = rule.patterns.filter((p) => p.test(message)).length;
+  return Math.min(0.95, 0.6 + 0.1 * hits);
+}
+
+export class RuleBasedScreener {
+  private conversationHistory: Array<{ role: string; content: string }> = [];
+  private unclearTurns = 0;
+  private matched: Rule | null = null;
+  private callerDetails: CallerDetails = {};
+
+  addInitialGreeting(greeting: string): void {
+    this.conversationHistory.push({ role: 'assistant', content: greeting });
+  }
+
+  getPolicy(): ScreeningPolicy {
+    return RULES_POLICY;
+  }
+
+  async chat(userMessage: string): Promise<GeminiResponse> {
+    this.conversationHistory.push({ role: 'user', content: userMessage });
+
+    const rule = RULES.find((r) => r.patterns.some((p) => p.test(userMessage)));
+    let text: string;
+    let decision: CallDecision | null = null;
+
+    this.callerDetails = mergeCallerDetails(this.callerDetails, {
+      name: NAME_PATTERN.exec(userMessage)?.[1],
+      organization: ORGANIZATION_PATTERN.exec(userMessage)?.[1]?.trim(),
+      purpose: rule?.label,
+    });
+
+    if (rule) {
+      this.matched = rule;
+      decision = rule.decision;
+      text = rule.decision === 'BLOCK' ? REPLIES.block : REPLIES.record;
+    } else if (++this.unclearTurns >= MAX_UNCLEAR_TURNS) {
+      decision = 'BLOCK';
+      text = REPLIES.block;
+    } else {
+      text = this.unclearTurns === 1 ? REPLIES.ask : REPLIES.askAgain;
+    }
+
+    console.log(`[Rules] "${userMessage}" → ${decision ?? 'continue'}${rule ? ` (${rule.id})` : ''}`);
+    this.conversationHistory.push({ role: 'assistant', content: text });
+
+    return {
+      text,
+      decision,
+      confidence: decision ? (rule ? ruleConfidence(rule, userMessage) : 0.5) : 0,
+      matchedRules: rule ? [rule.id] : [],
+      caller: this.callerDetails,
+    };
+  }
+
+  getTranscript(): string {
+    return this.conversationHistory
+      .map((m) => `${m.role === 'user' ? 'Caller' : 'AI'}: ${m.content}`)
+      .join('\n');
+  }
+
+  getConversationEntries(): Array<{ role: 'Caller' | 'AI'; content: string }> {
+    return this.conversationHistory.map((m) => ({
+      role: m.role === 'user' ? 'Caller' as const : 'AI' as const,
+      content: m.content,
+    }));
+  }
+
+  async generateSummary(decision: CallDecision): Promise<string> {
+    const callerSaid = this.conversationHistory
+      .filter((m) => m.role === 'user')
+      .map((m) => m.content)
+      .join(' ')
+      .split(/\s+/)
+      .slice(0, 20)
+      .join(' ');
+
+    const why = this.matched
+      ? `matched rule ${this.matched.id} (${this.matched.label})`
+      : `no clear purpose after ${MAX_UNCLEAR_TURNS} exchanges`;
+    const caller = describeCaller(this.callerDetails);
+    const said = caller ? `Caller: ${caller}` : `Caller said: "${callerSaid}"`;
+
+    return decision === 'BLOCK'
+      ? `Blocked: ${why}. ${said}`
+      : `Message taken: ${why}. ${said}`;
+  }
+
+  reset(): void {
+    this.conversationHistory = [];
+    this.unclearTurns = 0;
+    this.matched = null;
+    this.callerDetails = {};
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Scripted Speech-to-Text (offline stand-in)
+ *
+ * Instead of recognizing speech, emits the next line of a fixed script
+ * each time the caller finishes an utterance. Utterance boundaries come
+ * from a simple energy VAD: a run of audio above the speech threshold
+ * followed by END_SILENCE_MS of quiet. Deterministic for a given input,
+ * and needs no credentials or network.
+ *
+ * A line may start with a language tag (`[ja-JP] オレだよ`), reported as
+ * the detected language the way Google STT does with alternative languages.
+ */
+
+import type { STTResultCallback } from './speech-to-text';
+
+const LANGUAGE_TAG = /^\[([a-z]{2,3}(?:-[a-z0-9]+)*)\]\s*/i;
+
+export interface ScriptedSTTConfig {
+  sampleRate?: number;
+  /** RMS amplitude (Linear16) above which a frame counts as speech */
+  speechThreshold?: number;
+  /** Silence after speech that ends an utterance */
+  endSilenceMs?: number;
+}
+
+export class ScriptedSpeechToText {
+  private script: string[];
+  private config: Required<ScriptedSTTConfig>;
+  private resultCallback: STTResultCallback | null = null;
+  private nextIndex = 0;
+  private inSpeech = false;
+  private silenceMs = 0;
+  private isStreamActive = true;
+
+  constructor(script: string[], config: ScriptedSTTConfig = {}) {
+    this.script = script;
+    this.config = {
+      sampleRate: config.sampleRate || 8000,
+      speechThreshold: config.speechThreshold || 500,
+      endSilenceMs: config.endSilenceMs || 600,
+    };
+    console.log(`[STT:scripted] Loaded ${script.length} scripted utterance(s)`);
+  }
+
+  /**
+   * Write audio data (Linear16 PCM) — only its energy is inspected
+   */
+  writeAudio(audioData: Buffer): void {
+    if (!this.isStreamActive || audioData.length < 2) return;
+
+    const samples = audioData.length / 2;
+    let sumSquares = 0;
+    for (let i = 0; i < samples; i++) {
+      const s = audioData.readInt16LE(i * 2);
+      sumSquares += s * s;
+    }
+    const rms = Math.sqrt(sumSquares / samples);
+    const frameMs = (samples / this.config.sampleRate) * 1000;
+
+    if (rms >= this.config.speechThreshold) {
+      this.inSpeech = true;
+      this.silenceMs = 0;
+      return;
+    }
+
+    if (this.inSpeech) {
+      this.silenceMs += frameMs;
+      if (this.silenceMs >= this.config.endSilenceMs) {
+        this.inSpeech = false;
+        this.silenceMs = 0;
+        this.emitNext();
+      }
+    }
+  }
+
+  private emitNext(): void {
+    const line = this.script[this.nextIndex];
+    if (line === undefined) {
+      console.log('[STT:scripted] Script exhausted, ignoring utterance');
+      return;
+    }
+    this.nextIndex++;
+    const languageCode = LANGUAGE_TAG.exec(line)?.[1];
+    const transcript = line.replace(LANGUAGE_TAG, '');
+    console.log(`[STT:scripted] Received: "${transcript}" (final: true${languageCode ? `, lang: ${languageCode}` : ''})`);
+    this.resultCallback?.(transcript, true, languageCode);
+  }
+
+  /**
+   * Register callback for transcription results
+   */
+  onResult(callback: STTResultCallback): void {
+    this.resultCallback = callback;
+  }
+
+  stop(): void {
+    this.isStreamActive = false;
+  }
+
+  isActive(): boolean {
+    return this.isStreamActive;
+  }
+}
@@ -4,19 +4,40 @@
  */
 
 import { WebSocket } from 'ws';
-import { SpeechToText } from './speech-to-text';
-import { TextToSpeech } from './text-to-speech';
-import { GeminiChat, CallDecision } from './gemini';
+import { CallDecision } from './gemini';
+import {
+  createVoiceProviders,
+  type SpeechRecognizer,
+  type SpeechSynthesizer,
+  type ScreeningModel,
+  type ScreeningResponse,
+  type VoiceProviders,
+} from './providers';
 import { mulawToLinear16 } from './audio-utils';
+import { resolvePolicyForCall } from './policy-registry';
+import { formatPolicyRef } from './policy';
+import { countWords, getLanguageProfile, isFillerUtterance, type LanguageProfile } from './languages';
 import { sendVoiceAINotification } from './email-notify';
+import { transferCall } from './call-transfer';
+import { CallAudioRecorder, type ArchivedCallAudio } from './audio-archive';
 import { createWitness, hashPhoneNumber } from '@/lib/witness/pipeline';
-import { storeDecisionForProof } from '@/lib/witness/decision-store';
+import { rekeyDecisionCallerHash, storeDecisionForProof } from '@/lib/witness/decision-store';
 import { demoBus } from '@/lib/demo/event-bus';
+import { getTenantForNumber, type Tenant } from '@/lib/tenants';
+import { audioArchiveConfig } from '@/lib/config';
+import { describeReputation, lookupCallerReputation, recordCallerOutcome } from '@/lib/reputation';
+import { maskPhone } from '@/lib/caller-hash';
 
 export interface SessionConfig {
   callSid: string;
   from: string;
+  /** Called number — selects the tenant (languages, notifications, screening policy) */
+  to?: string;
   streamSid?: string;
+  /** Override the config-selected STT/TTS/LLM providers (tests, simulator) */
+  providers?: Partial<VoiceProviders>;
+  /** Caller utterances for the scripted STT provider (simulator) */
+  script?: string[];
 }
 
 export interface TwilioMediaMessage {
@@ -42,15 +63,20 @@ export interface TwilioMediaMessage {
 export class VoiceAISession {
   private ws: WebSocket;
   private config: SessionConfig;
-  private stt: SpeechToText;
-  private tts: TextToSpeech;
-  private gemini: GeminiChat;
+  private tenant: Tenant;
+  private language: LanguageProfile;  // Follows the caller when STT detects another language
+  private stt: SpeechRecognizer;
+  private tts: SpeechSynthesizer;
+  private gemini: ScreeningModel;
+  private recorder: CallAudioRecorder | null;  // Caller + AI audio, sealed at the decision
   private streamSid: string | null = null;
   private isProcessing = false;
   private pendingAudio: Buffer[] = [];
   private silenceTimeout: NodeJS.Timeout | null = null;
   private decision: CallDecision | null = null;
+  private decisionResponse: ScreeningResponse | null = null;  // The turn that decided (confidence, rules, caller)
   private hasGreeted = false;
+  private isCleanedUp = false;
   private audioChunkCount = 0;
   private isSpeaking = false;  // True while AI is speaking
   private pendingTranscripts: string[] = [];  // Queue for transcripts while processing
@@ -61,6 +87,7 @@ export class VoiceAISession {
   private markQueue: string[] = [];  // Track pending marks (max 10)
   private readonly MAX_MARK_QUEUE = 10;
   private shouldEndAfterSpeaking = false;  // Flag to end call after AI finishes speaking
+  private shouldTransferAfterSpeaking = false;  // ACCEPT: put the call through once the AI stops speaking
   
   // Short utterance buffering - wait briefly for more speech before sending to AI
   private utteranceBuffer = '';
@@ -78,9 +105,18 @@ export class VoiceAISession {
   constructor(ws: WebSocket, config: SessionConfig) {
     this.ws = ws;
     this.config = config;
-    this.stt = new SpeechToText({ languageCode: 'en-US' });
-    this.tts = new TextToSpeech({ languageCode: 'en-US' });
-    this.gemini = new GeminiChat();
+    this.tenant = getTenantForNumber(config.to);
+    this.language = getLanguageProfile(this.tenant.language);
+    const providers = createVoiceProviders({
+      languageCode: this.tenant.language,
+      alternativeLanguageCodes: this.tenant.alternativeLanguages,
+      script: config.script,
+      overrides: config.providers,
+    });
+    this.stt = providers.stt;
+    this.tts = providers.tts;
+    this.gemini = providers.screener;
+    this.recorder = audioArchiveConfig.enabled ? new CallAudioRecorder(config.callSid) : null;
 
     this.setupSTTCallback();
     // Note: STT stream will start automatically when first audio arrives
@@ -102,9 +138,15 @@ export class VoiceAISession {
         case 'start':
           this.streamSid = message.start?.streamSid || null;
           console.log(`[Session ${this.config.callSid}] Stream started: ${this.streamSid}`);
+          await this.applyScreeningPolicy();
+          await this.applyCallerHistory();
+          this.gemini.useLanguage?.(this.language);
           demoBus.emitDemo('call:start', this.config.callSid, {
-            from: this.config.from,
+            from: maskPhone(this.config.from),
             streamSid: this.streamSid,
+            tenant: this.tenant.id,
+            policy: formatPolicyRef(this.gemini.getPolicy()),
+            language: this.language.code,
           });
           // Send initial greeting
           await this.sendGreeting();
@@ -137,8 +179,12 @@ export class VoiceAISession {
             this.responseStartTimestamp = null;
             console.log(`[Session ${this.config.callSid}] [MARK] AI finished speaking`);
             
-            // Check if we should end the call now (after final response played)
-            if (this.shouldEndAfterSpeaking) {
+            // Check if we should end the call now (after final response played),
+            // or for ACCEPT hand it to the owner (Twilio ends the stream)
+            if (this.shouldTransferAfterSpeaking) {
+              this.shouldTransferAfterSpeaking = false;
+              await this.transferToOwner();
+            } else if (this.shouldEndAfterSpeaking) {
               console.log(`[Session ${this.config.callSid}] Ending call after final response`);
               setTimeout(() => this.endCall(), 500);  // Small delay for clean ending
             }
@@ -153,18 +199,46 @@ export class VoiceAISession {
     }
   }
 
-  // Filler words that shouldn't interrupt AI speech
-  private static readonly FILLERS = new Set([
-    'yeah', 'yes', 'yep', 'okay', 'ok', 'uh', 'um', 'uh-huh', 
-    'right', 'sure', 'mhm', 'hmm', 'ah', 'oh', 'i see'
-  ]);
-
   /**
-   * Check if transcript is just a filler/acknowledgment
+   * Check if transcript is just a filler/acknowledgment (in the caller's language)
    */
   private isFiller(transcript: string): boolean {
-    const normalized = transcript.toLowerCase().trim().replace(/[.,!?]/g, '');
-    return VoiceAISession.FILLERS.has(normalized);
+    return isFillerUtterance(transcript, this.language);
+  }
+
+  /**
+   * Follow the caller into the language STT detected (tenant alternativeLanguages).
+   * Voice, fillers and the screening model's reply language switch with it.
+   */
+  private followLanguage(languageCode: string | undefined): void {
+    if (!languageCode) return;
+    const detected = getLanguageProfile(languageCode);
+    if (detected.code === this.language.code) return;
+    console.log(`[Session ${this.config.callSid}] 🌐 Caller language: ${this.language.code} → ${detected.code}`);
+    this.language = detected;
+    this.gemini.useLanguage?.(detected);
+  }
+
+  /**
+   * Switch the screening model to the policy for the called number.
+   * Models with compiled-in rules (usePolicy omitted) keep their own.
+   */
+  private async applyScreeningPolicy(): Promise<void> {
+    if (!this.gemini.usePolicy) return;
+    const policy = await resolvePolicyForCall(this.config.to);
+    this.gemini.usePolicy(policy);
+    console.log(`[Session ${this.config.callSid}] Screening policy: ${formatPolicyRef(policy)} (${policy.hash.slice(0, 12)}…)`);
+  }
+
+  /**
+   * Give the screening model the caller's past decisions as a hint.
+   */
+  private async applyCallerHistory(): Promise<void> {
+    if (!this.gemini.setCallerContext) return;
+    const reputation = await lookupCallerReputation(this.config.from);
+    if (!reputation) return;
+    this.gemini.setCallerContext(describeReputation(reputation));
+    console.log(`[Session ${this.config.callSid}] Caller history: ${reputation.blockCount} BLOCK / ${reputation.recordCount} RECORD`);
   }
 
   /**
@@ -174,7 +248,7 @@ export class VoiceAISession {
     if (this.hasGreeted) return;
     this.hasGreeted = true;
 
-    const greeting = "Hello, this is an automated assistant. May I ask who's calling and the purpose of your call?";
+    const greeting = this.language.phrases.greeting;
     console.log(`[Session ${this.config.callSid}] 🎤 Greeting: "${greeting}"`);
     demoBus.emitDemo('call:greeting', this.config.callSid, {
       text: greeting, role: 'ai',
@@ -205,6 +279,7 @@ export class VoiceAISession {
       console.log(`[Session ${this.config.callSid}] Audio chunk ${this.audioChunkCount + 1}: ${mulawBuffer.length} bytes, ts=${this.latestMediaTimestamp}`);
     }
     this.audioChunkCount++;
+    this.recorder?.appendCaller(mulawBuffer);
 
     // Update last audio time for silence detection
     this.lastAudioTime = Date.now();
@@ -220,12 +295,13 @@ export class VoiceAISession {
    * Setup STT result callback
    */
   private setupSTTCallback(): void {
-    this.stt.onResult(async (transcript, isFinal) => {
+    this.stt.onResult(async (transcript, isFinal, languageCode) => {
       // Log interim results too for debugging
       console.log(`[Session ${this.config.callSid}] STT: "${transcript}" (final: ${isFinal})`);
       
       if (isFinal && transcript.trim()) {
         console.log(`[Session ${this.config.callSid}] Caller said: "${transcript}"`);
+        this.followLanguage(languageCode);
         
         // Check if it's just a filler word
         if (this.isFiller(transcript)) {
@@ -269,7 +345,7 @@ export class VoiceAISession {
         
         // Buffer short utterances to avoid sending fragments to AI
         // Short phrases like "So, uh," or "I have" may be followed by more speech
-        const wordCount = transcript.trim().split(/\s+/).length;
+        const wordCount = countWords(transcript, this.language.code);
         if (wordCount <= VoiceAISession.SHORT_UTTERANCE_WORDS) {
           this.bufferUtterance(transcript);
         } else {
@@ -374,11 +450,16 @@ export class VoiceAISession {
       demoBus.emitDemo('stt:transcript', this.config.callSid, {
         text: transcript, role: 'caller',
       });
-      const response = await this.gemini.chat(transcript);
+      let response = await this.gemini.chat(transcript);
+      if (response.decision === 'ACCEPT' && !this.tenant.forwardTo) {
+        console.warn(`[Session ${this.config.callSid}] ACCEPT but tenant ${this.tenant.id} has no forwardTo — taking a message instead`);
+        response = { ...response, decision: 'RECORD', text: this.language.phrases.recordFallback };
+      }
       console.log(`[Session ${this.config.callSid}] AI response: "${response.text}" (decision: ${response.decision})`);
       demoBus.emitDemo('ai:response', this.config.callSid, {
         text: response.text, role: 'ai',
         decision: response.decision ?? null,
+        confidence: response.confidence,
       });
 
       // Speak the response
@@ -387,9 +468,13 @@ export class VoiceAISession {
       // Check for final decision
       if (response.decision) {
         this.decision = response.decision;
+        this.decisionResponse = response;
         demoBus.emitDemo('ai:decision', this.config.callSid, {
           decision: response.decision,
           reason: response.text,
+          confidence: response.confidence,
+          matchedRules: response.matchedRules,
+          caller: response.caller,
         });
         await this.handleDecision();
       }
@@ -413,7 +498,7 @@ export class VoiceAISession {
 
     try {
       // Convert text to speech (returns base64 μ-law)
-      const audioBase64 = await this.tts.synthesize(text);
+      const audioBase64 = await this.tts.synthesize(text, this.language.code);
 
       // Send audio to Twilio (with readyState check)
       const message = {
@@ -428,6 +513,7 @@ export class VoiceAISession {
         console.warn(`[Session ${this.config.callSid}] Failed to send audio - WebSocket not open`);
         return;
       }
+      this.recorder?.appendAI(Buffer.from(audioBase64, 'base64'));
 
       // Set speaking flag and timestamp AFTER audio is sent (not during TTS synthesis)
       this.isSpeaking = true;
@@ -472,11 +558,15 @@ export class VoiceAISession {
     
     const transcript = this.gemini.getTranscript();
     const entries = this.gemini.getConversationEntries();
+    const { confidence, matchedRules, caller } = this.decisionResponse!;
     
+    // Seal the audio the decision was made on (hashes go into the decision record)
+    const audio = await this.archiveAudio();
+
     // Generate AI-powered summary based on decision type
     const summary = await this.gemini.generateSummary(this.decision!);
 
-    // Send email notification for BOTH RECORD and BLOCK
+    // Send email notification for every decision
     try {
       await sendVoiceAINotification({
         from: this.config.from,
@@ -485,6 +575,10 @@ export class VoiceAISession {
         entries,
         decision: this.decision!,
         summary,
+        confidence,
+        matchedRules,
+        caller,
+        recipients: this.tenant.notifications.email,
       });
       console.log(`[Session ${this.config.callSid}] Email notification sent (${this.decision}) with summary`);
       demoBus.emitDemo('email:sent', this.config.callSid, {
@@ -501,14 +595,39 @@ export class VoiceAISession {
         decision: this.decision!,
         reason: summary,
         transcript,
+        turns: entries,
         callerHashShort: hashPhoneNumber(this.config.from),
         conversationTurns: entries.length,
+        policy: this.gemini.getPolicy(),
+        language: this.language.code,
+        confidence,
+        matchedRules,
+        caller,
+        audioHash: audio?.audioHash,
+        aiAudioHash: audio?.aiAudioHash,
       });
       console.log(`[Session ${this.config.callSid}] 📋 Decision stored in Cloud SQL`);
+      const rekeyed = await rekeyDecisionCallerHash(this.config.from);
+      if (rekeyed > 0) {
+        console.log(`[Session ${this.config.callSid}] 📋 Re-keyed ${rekeyed} earlier decision record(s) to the current caller hash`);
+      }
     } catch (error) {
       console.error(`[Session ${this.config.callSid}] 📋 Decision store failed:`, error);
     }
 
+    // Remember the outcome for this caller's reputation
+    try {
+      await recordCallerOutcome({
+        from: this.config.from,
+        callSid: this.config.callSid,
+        outcome: this.decision!,
+        reason: summary,
+        tenantId: this.tenant.id,
+      });
+    } catch (error) {
+      console.error(`[Session ${this.config.callSid}] 🧾 Reputation update failed:`, error);
+    }
+
     // Create on-chain witness proof (fire-and-forget — never blocks the call)
     try {
       const witnessRecord = await createWitness(this.config.callSid, {
@@ -516,16 +635,66 @@ export class VoiceAISession {
         timestamp: new Date().toISOString(),
         action: this.decision!,
         reason: summary,
-        confidence: 0.9,
+        confidence,
       });
       console.log(`[Session ${this.config.callSid}] ⛓️ Witness created: ${witnessRecord.id}`);
     } catch (error) {
       console.error(`[Session ${this.config.callSid}] ⛓️ Witness creation failed:`, error);
     }
 
-    // Set flag to end call after AI finishes speaking (not immediately)
-    this.shouldEndAfterSpeaking = true;
-    console.log(`[Session ${this.config.callSid}] Will end call after AI finishes speaking`);
+    // End (or, for ACCEPT, transfer) the call after AI finishes speaking (not immediately)
+    if (this.decision === 'ACCEPT') {
+      this.shouldTransferAfterSpeaking = true;
+      console.log(`[Session ${this.config.callSid}] Will transfer to the owner after AI finishes speaking`);
+    } else {
+      this.shouldEndAfterSpeaking = true;
+      console.log(`[Session ${this.config.callSid}] Will end call after AI finishes speaking`);
+    }
+
+    // The final response may have finished playing while the above ran —
+    // no mark is left to trigger the hang-up / transfer then
+    if (!this.isSpeaking && this.markQueue.length === 0) {
+      if (this.shouldTransferAfterSpeaking) {
+        this.shouldTransferAfterSpeaking = false;
+        await this.transferToOwner();
+      } else {
+        setTimeout(() => this.endCall(), 500);
+      }
+    }
+  }
+
+  /**
+   * Write the call audio so far to the archive. Never fails the decision —
+   * without an archive the record simply has no audio hashes.
+   */
+  private async archiveAudio(): Promise<ArchivedCallAudio | undefined> {
+    if (!this.recorder) return undefined;
+    try {
+      const audio = await this.recorder.seal();
+      console.log(`[Session ${this.config.callSid}] 🎙️ Audio archived: caller ${audio.callerBytes}B (${audio.audioHash.slice(0, 12)}…), AI ${audio.aiBytes}B`);
+      return audio;
+    } catch (error) {
+      console.error(`[Session ${this.config.callSid}] 🎙️ Audio archive failed:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * ACCEPT: redirect the live call to /phone/transfer (<Dial> to the tenant's forwardTo).
+   * If Twilio refuses, apologise and hang up — the decision is already recorded.
+   */
+  private async transferToOwner(): Promise<void> {
+    try {
+      await transferCall(this.config.callSid);
+      console.log(`[Session ${this.config.callSid}] 📲 Transferring to ${this.tenant.forwardTo}`);
+      demoBus.emitDemo('call:transfer', this.config.callSid, {
+        whisper: this.tenant.whisper,
+      });
+    } catch (error) {
+      console.error(`[Session ${this.config.callSid}] 📲 Transfer failed:`, error);
+      this.shouldEndAfterSpeaking = true;
+      await this.speak(this.language.phrases.technicalIssue);
+    }
   }
 
   /**
@@ -573,7 +742,7 @@ export class VoiceAISession {
     this.silenceTimeout = setTimeout(async () => {
       // If we haven't heard anything in a while, prompt
       if (!this.isProcessing && !this.decision) {
-        await this.speak("I'm sorry, I didn't catch that. Could you please repeat?");
+        await this.speak(this.language.phrases.repeat);
       }
     }, this.SILENCE_THRESHOLD_MS * 2);
   }
@@ -591,6 +760,8 @@ export class VoiceAISession {
    * Clean up resources
    */
   async cleanup(): Promise<void> {
+    if (this.isCleanedUp) return;
+    this.isCleanedUp = true;
     if (this.silenceTimeout) {
       clearTimeout(this.silenceTimeout);
     }
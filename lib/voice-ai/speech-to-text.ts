@@ -9,16 +9,22 @@
 
 import { SpeechClient } from '@google-cloud/speech';
 import type { google } from '@google-cloud/speech/build/protos/protos';
+import { getLanguageProfile, MAX_ALTERNATIVE_LANGUAGES } from './languages';
 
 type StreamingRecognizeResponse = google.cloud.speech.v1.IStreamingRecognizeResponse;
 
 export interface STTConfig {
   sampleRate?: number;
   languageCode?: string;
+  /** Other languages the caller may speak — Google picks the best match per result */
+  alternativeLanguageCodes?: string[];
+  /** Speech-context hints (defaults to the primary language's) */
+  phrases?: string[];
   model?: string;
 }
 
-export type STTResultCallback = (transcript: string, isFinal: boolean) => void;
+/** `languageCode` = language detected for this result, when the recognizer reports one */
+export type STTResultCallback = (transcript: string, isFinal: boolean, languageCode?: string) => void;
 
 export class SpeechToText {
   private client: SpeechClient;
@@ -34,9 +40,14 @@ export class SpeechToText {
 
   constructor(config: STTConfig = {}) {
     this.client = new SpeechClient();
+    const languageCode = config.languageCode || 'en-US';
     this.config = {
       sampleRate: config.sampleRate || 8000,
-      languageCode: config.languageCode || 'en-US',
+      languageCode,
+      alternativeLanguageCodes: (config.alternativeLanguageCodes || [])
+        .filter((code) => code !== languageCode)
+        .slice(0, MAX_ALTERNATIVE_LANGUAGES),
+      phrases: config.phrases || getLanguageProfile(languageCode).sttPhrases,
       model: config.model || 'phone_call',
     };
   }
@@ -61,24 +72,15 @@ export class SpeechToText {
         encoding: 'LINEAR16' as const,
         sampleRateHertz: this.config.sampleRate,
         languageCode: this.config.languageCode,
+        ...(this.config.alternativeLanguageCodes!.length > 0 && {
+          alternativeLanguageCodes: this.config.alternativeLanguageCodes,
+        }),
         model: this.config.model,
         enableAutomaticPunctuation: true,
         useEnhanced: true,
         // Speech contexts to help recognize common phone patterns
         speechContexts: [{
-          phrases: [
-            // Name introduction patterns
-            'my name is',
-            'this is',
-            'I am',
-            'speaking',
-            'calling from',
-            // Common follow-up phrases
-            'regarding',
-            'about',
-            'following up',
-            'returning your call',
-          ],
+          phrases: this.config.phrases,
           boost: 15,
         }],
       },
@@ -97,11 +99,12 @@ export class SpeechToText {
 
       const transcript = result.alternatives[0].transcript || '';
       const isFinal = result.isFinal || false;
+      const languageCode = result.languageCode || undefined;
 
-      console.log(`[STT] Received: "${transcript}" (final: ${isFinal})`);
+      console.log(`[STT] Received: "${transcript}" (final: ${isFinal}${languageCode ? `, lang: ${languageCode}` : ''})`);
 
       if (this.resultCallback && transcript) {
-        this.resultCallback(transcript, isFinal);
+        this.resultCallback(transcript, isFinal, languageCode);
       }
     });
 
@@ -0,0 +1,100 @@
+/**
+ * Twilio Media Streams WebSocket handler (`/stream`)
+ *
+ * Extracted from server.ts so the same handler can be mounted by the
+ * custom server and by the call simulator (lib/simulator) in-process.
+ */
+
+import type { IncomingMessage } from 'http';
+import { WebSocket } from 'ws';
+import { createSession, removeSession, getSession } from './session';
+import { maskPhone } from '@/lib/caller-hash';
+
+interface TwilioStartMessage {
+  event: 'start';
+  start: {
+    streamSid: string;
+    callSid: string;
+    customParameters?: Record<string, string>;
+  };
+}
+
+/**
+ * Parse the simulator's scripted transcript parameter (JSON string array).
+ * Only consumed by the scripted STT provider; ignored otherwise.
+ */
+function parseScriptParameter(raw: string | undefined): string[] | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Handle one Twilio Media Stream connection for its whole lifetime.
+ */
+export function handleMediaStreamConnection(ws: WebSocket, _request?: IncomingMessage): void {
+  console.log('[WebSocket] New connection');
+
+  let callSid: string | null = null;
+
+  ws.on('message', async (data: Buffer) => {
+    try {
+      const message = JSON.parse(data.toString());
+
+      // Debug: Log all events
+      if (message.event !== 'media') {
+        console.log(`[WebSocket] Event: ${message.event}`);
+      }
+
+      // Handle start event to get call info
+      if (message.event === 'start') {
+        const startMsg = message as TwilioStartMessage;
+        callSid = startMsg.start.callSid;
+        const params = startMsg.start.customParameters || {};
+        const from = params.From || 'Unknown';
+
+        console.log(`[WebSocket] Call started: ${callSid} from ${maskPhone(from)}`);
+
+        const session = createSession(ws, {
+          callSid,
+          from,
+          to: params.To || undefined,
+          streamSid: startMsg.start.streamSid,
+          script: parseScriptParameter(params.SimulatorScript),
+        });
+
+        // Forward message to session
+        await session.handleMessage(data.toString());
+      } else if (callSid) {
+        // Forward all other messages to the session
+        const session = getSession(callSid);
+        if (session) {
+          await session.handleMessage(data.toString());
+        } else {
+          console.log(`[WebSocket] No session for callSid: ${callSid}`);
+        }
+      } else {
+        console.log(`[WebSocket] No callSid set for event: ${message.event}`);
+      }
+    } catch (error) {
+      console.error('[WebSocket] Error processing message:', error);
+    }
+  });
+
+  ws.on('close', () => {
+    console.log(`[WebSocket] Connection closed: ${callSid}`);
+    if (callSid) {
+      // The session may hang up itself (no Twilio `stop`), so clean up here too
+      getSession(callSid)?.cleanup().catch(() => { /* already logged */ });
+      removeSession(callSid);
+    }
+  });
+
+  ws.on('error', (error) => {
+    console.error(`[WebSocket] Error: ${error.message}`);
+  });
+}
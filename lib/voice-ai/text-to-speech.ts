@@ -5,6 +5,7 @@
 
 import { TextToSpeechClient } from '@google-cloud/text-to-speech';
 import type { google } from '@google-cloud/text-to-speech/build/protos/protos';
+import { getLanguageProfile } from './languages';
 
 export interface TTSConfig {
   languageCode?: string;
@@ -20,7 +21,7 @@ export class TextToSpeech {
     this.client = new TextToSpeechClient();
     this.config = {
       languageCode: config.languageCode || 'en-US',
-      voiceName: config.voiceName || 'en-US-Wavenet-F', // Female voice
+      voiceName: config.voiceName || getLanguageProfile(config.languageCode).ttsVoice, // Female voice
       speakingRate: config.speakingRate || 1.0,
     };
   }
@@ -29,15 +30,19 @@ export class TextToSpeech {
    * Synthesize text to speech
    * Returns audio in μ-law format ready for Twilio
    * @param text - Text to synthesize
+   * @param languageCode - Speak in another language than configured (voice from its profile)
    * @returns Base64 encoded μ-law audio
    */
-  async synthesize(text: string): Promise<string> {
+  async synthesize(text: string, languageCode?: string): Promise<string> {
+    let voice = { languageCode: this.config.languageCode, name: this.config.voiceName };
+    if (languageCode && languageCode.toLowerCase() !== this.config.languageCode!.toLowerCase()) {
+      const profile = getLanguageProfile(languageCode);
+      voice = { languageCode: profile.code, name: profile.ttsVoice };
+    }
+
     const request: google.cloud.texttospeech.v1.ISynthesizeSpeechRequest = {
       input: { text },
-      voice: {
-        languageCode: this.config.languageCode,
-        name: this.config.voiceName,
-      },
+      voice,
       audioConfig: {
         audioEncoding: 'MULAW' as const,
         sampleRateHertz: 8000, // Twilio expects 8kHz
@@ -4,9 +4,13 @@
  * V2: 0x656ae703ca94cc4247493dec6f9af9c6f974ba82 (Base Sepolia) — Phase 2 (MockVerifier + verify)
  * V3: 0x4395cf02b8d343aae958bda7ac6ed71fbd4abd48 (Base Sepolia) — Phase 3 (journal-bound decision integrity, 9-field journal)
  * V4: 0x9a6015c6a0f13a816174995137e8a57a71250b81 (Base Sepolia) — Phase 4 (source code attestation, 10-field journal)
+ * V5: scripts/deploy-v5.ts — Phase 5 (Merkle-batched anchoring + amendments, 11-field journal with provenAudioHash)
  */
 
-// ─── V4 ABI (Active) ──────────────────────────────────────────
+// ─── V5 ABI (Active; V4 calls work unchanged except getProvenData) ─
+//
+// getProvenData() returns 11 values on V5 and 10 on V4 — readers decode
+// getRecord().journalDataAbi with lib/verification decodeJournal() instead.
 
 export const VERICALL_REGISTRY_ABI = [
   {
@@ -71,6 +75,7 @@ export const VERICALL_REGISTRY_ABI = [
       { name: 'provenSystemPromptHash', type: 'string' },
       { name: 'provenTranscriptHash', type: 'string' },
       { name: 'provenSourceCodeCommit', type: 'string' },
+      { name: 'provenAudioHash', type: 'string' },
     ],
     stateMutability: 'view',
   },
@@ -173,6 +178,164 @@ export const VERICALL_REGISTRY_ABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  // ── Batch anchoring (V5) ──
+  {
+    type: 'function',
+    name: 'anchorBatch',
+    inputs: [
+      { name: 'root', type: 'bytes32' },
+      { name: 'size', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'batches',
+    inputs: [{ name: '', type: 'bytes32' }],
+    outputs: [
+      { name: 'size', type: 'uint256' },
+      { name: 'timestamp', type: 'uint256' },
+      { name: 'submitter', type: 'address' },
+      { name: 'imageId', type: 'bytes32' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'batchRoots',
+    inputs: [{ name: '', type: 'uint256' }],
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getTotalBatches',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'totalBatchedCalls',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'batchLeaf',
+    inputs: [
+      { name: 'callId', type: 'bytes32' },
+      { name: 'decision', type: 'uint8' },
+      { name: 'journalDataAbi', type: 'bytes' },
+      { name: 'zkProofSeal', type: 'bytes' },
+    ],
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'function',
+    name: 'verifyInclusion',
+    inputs: [
+      { name: 'root', type: 'bytes32' },
+      { name: 'leaf', type: 'bytes32' },
+      { name: 'proof', type: 'bytes32[]' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'function',
+    name: 'verifyBatchedDecision',
+    inputs: [
+      { name: 'root', type: 'bytes32' },
+      { name: 'callId', type: 'bytes32' },
+      { name: 'decision', type: 'uint8' },
+      { name: 'zkProofSeal', type: 'bytes' },
+      { name: 'journalDataAbi', type: 'bytes' },
+      { name: 'proof', type: 'bytes32[]' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'amendDecision',
+    inputs: [
+      { name: 'callId', type: 'bytes32' },
+      { name: 'kind', type: 'uint8' },
+      { name: 'correctedDecision', type: 'uint8' },
+      { name: 'reason', type: 'string' },
+      { name: 'filedBy', type: 'string' },
+    ],
+    outputs: [{ name: 'index', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'amendBatchedDecision',
+    inputs: [
+      { name: 'root', type: 'bytes32' },
+      { name: 'callId', type: 'bytes32' },
+      { name: 'decision', type: 'uint8' },
+      { name: 'zkProofSeal', type: 'bytes' },
+      { name: 'journalDataAbi', type: 'bytes' },
+      { name: 'proof', type: 'bytes32[]' },
+      { name: 'kind', type: 'uint8' },
+      { name: 'correctedDecision', type: 'uint8' },
+      { name: 'reason', type: 'string' },
+      { name: 'filedBy', type: 'string' },
+    ],
+    outputs: [{ name: 'index', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'getAmendments',
+    inputs: [{ name: 'callId', type: 'bytes32' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple[]',
+        components: [
+          { name: 'kind', type: 'uint8' },
+          { name: 'correctedDecision', type: 'uint8' },
+          { name: 'reason', type: 'string' },
+          { name: 'filedBy', type: 'string' },
+          { name: 'timestamp', type: 'uint256' },
+          { name: 'submitter', type: 'address' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getAmendmentCount',
+    inputs: [{ name: 'callId', type: 'bytes32' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'totalAmendments',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'event',
+    name: 'BatchAnchored',
+    inputs: [
+      { name: 'root', type: 'bytes32', indexed: true },
+      { name: 'size', type: 'uint256', indexed: false },
+      { name: 'imageId', type: 'bytes32', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+      { name: 'submitter', type: 'address', indexed: false },
+    ],
+    anonymous: false,
+  },
   {
     type: 'event',
     name: 'CallDecisionRecorded',
@@ -194,6 +357,20 @@ export const VERICALL_REGISTRY_ABI = [
     ],
     anonymous: false,
   },
+  {
+    type: 'event',
+    name: 'DecisionAmended',
+    inputs: [
+      { name: 'callId', type: 'bytes32', indexed: true },
+      { name: 'index', type: 'uint256', indexed: false },
+      { name: 'kind', type: 'uint8', indexed: false },
+      { name: 'correctedDecision', type: 'uint8', indexed: false },
+      { name: 'filedBy', type: 'string', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+      { name: 'submitter', type: 'address', indexed: false },
+    ],
+    anonymous: false,
+  },
   {
     type: 'event',
     name: 'ImageIdUpdated',
@@ -213,6 +390,10 @@ export const VERICALL_REGISTRY_ABI = [
   { type: 'error', name: 'DecisionMismatch', inputs: [] },
   { type: 'error', name: 'ReasonMismatch', inputs: [] },
   { type: 'error', name: 'ZKProofVerificationFailed', inputs: [] },
+  { type: 'error', name: 'BatchAlreadyAnchored', inputs: [] },
+  { type: 'error', name: 'EmptyBatch', inputs: [] },
+  { type: 'error', name: 'RecordNotFound', inputs: [] },
+  { type: 'error', name: 'EmptyAmendmentReason', inputs: [] },
 ] as const;
 
 // ─── MockVerifier ABI ──────────────────────────────────────────
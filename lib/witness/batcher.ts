@@ -0,0 +1,152 @@
+/**
+ * Witness Batcher — Merkle-batched on-chain anchoring
+ *
+ * With WITNESS_BATCH_ENABLED, the pipeline stops after the ZK proof and
+ * queues the call's leaf (merkle.ts) instead of sending one
+ * registerCallDecision() TX per call. A batch is cut when
+ * WITNESS_BATCH_MAX_SIZE leaves are queued, or when the oldest one has
+ * waited WITNESS_BATCH_MAX_WAIT_MS; its root goes on-chain with a single
+ * anchorBatch() TX (VeriCallRegistryV5) and every call in it gets an
+ * inclusion proof (GET /witness/verify/[id]).
+ *
+ * The size trigger runs right after a leaf is queued; the time trigger and
+ * the recovery of batches a dead instance left behind run on the witness
+ * worker's sweep (worker.ts).
+ */
+
+import { chainConfig, witnessBatchConfig, witnessConfig } from '@/lib/config';
+import { explorerTxUrl } from '@/lib/chains';
+import {
+  WitnessBatch,
+  claimStaleBatches,
+  completeBatch,
+  createBatch,
+  deleteBatch,
+  getBatchJobs,
+  getBatchQueueStats,
+  recordBatchFailure,
+  recordBatchTx,
+} from '@/lib/witness/job-store';
+import { buildMerkleTree } from '@/lib/witness/merkle';
+import {
+  findBatchAnchorTx,
+  getAnchoredBatch,
+  sendAnchorBatch,
+  waitForAnchor,
+  type OnChainResult,
+} from '@/lib/witness/on-chain';
+import { withRetry } from '@/lib/witness/retry';
+import { demoBus } from '@/lib/demo/event-bus';
+
+let _flushing = false;
+
+function anchorRetry<T>(tag: string, fn: () => Promise<T>): Promise<T> {
+  return withRetry('on-chain', fn, (attempt, err, delayMs) => {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(`${tag} anchor attempt ${attempt} failed (${message}) — retrying in ${delayMs}ms`);
+  });
+}
+
+/**
+ * Anchor stale batches, then cut and anchor new ones while the queue is
+ * full or its oldest leaf has waited long enough (`force` ignores both).
+ * Returns the number of batches anchored.
+ */
+export async function flushWitnessBatches(options: { force?: boolean } = {}): Promise<number> {
+  if (_flushing) return 0;
+  _flushing = true;
+
+  try {
+    let anchored = 0;
+
+    for (const batch of await claimStaleBatches(witnessConfig.leaseMs)) {
+      console.log(`⛓️ [Batch ${batch.id}] Resuming un-anchored batch (${batch.size} call(s))`);
+      if (await anchorBatch(batch)) anchored++;
+    }
+
+    for (;;) {
+      const { count, oldestAt } = await getBatchQueueStats();
+      if (count === 0) break;
+
+      const waited = oldestAt ? Date.now() - oldestAt.getTime() : 0;
+      const due = options.force
+        || count >= witnessBatchConfig.maxSize
+        || waited >= witnessBatchConfig.maxWaitMs;
+      if (!due) break;
+
+      const id = `bat_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      const batch = await createBatch(id, witnessBatchConfig.maxSize, witnessConfig.leaseMs);
+      if (!batch) break;
+
+      console.log(`⛓️ [Batch ${id}] Cut ${batch.size} call(s) (queued ${count}, oldest waited ${Math.round(waited / 1000)}s)`);
+      if (!(await anchorBatch(batch))) break;
+      anchored++;
+    }
+
+    return anchored;
+  } finally {
+    _flushing = false;
+  }
+}
+
+/**
+ * Build the batch's tree and get its root on-chain (or find it there already).
+ * Failures are recorded on the batch and retried on a later sweep.
+ */
+async function anchorBatch(batch: WitnessBatch): Promise<boolean> {
+  const tag = `⛓️ [Batch ${batch.id}]`;
+
+  const jobs = await getBatchJobs(batch.id);
+  if (jobs.length === 0) {
+    await deleteBatch(batch.id);
+    return false;
+  }
+
+  const tree = buildMerkleTree(jobs.map((job) => job.artifacts.batchLeaf!));
+
+  try {
+    let result: Omit<OnChainResult, 'callId'> | null = null;
+
+    if (batch.txHash && batch.root === tree.root) {
+      result = await anchorRetry(tag, () => waitForAnchor(batch.txHash!));
+    } else if (await getAnchoredBatch(tree.root)) {
+      result = await findBatchAnchorTx(tree.root);
+      if (!result) throw new Error(`Root ${tree.root} is anchored but its TX was not found`);
+    } else {
+      console.log(`${tag} Anchoring root ${tree.root} (${jobs.length} call(s))`);
+      const txHash = await anchorRetry(tag, () => sendAnchorBatch(tree.root, jobs.length));
+      await recordBatchTx(batch.id, tree.root, txHash);
+      result = await anchorRetry(tag, () => waitForAnchor(txHash));
+    }
+
+    await completeBatch(
+      batch.id,
+      tree.root,
+      result,
+      jobs.map((job, i) => ({ jobId: job.id, leafIndex: i, proof: tree.proofs[i] })),
+    );
+
+    console.log(`${tag} ✅ Anchored! TX: ${result.txHash}`);
+    const txUrl = explorerTxUrl(chainConfig.chainId, result.txHash);
+    if (txUrl) console.log(`${tag} 🔗 ${txUrl}`);
+    for (const [i, job] of jobs.entries()) {
+      demoBus.emitDemo('witness:on-chain', job.callSid, {
+        witnessId: job.id,
+        txHash: result.txHash,
+        blockNumber: result.blockNumber,
+        batchRoot: tree.root,
+        leafIndex: i,
+        batchSize: jobs.length,
+      });
+    }
+    return true;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`${tag} Anchoring failed: ${message}`);
+
+    // A stored TX that never landed is dropped, so the next attempt sends a new one
+    const dropTx = !!batch.txHash && !(await getAnchoredBatch(tree.root).catch(() => null));
+    await recordBatchFailure(batch.id, message, dropTx).catch(() => { /* lease expires on its own */ });
+    return false;
+  }
+}
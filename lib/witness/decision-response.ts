@@ -0,0 +1,87 @@
+/**
+ * Decision API Response
+ *
+ * The JSON /api/witness/decision/[callSid] serves: the Web Proof's source,
+ * signed with the server's decision key (decision-signing.ts).
+ *
+ * The witness pipeline keeps a signed copy with its job, since the Decision
+ * API only serves a record for DECISION_API_TTL_MINUTES. That copy is
+ * buildDecisionAttestation(): just the fields the proof attests to, signed
+ * on their own, so the job stores (and /witness/verify serves) nothing more.
+ *
+ * Public and notarized, so nothing personal goes in: caller details and
+ * voicemail are disclosed by the owner via /api/witness/transcript.
+ */
+
+import crypto from 'crypto';
+import { serverConfig } from '@/lib/config';
+import type { DecisionRecord } from './decision-store';
+import { signDecisionResponse } from './decision-signing';
+
+/**
+ * Salted commitment — only this is proven via ZK. Records stored before
+ * salting fall back to the plain SHA-256 they were committed with.
+ */
+function transcriptHashOf(record: DecisionRecord): string {
+  return record.transcriptHash ?? crypto
+    .createHash('sha256')
+    .update(record.transcript)
+    .digest('hex');
+}
+
+export async function buildDecisionResponse(record: DecisionRecord) {
+  const transcriptHash = transcriptHashOf(record);
+
+  // Where verifiers can fetch the exact rules behind systemPromptHash
+  // (localized like the call was, so the served prompt hashes to it)
+  const policyUrl = record.policyName && record.policyVersion
+    ? `${serverConfig.baseUrl}/api/policies/${record.policyName}/${record.policyVersion}`
+      + (record.policyLanguage ? `?language=${record.policyLanguage}` : '')
+    : null;
+
+  // JMESPath extracts: ["decision", "reason", "systemPromptHash", "transcriptHash", "sourceCodeCommit", "audioHash"]
+  return signDecisionResponse({
+    service: 'VeriCall',
+    version: '1.9',
+    callSid: record.callSid,
+    decision: record.decision,
+    reason: record.reason,
+    systemPromptHash: record.systemPromptHash,
+    policyName: record.policyName ?? null,
+    policyVersion: record.policyVersion ?? null,
+    policyUrl,
+    language: record.language ?? null,
+    confidence: record.confidence ?? null,
+    matchedRules: record.matchedRules ?? [],
+    transcriptHash,
+    transcriptScheme: record.transcriptScheme ?? 'sha256',
+    audioHash: record.audioHash ?? '',  // proven in the journal — a string even without an archive
+    aiAudioHash: record.aiAudioHash ?? null,
+    sourceCodeCommit: record.sourceCodeCommit,
+    sourceCodeUrl: `https://github.com/rtree/veriCall/tree/${record.sourceCodeCommit}`,
+    callerHashShort: record.callerHashShort,
+    timestamp: record.timestamp,
+    conversationTurns: record.conversationTurns,
+  });
+}
+
+/**
+ * The attested subset of the response, signed on its own: decision, reason,
+ * the hashes and commit the journal proves, callSid and timestamp. Checked
+ * with the same verifySignedDecision() as a full response.
+ */
+export async function buildDecisionAttestation(record: DecisionRecord) {
+  return signDecisionResponse({
+    service: 'VeriCall',
+    callSid: record.callSid,
+    decision: record.decision,
+    reason: record.reason,
+    systemPromptHash: record.systemPromptHash,
+    transcriptHash: transcriptHashOf(record),
+    transcriptScheme: record.transcriptScheme ?? 'sha256',
+    audioHash: record.audioHash ?? '',
+    aiAudioHash: record.aiAudioHash ?? null,
+    sourceCodeCommit: record.sourceCodeCommit,
+    timestamp: record.timestamp,
+  });
+}
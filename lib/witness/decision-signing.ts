@@ -0,0 +1,112 @@
+/**
+ * Decision Signing Key
+ *
+ * Signs Decision API responses with DECISION_SIGNING_KEY (Ed25519 or
+ * secp256k1). The message format and key IDs are defined once in
+ * lib/verification/signature.ts, which is also what verifiers run.
+ *
+ * The public half of the active key, plus DECISION_SIGNING_RETIRED_KEYS,
+ * is published at /.well-known/vericall-decision-keys.json. Rotating means
+ * moving the old public key to the retired list and setting a new private key.
+ *
+ * Without a usable key, responses go out with `signature: null` — signing
+ * never takes the Decision API (and with it the Web Proof) down.
+ */
+
+import crypto from 'crypto';
+import { privateKeyToAccount } from 'viem/accounts';
+import { decisionSigningConfig } from '@/lib/config';
+import {
+  decisionKeyId,
+  decisionSigningMessage,
+  type DecisionKeySet,
+  type DecisionPublicKey,
+  type DecisionSignature,
+  type DecisionSigningAlgorithm,
+  type Hex,
+} from '@/lib/verification';
+
+interface DecisionSigner {
+  key: DecisionPublicKey;
+  sign(message: string): Promise<Hex>;
+}
+
+/** PKCS#8 header for a raw 32-byte Ed25519 seed */
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+let _signer: DecisionSigner | null | undefined;
+
+function activeKey(algorithm: DecisionSigningAlgorithm, publicKey: Hex): DecisionPublicKey {
+  return { algorithm, keyId: decisionKeyId(publicKey), publicKey, status: 'active' };
+}
+
+function loadEd25519(raw: string): DecisionSigner {
+  const privateKey = raw.includes('-----BEGIN')
+    ? crypto.createPrivateKey(raw.replace(/\\n/g, '\n'))
+    : crypto.createPrivateKey({
+        key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(raw.replace(/^0x/, ''), 'hex')]),
+        format: 'der',
+        type: 'pkcs8',
+      });
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`expected an Ed25519 key, got ${privateKey.asymmetricKeyType}`);
+  }
+  const { x } = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+  return {
+    key: activeKey('ed25519', `0x${Buffer.from(x!, 'base64url').toString('hex')}`),
+    sign: async (message) => `0x${crypto.sign(null, Buffer.from(message), privateKey).toString('hex')}`,
+  };
+}
+
+function loadSecp256k1(raw: string): DecisionSigner {
+  const account = privateKeyToAccount((raw.startsWith('0x') ? raw : `0x${raw}`) as Hex);
+  return {
+    key: activeKey('secp256k1', account.publicKey),
+    sign: (message) => account.signMessage({ message }),
+  };
+}
+
+/** The configured signer, loaded once (null = signing off) */
+function getSigner(): DecisionSigner | null {
+  if (_signer !== undefined) return _signer;
+
+  const { algorithm, privateKey } = decisionSigningConfig;
+  if (!privateKey) {
+    console.warn('⚠️  DECISION_SIGNING_KEY not set — Decision API responses are not signed');
+    return (_signer = null);
+  }
+  try {
+    _signer = algorithm === 'secp256k1' ? loadSecp256k1(privateKey) : loadEd25519(privateKey);
+    console.log(`🔏 [DecisionSigning] Signing with ${algorithm} key ${_signer.key.keyId}`);
+  } catch (err) {
+    console.error(
+      `🔏 [DecisionSigning] DECISION_SIGNING_KEY is not a valid ${algorithm} key — responses are not signed:`,
+      err instanceof Error ? err.message : err,
+    );
+    _signer = null;
+  }
+  return _signer;
+}
+
+/** `response` plus its signature (null when signing is off) */
+export async function signDecisionResponse<T extends Record<string, unknown>>(
+  response: T,
+): Promise<T & { signature: DecisionSignature | null }> {
+  const signer = getSigner();
+  if (!signer) return { ...response, signature: null };
+
+  const value = await signer.sign(decisionSigningMessage(response));
+  return {
+    ...response,
+    signature: { algorithm: signer.key.algorithm, keyId: signer.key.keyId, value },
+  };
+}
+
+/** Active key first, then retired ones */
+export function getDecisionKeySet(): DecisionKeySet {
+  const active = getSigner()?.key;
+  const retired: DecisionPublicKey[] = decisionSigningConfig.retiredKeys
+    .map(({ algorithm, publicKey }) => ({ algorithm, keyId: decisionKeyId(publicKey), publicKey, status: 'retired' as const }))
+    .filter((k) => k.keyId !== active?.keyId);
+  return { keys: active ? [active, ...retired] : retired };
+}
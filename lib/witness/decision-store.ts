@@ -8,27 +8,121 @@
  * vlayer TLSNotary proves via MPC that THIS server returned THIS exact JSON
  * at a specific time — making the decision record tamper-proof after attestation.
  *
+ * The transcript is committed with a per-call salt (transcript-commitment.ts);
+ * the salt and the structured turns stay here for owner-authorized reveals.
+ *
+ * Personal data is purged per retention class (lib/retention.ts) or erased
+ * per caller; the hashes the proof and the chain refer to are never touched.
+ *
  * Auth: IAM (ADC) — no passwords.
  */
 
-import crypto from 'crypto';
 import { query } from '@/lib/db';
-import { GeminiChat } from '@/lib/voice-ai/gemini';
+import { retentionConfig } from '@/lib/config';
+import { DEFAULT_POLICY, type CallDecision, type CallerDetails } from '@/lib/voice-ai/gemini';
+import type { ScreeningPolicy } from '@/lib/voice-ai/policy';
+import { callerHashCandidates } from '@/lib/caller-hash';
+import {
+  commitTranscript,
+  generateTranscriptSalt,
+  TRANSCRIPT_COMMITMENT_SCHEME,
+  type TranscriptTurn,
+} from './transcript-commitment';
 
 // ─── Types ────────────────────────────────────────────────────
 
 export interface DecisionRecord {
   callSid: string;
-  decision: 'BLOCK' | 'RECORD';
+  decision: CallDecision;
   reason: string;
   transcript: string;
+  /** Salted transcript commitment (absent on records stored before salting) */
+  transcriptHash?: string;
+  transcriptScheme?: typeof TRANSCRIPT_COMMITMENT_SCHEME;
   systemPromptHash: string;
+  /** Screening policy used (absent on records stored before the policy registry) */
+  policyName?: string;
+  policyVersion?: number;
+  /** Language section folded into the hashed policy prompt (absent = the policy as published) */
+  policyLanguage?: string;
+  /** BCP-47 language the call was screened in (absent on older records) */
+  language?: string;
+  /** Model confidence in the decision, 0–1 (absent on older records) */
+  confidence?: number;
+  /** Policy rule IDs behind the decision */
+  matchedRules?: string[];
+  /** Name / organization / purpose as the caller stated them (owner reveal only, never served publicly) */
+  caller?: CallerDetails;
+  /** SHA-256 of the archived caller audio (caller.wav) up to the decision */
+  audioHash?: string;
+  /** SHA-256 of the archived AI audio (ai.wav) */
+  aiAudioHash?: string;
+  /** Message left after the screening (e.g. ACCEPT transfer not answered; owner reveal only) */
+  voicemail?: VoicemailRecord;
   sourceCodeCommit: string;
   callerHashShort: string;
   timestamp: string;
   conversationTurns: number;
 }
 
+/** Everything needed to reveal a committed transcript (never served publicly) */
+export interface TranscriptSecret {
+  callSid: string;
+  salt: string;
+  turns: TranscriptTurn[];
+  transcriptHash: string;
+}
+
+/** Voicemail left on a call (Twilio <Record> action + transcribeCallback) */
+export interface VoicemailRecord {
+  recordingSid: string;
+  /** Twilio media URL (fetching it needs the account credentials) */
+  recordingUrl: string;
+  durationSec?: number;
+  /** Twilio transcription — arrives after the recording, may fail */
+  transcript?: string;
+  transcriptionStatus?: string;
+  updatedAt: string;
+}
+
+// ─── Schema ───────────────────────────────────────────────────
+
+const SCHEMA = `
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS policy_name TEXT;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS policy_version INT;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS language TEXT;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS policy_language TEXT;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS confidence REAL;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS matched_rules TEXT[];
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS caller_details JSONB;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS voicemail JSONB;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS audio_hash TEXT;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS ai_audio_hash TEXT;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS transcript_salt TEXT;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS transcript_turns JSONB;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS transcript_hash TEXT;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS transcript_purged_at TIMESTAMPTZ;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS audio_purged_at TIMESTAMPTZ;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS summary_purged_at TIMESTAMPTZ;
+  ALTER TABLE IF EXISTS decision_records ADD COLUMN IF NOT EXISTS erased_at TIMESTAMPTZ;
+  ALTER TABLE IF EXISTS decision_records ALTER COLUMN caller_hash_short DROP NOT NULL;
+`;
+
+let _schemaReady: Promise<void> | null = null;
+
+/** Add the policy / language / structured-output / voicemail / audio / transcript commitment / retention columns to decision_records on first use (idempotent) */
+function ensureSchema(): Promise<void> {
+  if (!_schemaReady) {
+    _schemaReady = query(SCHEMA)
+      .then(() => undefined)
+      .catch((err) => {
+        _schemaReady = null;
+        throw err;
+      });
+  }
+  return _schemaReady;
+}
+
 // ─── Store ────────────────────────────────────────────────────
 
 /**
@@ -37,16 +131,26 @@ export interface DecisionRecord {
  */
 export async function storeDecisionForProof(params: {
   callSid: string;
-  decision: 'BLOCK' | 'RECORD';
+  decision: CallDecision;
   reason: string;
   transcript: string;
+  /** Structured turns the transcript commitment is computed over */
+  turns: TranscriptTurn[];
   callerHashShort: string;
   conversationTurns: number;
+  /** Policy the screening model used (defaults to the built-in vericall-default) */
+  policy?: ScreeningPolicy;
+  /** Language the call was screened in */
+  language?: string;
+  confidence?: number;
+  matchedRules?: string[];
+  caller?: CallerDetails;
+  /** SHA-256 of the archived call audio (lib/voice-ai/audio-archive.ts) */
+  audioHash?: string;
+  aiAudioHash?: string;
 }): Promise<DecisionRecord> {
-  const systemPromptHash = crypto
-    .createHash('sha256')
-    .update(GeminiChat.getSystemPrompt())
-    .digest('hex');
+  const policy = params.policy ?? DEFAULT_POLICY;
+  const systemPromptHash = policy.hash;
 
   // Git commit SHA — injected at build time or read at runtime
   const sourceCodeCommit = process.env.SOURCE_CODE_COMMIT
@@ -55,31 +159,63 @@ export async function storeDecisionForProof(params: {
 
   const now = new Date().toISOString();
 
+  const transcriptSalt = generateTranscriptSalt();
+  const { transcriptHash } = commitTranscript(transcriptSalt, params.turns);
+
+  await ensureSchema();
   await query(
     `INSERT INTO decision_records
-       (call_sid, decision, reason, transcript, system_prompt_hash,
-        source_code_commit, caller_hash_short, conversation_turns, created_at, expires_at)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $9::timestamptz + interval '1 hour')
+       (call_sid, decision, reason, transcript, system_prompt_hash, policy_name, policy_version, language,
+        confidence, matched_rules, caller_details, audio_hash, ai_audio_hash,
+        source_code_commit, caller_hash_short, conversation_turns, created_at, expires_at,
+        transcript_salt, transcript_turns, transcript_hash, policy_language)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17,
+             $17::timestamptz + make_interval(mins => $21), $18, $19, $20, $22)
      ON CONFLICT (call_sid) DO UPDATE SET
        decision = EXCLUDED.decision,
        reason = EXCLUDED.reason,
        transcript = EXCLUDED.transcript,
        system_prompt_hash = EXCLUDED.system_prompt_hash,
+       policy_name = EXCLUDED.policy_name,
+       policy_version = EXCLUDED.policy_version,
+       language = EXCLUDED.language,
+       confidence = EXCLUDED.confidence,
+       matched_rules = EXCLUDED.matched_rules,
+       caller_details = EXCLUDED.caller_details,
+       audio_hash = EXCLUDED.audio_hash,
+       ai_audio_hash = EXCLUDED.ai_audio_hash,
        source_code_commit = EXCLUDED.source_code_commit,
        caller_hash_short = EXCLUDED.caller_hash_short,
        conversation_turns = EXCLUDED.conversation_turns,
        created_at = EXCLUDED.created_at,
-       expires_at = EXCLUDED.expires_at`,
+       expires_at = EXCLUDED.expires_at,
+       transcript_salt = EXCLUDED.transcript_salt,
+       transcript_turns = EXCLUDED.transcript_turns,
+       transcript_hash = EXCLUDED.transcript_hash,
+       policy_language = EXCLUDED.policy_language`,
     [
       params.callSid,
       params.decision,
       params.reason,
       params.transcript,
       systemPromptHash,
+      policy.name,
+      policy.version,
+      params.language ?? null,
+      params.confidence ?? null,
+      params.matchedRules ?? null,
+      params.caller ? JSON.stringify(params.caller) : null,
+      params.audioHash ?? null,
+      params.aiAudioHash ?? null,
       sourceCodeCommit,
       params.callerHashShort,
       params.conversationTurns,
       now,
+      transcriptSalt,
+      JSON.stringify(params.turns),
+      transcriptHash,
+      retentionConfig.decisionApiTtlMinutes,
+      policy.language ?? null,
     ],
   );
 
@@ -88,7 +224,18 @@ export async function storeDecisionForProof(params: {
     decision: params.decision,
     reason: params.reason,
     transcript: params.transcript,
+    transcriptHash,
+    transcriptScheme: TRANSCRIPT_COMMITMENT_SCHEME,
     systemPromptHash,
+    policyName: policy.name,
+    policyVersion: policy.version,
+    policyLanguage: policy.language,
+    language: params.language,
+    confidence: params.confidence,
+    matchedRules: params.matchedRules,
+    caller: params.caller,
+    audioHash: params.audioHash,
+    aiAudioHash: params.aiAudioHash,
     sourceCodeCommit,
     callerHashShort: params.callerHashShort,
     timestamp: now,
@@ -96,7 +243,7 @@ export async function storeDecisionForProof(params: {
   };
 
   console.log(
-    `📋 [DecisionStore] Stored decision for ${params.callSid}: ${params.decision} (Cloud SQL)`,
+    `📋 [DecisionStore] Stored decision for ${params.callSid}: ${params.decision} under ${policy.name}@${policy.version} (Cloud SQL)`,
   );
 
   return record;
@@ -109,9 +256,11 @@ export async function storeDecisionForProof(params: {
 export async function getDecisionForProof(
   callSid: string,
 ): Promise<DecisionRecord | undefined> {
+  await ensureSchema();
   const res = await query(
-    `SELECT call_sid, decision, reason, transcript, system_prompt_hash,
-            source_code_commit, caller_hash_short, conversation_turns, created_at
+    `SELECT call_sid, decision, reason, transcript, system_prompt_hash, policy_name, policy_version, language,
+            confidence, matched_rules, caller_details, audio_hash, ai_audio_hash, voicemail, source_code_commit, caller_hash_short, conversation_turns, created_at,
+            transcript_hash, policy_language
      FROM decision_records
      WHERE call_sid = $1 AND expires_at > NOW()`,
     [callSid],
@@ -125,12 +274,216 @@ export async function getDecisionForProof(
     decision: row.decision,
     reason: row.reason,
     transcript: row.transcript,
+    transcriptHash: row.transcript_hash || undefined,
+    transcriptScheme: row.transcript_hash ? TRANSCRIPT_COMMITMENT_SCHEME : undefined,
     systemPromptHash: row.system_prompt_hash,
+    policyName: row.policy_name || undefined,
+    policyVersion: row.policy_version ?? undefined,
+    policyLanguage: row.policy_language || undefined,
+    language: row.language || undefined,
+    confidence: row.confidence ?? undefined,
+    matchedRules: row.matched_rules ?? undefined,
+    caller: row.caller_details ?? undefined,
+    audioHash: row.audio_hash || undefined,
+    aiAudioHash: row.ai_audio_hash || undefined,
+    voicemail: row.voicemail ?? undefined,
     sourceCodeCommit: row.source_code_commit || 'unknown',
-    callerHashShort: row.caller_hash_short,
+    callerHashShort: row.caller_hash_short ?? '',
     timestamp: row.created_at instanceof Date
       ? row.created_at.toISOString()
       : String(row.created_at),
     conversationTurns: row.conversation_turns,
   };
 }
+
+/**
+ * Salt + turns behind a call's transcript commitment, for an owner-authorized
+ * reveal. Not limited to the Decision API's window — a reveal is usually
+ * asked for long after the proof. Undefined for unsalted (older) records and
+ * once the transcript has been purged or erased.
+ */
+export async function getTranscriptSecret(callSid: string): Promise<TranscriptSecret | undefined> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT call_sid, transcript_salt, transcript_turns, transcript_hash
+     FROM decision_records
+     WHERE call_sid = $1 AND transcript_salt IS NOT NULL`,
+    [callSid],
+  );
+
+  if (res.rows.length === 0) return undefined;
+
+  const row = res.rows[0];
+  return {
+    callSid: row.call_sid,
+    salt: row.transcript_salt,
+    turns: row.transcript_turns ?? [],
+    transcriptHash: row.transcript_hash,
+  };
+}
+
+/**
+ * Caller details and voicemail of a call, for the owner-authorized reveal
+ * alongside the transcript — they are kept out of the Decision API. Not
+ * limited to the Decision API's window; undefined once both are purged.
+ */
+export async function getCallerDisclosure(
+  callSid: string,
+): Promise<Pick<DecisionRecord, 'caller' | 'voicemail'> | undefined> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT caller_details, voicemail
+     FROM decision_records
+     WHERE call_sid = $1 AND (caller_details IS NOT NULL OR voicemail IS NOT NULL)`,
+    [callSid],
+  );
+
+  if (res.rows.length === 0) return undefined;
+
+  const row = res.rows[0];
+  return {
+    caller: row.caller_details ?? undefined,
+    voicemail: row.voicemail ?? undefined,
+  };
+}
+
+/**
+ * Move a caller's earlier decision records from an older pepper version (or
+ * the reversible legacy hash) to the current identifier. Run when the same
+ * number calls again — the only time the number is known. Returns rows updated.
+ */
+export async function rekeyDecisionCallerHash(from: string): Promise<number> {
+  const [callerHash, ...previous] = callerHashCandidates(from);
+  if (previous.length === 0) return 0;
+
+  await ensureSchema();
+  const res = await query(
+    'UPDATE decision_records SET caller_hash_short = $1 WHERE caller_hash_short = ANY($2)',
+    [callerHash, previous],
+  );
+  return res.rowCount ?? 0;
+}
+
+/**
+ * Merge a voicemail into the call's decision record (fields already stored
+ * are kept unless the update has them). Returns false if the call has no
+ * live decision record — e.g. it went to voicemail without AI screening.
+ */
+export async function attachVoicemailToDecision(
+  callSid: string,
+  voicemail: VoicemailRecord,
+): Promise<boolean> {
+  await ensureSchema();
+  const res = await query(
+    `UPDATE decision_records
+     SET voicemail = COALESCE(voicemail, '{}'::jsonb) || $2::jsonb
+     WHERE call_sid = $1 AND expires_at > NOW()`,
+    [callSid, JSON.stringify(voicemail)],
+  );
+  return (res.rowCount ?? 0) > 0;
+}
+
+// ─── Retention ────────────────────────────────────────────────
+
+/**
+ * Drop transcript text, the turns and the salt (no reveal is possible after
+ * this) plus any voicemail transcript, on records older than `days`.
+ * transcript_hash stays. Returns the affected callSids.
+ */
+export async function purgeDecisionTranscripts(days: number): Promise<string[]> {
+  await ensureSchema();
+  const res = await query(
+    `UPDATE decision_records
+     SET transcript = '', transcript_turns = NULL, transcript_salt = NULL,
+         voicemail = voicemail - 'transcript', transcript_purged_at = NOW()
+     WHERE transcript_purged_at IS NULL AND created_at < NOW() - make_interval(days => $1)
+     RETURNING call_sid`,
+    [days],
+  );
+  return res.rows.map((row) => row.call_sid);
+}
+
+/** Drop the stated caller details and the voicemail on records older than `days` */
+export async function purgeDecisionSummaries(days: number): Promise<string[]> {
+  await ensureSchema();
+  const res = await query(
+    `UPDATE decision_records
+     SET caller_details = NULL, voicemail = NULL, summary_purged_at = NOW()
+     WHERE summary_purged_at IS NULL AND created_at < NOW() - make_interval(days => $1)
+     RETURNING call_sid`,
+    [days],
+  );
+  return res.rows.map((row) => row.call_sid);
+}
+
+/** Unlink records older than `days` from their caller (callerHashShort → NULL) */
+export async function purgeDecisionCallerHashes(days: number): Promise<number> {
+  await ensureSchema();
+  const res = await query(
+    `UPDATE decision_records SET caller_hash_short = NULL
+     WHERE caller_hash_short IS NOT NULL AND created_at < NOW() - make_interval(days => $1)`,
+    [days],
+  );
+  return res.rowCount ?? 0;
+}
+
+/**
+ * Calls whose archived audio is older than `days` and still on disk.
+ * Mark them with markDecisionAudioPurged() once the files are gone.
+ */
+export async function getDecisionsWithExpiredAudio(days: number, limit: number): Promise<string[]> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT call_sid FROM decision_records
+     WHERE audio_hash IS NOT NULL AND audio_purged_at IS NULL
+       AND created_at < NOW() - make_interval(days => $1)
+     ORDER BY created_at
+     LIMIT $2`,
+    [days, limit],
+  );
+  return res.rows.map((row) => row.call_sid);
+}
+
+export async function markDecisionAudioPurged(callSids: string[]): Promise<void> {
+  if (callSids.length === 0) return;
+  await ensureSchema();
+  await query(
+    'UPDATE decision_records SET audio_purged_at = NOW() WHERE call_sid = ANY($1)',
+    [callSids],
+  );
+}
+
+/** callSids of every decision record still linked to one of these caller hashes */
+export async function getCallerCallSids(callerHashes: string[]): Promise<string[]> {
+  await ensureSchema();
+  const res = await query(
+    'SELECT call_sid FROM decision_records WHERE caller_hash_short = ANY($1)',
+    [callerHashes],
+  );
+  return res.rows.map((row) => row.call_sid);
+}
+
+/**
+ * Right to erasure: strip every personal field from a caller's decision
+ * records and take them off the Decision API. The decision, reason, policy
+ * and the transcript / audio / prompt hashes stay, so the on-chain records
+ * still verify. Calls in `keepLink` keep their caller hash so a retry can
+ * still find them (their audio could not be deleted yet). Returns the erased callSids.
+ */
+export async function eraseCallerDecisions(callerHashes: string[], keepLink: string[] = []): Promise<string[]> {
+  await ensureSchema();
+  const res = await query(
+    `UPDATE decision_records
+     SET transcript = '', transcript_turns = NULL, transcript_salt = NULL,
+         caller_details = NULL, voicemail = NULL,
+         caller_hash_short = CASE WHEN call_sid = ANY($2) THEN caller_hash_short ELSE NULL END,
+         expires_at = LEAST(expires_at, NOW()),
+         transcript_purged_at = COALESCE(transcript_purged_at, NOW()),
+         summary_purged_at = COALESCE(summary_purged_at, NOW()),
+         erased_at = NOW()
+     WHERE caller_hash_short = ANY($1)
+     RETURNING call_sid`,
+    [callerHashes, keepLink],
+  );
+  return res.rows.map((row) => row.call_sid);
+}
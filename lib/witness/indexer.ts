@@ -0,0 +1,280 @@
+/**
+ * Registry Event Indexer — VeriCallRegistry logs → Postgres
+ *
+ * Follows every registry network (primary + mirrors) in INDEXER_BLOCK_RANGE
+ * chunks of eth_getLogs and stores what /api/explorer serves, so a request
+ * costs a query instead of one getRecord() per record:
+ *
+ *   CallDecisionRecorded  → getRecord() + decoded journal  → registry_records
+ *   ProofVerified         → imageId / journalDigest on that record
+ *   BatchAnchored         → root / size / imageId         → registry_batches
+ *   DecisionAmended       → getAmendments()[index]        → registry_amendments
+ *
+ * A batched call has no CallDecisionRecorded — only its batch's root is on
+ * chain — so it is counted under its batch, not listed as a record.
+ *
+ * Reorgs: the cursor keeps the hash of the last indexed block. If the chain
+ * no longer has that hash, everything from the last INDEXER_REORG_DEPTH
+ * blocks is deleted and scanned again (registry-store.ts rewindIndex).
+ *
+ * Started from server.ts. Each network's cursor is leased, so only one
+ * instance indexes it at a time.
+ */
+
+import crypto from 'crypto';
+import { getAbiItem, keccak256, type ContractFunctionReturnType, type Hex } from 'viem';
+import { findIndexStartBlock, indexerConfig, registryNetworks, type RegistryNetwork } from '@/lib/config';
+import { findChainInfo } from '@/lib/chains';
+import { getPublicClient } from '@/lib/witness/tx-manager';
+import { decodeJournal } from '@/lib/verification';
+import {
+  type IndexCursor,
+  type IndexedRecord,
+  type RegistryKey,
+  advanceIndexCursor,
+  claimIndexCursor,
+  markIndexedProof,
+  rewindIndex,
+  upsertIndexedAmendment,
+  upsertIndexedBatch,
+  upsertIndexedRecord,
+} from '@/lib/witness/registry-store';
+import { VERICALL_REGISTRY_ABI } from './abi';
+
+/** Identifies this process as a lease owner */
+const INSTANCE_ID = `idx_${crypto.randomBytes(6).toString('hex')}`;
+
+const INDEXED_EVENTS = [
+  getAbiItem({ abi: VERICALL_REGISTRY_ABI, name: 'CallDecisionRecorded' }),
+  getAbiItem({ abi: VERICALL_REGISTRY_ABI, name: 'ProofVerified' }),
+  getAbiItem({ abi: VERICALL_REGISTRY_ABI, name: 'BatchAnchored' }),
+  getAbiItem({ abi: VERICALL_REGISTRY_ABI, name: 'DecisionAmended' }),
+] as const;
+
+type RegistryView<name extends 'getRecord' | 'getAmendments'> =
+  ContractFunctionReturnType<typeof VERICALL_REGISTRY_ABI, 'view', name>;
+
+let _timer: NodeJS.Timeout | null = null;
+let _indexing = false;
+
+// ─── Reads ────────────────────────────────────────────────────
+
+async function readRecord(
+  network: RegistryNetwork,
+  callId: Hex,
+  position: Pick<IndexedRecord, 'blockNumber' | 'blockHash' | 'txHash' | 'logIndex'>,
+): Promise<IndexedRecord> {
+  const client = getPublicClient(network.chainId);
+  const address = network.contractAddress as `0x${string}`;
+
+  const record: RegistryView<'getRecord'> = await client.readContract({
+    address,
+    abi: VERICALL_REGISTRY_ABI,
+    functionName: 'getRecord',
+    args: [callId],
+  });
+
+  // Decoded here rather than through getProvenData(), whose outputs differ
+  // between V4 (10-field journal) and V5 (11)
+  const pd = decodeJournal(record.journalDataAbi);
+  const proven: IndexedRecord['proven'] = pd && {
+    notaryKeyFingerprint: pd.notaryKeyFingerprint,
+    method: pd.method,
+    url: pd.url,
+    proofTimestamp: pd.proofTimestamp === 'N/A' ? 0 : Math.floor(Date.parse(pd.proofTimestamp) / 1000),
+    queriesHash: pd.queriesHash,
+    decision: pd.provenDecision,
+    reason: pd.provenReason,
+    systemPromptHash: pd.provenSystemPromptHash,
+    transcriptHash: pd.provenTranscriptHash,
+    sourceCodeCommit: pd.provenSourceCodeCommit,
+    audioHash: pd.provenAudioHash,
+  };
+
+  return {
+    callId,
+    decision: Number(record.decision),
+    reason: record.reason,
+    sourceUrl: record.sourceUrl,
+    timestamp: Number(record.timestamp),
+    submitter: record.submitter,
+    verified: record.verified,
+    journalHash: record.journalHash,
+    journalVerified: keccak256(record.journalDataAbi) === record.journalHash,
+    zkProofSeal: record.zkProofSeal,
+    journalDataAbi: record.journalDataAbi,
+    proven,
+    ...position,
+  };
+}
+
+async function readAmendment(
+  network: RegistryNetwork,
+  callId: Hex,
+  index: number,
+): Promise<RegistryView<'getAmendments'>[number] | undefined> {
+  const rows: RegistryView<'getAmendments'> = await getPublicClient(network.chainId).readContract({
+    address: network.contractAddress as `0x${string}`,
+    abi: VERICALL_REGISTRY_ABI,
+    functionName: 'getAmendments',
+    args: [callId],
+  });
+  return rows[index];
+}
+
+// ─── Indexing ─────────────────────────────────────────────────
+
+/**
+ * Move the cursor back if its block was reorged out.
+ * Returns the cursor to continue from.
+ */
+async function checkReorg(network: RegistryNetwork, key: RegistryKey, cursor: IndexCursor, startBlock: number) {
+  if (!cursor.blockHash) return cursor;
+
+  const client = getPublicClient(network.chainId);
+  const block = await client.getBlock({ blockNumber: BigInt(cursor.blockNumber) });
+  if (block.hash === cursor.blockHash) return cursor;
+
+  const rewindTo = Math.max(startBlock - 1, cursor.blockNumber - indexerConfig.reorgDepth);
+  const rewindHash = rewindTo >= startBlock
+    ? (await client.getBlock({ blockNumber: BigInt(rewindTo) })).hash
+    : null;
+  const removed = await rewindIndex(key, rewindTo, rewindHash);
+  console.warn(
+    `⛓️ [Indexer] Reorg on chain ${network.chainId} at block ${cursor.blockNumber} — ` +
+    `rewound to ${rewindTo} (${removed.records} record(s), ${removed.batches} batch(es), ` +
+    `${removed.amendments} amendment(s) removed)`,
+  );
+  return { ...cursor, blockNumber: rewindTo, blockHash: rewindHash };
+}
+
+/** Store the registry logs of blocks fromBlock..toBlock */
+async function indexRange(network: RegistryNetwork, key: RegistryKey, fromBlock: number, toBlock: number) {
+  const logs = await getPublicClient(network.chainId).getLogs({
+    address: network.contractAddress as `0x${string}`,
+    events: INDEXED_EVENTS,
+    strict: true,
+    fromBlock: BigInt(fromBlock),
+    toBlock: BigInt(toBlock),
+  });
+
+  // ProofVerified is emitted before CallDecisionRecorded in the same TX,
+  // so records are stored first and proofs applied after
+  const position = (log: (typeof logs)[number]) => ({
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash!,
+    txHash: log.transactionHash!,
+    logIndex: log.logIndex!,
+  });
+  let records = 0;
+  for (const log of logs) {
+    if (log.eventName !== 'CallDecisionRecorded') continue;
+    await upsertIndexedRecord(key, await readRecord(network, log.args.callId, position(log)));
+    records++;
+  }
+  for (const log of logs) {
+    if (log.eventName === 'ProofVerified') {
+      const { args } = log;
+      await markIndexedProof(key, args.callId, args.imageId, args.journalDigest);
+    } else if (log.eventName === 'BatchAnchored') {
+      const { args } = log;
+      await upsertIndexedBatch(key, {
+        root: args.root,
+        size: Number(args.size),
+        imageId: args.imageId,
+        timestamp: Number(args.timestamp),
+        submitter: args.submitter,
+        ...position(log),
+      });
+    } else if (log.eventName === 'DecisionAmended') {
+      const { args } = log;
+      const index = Number(args.index);
+      const amendment = await readAmendment(network, args.callId, index);
+      await upsertIndexedAmendment(key, {
+        callId: args.callId,
+        index,
+        kind: Number(args.kind),
+        correctedDecision: Number(args.correctedDecision),
+        reason: amendment?.reason ?? '',
+        filedBy: args.filedBy,
+        timestamp: Number(args.timestamp),
+        submitter: args.submitter,
+        ...position(log),
+      });
+    }
+  }
+  return records;
+}
+
+/**
+ * Index one network up to its head. Returns the number of new records,
+ * or null if another instance holds the network's lease.
+ */
+export async function indexRegistry(network: RegistryNetwork): Promise<number | null> {
+  const key: RegistryKey = { chainId: network.chainId, contract: network.contractAddress };
+  const startBlock = findIndexStartBlock(network);
+  const claimed = await claimIndexCursor(key, startBlock, INSTANCE_ID, indexerConfig.leaseMs);
+  if (!claimed) return null;
+
+  const client = getPublicClient(network.chainId);
+  let cursor = await checkReorg(network, key, claimed, startBlock);
+  const head = Number(await client.getBlockNumber());
+
+  let records = 0;
+  while (cursor.blockNumber < head) {
+    const fromBlock = cursor.blockNumber + 1;
+    const toBlock = Math.min(head, cursor.blockNumber + indexerConfig.blockRange);
+    records += await indexRange(network, key, fromBlock, toBlock);
+
+    const block = await client.getBlock({ blockNumber: BigInt(toBlock) });
+    await advanceIndexCursor(key, INSTANCE_ID, indexerConfig.leaseMs, toBlock, block.hash);
+    cursor = { ...cursor, blockNumber: toBlock, blockHash: block.hash };
+  }
+
+  if (records > 0) {
+    const name = findChainInfo(network.chainId)?.name ?? network.chainId;
+    console.log(`⛓️ [Indexer] ${name}: ${records} new record(s) up to block ${head}`);
+  }
+  return records;
+}
+
+/** One pass over every registry network; a failing network doesn't stop the others */
+export async function indexRegistries(): Promise<void> {
+  if (_indexing) return;
+  _indexing = true;
+
+  try {
+    for (const network of registryNetworks) {
+      if (!network.contractAddress) continue;
+      try {
+        await indexRegistry(network);
+      } catch (err) {
+        console.error(
+          `⛓️ [Indexer] Chain ${network.chainId} failed:`,
+          err instanceof Error ? err.message : err,
+        );
+      }
+    }
+  } finally {
+    _indexing = false;
+  }
+}
+
+// ─── Worker ───────────────────────────────────────────────────
+
+/** Start the periodic indexer (no-op if disabled or already running) */
+export function startRegistryIndexer(): void {
+  if (!indexerConfig.enabled || _timer) return;
+
+  console.log(`⛓️ [Indexer] Started (interval ${indexerConfig.intervalMs}ms)`);
+  void indexRegistries();
+  _timer = setInterval(() => void indexRegistries(), indexerConfig.intervalMs);
+  _timer.unref();
+}
+
+export function stopRegistryIndexer(): void {
+  if (_timer) {
+    clearInterval(_timer);
+    _timer = null;
+  }
+}
@@ -0,0 +1,802 @@
+/**
+ * Witness Job Store — PostgreSQL (Cloud SQL)
+ *
+ * Persists witness pipeline jobs next to `decision_records` so that
+ * a Cloud Run restart does not lose in-flight proofs.
+ *
+ * Each job is a small state machine:
+ *
+ *   pending → web-proof → zk-proof → on-chain
+ *      │          │           └──→ batched → on-chain   (batch anchoring, see batcher.ts)
+ *      └──────────┴───────────┴──→ failed       (non-retryable error)
+ *      └──────────┴───────────┴──→ dead-letter  (retries exhausted, re-queueable)
+ *
+ * `status` is always the LAST COMPLETED step. The artifacts produced by
+ * each step (Web Proof presentation, ZK seal + journal, reserved callId)
+ * are stored alongside, so a worker can resume from where it stopped
+ * instead of re-running the whole pipeline.
+ *
+ * The on-chain step registers the decision on the primary network, which
+ * completes the job, then on each mirror in registryNetworks. Every TX is
+ * appended to `on_chain_networks` as it lands — a mirror that failed gets
+ * an entry with its `error` instead; `tx_hash` & co. always describe the
+ * primary network.
+ *
+ * Concurrency: a job is owned by whoever holds its lease (`locked_until`).
+ * Claims use `FOR UPDATE SKIP LOCKED`, so multiple instances can run the
+ * worker without picking up the same job twice.
+ *
+ * `batched` jobs wait for a `witness_batches` row to claim them; the batch
+ * has its own lease and, once its Merkle root is anchored, moves every
+ * member job to `on-chain` with its leaf index and inclusion proof.
+ *
+ * `signed_decision` keeps the server-signed attested fields of the decision
+ * (decision, reason, hashes, commit — no personal data), taken before the
+ * first step, so the call stays attested whatever the job's fate.
+ * It is dropped with the Web Proof when the call's summary is purged or its
+ * caller erased.
+ */
+
+import { query } from '@/lib/db';
+import type { WebProof } from '@/lib/witness/vlayer-api';
+import type { WitnessStep } from '@/lib/witness/retry';
+import type { DecisionData, OnChainNetworkTx, ProofStatus, WitnessRecord } from '@/lib/witness/pipeline';
+import type { SignedDecision } from '@/lib/verification';
+import type { OnChainResult } from '@/lib/witness/on-chain';
+import { chainConfig } from '@/lib/config';
+import { findChainInfo } from '@/lib/chains';
+
+// ─── Types ────────────────────────────────────────────────────
+
+/** A witness record plus the intermediate artifacts needed to resume it */
+export interface WitnessJob extends WitnessRecord {
+  decisionData: DecisionData;
+  artifacts: {
+    webProof?: WebProof;
+    zkProofSeal?: string;
+    journalDataAbi?: string;
+    onChainCallId?: string;
+    batchLeaf?: string;
+    batchId?: string;
+    /** Networks registered so far (see recordNetworkTx) */
+    networkTxs: StoredNetworkTx[];
+  };
+}
+
+/** One entry of `on_chain_networks` */
+export type StoredNetworkTx = Omit<OnChainNetworkTx, 'network'>;
+
+export type BatchStatus = 'pending' | 'anchored';
+
+/** One Merkle root anchored (or about to be) with anchorBatch() */
+export interface WitnessBatch {
+  id: string;
+  status: BatchStatus;
+  size: number;
+  /** Set once the tree is built — before the TX is sent */
+  root?: string;
+  txHash?: string;
+  blockNumber?: number;
+  contractAddress?: string;
+  error?: string;
+  attempts: number;
+  createdAt: string;
+  anchoredAt?: string;
+}
+
+/** Statuses a worker may pick up and continue */
+export const RESUMABLE_STATUSES: ProofStatus[] = ['pending', 'web-proof', 'zk-proof'];
+
+// ─── Schema ───────────────────────────────────────────────────
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS witness_jobs (
+    id                TEXT PRIMARY KEY,
+    call_sid          TEXT NOT NULL,
+    status            TEXT NOT NULL,
+    decision_data     JSONB NOT NULL,
+    web_proof         JSONB,
+    web_proof_id      TEXT,
+    web_proof_at      TIMESTAMPTZ,
+    zk_proof_seal     TEXT,
+    journal_data_abi  TEXT,
+    zk_proof_hash     TEXT,
+    zk_proof_at       TIMESTAMPTZ,
+    on_chain_call_id  TEXT,
+    tx_hash           TEXT,
+    block_number      BIGINT,
+    contract_address  TEXT,
+    on_chain_at       TIMESTAMPTZ,
+    error             TEXT,
+    locked_until      TIMESTAMPTZ,
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0;
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS failed_step TEXT;
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS batch_leaf TEXT;
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS batched_at TIMESTAMPTZ;
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS batch_id TEXT;
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS batch_root TEXT;
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS batch_leaf_index INT;
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS batch_proof JSONB;
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS on_chain_networks JSONB NOT NULL DEFAULT '[]';
+  ALTER TABLE witness_jobs ADD COLUMN IF NOT EXISTS signed_decision JSONB;
+  CREATE INDEX IF NOT EXISTS witness_jobs_call_sid_idx ON witness_jobs (call_sid);
+  CREATE INDEX IF NOT EXISTS witness_jobs_status_idx ON witness_jobs (status);
+  CREATE INDEX IF NOT EXISTS witness_jobs_batch_id_idx ON witness_jobs (batch_id);
+
+  CREATE TABLE IF NOT EXISTS witness_batches (
+    id                TEXT PRIMARY KEY,
+    status            TEXT NOT NULL,
+    size              INT NOT NULL,
+    root              TEXT,
+    tx_hash           TEXT,
+    block_number      BIGINT,
+    contract_address  TEXT,
+    error             TEXT,
+    attempts          INT NOT NULL DEFAULT 0,
+    locked_until      TIMESTAMPTZ,
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    anchored_at       TIMESTAMPTZ
+  );
+`;
+
+let _schemaReady: Promise<void> | null = null;
+
+/** Create the witness_jobs table on first use (idempotent) */
+function ensureSchema(): Promise<void> {
+  if (!_schemaReady) {
+    _schemaReady = query(SCHEMA)
+      .then(() => undefined)
+      .catch((err) => {
+        _schemaReady = null;
+        throw err;
+      });
+  }
+  return _schemaReady;
+}
+
+// ─── Row Mapping ──────────────────────────────────────────────
+
+function toIso(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function toNetworkTx(tx: StoredNetworkTx): OnChainNetworkTx {
+  return { ...tx, network: findChainInfo(tx.chainId)?.name ?? `Chain ${tx.chainId}` };
+}
+
+function rowToJob(row: any): WitnessJob {
+  const networkTxs: StoredNetworkTx[] = row.on_chain_networks ?? [];
+  const job: WitnessJob = {
+    id: row.id,
+    callSid: row.call_sid,
+    createdAt: toIso(row.created_at),
+    status: row.status,
+    decisionData: row.decision_data,
+    artifacts: {
+      webProof: row.web_proof || undefined,
+      zkProofSeal: row.zk_proof_seal || undefined,
+      journalDataAbi: row.journal_data_abi || undefined,
+      onChainCallId: row.on_chain_call_id || undefined,
+      batchLeaf: row.batch_leaf || undefined,
+      batchId: row.batch_id || undefined,
+      networkTxs,
+    },
+  };
+
+  if (row.web_proof_id) {
+    job.webProof = { proofId: row.web_proof_id, generatedAt: toIso(row.web_proof_at) };
+  }
+  if (row.zk_proof_hash) {
+    job.zkProof = { hash: row.zk_proof_hash, generatedAt: toIso(row.zk_proof_at) };
+  }
+  if (row.tx_hash) {
+    job.onChain = {
+      txHash: row.tx_hash,
+      blockNumber: Number(row.block_number),
+      contractAddress: row.contract_address || undefined,
+      submittedAt: toIso(row.on_chain_at),
+      receipt: networkTxs.find((tx) => tx.txHash === row.tx_hash)?.receipt,
+      // Jobs from before multi-network support only have the primary columns
+      networks: (networkTxs.length > 0
+        ? networkTxs
+        : [{
+            chainId: chainConfig.chainId,
+            txHash: row.tx_hash,
+            blockNumber: Number(row.block_number),
+            contractAddress: row.contract_address || '',
+            submittedAt: toIso(row.on_chain_at),
+          }]
+      ).map(toNetworkTx),
+    };
+  }
+  if (row.batch_root && row.batch_proof) {
+    job.batch = {
+      id: row.batch_id,
+      root: row.batch_root,
+      leaf: row.batch_leaf,
+      leafIndex: row.batch_leaf_index,
+      proof: row.batch_proof,
+    };
+  }
+  if (row.signed_decision) job.signedDecision = row.signed_decision;
+  if (row.error) job.error = row.error;
+  if (row.attempts) job.attempts = row.attempts;
+  if (row.dead_lettered_at) {
+    job.deadLetter = {
+      step: row.failed_step,
+      attempts: row.attempts,
+      deadLetteredAt: toIso(row.dead_lettered_at),
+    };
+  }
+
+  return job;
+}
+
+/** Strip resume-only artifacts — what the public API returns */
+export function toWitnessRecord(job: WitnessJob): WitnessRecord {
+  const { decisionData: _decisionData, artifacts: _artifacts, ...record } = job;
+  return record;
+}
+
+// ─── Create / Read ────────────────────────────────────────────
+
+/**
+ * Insert a new job in `pending` state, already leased to the caller.
+ */
+export async function insertJob(
+  id: string,
+  callSid: string,
+  decisionData: DecisionData,
+  leaseMs: number,
+): Promise<WitnessJob> {
+  await ensureSchema();
+  const res = await query(
+    `INSERT INTO witness_jobs (id, call_sid, status, decision_data, locked_until)
+     VALUES ($1, $2, 'pending', $3, NOW() + $4::int * interval '1 millisecond')
+     RETURNING *`,
+    [id, callSid, JSON.stringify(decisionData), leaseMs],
+  );
+  return rowToJob(res.rows[0]);
+}
+
+export async function getJob(id: string): Promise<WitnessJob | undefined> {
+  await ensureSchema();
+  const res = await query(`SELECT * FROM witness_jobs WHERE id = $1`, [id]);
+  return res.rows.length ? rowToJob(res.rows[0]) : undefined;
+}
+
+/** Latest job for a call (a call normally has exactly one) */
+export async function getJobByCallSid(callSid: string): Promise<WitnessJob | undefined> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM witness_jobs WHERE call_sid = $1 ORDER BY created_at DESC LIMIT 1`,
+    [callSid],
+  );
+  return res.rows.length ? rowToJob(res.rows[0]) : undefined;
+}
+
+export async function listJobs(limit = 100): Promise<WitnessJob[]> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM witness_jobs ORDER BY created_at DESC LIMIT $1`,
+    [limit],
+  );
+  return res.rows.map(rowToJob);
+}
+
+// ─── Leases ───────────────────────────────────────────────────
+
+/**
+ * Claim up to `limit` unfinished jobs whose lease has expired
+ * (or was never taken). Returns the claimed jobs.
+ */
+export async function claimResumableJobs(
+  leaseMs: number,
+  limit: number,
+): Promise<WitnessJob[]> {
+  await ensureSchema();
+  const res = await query(
+    `UPDATE witness_jobs SET
+       locked_until = NOW() + $1::int * interval '1 millisecond',
+       updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM witness_jobs
+       WHERE status = ANY($2)
+         AND (locked_until IS NULL OR locked_until < NOW())
+       ORDER BY created_at
+       LIMIT $3
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [leaseMs, RESUMABLE_STATUSES, limit],
+  );
+  return res.rows.map(rowToJob);
+}
+
+/** Give up the lease so another worker can pick the job up */
+export async function releaseJob(id: string): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET locked_until = NULL, updated_at = NOW() WHERE id = $1`,
+    [id],
+  );
+}
+
+/** Keep the signed decision attestation (not a step — status is unchanged) */
+export async function saveSignedDecision(id: string, signed: SignedDecision): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET signed_decision = $2, updated_at = NOW() WHERE id = $1`,
+    [id, JSON.stringify(signed)],
+  );
+}
+
+// ─── Step Transitions ─────────────────────────────────────────
+// Every transition also renews the lease, since the next step may be slow.
+
+export async function completeWebProofStep(
+  id: string,
+  webProof: WebProof,
+  proofId: string,
+  leaseMs: number,
+): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET
+       status = 'web-proof',
+       web_proof = $2,
+       web_proof_id = $3,
+       web_proof_at = NOW(),
+       locked_until = NOW() + $4::int * interval '1 millisecond',
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, JSON.stringify(webProof), proofId, leaseMs],
+  );
+}
+
+export async function completeZkProofStep(
+  id: string,
+  zk: { seal: string; journalDataAbi: string; hash: string },
+  leaseMs: number,
+): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET
+       status = 'zk-proof',
+       zk_proof_seal = $2,
+       journal_data_abi = $3,
+       zk_proof_hash = $4,
+       zk_proof_at = NOW(),
+       locked_until = NOW() + $5::int * interval '1 millisecond',
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, zk.seal, zk.journalDataAbi, zk.hash, leaseMs],
+  );
+}
+
+/**
+ * Persist the callId BEFORE sending the transaction.
+ * A resumed job re-uses it, so a duplicate submission reverts with
+ * AlreadyRegistered instead of creating a second on-chain record.
+ */
+export async function reserveOnChainCallId(id: string, callId: string): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET on_chain_call_id = $2, updated_at = NOW() WHERE id = $1`,
+    [id, callId],
+  );
+}
+
+/**
+ * One network accepted the registration. Recorded before moving on to the
+ * next network, so a resumed job does not submit there again.
+ */
+export async function recordNetworkTx(id: string, result: OnChainResult): Promise<void> {
+  const entry: StoredNetworkTx = {
+    chainId: result.chainId,
+    txHash: result.txHash,
+    blockNumber: result.blockNumber,
+    contractAddress: result.contractAddress,
+    submittedAt: new Date().toISOString(),
+    receipt: result.receipt,
+  };
+  await query(
+    `UPDATE witness_jobs SET
+       on_chain_networks = on_chain_networks || $2::jsonb,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, JSON.stringify([entry])],
+  );
+}
+
+/** A mirror network could not be registered — kept next to the TXs that landed */
+export async function recordNetworkError(
+  id: string,
+  network: { chainId: number; contractAddress: string },
+  error: string,
+): Promise<void> {
+  const entry: StoredNetworkTx = {
+    chainId: network.chainId,
+    txHash: '',
+    blockNumber: 0,
+    contractAddress: network.contractAddress,
+    submittedAt: new Date().toISOString(),
+    error,
+  };
+  await query(
+    `UPDATE witness_jobs SET
+       on_chain_networks = on_chain_networks || $2::jsonb,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, JSON.stringify([entry])],
+  );
+}
+
+/** The primary network is registered — `result` is its TX */
+export async function completeOnChainStep(
+  id: string,
+  result: { txHash: string; blockNumber: number; contractAddress: string },
+): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET
+       status = 'on-chain',
+       tx_hash = $2,
+       block_number = $3,
+       contract_address = $4,
+       on_chain_at = NOW(),
+       error = NULL,
+       locked_until = NULL,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, result.txHash, result.blockNumber, result.contractAddress],
+  );
+}
+
+export async function markJobFailed(
+  id: string,
+  error: string,
+  step?: WitnessStep,
+): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET
+       status = 'failed',
+       error = $2,
+       failed_step = $3,
+       locked_until = NULL,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, error, step ?? null],
+  );
+}
+
+// ─── Retries / Dead Letter ────────────────────────────────────
+
+/** Record a failed attempt that will be retried (also renews the lease) */
+export async function recordRetryAttempt(
+  id: string,
+  step: WitnessStep,
+  error: string,
+  leaseMs: number,
+): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET
+       attempts = attempts + 1,
+       error = $3,
+       failed_step = $2,
+       locked_until = NOW() + $4::int * interval '1 millisecond',
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, step, error, leaseMs],
+  );
+}
+
+/** Retries exhausted — park the job until an operator re-queues it */
+export async function markJobDeadLettered(
+  id: string,
+  step: WitnessStep,
+  attempts: number,
+  error: string,
+): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET
+       status = 'dead-letter',
+       attempts = $3,
+       error = $4,
+       failed_step = $2,
+       dead_lettered_at = NOW(),
+       locked_until = NULL,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, step, attempts, error],
+  );
+}
+
+export async function listDeadLetteredJobs(limit = 100): Promise<WitnessJob[]> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM witness_jobs
+     WHERE status = 'dead-letter'
+     ORDER BY dead_lettered_at DESC
+     LIMIT $1`,
+    [limit],
+  );
+  return res.rows.map(rowToJob);
+}
+
+/**
+ * Move a dead-lettered job back to its last completed step and lease it
+ * to the caller. Returns undefined if the job is not dead-lettered.
+ */
+export async function requeueDeadLetteredJob(
+  id: string,
+  leaseMs: number,
+): Promise<WitnessJob | undefined> {
+  await ensureSchema();
+  const res = await query(
+    `UPDATE witness_jobs SET
+       status = CASE
+         WHEN zk_proof_seal IS NOT NULL THEN 'zk-proof'
+         WHEN web_proof IS NOT NULL THEN 'web-proof'
+         ELSE 'pending'
+       END,
+       attempts = 0,
+       error = NULL,
+       failed_step = NULL,
+       dead_lettered_at = NULL,
+       locked_until = NOW() + $2::int * interval '1 millisecond',
+       updated_at = NOW()
+     WHERE id = $1 AND status = 'dead-letter'
+     RETURNING *`,
+    [id, leaseMs],
+  );
+  return res.rows.length ? rowToJob(res.rows[0]) : undefined;
+}
+
+// ─── Batches ──────────────────────────────────────────────────
+
+function rowToBatch(row: any): WitnessBatch {
+  return {
+    id: row.id,
+    status: row.status,
+    size: row.size,
+    root: row.root || undefined,
+    txHash: row.tx_hash || undefined,
+    blockNumber: row.block_number != null ? Number(row.block_number) : undefined,
+    contractAddress: row.contract_address || undefined,
+    error: row.error || undefined,
+    attempts: row.attempts,
+    createdAt: toIso(row.created_at),
+    anchoredAt: row.anchored_at ? toIso(row.anchored_at) : undefined,
+  };
+}
+
+/** ZK proof done — park the job until a batch anchors its leaf */
+export async function queueJobForBatch(id: string, leaf: string): Promise<void> {
+  await query(
+    `UPDATE witness_jobs SET
+       status = 'batched',
+       batch_leaf = $2,
+       batched_at = NOW(),
+       error = NULL,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, leaf],
+  );
+}
+
+/** Jobs waiting for a batch, and when the oldest of them was queued */
+export async function getBatchQueueStats(): Promise<{ count: number; oldestAt: Date | null }> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT COUNT(*)::int AS count, MIN(batched_at) AS oldest_at
+     FROM witness_jobs
+     WHERE status = 'batched' AND batch_id IS NULL`,
+  );
+  const row = res.rows[0];
+  return { count: row.count, oldestAt: row.oldest_at ? new Date(row.oldest_at) : null };
+}
+
+/**
+ * Claim up to `maxSize` queued jobs into a new batch, leased to the caller.
+ * One statement, so concurrent instances never share a job.
+ * Returns undefined if nothing was queued.
+ */
+export async function createBatch(
+  id: string,
+  maxSize: number,
+  leaseMs: number,
+): Promise<WitnessBatch | undefined> {
+  await ensureSchema();
+  const res = await query(
+    `WITH claimed AS (
+       UPDATE witness_jobs SET batch_id = $1, updated_at = NOW()
+       WHERE id IN (
+         SELECT id FROM witness_jobs
+         WHERE status = 'batched' AND batch_id IS NULL
+         ORDER BY batched_at, id
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id
+     )
+     INSERT INTO witness_batches (id, status, size, locked_until)
+     SELECT $1, 'pending', COUNT(*), NOW() + $3::int * interval '1 millisecond'
+     FROM claimed
+     HAVING COUNT(*) > 0
+     RETURNING *`,
+    [id, maxSize, leaseMs],
+  );
+  return res.rows.length ? rowToBatch(res.rows[0]) : undefined;
+}
+
+/** A batch's jobs in leaf order */
+export async function getBatchJobs(batchId: string): Promise<WitnessJob[]> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM witness_jobs WHERE batch_id = $1 ORDER BY batched_at, id`,
+    [batchId],
+  );
+  return res.rows.map(rowToJob);
+}
+
+export async function getBatch(id: string): Promise<WitnessBatch | undefined> {
+  await ensureSchema();
+  const res = await query(`SELECT * FROM witness_batches WHERE id = $1`, [id]);
+  return res.rows.length ? rowToBatch(res.rows[0]) : undefined;
+}
+
+export async function listBatches(limit = 100): Promise<WitnessBatch[]> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM witness_batches ORDER BY created_at DESC LIMIT $1`,
+    [limit],
+  );
+  return res.rows.map(rowToBatch);
+}
+
+/** Un-anchored batches whose lease expired (their instance died or gave up) */
+export async function claimStaleBatches(leaseMs: number): Promise<WitnessBatch[]> {
+  await ensureSchema();
+  const res = await query(
+    `UPDATE witness_batches SET
+       locked_until = NOW() + $1::int * interval '1 millisecond'
+     WHERE id IN (
+       SELECT id FROM witness_batches
+       WHERE status = 'pending'
+         AND (locked_until IS NULL OR locked_until < NOW())
+       ORDER BY created_at
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [leaseMs],
+  );
+  return res.rows.map(rowToBatch);
+}
+
+/**
+ * Persist the root and TX hash BEFORE waiting for the receipt,
+ * so a resumed batch waits for the same TX instead of sending another.
+ */
+export async function recordBatchTx(id: string, root: string, txHash: string): Promise<void> {
+  await query(
+    `UPDATE witness_batches SET root = $2, tx_hash = $3 WHERE id = $1`,
+    [id, root, txHash],
+  );
+}
+
+/**
+ * Anchoring failed — release the lease so the next sweep retries.
+ * `dropTx` forgets a TX that never made it on-chain.
+ */
+export async function recordBatchFailure(id: string, error: string, dropTx: boolean): Promise<void> {
+  await query(
+    `UPDATE witness_batches SET
+       attempts = attempts + 1,
+       error = $2,
+       tx_hash = CASE WHEN $3 THEN NULL ELSE tx_hash END,
+       locked_until = NULL
+     WHERE id = $1`,
+    [id, error, dropTx],
+  );
+}
+
+/**
+ * Root anchored — move every member job to `on-chain` with its inclusion
+ * proof, then close the batch. Jobs go first: a crash in between leaves the
+ * batch pending, and re-running this is harmless.
+ */
+export async function completeBatch(
+  id: string,
+  root: string,
+  result: Omit<OnChainResult, 'callId'>,
+  leaves: Array<{ jobId: string; leafIndex: number; proof: string[] }>,
+): Promise<void> {
+  await query(
+    `UPDATE witness_jobs AS j SET
+       status = 'on-chain',
+       batch_root = $2,
+       batch_leaf_index = v.leaf_index,
+       batch_proof = v.proof,
+       tx_hash = $3,
+       block_number = $4,
+       contract_address = $5,
+       on_chain_networks = $9::jsonb,
+       on_chain_at = NOW(),
+       error = NULL,
+       locked_until = NULL,
+       updated_at = NOW()
+     FROM (
+       SELECT * FROM unnest($6::text[], $7::int[], $8::jsonb[]) AS t(job_id, leaf_index, proof)
+     ) AS v
+     WHERE j.id = v.job_id AND j.batch_id = $1`,
+    [
+      id,
+      root,
+      result.txHash,
+      result.blockNumber,
+      result.contractAddress,
+      leaves.map((l) => l.jobId),
+      leaves.map((l) => l.leafIndex),
+      leaves.map((l) => JSON.stringify(l.proof)),
+      JSON.stringify([{
+        chainId: result.chainId,
+        txHash: result.txHash,
+        blockNumber: result.blockNumber,
+        contractAddress: result.contractAddress,
+        submittedAt: new Date().toISOString(),
+        receipt: result.receipt,
+      } satisfies StoredNetworkTx]),
+    ],
+  );
+  await query(
+    `UPDATE witness_batches SET
+       status = 'anchored',
+       root = $2,
+       tx_hash = $3,
+       block_number = $4,
+       contract_address = $5,
+       error = NULL,
+       locked_until = NULL,
+       anchored_at = NOW()
+     WHERE id = $1`,
+    [id, root, result.txHash, result.blockNumber, result.contractAddress],
+  );
+}
+
+/** A claimed batch turned out empty (its jobs were removed) */
+export async function deleteBatch(id: string): Promise<void> {
+  await query(`DELETE FROM witness_batches WHERE id = $1`, [id]);
+}
+
+// ─── Retention ────────────────────────────────────────────────
+
+/**
+ * Drop the stored Web Proof presentations of these calls — they carry the
+ * full Decision API response. Only jobs past the ZK step (batched, on-chain
+ * or failed) lose it; a job that may still resume keeps it.
+ */
+export async function dropWebProofs(callSids: string[]): Promise<number> {
+  if (callSids.length === 0) return 0;
+  await ensureSchema();
+  const res = await query(
+    `UPDATE witness_jobs SET web_proof = NULL, updated_at = NOW()
+     WHERE call_sid = ANY($1) AND web_proof IS NOT NULL
+       AND status IN ('batched', 'on-chain', 'failed')`,
+    [callSids],
+  );
+  return res.rowCount ?? 0;
+}
+
+/**
+ * Drop the stored signed Decision API responses of these calls (retention
+ * and erasure). The call then attests as `none` unless it reached the chain.
+ */
+export async function dropSignedDecisions(callSids: string[]): Promise<number> {
+  if (callSids.length === 0) return 0;
+  await ensureSchema();
+  const res = await query(
+    `UPDATE witness_jobs SET signed_decision = NULL, updated_at = NOW()
+     WHERE call_sid = ANY($1) AND signed_decision IS NOT NULL`,
+    [callSids],
+  );
+  return res.rowCount ?? 0;
+}
@@ -0,0 +1,89 @@
+/**
+ * Merkle Batches for On-Chain Anchoring
+ *
+ * Same construction as VeriCallRegistryV5 (and OpenZeppelin MerkleProof):
+ *
+ *   leaf   = keccak256(keccak256(abi.encode(callId, uint8 decision,
+ *                                           keccak256(journalDataAbi), keccak256(zkProofSeal))))
+ *   parent = keccak256(min(a, b) ‖ max(a, b))      — sorted pairs, so a proof is just siblings
+ *
+ * An odd node at the end of a level is carried up unchanged.
+ */
+
+import { encodeAbiParameters, encodePacked, keccak256 } from 'viem';
+
+type Hex = `0x${string}`;
+
+export interface BatchLeafInput {
+  callId: string;
+  decision: number;            // 1=ACCEPT, 2=BLOCK, 3=RECORD
+  journalDataAbi: string;      // 0x-prefixed hex
+  zkProofSeal: string;         // 0x-prefixed hex
+}
+
+export interface MerkleTree {
+  root: string;
+  /** Sibling path for each leaf, in input order */
+  proofs: string[][];
+}
+
+// ─── Hashing ──────────────────────────────────────────────────
+
+export function batchLeaf(input: BatchLeafInput): string {
+  const inner = keccak256(
+    encodeAbiParameters(
+      [{ type: 'bytes32' }, { type: 'uint8' }, { type: 'bytes32' }, { type: 'bytes32' }],
+      [
+        input.callId as Hex,
+        input.decision,
+        keccak256(input.journalDataAbi as Hex),
+        keccak256(input.zkProofSeal as Hex),
+      ],
+    ),
+  );
+  return keccak256(inner);
+}
+
+function hashPair(a: string, b: string): string {
+  const [lo, hi] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+  return keccak256(encodePacked(['bytes32', 'bytes32'], [lo as Hex, hi as Hex]));
+}
+
+// ─── Tree ─────────────────────────────────────────────────────
+
+/**
+ * Build the tree over `leaves` (in order) and return the root
+ * plus an inclusion proof per leaf.
+ */
+export function buildMerkleTree(leaves: string[]): MerkleTree {
+  if (leaves.length === 0) throw new Error('Cannot build a Merkle tree with no leaves');
+
+  const proofs: string[][] = leaves.map(() => []);
+  // Which current-level node each original leaf sits under
+  let positions = leaves.map((_, i) => i);
+  let level = leaves;
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    positions = positions.map((pos, leafIdx) => {
+      const sibling = pos % 2 === 0 ? pos + 1 : pos - 1;
+      if (sibling < level.length) proofs[leafIdx].push(level[sibling]);
+      return Math.floor(pos / 2);
+    });
+    level = next;
+  }
+
+  return { root: level[0], proofs };
+}
+
+/** Recompute the root from a leaf and its sibling path */
+export function merkleRootFromProof(leaf: string, proof: string[]): string {
+  return proof.reduce((hash, sibling) => hashPair(hash, sibling), leaf);
+}
+
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  return merkleRootFromProof(leaf, proof).toLowerCase() === root.toLowerCase();
+}
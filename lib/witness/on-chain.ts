@@ -1,18 +1,32 @@
 /**
  * On-Chain Operations for VeriCallRegistry
- * Submit call decisions and verify proofs on Base Sepolia.
+ * Submit call decisions (one TX per call, or one Merkle root per batch),
+ * append amendments to them, and verify proofs.
+ *
+ * Per-call registration and reads take a RegistryNetwork (default: the
+ * CHAIN_ID primary), so the same decision can be mirrored to several
+ * chains. Batch anchoring and amendments only target the primary.
+ *
+ * Writes go through the tx manager (tx-manager.ts): local nonces, fee
+ * bumps for stuck TXs, and the final receipt (gas used) on every result.
  */
 
 import {
-  createWalletClient,
-  createPublicClient,
-  http,
   keccak256,
+  encodeFunctionData,
   encodePacked,
+  decodeEventLog,
 } from 'viem';
-import { baseSepolia } from 'viem/chains';
-import { mnemonicToAccount, privateKeyToAccount } from 'viem/accounts';
-import { chainConfig, contractConfig } from '@/lib/config';
+import { contractConfig, registryNetworks, type RegistryNetwork } from '@/lib/config';
+import {
+  findTransactionByHash,
+  getPublicClient as getChainClient,
+  sendTransaction,
+  submitTransaction,
+  waitForTransaction,
+  type TxReceiptSummary,
+} from '@/lib/witness/tx-manager';
+import { isMissingFunctionError } from '@/lib/verification';
 import { VERICALL_REGISTRY_ABI } from './abi';
 
 // ─── Types ────────────────────────────────────────────────────
@@ -23,87 +37,319 @@ export interface OnChainSubmitParams {
   reason: string;
   zkProofSeal: string;         // 0x-prefixed hex
   journalDataAbi: string;      // 0x-prefixed hex
+  callId?: string;             // pre-reserved callId (resumed jobs); generated if omitted
 }
 
 export interface OnChainResult {
+  chainId: number;
   txHash: string;
   blockNumber: number;
   callId: string;
   contractAddress: string;
+  /** Final receipt (absent for TXs sent before the tx manager) */
+  receipt?: TxReceiptSummary;
 }
 
-// ─── Wallet ───────────────────────────────────────────────────
+export interface AnchoredBatch {
+  size: number;
+  timestamp: number;
+  submitter: string;
+  /** Guest image the batch's seals are verified against */
+  imageId: string;
+}
 
-function getAccount() {
-  const mnemonic = process.env.DEPLOYER_MNEMONIC;
-  if (mnemonic) {
-    return mnemonicToAccount(mnemonic.trim());
-  }
+export type AmendmentKind = 'correction' | 'dispute';
 
-  const pk = process.env.DEPLOYER_PRIVATE_KEY;
-  if (pk) {
-    return privateKeyToAccount(pk as `0x${string}`);
-  }
+/** Solidity enum order (VeriCallRegistryV5.AmendmentKind) */
+const AMENDMENT_KINDS: AmendmentKind[] = ['correction', 'dispute'];
 
-  throw new Error(
-    'No wallet configured — set DEPLOYER_MNEMONIC or DEPLOYER_PRIVATE_KEY in .env.local',
-  );
+export interface AmendmentSubmitParams {
+  callId: string;              // on-chain callId of the original record
+  kind: AmendmentKind;
+  correctedDecision: number;   // 0=none, 1=ACCEPT, 2=BLOCK, 3=RECORD
+  reason: string;
+  filedBy: string;             // who raised it ("owner", "caller", …)
+  /** For a batched call: the leaf's contents and its path to the anchored root */
+  batch?: {
+    root: string;
+    decision: number;
+    zkProofSeal: string;
+    journalDataAbi: string;
+    proof: string[];
+  };
 }
 
-// ─── Clients (lazy singleton) ─────────────────────────────────
+export interface AmendmentResult {
+  txHash: string;
+  blockNumber: number;
+  callId: string;
+  index: number;               // position in the record's amendment history
+  contractAddress: string;
+  receipt: TxReceiptSummary;
+}
 
-function getPublicClient() {
-  return createPublicClient({
-    chain: baseSepolia,
-    transport: http(chainConfig.rpcUrl),
-  });
+export interface OnChainAmendment {
+  index: number;
+  kind: AmendmentKind;
+  correctedDecision: number;
+  reason: string;
+  filedBy: string;
+  timestamp: number;
+  submitter: string;
+}
+
+/** Blocks searched back for a BatchAnchored event whose TX hash was lost */
+const ANCHOR_LOG_LOOKBACK_BLOCKS = BigInt(10_000);
+
+// ─── Clients ──────────────────────────────────────────────────
+
+function primaryNetwork(): RegistryNetwork {
+  return registryNetworks[0];
+}
+
+function getPublicClient(network = primaryNetwork()) {
+  return getChainClient(network.chainId);
 }
 
 // ─── Submit Decision ──────────────────────────────────────────
 
 /**
- * Submit a call decision with ZK proof to the VeriCallRegistry contract.
+ * Deterministic callId from callSid + timestamp.
+ * Exposed so the witness pipeline can reserve it before submitting.
+ */
+export function generateCallId(callSid: string): string {
+  return keccak256(
+    encodePacked(['string'], [`vericall_${callSid}_${Date.now()}`]),
+  );
+}
+
+/**
+ * Submit a call decision with ZK proof to the VeriCallRegistry contract
+ * on `network`. Mirrors reuse the primary's callId, so the record has the
+ * same key on every chain.
  */
 export async function submitDecisionOnChain(
   params: OnChainSubmitParams,
+  network = primaryNetwork(),
 ): Promise<OnChainResult> {
-  const account = getAccount();
-  const address = contractConfig.address as `0x${string}`;
+  const address = network.contractAddress as `0x${string}`;
+  const callId = (params.callId || generateCallId(params.callSid)) as `0x${string}`;
 
-  const walletClient = createWalletClient({
-    account,
-    chain: baseSepolia,
-    transport: http(chainConfig.rpcUrl),
+  const result = await sendTransaction({
+    chainId: network.chainId,
+    to: address,
+    ref: `register:${callId}`,
+    data: encodeFunctionData({
+      abi: VERICALL_REGISTRY_ABI,
+      functionName: 'registerCallDecision',
+      args: [
+        callId,
+        params.decision,
+        params.reason,
+        params.zkProofSeal as `0x${string}`,
+        params.journalDataAbi as `0x${string}`,
+      ],
+    }),
   });
 
-  // Deterministic callId from callSid + timestamp
-  const callId = keccak256(
-    encodePacked(['string'], [`vericall_${params.callSid}_${Date.now()}`]),
-  );
+  return {
+    chainId: network.chainId,
+    txHash: result.txHash,
+    blockNumber: result.blockNumber,
+    callId,
+    contractAddress: address,
+    receipt: result.receipt,
+  };
+}
 
-  const hash = await walletClient.writeContract({
-    address,
-    abi: VERICALL_REGISTRY_ABI,
-    functionName: 'registerCallDecision',
-    args: [
-      callId,
-      params.decision,
-      params.reason,
-      params.zkProofSeal as `0x${string}`,
-      params.journalDataAbi as `0x${string}`,
-    ],
+// ─── Batch Anchoring (V5) ─────────────────────────────────────
+
+/**
+ * Send anchorBatch(root, size). Returns as soon as the TX is broadcast —
+ * the caller persists the hash before waiting, so a restart can pick the
+ * same TX up again with waitForAnchor(). Asking again for the same root
+ * returns the TX already in flight.
+ */
+export async function sendAnchorBatch(root: string, size: number): Promise<string> {
+  const tx = await submitTransaction({
+    chainId: primaryNetwork().chainId,
+    to: contractConfig.address,
+    ref: `anchor:${root}`,
+    data: encodeFunctionData({
+      abi: VERICALL_REGISTRY_ABI,
+      functionName: 'anchorBatch',
+      args: [root as `0x${string}`, BigInt(size)],
+    }),
   });
+  return tx.txHash ?? tx.broadcasts[tx.broadcasts.length - 1]?.hash ?? '';
+}
 
-  const receipt = await getPublicClient().waitForTransactionReceipt({ hash });
+/**
+ * Wait for an anchorBatch TX. `txHash` may be any broadcast of it — the
+ * one that lands after speed-ups is what gets returned.
+ */
+export async function waitForAnchor(txHash: string): Promise<Omit<OnChainResult, 'callId'>> {
+  const managed = await findTransactionByHash(txHash);
+  if (managed) {
+    const result = await waitForTransaction(managed.id);
+    return {
+      chainId: managed.chainId,
+      txHash: result.txHash,
+      blockNumber: result.blockNumber,
+      contractAddress: managed.to,
+      receipt: result.receipt,
+    };
+  }
 
+  // Sent before the tx manager existed
+  const receipt = await getPublicClient().waitForTransactionReceipt({ hash: txHash as `0x${string}` });
+  if (receipt.status !== 'success') {
+    throw new Error(`anchorBatch TX ${txHash} reverted`);
+  }
   return {
-    txHash: hash,
+    chainId: primaryNetwork().chainId,
+    txHash,
     blockNumber: Number(receipt.blockNumber),
-    callId,
+    contractAddress: contractConfig.address,
+  };
+}
+
+/** The on-chain batch for a root, or null if it was never anchored */
+export async function getAnchoredBatch(root: string): Promise<AnchoredBatch | null> {
+  const [size, timestamp, submitter, imageId] = (await getPublicClient().readContract({
+    address: contractConfig.address as `0x${string}`,
+    abi: VERICALL_REGISTRY_ABI,
+    functionName: 'batches',
+    args: [root as `0x${string}`],
+  })) as [bigint, bigint, string, string];
+
+  if (timestamp === BigInt(0)) return null;
+  return { size: Number(size), timestamp: Number(timestamp), submitter, imageId };
+}
+
+/**
+ * Find the TX that anchored `root` (recent blocks only).
+ * Used when a batch was anchored but the process died before saving the hash.
+ */
+export async function findBatchAnchorTx(root: string): Promise<Omit<OnChainResult, 'callId'> | null> {
+  const client = getPublicClient();
+  const latest = await client.getBlockNumber();
+  const logs = await client.getContractEvents({
+    address: contractConfig.address as `0x${string}`,
+    abi: VERICALL_REGISTRY_ABI,
+    eventName: 'BatchAnchored',
+    args: { root: root as `0x${string}` },
+    fromBlock: latest > ANCHOR_LOG_LOOKBACK_BLOCKS ? latest - ANCHOR_LOG_LOOKBACK_BLOCKS : BigInt(0),
+    toBlock: latest,
+  });
+  if (logs.length === 0) return null;
+  return {
+    chainId: primaryNetwork().chainId,
+    txHash: logs[0].transactionHash,
+    blockNumber: Number(logs[0].blockNumber),
+    contractAddress: contractConfig.address,
+  };
+}
+
+// ─── Amendments (V5) ──────────────────────────────────────────
+
+/**
+ * Append a correction or dispute to a registered or batched decision.
+ * The original record is untouched; the contract reverts with
+ * RecordNotFound if `callId` was never registered (or the batch root
+ * never anchored) and NotInBatch if the inclusion proof does not hold.
+ */
+export async function submitAmendmentOnChain(
+  params: AmendmentSubmitParams,
+): Promise<AmendmentResult> {
+  const address = contractConfig.address as `0x${string}`;
+
+  const result = await sendTransaction({
+    chainId: primaryNetwork().chainId,
+    to: address,
+    // Each filing is its own TX, even with identical content
+    ref: `amend:${params.callId}:${Date.now()}`,
+    data: params.batch
+      ? encodeFunctionData({
+        abi: VERICALL_REGISTRY_ABI,
+        functionName: 'amendBatchedDecision',
+        args: [
+          params.batch.root as `0x${string}`,
+          params.callId as `0x${string}`,
+          params.batch.decision,
+          params.batch.zkProofSeal as `0x${string}`,
+          params.batch.journalDataAbi as `0x${string}`,
+          params.batch.proof as `0x${string}`[],
+          AMENDMENT_KINDS.indexOf(params.kind),
+          params.correctedDecision,
+          params.reason,
+          params.filedBy,
+        ],
+      })
+      : encodeFunctionData({
+        abi: VERICALL_REGISTRY_ABI,
+        functionName: 'amendDecision',
+        args: [
+          params.callId as `0x${string}`,
+          AMENDMENT_KINDS.indexOf(params.kind),
+          params.correctedDecision,
+          params.reason,
+          params.filedBy,
+        ],
+      }),
+  });
+
+  const receipt = await getPublicClient().getTransactionReceipt({ hash: result.txHash as `0x${string}` });
+  let index = -1;
+  for (const log of receipt.logs) {
+    try {
+      const event = decodeEventLog({ abi: VERICALL_REGISTRY_ABI, data: log.data, topics: log.topics });
+      if (event.eventName === 'DecisionAmended') {
+        index = Number((event.args as { index: bigint }).index);
+        break;
+      }
+    } catch { /* not ours */ }
+  }
+
+  return {
+    txHash: result.txHash,
+    blockNumber: result.blockNumber,
+    callId: params.callId,
+    index,
     contractAddress: address,
+    receipt: result.receipt,
   };
 }
 
+/**
+ * Amendment history of a record, oldest first. Empty on pre-V5 registries;
+ * RPC and other read errors are thrown, never reported as "no amendments".
+ */
+export async function getAmendmentsOnChain(callId: string): Promise<OnChainAmendment[]> {
+  let rows;
+  try {
+    rows = await getPublicClient().readContract({
+      address: contractConfig.address as `0x${string}`,
+      abi: VERICALL_REGISTRY_ABI,
+      functionName: 'getAmendments',
+      args: [callId as `0x${string}`],
+    });
+  } catch (err) {
+    if (isMissingFunctionError(err)) return [];
+    throw err;
+  }
+
+  return rows.map((row, index) => ({
+    index,
+    kind: AMENDMENT_KINDS[row.kind] ?? 'correction',
+    correctedDecision: Number(row.correctedDecision),
+    reason: row.reason,
+    filedBy: row.filedBy,
+    timestamp: Number(row.timestamp),
+    submitter: row.submitter,
+  }));
+}
+
 // ─── Read / Verify ────────────────────────────────────────────
 
 /**
@@ -112,10 +358,11 @@ export async function submitDecisionOnChain(
 export async function verifyJournalOnChain(
   callId: string,
   journalDataAbi: string,
+  network = primaryNetwork(),
 ): Promise<boolean> {
-  const address = contractConfig.address as `0x${string}`;
+  const address = network.contractAddress as `0x${string}`;
 
-  const result = await getPublicClient().readContract({
+  const result = await getPublicClient(network).readContract({
     address,
     abi: VERICALL_REGISTRY_ABI,
     functionName: 'verifyJournal',
@@ -128,15 +375,15 @@ export async function verifyJournalOnChain(
 /**
  * Get registry-wide statistics.
  */
-export async function getRegistryStats(): Promise<{
+export async function getRegistryStats(network = primaryNetwork()): Promise<{
   total: bigint;
   accepted: bigint;
   blocked: bigint;
   recorded: bigint;
 }> {
-  const address = contractConfig.address as `0x${string}`;
+  const address = network.contractAddress as `0x${string}`;
 
-  const result = (await getPublicClient().readContract({
+  const result = (await getPublicClient(network).readContract({
     address,
     abi: VERICALL_REGISTRY_ABI,
     functionName: 'getStats',
@@ -1,21 +1,84 @@
 /**
  * Witness Pipeline — Core Logic
  *
- * Orchestrates: Web Proof → ZK Proof → Base Sepolia on-chain.
+ * Orchestrates: Web Proof → ZK Proof → on-chain (CHAIN_ID + mirror networks).
  * Shared by session.ts (server-side) and vlayer-client.ts (API routes).
  *
+ * The on-chain step either registers the call on its own (one TX per call)
+ * on the primary network and every WITNESS_MIRROR_CHAIN_IDS network under
+ * the same callId, or, with WITNESS_BATCH_ENABLED, queues it for a Merkle
+ * batch on the primary network only (batcher.ts). Only the primary decides
+ * the job's fate; mirrors are best-effort.
+ * A registered decision can later be amended (corrected / disputed) — the
+ * amendment is appended on-chain next to the untouched original.
+ *
+ * Jobs are persisted in Postgres (job-store.ts) after every step, so
+ * an interrupted job is picked up by the worker (worker.ts) and resumed
+ * from its last completed step. Transient step failures are retried with
+ * backoff (retry.ts); jobs that run out of retries are dead-lettered.
+ *
+ * Before any step, the job keeps a server-signed copy of the decision's
+ * attested fields (buildDecisionAttestation in decision-response.ts). It is a weaker attestation than the
+ * proof, but a call whose pipeline fails — or never runs because vlayer is
+ * not configured — still has one.
+ *
  * This module lives in lib/ so it's resolvable from both
  * the custom server (server.ts / tsx) and Next.js app router.
  */
 
 import crypto from 'crypto';
-import { vlayerConfig } from '@/lib/config';
+import { registryNetworks, vlayerConfig, witnessBatchConfig, witnessConfig, type RegistryNetwork } from '@/lib/config';
 import {
   generateWebProof as vlayerWebProof,
   compressToZKProof as vlayerZKProof,
 } from '@/lib/witness/vlayer-api';
-import { submitDecisionOnChain } from '@/lib/witness/on-chain';
+import {
+  AmendmentKind,
+  AmendmentResult,
+  AmendmentSubmitParams,
+  OnChainResult,
+  submitDecisionOnChain,
+  submitAmendmentOnChain,
+  generateCallId,
+} from '@/lib/witness/on-chain';
+import type { TxReceiptSummary } from '@/lib/witness/tx-manager';
+import {
+  WitnessJob,
+  insertJob,
+  getJob,
+  getJobByCallSid,
+  getBatch,
+  listJobs,
+  releaseJob,
+  toWitnessRecord,
+  completeWebProofStep,
+  completeZkProofStep,
+  reserveOnChainCallId,
+  recordNetworkTx,
+  recordNetworkError,
+  completeOnChainStep,
+  queueJobForBatch,
+  markJobFailed,
+  markJobDeadLettered,
+  recordRetryAttempt,
+  listDeadLetteredJobs,
+  requeueDeadLetteredJob,
+  saveSignedDecision,
+} from '@/lib/witness/job-store';
+import {
+  WitnessStep,
+  withRetry,
+  StepFailedError,
+  RetryExhaustedError,
+} from '@/lib/witness/retry';
+import { batchLeaf } from '@/lib/witness/merkle';
+import { getDecisionForProof } from '@/lib/witness/decision-store';
+import { buildDecisionAttestation } from '@/lib/witness/decision-response';
+import type { SignedDecision } from '@/lib/verification';
+import { flushWitnessBatches } from '@/lib/witness/batcher';
 import { demoBus } from '@/lib/demo/event-bus';
+import { hashCaller } from '@/lib/caller-hash';
+import { explorerTxUrl, findChainInfo } from '@/lib/chains';
 
 // ─── Types (duplicated here to avoid cross-boundary imports) ──
 
@@ -23,8 +86,10 @@ export type ProofStatus =
   | 'pending'
   | 'web-proof'
   | 'zk-proof'
+  | 'batched'
   | 'on-chain'
-  | 'failed';
+  | 'failed'
+  | 'dead-letter';
 
 export interface WitnessRecord {
   id: string;
@@ -33,13 +98,78 @@ export interface WitnessRecord {
   status: ProofStatus;
   webProof?: { proofId: string; generatedAt: string };
   zkProof?: { hash: string; generatedAt: string };
+  /** Top-level fields are the primary network (CHAIN_ID) */
   onChain?: {
     txHash: string;
     blockNumber: number;
     contractAddress?: string;
     submittedAt: string;
+    /** Gas used, fee paid and replaced broadcasts of the primary TX */
+    receipt?: TxReceiptSummary;
+    /** Every network the decision is registered on, primary first */
+    networks: OnChainNetworkTx[];
+  };
+  /** Set when the decision was anchored as part of a Merkle batch */
+  batch?: {
+    id: string;
+    root: string;
+    leaf: string;
+    leafIndex: number;
+    proof: string[];
   };
+  /** Server-signed attested fields of the decision (absent if signing is off or the record was gone) */
+  signedDecision?: SignedDecision;
   error?: string;
+  attempts?: number;
+  deadLetter?: { step: string; attempts: number; deadLetteredAt: string };
+}
+
+/** The decision's registration on one network */
+export interface OnChainNetworkTx {
+  chainId: number;
+  network: string;
+  txHash: string;
+  blockNumber: number;
+  contractAddress: string;
+  submittedAt: string;
+  receipt?: TxReceiptSummary;
+  /** Set when a mirror could not be registered (no TX: `txHash` is empty) */
+  error?: string;
+}
+
+/**
+ * Everything needed to check a batched call against the anchored root
+ * without trusting this server: recompute the leaf, walk the proof, then
+ * call verifyBatchedDecision() / verifier.verify() on-chain.
+ */
+export interface InclusionProof {
+  contractAddress: string;
+  batchRoot: string;
+  batchSize: number;
+  txHash: string;
+  blockNumber: number;
+  callId: string;
+  decision: number;            // 1=ACCEPT, 2=BLOCK, 3=RECORD
+  leaf: string;
+  leafIndex: number;
+  proof: string[];
+  zkProofSeal: string;
+  journalDataAbi: string;
+}
+
+export interface AmendmentInput {
+  kind: AmendmentKind;
+  /** ACCEPT / BLOCK / RECORD — omitted when the amendment does not propose one */
+  correctedDecision?: string;
+  reason: string;
+  filedBy: string;
+}
+
+export class AmendmentError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'AmendmentError';
+  }
 }
 
 export interface DecisionData {
@@ -50,38 +180,48 @@ export interface DecisionData {
   confidence: number;
 }
 
-// ─── In-memory store ──────────────────────────────────────────
-
-const records = new Map<string, WitnessRecord>();
+// ─── Store (Postgres-backed, see job-store.ts) ────────────────
 
-function saveRecord(record: WitnessRecord): void {
-  records.set(record.id, record);
-  console.log('⛓️ Witness recorded:', record.id, record.status);
+export async function getRecord(id: string): Promise<WitnessRecord | undefined> {
+  const job = await getJob(id);
+  return job && toWitnessRecord(job);
 }
 
-function updateStatus(
-  id: string,
-  status: ProofStatus,
-  data?: Partial<WitnessRecord>,
-): void {
-  const record = records.get(id);
-  if (record) {
-    record.status = status;
-    if (data) Object.assign(record, data);
-    records.set(id, record);
-  }
+export async function getByCallSid(callSid: string): Promise<WitnessRecord | undefined> {
+  const job = await getJobByCallSid(callSid);
+  return job && toWitnessRecord(job);
 }
 
-export function getRecord(id: string): WitnessRecord | undefined {
-  return records.get(id);
+export async function getAllRecords(): Promise<WitnessRecord[]> {
+  return (await listJobs()).map(toWitnessRecord);
 }
 
-export function getByCallSid(callSid: string): WitnessRecord | undefined {
-  return Array.from(records.values()).find((r) => r.callSid === callSid);
+export async function getDeadLetteredRecords(): Promise<WitnessRecord[]> {
+  return (await listDeadLetteredJobs()).map(toWitnessRecord);
 }
 
-export function getAllRecords(): WitnessRecord[] {
-  return Array.from(records.values());
+/** Inclusion proof for a witness anchored in a batch (undefined otherwise) */
+export async function getInclusionProof(id: string): Promise<InclusionProof | undefined> {
+  const job = await getJob(id);
+  if (!job?.batch || !job.onChain) return undefined;
+  const { zkProofSeal, journalDataAbi, onChainCallId } = job.artifacts;
+  if (!zkProofSeal || !journalDataAbi || !onChainCallId) return undefined;
+
+  const batch = await getBatch(job.batch.id);
+  return {
+    contractAddress: job.onChain.contractAddress || '',
+    batchRoot: job.batch.root,
+    batchSize: batch?.size ?? 0,
+    txHash: job.onChain.txHash,
+    blockNumber: job.onChain.blockNumber,
+    callId: onChainCallId,
+    decision: DECISION_MAP[job.decisionData.action] || 0,
+    leaf: job.batch.leaf,
+    leafIndex: job.batch.leafIndex,
+    proof: job.batch.proof,
+    zkProofSeal,
+    journalDataAbi,
+  };
 }
 
 // ─── Configuration ────────────────────────────────────────────
@@ -99,8 +239,9 @@ function getProofSourceUrl(callSid: string): string {
   return `${base}/api/witness/decision/${callSid}`;
 }
 
+// Journal order is fixed by the registry: V5 decodes these 6 as its last fields
 const PROOF_JMESPATH = (
-  process.env.VLAYER_PROOF_JMESPATH || 'decision,reason,systemPromptHash,transcriptHash,sourceCodeCommit'
+  process.env.VLAYER_PROOF_JMESPATH || 'decision,reason,systemPromptHash,transcriptHash,sourceCodeCommit,audioHash'
 ).split(',');
 
 const DECISION_MAP: Record<string, number> = {
@@ -111,18 +252,14 @@ const DECISION_MAP: Record<string, number> = {
 
 // ─── Public API ───────────────────────────────────────────────
 
-/** Hash a phone number for privacy (SHA-256, truncated) */
+/** Keyed, versioned caller identifier (lib/caller-hash.ts) */
 export function hashPhoneNumber(phone: string): string {
-  return crypto
-    .createHash('sha256')
-    .update(phone)
-    .digest('hex')
-    .slice(0, 16);
+  return hashCaller(phone);
 }
 
 /**
  * Create a new witness for a call decision.
- * Returns immediately; the proof pipeline runs in the background.
+ * Persists the job, then returns immediately; the proof pipeline runs in the background.
  */
 export async function createWitness(
   callSid: string,
@@ -130,86 +267,213 @@ export async function createWitness(
 ): Promise<WitnessRecord> {
   const id = `wit_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
-  const record: WitnessRecord = {
-    id,
-    callSid,
-    createdAt: new Date().toISOString(),
-    status: 'pending',
-  };
-
-  saveRecord(record);
+  const job = await insertJob(id, callSid, decisionData, witnessConfig.leaseMs);
+  console.log('⛓️ Witness recorded:', job.id, job.status);
 
   // Fire-and-forget — never blocks the phone call
-  processWitnessAsync(record, decisionData).catch((err) => {
-    console.error(`⛓️ [Witness ${id}] Pipeline failed:`, err);
-    updateStatus(id, 'failed', {
-      error: err instanceof Error ? err.message : String(err),
+  runWitnessJob(job).catch((err) => {
+    console.error(`⛓️ [Witness ${id}] Pipeline runner crashed:`, err);
+  });
+
+  return toWitnessRecord(job);
+}
+
+/**
+ * Run (or resume) a leased job to completion.
+ * Failures are recorded on the job; the lease is always released.
+ */
+export async function runWitnessJob(job: WitnessJob): Promise<void> {
+  try {
+    await processWitnessAsync(job);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`⛓️ [Witness ${job.id}] Pipeline failed:`, err);
+    demoBus.emitDemo('witness:failed', job.callSid, {
+      witnessId: job.id,
+      error: message,
+      deadLetter: err instanceof RetryExhaustedError,
     });
+
+    if (err instanceof RetryExhaustedError) {
+      await markJobDeadLettered(job.id, err.step, err.attempts, message);
+      console.warn(`⛓️ [Witness ${job.id}] Dead-lettered at step "${err.step}"`);
+    } else {
+      await markJobFailed(job.id, message, err instanceof StepFailedError ? err.step : undefined);
+    }
+  } finally {
+    await releaseJob(job.id).catch(() => { /* lease expires on its own */ });
+  }
+}
+
+/** Run one step under its retry policy, persisting every failed attempt */
+function retryStep<T>(job: WitnessJob, step: WitnessStep, fn: () => Promise<T>): Promise<T> {
+  return withRetry(step, fn, async (attempt, err, delayMs) => {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(
+      `⛓️ [Witness ${job.id}] ${step} attempt ${attempt} failed (${message}) — retrying in ${delayMs}ms`,
+    );
+    await recordRetryAttempt(job.id, step, message, witnessConfig.leaseMs);
+  });
+}
+
+/**
+ * Re-queue a dead-lettered job (operator action).
+ * The job resumes from its last completed step in the background.
+ */
+export async function requeueWitness(id: string): Promise<WitnessRecord | undefined> {
+  const job = await requeueDeadLetteredJob(id, witnessConfig.leaseMs);
+  if (!job) return undefined;
+
+  console.log(`⛓️ [Witness ${id}] Re-queued from dead letter (resume at "${job.status}")`);
+  runWitnessJob(job).catch((err) => {
+    console.error(`⛓️ [Witness ${id}] Pipeline runner crashed:`, err);
   });
 
-  return record;
+  return toWitnessRecord(job);
+}
+
+/**
+ * Append a correction or dispute to a call's on-chain record (operator action).
+ * A batched call has no CallRecord on-chain, so it is amended with its
+ * inclusion proof under the anchored batch root instead.
+ */
+export async function amendWitness(id: string, input: AmendmentInput): Promise<AmendmentResult> {
+  const job = (await getJob(id)) ?? (await getJobByCallSid(id));
+  if (!job) throw new AmendmentError('Witness record not found', 404);
+  if (job.status !== 'on-chain' || !job.artifacts.onChainCallId) {
+    throw new AmendmentError(`Decision is not on-chain yet (status "${job.status}")`, 409);
+  }
+
+  let correctedDecision = 0;
+  if (input.correctedDecision) {
+    correctedDecision = DECISION_MAP[input.correctedDecision.toUpperCase()] || 0;
+    if (!correctedDecision) {
+      throw new AmendmentError(`Unknown decision "${input.correctedDecision}"`, 400);
+    }
+  }
+
+  const tag = `⛓️ [Witness ${job.id}]`;
+  console.log(`${tag} Filing ${input.kind} by ${input.filedBy}${input.correctedDecision ? ` (→ ${input.correctedDecision.toUpperCase()})` : ''}`);
+
+  let batch: AmendmentSubmitParams['batch'];
+  if (job.batch) {
+    const { zkProofSeal, journalDataAbi } = job.artifacts;
+    if (!zkProofSeal || !journalDataAbi) {
+      throw new AmendmentError('Batched decision is missing its seal or journal', 409);
+    }
+    batch = {
+      root: job.batch.root,
+      decision: DECISION_MAP[job.decisionData.action] || 0,
+      zkProofSeal,
+      journalDataAbi,
+      proof: job.batch.proof,
+    };
+  }
+
+  const result = await submitAmendmentOnChain({
+    callId: job.artifacts.onChainCallId,
+    kind: input.kind,
+    correctedDecision,
+    reason: input.reason,
+    filedBy: input.filedBy,
+    batch,
+  });
+
+  console.log(`${tag} ✅ Amendment #${result.index} recorded! TX: ${result.txHash}`);
+  return result;
 }
 
 // ─── Pipeline ─────────────────────────────────────────────────
 
-async function processWitnessAsync(
-  record: WitnessRecord,
-  data: DecisionData,
-): Promise<void> {
-  const tag = `⛓️ [Witness ${record.id}]`;
+/** Store the signed attested fields of the decision with the job — never fails the pipeline */
+async function keepSignedDecision(job: WitnessJob): Promise<void> {
+  const tag = `⛓️ [Witness ${job.id}]`;
+  try {
+    const record = await getDecisionForProof(job.callSid);
+    if (!record) {
+      console.warn(`${tag} No decision record to sign — the Decision API has expired it`);
+      return;
+    }
+    const attestation = await buildDecisionAttestation(record);
+    const { signature } = attestation;
+    if (!signature) return;
+    const signed: SignedDecision = { ...attestation, signature };
+    await saveSignedDecision(job.id, signed);
+    job.signedDecision = signed;
+    console.log(`${tag} 🔏 Signed decision kept (key ${signature.keyId})`);
+  } catch (err) {
+    console.warn(`${tag} Could not keep a signed decision:`, err instanceof Error ? err.message : err);
+  }
+}
 
-  demoBus.emitDemo('witness:start', record.callSid, {
-    witnessId: record.id,
+async function processWitnessAsync(job: WitnessJob): Promise<void> {
+  const tag = `⛓️ [Witness ${job.id}]`;
+  const data = job.decisionData;
+  const { leaseMs } = witnessConfig;
+  let { webProof, zkProofSeal, journalDataAbi } = job.artifacts;
+
+  demoBus.emitDemo('witness:start', job.callSid, {
+    witnessId: job.id,
     decision: data.action,
     reason: data.reason,
+    ...(job.status !== 'pending' && { resumedFrom: job.status }),
   });
 
+  if (job.status !== 'pending') {
+    console.log(`${tag} Resuming from step "${job.status}"`);
+  }
+
+  if (!job.signedDecision) {
+    await keepSignedDecision(job);
+  }
+
   if (!vlayerConfig.apiKey) {
     console.log(`${tag} VLAYER_API_KEY not set — skipping proof pipeline`);
-    updateStatus(record.id, 'failed', {
-      error: 'VLAYER_API_KEY not configured',
-    });
+    await markJobFailed(job.id, 'VLAYER_API_KEY not configured');
     return;
   }
 
   // Step 1: Web Proof (prove our own decision API via TLSNotary)
-  const proofUrl = getProofSourceUrl(record.callSid);
-  console.log(`${tag} Step 1/3: Generating Web Proof from ${proofUrl}`);
-  const webProof = await vlayerWebProof(proofUrl);
-  updateStatus(record.id, 'web-proof', {
-    webProof: {
-      proofId: `wp_${Date.now()}`,
-      generatedAt: new Date().toISOString(),
-    },
-  });
-  console.log(`${tag} ✅ Web Proof generated (${webProof.data.length} chars)`);
-  demoBus.emitDemo('witness:web-proof', record.callSid, {
-    witnessId: record.id,
-    proofSize: webProof.data.length,
-    sourceUrl: proofUrl,
-  });
+  if (job.status === 'pending' || !webProof) {
+    const proofUrl = getProofSourceUrl(job.callSid);
+    console.log(`${tag} Step 1/3: Generating Web Proof from ${proofUrl}`);
+    webProof = await retryStep(job, 'web-proof', () => vlayerWebProof(proofUrl));
+    await completeWebProofStep(job.id, webProof, `wp_${Date.now()}`, leaseMs);
+    console.log(`${tag} ✅ Web Proof generated (${webProof.data.length} chars)`);
+    demoBus.emitDemo('witness:web-proof', job.callSid, {
+      witnessId: job.id,
+      proofSize: webProof.data.length,
+      sourceUrl: proofUrl,
+    });
+  }
 
   // Step 2: ZK Proof
-  console.log(
-    `${tag} Step 2/3: Compressing to ZK Proof [${PROOF_JMESPATH.join(', ')}]`,
-  );
-  const { zkProof, journalDataAbi } = await vlayerZKProof(
-    webProof,
-    PROOF_JMESPATH,
-  );
-  const proofHash = crypto
-    .createHash('sha256')
-    .update(zkProof)
-    .digest('hex')
-    .slice(0, 16);
-  updateStatus(record.id, 'zk-proof', {
-    zkProof: { hash: proofHash, generatedAt: new Date().toISOString() },
-  });
-  console.log(`${tag} ✅ ZK Proof compressed (seal hash: ${proofHash})`);
-  demoBus.emitDemo('witness:zk-proof', record.callSid, {
-    witnessId: record.id,
-    sealHash: proofHash,
-  });
+  if (job.status !== 'zk-proof' || !zkProofSeal || !journalDataAbi) {
+    console.log(
+      `${tag} Step 2/3: Compressing to ZK Proof [${PROOF_JMESPATH.join(', ')}]`,
+    );
+    const presentation = webProof;
+    const compressed = await retryStep(job, 'zk-proof', () =>
+      vlayerZKProof(presentation, PROOF_JMESPATH),
+    );
+    zkProofSeal = compressed.zkProof;
+    journalDataAbi = compressed.journalDataAbi;
+    const proofHash = crypto
+      .createHash('sha256')
+      .update(zkProofSeal)
+      .digest('hex')
+      .slice(0, 16);
+    await completeZkProofStep(
+      job.id,
+      { seal: zkProofSeal, journalDataAbi, hash: proofHash },
+      leaseMs,
+    );
+    console.log(`${tag} ✅ ZK Proof compressed (seal hash: ${proofHash})`);
+    demoBus.emitDemo('witness:zk-proof', job.callSid, {
+      witnessId: job.id,
+      sealHash: proofHash,
+    });
+  }
 
   // Step 3: On-Chain
   const decisionNum = DECISION_MAP[data.action] || 0;
@@ -217,48 +481,82 @@ async function processWitnessAsync(
     console.warn(
       `${tag} Unknown decision "${data.action}" — skipping on-chain`,
     );
+    await markJobFailed(job.id, `Unknown decision "${data.action}"`);
     return;
   }
 
-  console.log(
-    `${tag} Step 3/3: Submitting to Base Sepolia (decision=${data.action})`,
-  );
+  // Reserve the callId first so a resumed submission cannot double-register
+  const callId = job.artifacts.onChainCallId || generateCallId(job.callSid);
+  if (!job.artifacts.onChainCallId) {
+    await reserveOnChainCallId(job.id, callId);
+  }
 
-  try {
-    const result = await submitDecisionOnChain({
-      callSid: record.callSid,
-      decision: decisionNum,
-      reason: data.reason,    // must match journal's provenReason exactly
-      zkProofSeal: zkProof,
-      journalDataAbi,
-    });
+  if (witnessBatchConfig.enabled) {
+    const leaf = batchLeaf({ callId, decision: decisionNum, journalDataAbi, zkProofSeal });
+    await queueJobForBatch(job.id, leaf);
+    console.log(`${tag} Step 3/3: Queued for batch anchoring (leaf ${leaf.slice(0, 18)}…)`);
+    demoBus.emitDemo('witness:batched', job.callSid, { witnessId: job.id, leaf });
 
-    updateStatus(record.id, 'on-chain', {
-      onChain: {
-        txHash: result.txHash,
-        blockNumber: result.blockNumber,
-        contractAddress: result.contractAddress,
-        submittedAt: new Date().toISOString(),
-      },
+    // Size trigger — the worker sweep handles the time trigger
+    flushWitnessBatches().catch((err) => {
+      console.error(`${tag} Batch flush failed:`, err instanceof Error ? err.message : err);
     });
+    return;
+  }
 
-    console.log(`${tag} ✅ On-chain! TX: ${result.txHash}`);
-    console.log(
-      `${tag} 🔗 https://sepolia.basescan.org/tx/${result.txHash}`,
-    );
-    demoBus.emitDemo('witness:on-chain', record.callSid, {
-      witnessId: record.id,
-      txHash: result.txHash,
-      blockNumber: result.blockNumber,
-    });
-  } catch (err) {
-    console.error(`${tag} ❌ On-chain submission failed:`, err);
-    demoBus.emitDemo('witness:failed', record.callSid, {
-      witnessId: record.id,
-      error: err instanceof Error ? err.message : String(err),
-    });
-    updateStatus(record.id, 'failed', {
-      error: `On-chain failed: ${err instanceof Error ? err.message : String(err)}`,
-    });
+  const submitTo = (network: RegistryNetwork) => submitDecisionOnChain({
+    callSid: job.callSid,
+    callId,
+    decision: decisionNum,
+    reason: data.reason,    // must match journal's provenReason exactly
+    zkProofSeal,
+    journalDataAbi,
+  }, network);
+  const networkName = (chainId: number) => findChainInfo(chainId)?.name ?? `chain ${chainId}`;
+  const logTx = (result: OnChainResult) => {
+    console.log(`${tag} ✅ On-chain (${networkName(result.chainId)})! TX: ${result.txHash}`);
+    const txUrl = explorerTxUrl(result.chainId, result.txHash);
+    if (txUrl) console.log(`${tag} 🔗 ${txUrl}`);
+  };
+
+  // Primary — the job is on-chain as soon as it lands (a resumed job may already have it)
+  const [primary, ...mirrors] = registryNetworks;
+  const landed = job.artifacts.networkTxs.find((tx) => tx.chainId === primary.chainId && !tx.error);
+  let result: OnChainResult;
+  if (landed) {
+    result = { ...landed, callId };
+  } else {
+    console.log(`${tag} Step 3/3: Submitting to ${networkName(primary.chainId)} (decision=${data.action})`);
+    result = await retryStep(job, 'on-chain', () => submitTo(primary));
+    await recordNetworkTx(job.id, result);
+    logTx(result);
+  }
+  await completeOnChainStep(job.id, result);
+
+  demoBus.emitDemo('witness:on-chain', job.callSid, {
+    witnessId: job.id,
+    txHash: result.txHash,
+    blockNumber: result.blockNumber,
+    networks: [primary.chainId],
+  });
+
+  // Mirrors — best-effort, with retries of their own: a failure is recorded
+  // in onChain.networks and never fails (or dead-letters) the job
+  for (const network of mirrors) {
+    if (job.artifacts.networkTxs.some((tx) => tx.chainId === network.chainId && !tx.error)) continue;
+    try {
+      const mirrored = await withRetry('on-chain', () => submitTo(network), (attempt, err, delayMs) => {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`${tag} ${networkName(network.chainId)} attempt ${attempt} failed (${message}) — retrying in ${delayMs}ms`);
+      });
+      await recordNetworkTx(job.id, mirrored);
+      logTx(mirrored);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`${tag} ❌ Mirror ${networkName(network.chainId)} not registered: ${message}`);
+      await recordNetworkError(job.id, network, message).catch((storeErr) => {
+        console.error(`${tag} Could not record the mirror error:`, storeErr instanceof Error ? storeErr.message : storeErr);
+      });
+    }
   }
 }
@@ -0,0 +1,611 @@
+/**
+ * Registry Index Store — PostgreSQL
+ *
+ * VeriCallRegistry records as the indexer (indexer.ts) read them from
+ * CallDecisionRecorded / ProofVerified / BatchAnchored / DecisionAmended logs,
+ * one set per (chain, contract):
+ *
+ *   registry_records         getRecord() + its decoded journal per callId
+ *   registry_batches         one row per BatchAnchored (its calls are only in the Merkle tree)
+ *   registry_amendments      getAmendments() entries, one row per DecisionAmended
+ *   registry_index_cursors   last indexed block + its hash, leased to one instance
+ *
+ * Every row keeps the block it came from, so a reorg is undone by deleting
+ * everything above the fork point and scanning those blocks again.
+ */
+
+import { query } from '@/lib/db';
+
+// ─── Types ────────────────────────────────────────────────────
+
+/** A registry on one chain */
+export interface RegistryKey {
+  chainId: number;
+  contract: string;
+}
+
+export interface IndexCursor extends RegistryKey {
+  /** Last block whose logs are fully stored */
+  blockNumber: number;
+  /** Its hash when indexed (null before the first block) */
+  blockHash: string | null;
+  updatedAt: string;
+}
+
+/** Where a log came from */
+export interface LogPosition {
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface IndexedRecord extends LogPosition {
+  callId: string;
+  decision: number;
+  reason: string;
+  sourceUrl: string;
+  timestamp: number;
+  submitter: string;
+  verified: boolean;
+  journalHash: string;
+  /** keccak256(journalDataAbi) == journalHash */
+  journalVerified: boolean;
+  zkProofSeal: string;
+  journalDataAbi: string;
+  /** The decoded journal — null when it could not be decoded */
+  proven: {
+    notaryKeyFingerprint: string;
+    method: string;
+    url: string;
+    proofTimestamp: number;
+    queriesHash: string;
+    decision: string;
+    reason: string;
+    systemPromptHash: string;
+    transcriptHash: string;
+    sourceCodeCommit: string;
+    /** '' for 10-field (pre-V5) journals */
+    audioHash: string;
+  } | null;
+  /** From ProofVerified */
+  imageId?: string;
+  journalDigest?: string;
+}
+
+export interface IndexedBatch extends LogPosition {
+  root: string;
+  size: number;
+  /** imageId the batch's seals verify against */
+  imageId: string;
+  timestamp: number;
+  submitter: string;
+}
+
+export interface IndexedAmendment extends LogPosition {
+  callId: string;
+  index: number;
+  kind: number;
+  correctedDecision: number;
+  reason: string;
+  filedBy: string;
+  timestamp: number;
+  submitter: string;
+}
+
+export interface RecordFilter {
+  decision?: number;
+  verified?: boolean;
+  submitter?: string;
+  callId?: string;
+  /** Unix seconds, inclusive */
+  since?: number;
+  until?: number;
+}
+
+export interface RecordPage {
+  /** Records matching the filter */
+  total: number;
+  records: Array<IndexedRecord & { index: number; amendments: IndexedAmendment[] }>;
+}
+
+export interface RegistryIndexStats {
+  total: number;
+  accepted: number;
+  blocked: number;
+  recorded: number;
+  /** Anchored batches and the calls in them (not in `total`) */
+  batches: number;
+  batchedCalls: number;
+}
+
+// ─── Schema ───────────────────────────────────────────────────
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS registry_records (
+    chain_id                   INT NOT NULL,
+    contract                   TEXT NOT NULL,
+    call_id                    TEXT NOT NULL,
+    decision                   SMALLINT NOT NULL,
+    reason                     TEXT NOT NULL,
+    source_url                 TEXT NOT NULL,
+    record_timestamp           BIGINT NOT NULL,
+    submitter                  TEXT NOT NULL,
+    verified                   BOOLEAN NOT NULL,
+    journal_hash               TEXT NOT NULL,
+    journal_verified           BOOLEAN NOT NULL,
+    zk_proof_seal              TEXT NOT NULL,
+    journal_data_abi           TEXT NOT NULL,
+    notary_key_fingerprint     TEXT,
+    method                     TEXT,
+    proven_url                 TEXT,
+    proof_timestamp            BIGINT,
+    queries_hash               TEXT,
+    proven_decision            TEXT,
+    proven_reason              TEXT,
+    proven_system_prompt_hash  TEXT,
+    proven_transcript_hash     TEXT,
+    proven_source_code_commit  TEXT,
+    image_id                   TEXT,
+    journal_digest             TEXT,
+    block_number               BIGINT NOT NULL,
+    block_hash                 TEXT NOT NULL,
+    tx_hash                    TEXT NOT NULL,
+    log_index                  INT NOT NULL,
+    indexed_at                 TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (chain_id, contract, call_id)
+  );
+  ALTER TABLE registry_records ADD COLUMN IF NOT EXISTS proven_audio_hash TEXT;
+  CREATE INDEX IF NOT EXISTS registry_records_order_idx
+    ON registry_records (chain_id, contract, block_number, log_index);
+  CREATE INDEX IF NOT EXISTS registry_records_decision_idx
+    ON registry_records (chain_id, contract, decision);
+
+  CREATE TABLE IF NOT EXISTS registry_batches (
+    chain_id         INT NOT NULL,
+    contract         TEXT NOT NULL,
+    root             TEXT NOT NULL,
+    size             INT NOT NULL,
+    image_id         TEXT NOT NULL,
+    batch_timestamp  BIGINT NOT NULL,
+    submitter        TEXT NOT NULL,
+    block_number     BIGINT NOT NULL,
+    block_hash       TEXT NOT NULL,
+    tx_hash          TEXT NOT NULL,
+    log_index        INT NOT NULL,
+    PRIMARY KEY (chain_id, contract, root)
+  );
+
+  CREATE TABLE IF NOT EXISTS registry_amendments (
+    chain_id             INT NOT NULL,
+    contract             TEXT NOT NULL,
+    call_id              TEXT NOT NULL,
+    amendment_index      INT NOT NULL,
+    kind                 SMALLINT NOT NULL,
+    corrected_decision   SMALLINT NOT NULL,
+    reason               TEXT NOT NULL,
+    filed_by             TEXT NOT NULL,
+    amendment_timestamp  BIGINT NOT NULL,
+    submitter            TEXT NOT NULL,
+    block_number         BIGINT NOT NULL,
+    block_hash           TEXT NOT NULL,
+    tx_hash              TEXT NOT NULL,
+    log_index            INT NOT NULL,
+    PRIMARY KEY (chain_id, contract, call_id, amendment_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS registry_index_cursors (
+    chain_id      INT NOT NULL,
+    contract      TEXT NOT NULL,
+    block_number  BIGINT NOT NULL,
+    block_hash    TEXT,
+    lease_owner   TEXT,
+    locked_until  TIMESTAMPTZ,
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (chain_id, contract)
+  );
+`;
+
+let _schemaReady: Promise<void> | null = null;
+
+/** Create the registry index tables on first use (idempotent) */
+function ensureSchema(): Promise<void> {
+  if (!_schemaReady) {
+    _schemaReady = query(SCHEMA)
+      .then(() => undefined)
+      .catch((err) => {
+        _schemaReady = null;
+        throw err;
+      });
+  }
+  return _schemaReady;
+}
+
+// ─── Row Mapping ──────────────────────────────────────────────
+
+function toIso(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function rowToCursor(row: any): IndexCursor {
+  return {
+    chainId: row.chain_id,
+    contract: row.contract,
+    blockNumber: Number(row.block_number),
+    blockHash: row.block_hash || null,
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+function rowToRecord(row: any): IndexedRecord {
+  return {
+    callId: row.call_id,
+    decision: row.decision,
+    reason: row.reason,
+    sourceUrl: row.source_url,
+    timestamp: Number(row.record_timestamp),
+    submitter: row.submitter,
+    verified: row.verified,
+    journalHash: row.journal_hash,
+    journalVerified: row.journal_verified,
+    zkProofSeal: row.zk_proof_seal,
+    journalDataAbi: row.journal_data_abi,
+    proven: row.method != null
+      ? {
+          notaryKeyFingerprint: row.notary_key_fingerprint,
+          method: row.method,
+          url: row.proven_url,
+          proofTimestamp: Number(row.proof_timestamp),
+          queriesHash: row.queries_hash,
+          decision: row.proven_decision,
+          reason: row.proven_reason,
+          systemPromptHash: row.proven_system_prompt_hash,
+          transcriptHash: row.proven_transcript_hash,
+          sourceCodeCommit: row.proven_source_code_commit,
+          audioHash: row.proven_audio_hash ?? '',
+        }
+      : null,
+    imageId: row.image_id || undefined,
+    journalDigest: row.journal_digest || undefined,
+    blockNumber: Number(row.block_number),
+    blockHash: row.block_hash,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+  };
+}
+
+function rowToBatch(row: any): IndexedBatch {
+  return {
+    root: row.root,
+    size: row.size,
+    imageId: row.image_id,
+    timestamp: Number(row.batch_timestamp),
+    submitter: row.submitter,
+    blockNumber: Number(row.block_number),
+    blockHash: row.block_hash,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+  };
+}
+
+function rowToAmendment(row: any): IndexedAmendment {
+  return {
+    callId: row.call_id,
+    index: row.amendment_index,
+    kind: row.kind,
+    correctedDecision: row.corrected_decision,
+    reason: row.reason,
+    filedBy: row.filed_by,
+    timestamp: Number(row.amendment_timestamp),
+    submitter: row.submitter,
+    blockNumber: Number(row.block_number),
+    blockHash: row.block_hash,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+  };
+}
+
+// ─── Cursors ──────────────────────────────────────────────────
+
+export async function getIndexCursor(key: RegistryKey): Promise<IndexCursor | undefined> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM registry_index_cursors WHERE chain_id = $1 AND contract = $2`,
+    [key.chainId, key.contract.toLowerCase()],
+  );
+  return res.rows.length ? rowToCursor(res.rows[0]) : undefined;
+}
+
+/**
+ * Take (or renew) the lease on a registry's cursor, creating it just
+ * before `startBlock` on first use. Returns undefined while another
+ * instance holds it.
+ */
+export async function claimIndexCursor(
+  key: RegistryKey,
+  startBlock: number,
+  owner: string,
+  leaseMs: number,
+): Promise<IndexCursor | undefined> {
+  await ensureSchema();
+  await query(
+    `INSERT INTO registry_index_cursors (chain_id, contract, block_number)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (chain_id, contract) DO NOTHING`,
+    [key.chainId, key.contract.toLowerCase(), startBlock - 1],
+  );
+  const res = await query(
+    `UPDATE registry_index_cursors SET
+       lease_owner = $3,
+       locked_until = NOW() + $4::int * interval '1 millisecond'
+     WHERE chain_id = $1 AND contract = $2
+       AND (lease_owner = $3 OR locked_until IS NULL OR locked_until < NOW())
+     RETURNING *`,
+    [key.chainId, key.contract.toLowerCase(), owner, leaseMs],
+  );
+  return res.rows.length ? rowToCursor(res.rows[0]) : undefined;
+}
+
+/** Every log up to `blockNumber` is stored — move the cursor and renew the lease */
+export async function advanceIndexCursor(
+  key: RegistryKey,
+  owner: string,
+  leaseMs: number,
+  blockNumber: number,
+  blockHash: string,
+): Promise<void> {
+  await query(
+    `UPDATE registry_index_cursors SET
+       block_number = $4,
+       block_hash = $5,
+       locked_until = NOW() + $6::int * interval '1 millisecond',
+       updated_at = NOW()
+     WHERE chain_id = $1 AND contract = $2 AND lease_owner = $3`,
+    [key.chainId, key.contract.toLowerCase(), owner, blockNumber, blockHash, leaseMs],
+  );
+}
+
+/**
+ * Undo everything above `blockNumber` (a reorg replaced those blocks):
+ * records, batches and amendments from them are deleted and the cursor
+ * moves back, so the next run scans them again.
+ */
+export async function rewindIndex(
+  key: RegistryKey,
+  blockNumber: number,
+  blockHash: string | null,
+): Promise<{ records: number; batches: number; amendments: number }> {
+  const params = [key.chainId, key.contract.toLowerCase(), blockNumber];
+  const records = await query(
+    `DELETE FROM registry_records WHERE chain_id = $1 AND contract = $2 AND block_number > $3`,
+    params,
+  );
+  const batches = await query(
+    `DELETE FROM registry_batches WHERE chain_id = $1 AND contract = $2 AND block_number > $3`,
+    params,
+  );
+  const amendments = await query(
+    `DELETE FROM registry_amendments WHERE chain_id = $1 AND contract = $2 AND block_number > $3`,
+    params,
+  );
+  await query(
+    `UPDATE registry_index_cursors SET block_number = $3, block_hash = $4, updated_at = NOW()
+     WHERE chain_id = $1 AND contract = $2`,
+    [...params, blockHash],
+  );
+  return {
+    records: records.rowCount ?? 0,
+    batches: batches.rowCount ?? 0,
+    amendments: amendments.rowCount ?? 0,
+  };
+}
+
+// ─── Writes ───────────────────────────────────────────────────
+
+/** Insert a record, or move it to the block it was re-mined in */
+export async function upsertIndexedRecord(key: RegistryKey, record: IndexedRecord): Promise<void> {
+  const p = record.proven;
+  await query(
+    `INSERT INTO registry_records
+       (chain_id, contract, call_id, decision, reason, source_url, record_timestamp, submitter,
+        verified, journal_hash, journal_verified, zk_proof_seal, journal_data_abi,
+        notary_key_fingerprint, method, proven_url, proof_timestamp, queries_hash,
+        proven_decision, proven_reason, proven_system_prompt_hash, proven_transcript_hash,
+        proven_source_code_commit, block_number, block_hash, tx_hash, log_index, proven_audio_hash)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18,
+             $19, $20, $21, $22, $23, $24, $25, $26, $27, $28)
+     ON CONFLICT (chain_id, contract, call_id) DO UPDATE SET
+       block_number = EXCLUDED.block_number,
+       block_hash = EXCLUDED.block_hash,
+       tx_hash = EXCLUDED.tx_hash,
+       log_index = EXCLUDED.log_index,
+       indexed_at = NOW()`,
+    [
+      key.chainId, key.contract.toLowerCase(), record.callId, record.decision, record.reason,
+      record.sourceUrl, record.timestamp, record.submitter, record.verified, record.journalHash,
+      record.journalVerified, record.zkProofSeal, record.journalDataAbi,
+      p?.notaryKeyFingerprint ?? null, p?.method ?? null, p?.url ?? null, p?.proofTimestamp ?? null,
+      p?.queriesHash ?? null, p?.decision ?? null, p?.reason ?? null, p?.systemPromptHash ?? null,
+      p?.transcriptHash ?? null, p?.sourceCodeCommit ?? null,
+      record.blockNumber, record.blockHash, record.txHash, record.logIndex, p?.audioHash ?? null,
+    ],
+  );
+}
+
+/** ProofVerified for a stored record */
+export async function markIndexedProof(
+  key: RegistryKey,
+  callId: string,
+  imageId: string,
+  journalDigest: string,
+): Promise<void> {
+  await query(
+    `UPDATE registry_records SET image_id = $4, journal_digest = $5
+     WHERE chain_id = $1 AND contract = $2 AND call_id = $3`,
+    [key.chainId, key.contract.toLowerCase(), callId, imageId, journalDigest],
+  );
+}
+
+/** Insert a BatchAnchored batch, or move it to the block it was re-mined in */
+export async function upsertIndexedBatch(key: RegistryKey, batch: IndexedBatch): Promise<void> {
+  await query(
+    `INSERT INTO registry_batches
+       (chain_id, contract, root, size, image_id, batch_timestamp, submitter,
+        block_number, block_hash, tx_hash, log_index)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     ON CONFLICT (chain_id, contract, root) DO UPDATE SET
+       block_number = EXCLUDED.block_number,
+       block_hash = EXCLUDED.block_hash,
+       tx_hash = EXCLUDED.tx_hash,
+       log_index = EXCLUDED.log_index`,
+    [
+      key.chainId, key.contract.toLowerCase(), batch.root, batch.size, batch.imageId, batch.timestamp,
+      batch.submitter, batch.blockNumber, batch.blockHash, batch.txHash, batch.logIndex,
+    ],
+  );
+}
+
+export async function upsertIndexedAmendment(key: RegistryKey, amendment: IndexedAmendment): Promise<void> {
+  await query(
+    `INSERT INTO registry_amendments
+       (chain_id, contract, call_id, amendment_index, kind, corrected_decision, reason, filed_by,
+        amendment_timestamp, submitter, block_number, block_hash, tx_hash, log_index)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     ON CONFLICT (chain_id, contract, call_id, amendment_index) DO UPDATE SET
+       block_number = EXCLUDED.block_number,
+       block_hash = EXCLUDED.block_hash,
+       tx_hash = EXCLUDED.tx_hash,
+       log_index = EXCLUDED.log_index`,
+    [
+      key.chainId, key.contract.toLowerCase(), amendment.callId, amendment.index, amendment.kind,
+      amendment.correctedDecision, amendment.reason, amendment.filedBy, amendment.timestamp,
+      amendment.submitter, amendment.blockNumber, amendment.blockHash, amendment.txHash,
+      amendment.logIndex,
+    ],
+  );
+}
+
+// ─── Queries ──────────────────────────────────────────────────
+
+/**
+ * One page of records in registration order (`index` = position in the
+ * contract's callIds[]), with their amendments.
+ */
+export async function queryIndexedRecords(
+  key: RegistryKey,
+  filter: RecordFilter,
+  page: { limit: number; offset: number; order: 'asc' | 'desc' },
+): Promise<RecordPage> {
+  await ensureSchema();
+
+  const params: unknown[] = [key.chainId, key.contract.toLowerCase()];
+  const where: string[] = [];
+  const add = (clause: string, value: unknown) => {
+    params.push(value);
+    where.push(clause.replace('?', `$${params.length}`));
+  };
+  if (filter.decision !== undefined) add('decision = ?', filter.decision);
+  if (filter.verified !== undefined) add('verified = ?', filter.verified);
+  if (filter.submitter) add('LOWER(submitter) = ?', filter.submitter.toLowerCase());
+  if (filter.callId) add('LOWER(call_id) = ?', filter.callId.toLowerCase());
+  if (filter.since !== undefined) add('record_timestamp >= ?', filter.since);
+  if (filter.until !== undefined) add('record_timestamp <= ?', filter.until);
+
+  const ranked = `
+    SELECT *, ROW_NUMBER() OVER (ORDER BY block_number, log_index) - 1 AS record_index
+    FROM registry_records WHERE chain_id = $1 AND contract = $2`;
+  const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+  const count = await query(`SELECT COUNT(*) AS n FROM (${ranked}) r ${whereSql}`, params);
+  const rows = await query(
+    `SELECT * FROM (${ranked}) r ${whereSql}
+     ORDER BY record_index ${page.order === 'desc' ? 'DESC' : 'ASC'}
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, page.limit, page.offset],
+  );
+
+  const callIds = rows.rows.map((row: any) => row.call_id);
+  const amendments = new Map<string, IndexedAmendment[]>();
+  if (callIds.length) {
+    const res = await query(
+      `SELECT * FROM registry_amendments
+       WHERE chain_id = $1 AND contract = $2 AND call_id = ANY($3::text[])
+       ORDER BY amendment_index`,
+      [key.chainId, key.contract.toLowerCase(), callIds],
+    );
+    for (const row of res.rows) {
+      const amendment = rowToAmendment(row);
+      amendments.set(amendment.callId, [...(amendments.get(amendment.callId) ?? []), amendment]);
+    }
+  }
+
+  return {
+    total: Number(count.rows[0].n),
+    records: rows.rows.map((row: any) => ({
+      ...rowToRecord(row),
+      index: Number(row.record_index),
+      amendments: amendments.get(row.call_id) ?? [],
+    })),
+  };
+}
+
+/** Decision counts over everything indexed (getStats() as of the cursor) */
+export async function getIndexedStats(key: RegistryKey): Promise<RegistryIndexStats> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT
+       COUNT(*) AS total,
+       COUNT(*) FILTER (WHERE decision = 1) AS accepted,
+       COUNT(*) FILTER (WHERE decision = 2) AS blocked,
+       COUNT(*) FILTER (WHERE decision = 3) AS recorded
+     FROM registry_records WHERE chain_id = $1 AND contract = $2`,
+    [key.chainId, key.contract.toLowerCase()],
+  );
+  const batches = await query(
+    `SELECT COUNT(*) AS batches, COALESCE(SUM(size), 0) AS batched_calls
+     FROM registry_batches WHERE chain_id = $1 AND contract = $2`,
+    [key.chainId, key.contract.toLowerCase()],
+  );
+  const row = res.rows[0];
+  return {
+    total: Number(row.total),
+    accepted: Number(row.accepted),
+    blocked: Number(row.blocked),
+    recorded: Number(row.recorded),
+    batches: Number(batches.rows[0].batches),
+    batchedCalls: Number(batches.rows[0].batched_calls),
+  };
+}
+
+/**
+ * Latest anchored batches, newest first. Their calls are leaves of the
+ * Merkle root only — proven with an inclusion proof, not listed here.
+ */
+export async function queryIndexedBatches(key: RegistryKey, limit: number): Promise<IndexedBatch[]> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM registry_batches WHERE chain_id = $1 AND contract = $2
+     ORDER BY block_number DESC, log_index DESC LIMIT $3`,
+    [key.chainId, key.contract.toLowerCase(), limit],
+  );
+  return res.rows.map(rowToBatch);
+}
+
+/**
+ * Latest amendments on calls with no indexed record — batched calls,
+ * amended through amendBatchedDecision(). Newest first.
+ */
+export async function queryBatchedAmendments(key: RegistryKey, limit: number): Promise<IndexedAmendment[]> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT a.* FROM registry_amendments a
+     WHERE a.chain_id = $1 AND a.contract = $2
+       AND NOT EXISTS (
+         SELECT 1 FROM registry_records r
+         WHERE r.chain_id = a.chain_id AND r.contract = a.contract AND r.call_id = a.call_id
+       )
+     ORDER BY a.block_number DESC, a.log_index DESC LIMIT $3`,
+    [key.chainId, key.contract.toLowerCase(), limit],
+  );
+  return res.rows.map(rowToAmendment);
+}
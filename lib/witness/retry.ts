@@ -0,0 +1,146 @@
+/**
+ * Witness Retry Policies
+ *
+ * Each pipeline step retries transient failures with exponential backoff
+ * and full jitter. A step that runs out of attempts throws
+ * RetryExhaustedError, which the pipeline turns into a dead-lettered job
+ * that operators can re-queue (POST /witness/requeue/[id]). A non-retryable
+ * error throws StepFailedError and the job is marked `failed`.
+ *
+ * Retryable:
+ *   web-proof / zk-proof — vlayer HTTP codes in WITNESS_RETRYABLE_HTTP_CODES, network errors
+ *   on-chain             — RPC timeouts / transport errors, nonce races, underpriced replacements,
+ *                          TXs the tx manager cancelled or lost to a foreign nonce
+ * Everything else (contract reverts, bad config) fails immediately.
+ */
+
+import { retryConfig } from '@/lib/config';
+import { VlayerApiError } from '@/lib/witness/vlayer-api';
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type WitnessStep = 'web-proof' | 'zk-proof' | 'on-chain';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+function messageOf(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Thrown when a step failed with a non-retryable error */
+export class StepFailedError extends Error {
+  constructor(
+    readonly step: WitnessStep,
+    readonly lastError: unknown,
+    message = `${step} failed: ${messageOf(lastError)}`,
+  ) {
+    super(message);
+    this.name = 'StepFailedError';
+  }
+}
+
+/** Thrown when a step failed on its last allowed attempt */
+export class RetryExhaustedError extends StepFailedError {
+  constructor(
+    step: WitnessStep,
+    readonly attempts: number,
+    lastError: unknown,
+  ) {
+    super(step, lastError, `${step} failed after ${attempts} attempt(s): ${messageOf(lastError)}`);
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+// ─── Policy ───────────────────────────────────────────────────
+
+export function getRetryPolicy(step: WitnessStep): RetryPolicy {
+  switch (step) {
+    case 'web-proof': return retryConfig.webProof;
+    case 'zk-proof': return retryConfig.zkProof;
+    case 'on-chain': return retryConfig.onChain;
+  }
+}
+
+/** Full-jitter backoff: random delay in [0, min(max, base · 2^(attempt-1))] */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+// ─── Classification ───────────────────────────────────────────
+
+/** The error and its `cause` chain (viem wraps transport errors several levels deep) */
+export function errorChain(err: unknown): any[] {
+  const chain: any[] = [];
+  let current: any = err;
+  while (current && chain.length < 10) {
+    chain.push(current);
+    current = current.cause;
+  }
+  return chain;
+}
+
+const NETWORK_ERROR_PATTERN = /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up/i;
+
+const RPC_ERROR_NAMES = new Set([
+  'TimeoutError',
+  'HttpRequestError',
+  'WaitForTransactionReceiptTimeoutError',
+  'NonceTooLowError',
+  'NonceTooHighError',
+  'NonceMaxValueError',
+  'TransactionDroppedError',
+]);
+
+const RPC_ERROR_PATTERN = /timed? ?out|nonce too low|nonce has already been used|replacement transaction underpriced|already known/i;
+
+export function isRetryable(step: WitnessStep, err: unknown): boolean {
+  const chain = errorChain(err);
+
+  if (step === 'web-proof' || step === 'zk-proof') {
+    return chain.some((e) =>
+      e instanceof VlayerApiError
+        ? retryConfig.retryableHttpCodes.includes(e.status)
+        : NETWORK_ERROR_PATTERN.test(String(e?.message)) || NETWORK_ERROR_PATTERN.test(String(e?.code)),
+    );
+  }
+
+  // on-chain: a contract revert is never transient
+  if (chain.some((e) => e?.name === 'ContractFunctionRevertedError')) return false;
+  return chain.some((e) =>
+    RPC_ERROR_NAMES.has(e?.name)
+      || RPC_ERROR_PATTERN.test(String(e?.message))
+      || NETWORK_ERROR_PATTERN.test(String(e?.message)),
+  );
+}
+
+// ─── Runner ───────────────────────────────────────────────────
+
+/**
+ * Run `fn` under the step's retry policy.
+ * `onRetry` is awaited before each backoff sleep (used to persist attempts).
+ */
+export async function withRetry<T>(
+  step: WitnessStep,
+  fn: (attempt: number) => Promise<T>,
+  onRetry?: (attempt: number, err: unknown, delayMs: number) => Promise<void> | void,
+): Promise<T> {
+  const policy = getRetryPolicy(step);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (!isRetryable(step, err)) throw new StepFailedError(step, err);
+      if (attempt >= policy.maxAttempts) throw new RetryExhaustedError(step, attempt, err);
+
+      const delayMs = backoffDelay(policy, attempt);
+      await onRetry?.(attempt, err, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
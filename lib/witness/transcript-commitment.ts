@@ -0,0 +1,126 @@
+/**
+ * Salted Transcript Commitments
+ *
+ * The Decision API (and through the Web Proof, the chain) only carries a
+ * commitment to the conversation — never the text. An unsalted SHA-256 of a
+ * short transcript can be brute-forced; with a per-call secret salt it can't.
+ *
+ *   turnSalt[i]       = HMAC-SHA256(callSalt, "vericall-turn:" + i)
+ *   turnCommitment[i] = SHA-256(turnSalt[i] ‖ "\n" ‖ role ‖ "\n" ‖ content)
+ *   transcriptHash    = SHA-256("vericall-transcript-v1" ‖ "\n" ‖ turnCommitment[0] ‖ "\n" ‖ …)
+ *
+ * Turn salts are derived one-way from the call salt, so the owner can
+ * reveal a single turn (its content + turn salt + every turn commitment)
+ * without exposing the others, or reveal them all. Anyone can then
+ * recompute transcriptHash and compare it with the on-chain journal.
+ */
+
+import crypto from 'crypto';
+
+export const TRANSCRIPT_COMMITMENT_SCHEME = 'salted-sha256-turns-v1';
+
+export interface TranscriptTurn {
+  role: 'Caller' | 'AI';
+  content: string;
+}
+
+export interface TranscriptCommitment {
+  scheme: typeof TRANSCRIPT_COMMITMENT_SCHEME;
+  /** Goes into the Decision API as `transcriptHash` */
+  transcriptHash: string;
+  turnCommitments: string[];
+}
+
+/** One disclosed turn — enough to recompute its commitment */
+export interface RevealedTurn extends TranscriptTurn {
+  index: number;
+  salt: string;
+}
+
+/** What the owner hands to a third party (see verifyTranscriptReveal) */
+export interface TranscriptReveal {
+  scheme: typeof TRANSCRIPT_COMMITMENT_SCHEME;
+  transcriptHash: string;
+  turnCommitments: string[];
+  revealed: RevealedTurn[];
+}
+
+// ─── Commit ───────────────────────────────────────────────────
+
+/** New random per-call salt (hex, kept server-side) */
+export function generateTranscriptSalt(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+export function deriveTurnSalt(callSalt: string, index: number): string {
+  return crypto
+    .createHmac('sha256', Buffer.from(callSalt, 'hex'))
+    .update(`vericall-turn:${index}`)
+    .digest('hex');
+}
+
+export function commitTurn(turnSalt: string, turn: TranscriptTurn): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${turnSalt}\n${turn.role}\n${turn.content}`)
+    .digest('hex');
+}
+
+function hashCommitments(turnCommitments: string[]): string {
+  return crypto
+    .createHash('sha256')
+    .update(['vericall-transcript-v1', ...turnCommitments].join('\n'))
+    .digest('hex');
+}
+
+export function commitTranscript(callSalt: string, turns: TranscriptTurn[]): TranscriptCommitment {
+  const turnCommitments = turns.map((turn, i) => commitTurn(deriveTurnSalt(callSalt, i), turn));
+  return {
+    scheme: TRANSCRIPT_COMMITMENT_SCHEME,
+    transcriptHash: hashCommitments(turnCommitments),
+    turnCommitments,
+  };
+}
+
+// ─── Reveal ───────────────────────────────────────────────────
+
+/**
+ * Disclose `indices` (all turns if omitted). Unknown indices are ignored.
+ */
+export function revealTranscript(
+  callSalt: string,
+  turns: TranscriptTurn[],
+  indices?: number[],
+): TranscriptReveal {
+  const commitment = commitTranscript(callSalt, turns);
+  const wanted = indices ? new Set(indices) : null;
+
+  return {
+    ...commitment,
+    revealed: turns
+      .map((turn, index) => ({ index, ...turn, salt: deriveTurnSalt(callSalt, index) }))
+      .filter((turn) => !wanted || wanted.has(turn.index)),
+  };
+}
+
+/**
+ * Check a reveal against a transcriptHash taken from the chain.
+ * Returns the reasons it fails (empty = valid).
+ */
+export function verifyTranscriptReveal(reveal: TranscriptReveal, onChainTranscriptHash: string): string[] {
+  const problems: string[] = [];
+
+  if (reveal.scheme !== TRANSCRIPT_COMMITMENT_SCHEME) {
+    problems.push(`Unknown commitment scheme "${reveal.scheme}"`);
+    return problems;
+  }
+  for (const turn of reveal.revealed) {
+    if (commitTurn(turn.salt, turn) !== reveal.turnCommitments[turn.index]) {
+      problems.push(`Turn ${turn.index} does not match its commitment`);
+    }
+  }
+  if (hashCommitments(reveal.turnCommitments) !== onChainTranscriptHash.toLowerCase()) {
+    problems.push('Turn commitments do not hash to the on-chain transcriptHash');
+  }
+  return problems;
+}
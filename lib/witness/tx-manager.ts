@@ -0,0 +1,468 @@
+/**
+ * Transaction Manager — one submission queue per signer and chain
+ *
+ * Everything the witness pipeline sends on-chain goes through here instead
+ * of viem's writeContract, which fetches a nonce per call (two calls racing
+ * for the same one) and never touches a TX again once it is sent.
+ *
+ *   1. estimateGas — a call that would revert fails before taking a nonce
+ *   2. allocate    — lowest free nonce ≥ the chain's, persisted (tx-store.ts)
+ *                    under a per-signer lock
+ *   3. broadcast   — signed locally; the hash is stored before it is sent
+ *   4. watch       — poll every broadcast for a receipt; unmined after
+ *                    TX_STUCK_AFTER_MS → re-sign with fees +TX_BUMP_PERCENT
+ *                    (speed-up), after TX_MAX_BUMPS → replace it with a
+ *                    0-value self-transfer (cancel) so later nonces can land
+ *
+ * Requests carry a `ref` (e.g. "register:<callId>"): a resumed job asking
+ * for the same ref gets the TX it already has instead of a second one.
+ * Pending TXs are leased like witness jobs, so after a restart the worker
+ * sweep (resumeOrphanedTransactions) picks up the ones nobody watches.
+ */
+
+import crypto from 'crypto';
+import { createPublicClient, http, keccak256, type Hex } from 'viem';
+import { mnemonicToAccount, privateKeyToAccount } from 'viem/accounts';
+import { findRegistryNetwork, txConfig } from '@/lib/config';
+import { getChainInfo } from '@/lib/chains';
+import { errorChain } from '@/lib/witness/retry';
+import {
+  type BroadcastKind,
+  type ManagedTx,
+  type TxBroadcast,
+  allocateTx,
+  appendBroadcast,
+  dropTx,
+  finalizeTx,
+  getLiveTxByRef,
+  getTx,
+  getTxByHash,
+  leaseTx,
+  listOrphanedTxs,
+} from '@/lib/witness/tx-store';
+
+// ─── Types ────────────────────────────────────────────────────
+
+export interface TxRequest {
+  chainId: number;
+  to: string;
+  data: Hex;
+  /** Idempotency key, unique per chain */
+  ref: string;
+}
+
+/** What the witness record keeps of the TX that landed */
+export interface TxReceiptSummary {
+  from: string;
+  nonce: number;
+  gasUsed: string;             // decimal
+  effectiveGasPrice: string;   // wei, decimal
+  /** Speed-ups sent before it was mined */
+  feeBumps: number;
+  /** Other broadcasts of the same nonce that lost out */
+  replacedTxHashes: string[];
+}
+
+export interface ManagedReceipt {
+  txHash: string;
+  blockNumber: number;
+  receipt: TxReceiptSummary;
+}
+
+/** Mined with status reverted — never retried */
+export class TransactionRevertedError extends Error {
+  constructor(readonly txHash: string) {
+    super(`TX ${txHash} reverted`);
+    this.name = 'TransactionRevertedError';
+  }
+}
+
+/**
+ * The TX will not land: it was cancelled after too many speed-ups, or its
+ * nonce went to a TX sent outside the manager. Sending again is safe.
+ */
+export class TransactionDroppedError extends Error {
+  constructor(readonly tx: ManagedTx, reason: string) {
+    super(`TX ${tx.chainId}#${tx.nonce} (${tx.ref}) ${reason}`);
+    this.name = 'TransactionDroppedError';
+  }
+}
+
+/** Gas estimate headroom (percent) */
+const GAS_LIMIT_PERCENT = BigInt(120);
+const CANCEL_GAS = BigInt(21_000);
+
+/** Identifies this process as a lease owner */
+const INSTANCE_ID = `txm_${crypto.randomBytes(6).toString('hex')}`;
+
+/** Polls in a row that saw our nonce used without a receipt of ours */
+const FOREIGN_NONCE_POLLS = 2;
+
+const _signerLocks = new Map<string, Promise<unknown>>();
+const _watching = new Map<string, Promise<ManagedReceipt>>();
+const _foreignNonce = new Map<string, number>();
+
+// ─── Wallet / Clients ─────────────────────────────────────────
+
+let _account: ReturnType<typeof mnemonicToAccount> | ReturnType<typeof privateKeyToAccount> | null = null;
+
+function getAccount() {
+  if (_account) return _account;
+
+  const mnemonic = process.env.DEPLOYER_MNEMONIC;
+  if (mnemonic) {
+    return (_account = mnemonicToAccount(mnemonic.trim()));
+  }
+
+  const pk = process.env.DEPLOYER_PRIVATE_KEY;
+  if (pk) {
+    return (_account = privateKeyToAccount(pk as `0x${string}`));
+  }
+
+  throw new Error(
+    'No wallet configured — set DEPLOYER_MNEMONIC or DEPLOYER_PRIVATE_KEY in .env.local',
+  );
+}
+
+function createClient(chainId: number) {
+  return createPublicClient({
+    chain: getChainInfo(chainId).chain,
+    transport: http(findRegistryNetwork(chainId)?.rpcUrl ?? getChainInfo(chainId).defaultRpcUrl),
+  });
+}
+
+const _clients = new Map<number, ReturnType<typeof createClient>>();
+
+/** One client per chain, reused across calls */
+export function getPublicClient(chainId: number) {
+  let client = _clients.get(chainId);
+  if (!client) {
+    client = createClient(chainId);
+    _clients.set(chainId, client);
+  }
+  return client;
+}
+
+// ─── Fees ─────────────────────────────────────────────────────
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+function maxOf(...values: bigint[]): bigint {
+  return values.reduce((a, b) => (a > b ? a : b));
+}
+
+function feeCapWei(): bigint | null {
+  return txConfig.maxFeeGwei > 0 ? BigInt(Math.round(txConfig.maxFeeGwei * 1e9)) : null;
+}
+
+/** Node estimate × TX_FEE_MULTIPLIER_PERCENT, clamped to TX_MAX_FEE_GWEI */
+async function currentFees(chainId: number): Promise<Fees> {
+  const estimate = await getPublicClient(chainId).estimateFeesPerGas();
+  const multiplier = BigInt(txConfig.feeMultiplierPercent);
+  let maxFeePerGas = (estimate.maxFeePerGas * multiplier) / BigInt(100);
+  let maxPriorityFeePerGas = (estimate.maxPriorityFeePerGas * multiplier) / BigInt(100);
+
+  const cap = feeCapWei();
+  if (cap !== null && maxFeePerGas > cap) maxFeePerGas = cap;
+  if (maxPriorityFeePerGas > maxFeePerGas) maxPriorityFeePerGas = maxFeePerGas;
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * Fees for a replacement: at least +TX_BUMP_PERCENT on both fields (what
+ * nodes require) and never below the current estimate. Null when that
+ * would exceed the cap — the TX then just waits.
+ */
+async function bumpedFees(chainId: number, last: TxBroadcast): Promise<Fees | null> {
+  const fresh = await currentFees(chainId);
+  const bump = (wei: string) =>
+    (BigInt(wei) * BigInt(100 + txConfig.bumpPercent)) / BigInt(100) + BigInt(1);
+
+  const maxPriorityFeePerGas = maxOf(bump(last.maxPriorityFeePerGas), fresh.maxPriorityFeePerGas);
+  const maxFeePerGas = maxOf(bump(last.maxFeePerGas), fresh.maxFeePerGas, maxPriorityFeePerGas);
+
+  const cap = feeCapWei();
+  if (cap !== null && maxFeePerGas > cap) return null;
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// ─── Broadcast ────────────────────────────────────────────────
+
+const NONCE_TOO_LOW_PATTERN = /nonce too low|nonce has already been used/i;
+const DELIVERY_UNKNOWN_PATTERN = /fetch failed|ECONNRESET|ETIMEDOUT|socket hang up|timed? ?out/i;
+
+function isNonceTooLow(err: unknown): boolean {
+  return errorChain(err).some((e) => e?.name === 'NonceTooLowError' || NONCE_TOO_LOW_PATTERN.test(String(e?.message)));
+}
+
+/** The node may or may not have the TX (transport error, not a rejection) */
+function isDeliveryUnknown(err: unknown): boolean {
+  return errorChain(err).some((e) =>
+    e?.name === 'HttpRequestError' || e?.name === 'TimeoutError' || DELIVERY_UNKNOWN_PATTERN.test(String(e?.message)),
+  );
+}
+
+/**
+ * Sign one version of `tx` and send it. The hash is persisted first, so
+ * a crash mid-send still leaves it on the watch list.
+ */
+async function broadcast(tx: ManagedTx, kind: BroadcastKind, fees: Fees): Promise<string> {
+  const account = getAccount();
+  const cancel = kind === 'cancel';
+  const serializedTransaction = await account.signTransaction({
+    type: 'eip1559',
+    chainId: tx.chainId,
+    nonce: tx.nonce,
+    to: (cancel ? tx.signer : tx.to) as `0x${string}`,
+    data: (cancel ? '0x' : tx.data) as Hex,
+    value: BigInt(0),
+    gas: cancel ? CANCEL_GAS : BigInt(tx.gasLimit),
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+  });
+  const hash = keccak256(serializedTransaction);
+
+  await appendBroadcast(tx.id, {
+    hash,
+    kind,
+    maxFeePerGas: fees.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+    sentAt: new Date().toISOString(),
+  });
+
+  try {
+    await getPublicClient(tx.chainId).sendRawTransaction({ serializedTransaction });
+  } catch (err) {
+    if (!/already known/i.test(String((err as Error)?.message))) throw err;
+  }
+  return hash;
+}
+
+// ─── Submit ───────────────────────────────────────────────────
+
+/** Run `fn` after every earlier call for the same signer + chain finished */
+function withSignerLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = _signerLocks.get(key) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  _signerLocks.set(key, run);
+  run.finally(() => {
+    if (_signerLocks.get(key) === run) _signerLocks.delete(key);
+  }).catch(() => undefined);
+  return run;
+}
+
+/**
+ * Allocate a nonce and broadcast. Returns as soon as the TX is sent (or
+ * the live TX already holding `ref`) — waitForTransaction() does the rest.
+ */
+export async function submitTransaction(request: TxRequest): Promise<ManagedTx> {
+  const existing = await getLiveTxByRef(request.chainId, request.ref);
+  if (existing) return existing;
+
+  const account = getAccount();
+  const client = getPublicClient(request.chainId);
+
+  // Also a dry run: a reverting call throws here, before it holds a nonce
+  const gas = await client.estimateGas({
+    account,
+    to: request.to as `0x${string}`,
+    data: request.data,
+  });
+  const gasLimit = ((gas * GAS_LIMIT_PERCENT) / BigInt(100)).toString();
+
+  return withSignerLock(`${request.chainId}:${account.address}`, async () => {
+    const raced = await getLiveTxByRef(request.chainId, request.ref);
+    if (raced) return raced;
+
+    let minNonce = await client.getTransactionCount({ address: account.address, blockTag: 'latest' });
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const tx = await allocateTx(
+        {
+          id: `tx_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          ref: request.ref,
+          chainId: request.chainId,
+          signer: account.address,
+          to: request.to,
+          data: request.data,
+          gasLimit,
+          minNonce,
+        },
+        INSTANCE_ID,
+        txConfig.leaseMs,
+      );
+      if (!tx) continue;  // another instance took that nonce
+
+      try {
+        await broadcast(tx, 'original', await currentFees(request.chainId));
+      } catch (err) {
+        // Sent, maybe — keep it; the watcher re-sends it if it never shows up
+        if (isDeliveryUnknown(err)) return (await getTx(tx.id))!;
+
+        await dropTx(tx.id, err instanceof Error ? err.message : String(err));
+        if (!isNonceTooLow(err)) throw err;
+        // A TX sent outside the manager holds it — start from the mempool's count
+        minNonce = await client.getTransactionCount({ address: account.address, blockTag: 'pending' });
+        continue;
+      }
+
+      console.log(`⛓️ [Tx ${request.chainId}#${tx.nonce}] Sent ${request.ref}`);
+      return (await getTx(tx.id))!;
+    }
+
+    throw new Error(`No free nonce for ${account.address} on chain ${request.chainId}`);
+  });
+}
+
+// ─── Watch ────────────────────────────────────────────────────
+
+function toReceipt(tx: ManagedTx): ManagedReceipt {
+  return {
+    txHash: tx.txHash!,
+    blockNumber: tx.blockNumber!,
+    receipt: {
+      from: tx.signer,
+      nonce: tx.nonce,
+      gasUsed: tx.gasUsed!,
+      effectiveGasPrice: tx.effectiveGasPrice!,
+      feeBumps: tx.broadcasts.filter((b) => b.kind === 'speed-up').length,
+      replacedTxHashes: tx.broadcasts.map((b) => b.hash).filter((hash) => hash !== tx.txHash),
+    },
+  };
+}
+
+/** Final TX → receipt, or the error its caller should see */
+function settle(tx: ManagedTx): ManagedReceipt {
+  switch (tx.status) {
+    case 'confirmed': return toReceipt(tx);
+    case 'reverted': throw new TransactionRevertedError(tx.txHash!);
+    case 'cancelled': throw new TransactionDroppedError(tx, `was cancelled (${tx.txHash})`);
+    default: throw new TransactionDroppedError(tx, `was dropped${tx.error ? `: ${tx.error}` : ''}`);
+  }
+}
+
+/**
+ * One look at a leased pending TX: receipt → finalize; nonce used by
+ * someone else → drop; stuck → speed up or cancel.
+ * Returns the TX once it is final.
+ */
+async function pollTx(tx: ManagedTx): Promise<ManagedTx | undefined> {
+  const tag = `⛓️ [Tx ${tx.chainId}#${tx.nonce}]`;
+  const client = getPublicClient(tx.chainId);
+
+  for (const b of [...tx.broadcasts].reverse()) {
+    const receipt = await client.getTransactionReceipt({ hash: b.hash as `0x${string}` }).catch(() => null);
+    if (!receipt) continue;
+
+    const status = b.kind === 'cancel' ? 'cancelled' : receipt.status === 'success' ? 'confirmed' : 'reverted';
+    await finalizeTx(tx.id, status, {
+      txHash: b.hash,
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+    });
+    _foreignNonce.delete(tx.id);
+    console.log(`${tag} ${status} in block ${receipt.blockNumber} (gas ${receipt.gasUsed}, ${tx.broadcasts.length} broadcast(s))`);
+    return getTx(tx.id);
+  }
+
+  const mined = await client.getTransactionCount({ address: tx.signer as `0x${string}`, blockTag: 'latest' });
+  if (mined > tx.nonce && tx.broadcasts.length > 0) {
+    // Receipts can trail the nonce by a block on some RPCs — be sure first
+    const polls = (_foreignNonce.get(tx.id) ?? 0) + 1;
+    _foreignNonce.set(tx.id, polls);
+    if (polls >= FOREIGN_NONCE_POLLS) {
+      _foreignNonce.delete(tx.id);
+      await dropTx(tx.id, `nonce ${tx.nonce} was used by another transaction`);
+      console.warn(`${tag} Nonce used by a transaction outside the manager — dropped ${tx.ref}`);
+      return getTx(tx.id);
+    }
+    return undefined;
+  }
+
+  const last = tx.broadcasts[tx.broadcasts.length - 1];
+  if (!last) {
+    // Allocated, then the process died before sending
+    await broadcast(tx, 'original', await currentFees(tx.chainId)).catch((err) => {
+      console.warn(`${tag} Send failed: ${err instanceof Error ? err.message : err}`);
+    });
+    return undefined;
+  }
+  if (Date.now() - Date.parse(last.sentAt) < txConfig.stuckAfterMs) return undefined;
+
+  const speedUps = tx.broadcasts.filter((b) => b.kind === 'speed-up').length;
+  const kind: BroadcastKind = last.kind === 'cancel' || speedUps >= txConfig.maxBumps ? 'cancel' : 'speed-up';
+  const fees = await bumpedFees(tx.chainId, last);
+  if (!fees) {
+    console.warn(`${tag} Stuck at the TX_MAX_FEE_GWEI cap — waiting`);
+    return undefined;
+  }
+
+  try {
+    const hash = await broadcast(tx, kind, fees);
+    console.log(`${tag} ${kind === 'cancel' ? 'Cancelling' : 'Speeding up'} ${tx.ref}: ${hash} (maxFee ${fees.maxFeePerGas} wei)`);
+  } catch (err) {
+    console.warn(`${tag} ${kind} rejected: ${err instanceof Error ? err.message : err}`);
+  }
+  return undefined;
+}
+
+async function watch(id: string): Promise<ManagedReceipt> {
+  for (;;) {
+    const leased = await leaseTx(id, INSTANCE_ID, txConfig.leaseMs);
+    const tx = leased ?? (await getTx(id));
+    if (!tx) throw new Error(`Unknown transaction ${id}`);
+    if (tx.status !== 'pending') return settle(tx);
+
+    if (leased) {
+      const done = await pollTx(leased);
+      if (done && done.status !== 'pending') return settle(done);
+    }
+    // else another instance holds the lease and drives it — just wait for the outcome
+    await new Promise((resolve) => setTimeout(resolve, txConfig.pollIntervalMs));
+  }
+}
+
+/**
+ * Wait until the TX is mined, bumping / cancelling it as needed.
+ * Throws TransactionRevertedError or TransactionDroppedError.
+ */
+export function waitForTransaction(id: string): Promise<ManagedReceipt> {
+  let watching = _watching.get(id);
+  if (!watching) {
+    watching = watch(id).finally(() => _watching.delete(id));
+    _watching.set(id, watching);
+  }
+  return watching;
+}
+
+/** submitTransaction + waitForTransaction */
+export async function sendTransaction(request: TxRequest): Promise<ManagedReceipt> {
+  const tx = await submitTransaction(request);
+  return waitForTransaction(tx.id);
+}
+
+/** The managed TX that `hash` is one broadcast of (undefined if sent elsewhere) */
+export function findTransactionByHash(hash: string): Promise<ManagedTx | undefined> {
+  return getTxByHash(hash);
+}
+
+// ─── Recovery ─────────────────────────────────────────────────
+
+/**
+ * Start watching pending TXs whose owner is gone (called from the witness
+ * worker sweep). Returns how many were picked up.
+ */
+export async function resumeOrphanedTransactions(): Promise<number> {
+  const txs = (await listOrphanedTxs()).filter((tx) => !_watching.has(tx.id));
+  for (const tx of txs) {
+    console.log(`⛓️ [Tx ${tx.chainId}#${tx.nonce}] Resuming ${tx.ref} (${tx.broadcasts.length} broadcast(s))`);
+    waitForTransaction(tx.id).catch((err) => {
+      console.warn(`⛓️ [Tx ${tx.chainId}#${tx.nonce}] ${err instanceof Error ? err.message : err}`);
+    });
+  }
+  return txs.length;
+}
@@ -0,0 +1,301 @@
+/**
+ * Transaction Store — PostgreSQL
+ *
+ * Every transaction the tx manager (tx-manager.ts) sends, keyed by
+ * (chain, signer, nonce). A row is written when its nonce is allocated —
+ * before anything is broadcast — and each broadcast of that nonce (the
+ * original, fee bumps, a cancellation) is appended to `broadcasts`, so a
+ * restarted instance knows every hash that may still get mined.
+ *
+ *   pending → confirmed   receipt with status success
+ *      │   → reverted    receipt with status reverted
+ *      │   → cancelled   the 0-value self-transfer replacing it was mined
+ *      └──→ dropped      never broadcast, or the nonce went to a foreign TX
+ *
+ * `dropped` rows give their nonce back: the unique index only covers
+ * the other statuses.
+ *
+ * A pending row is driven (polled / bumped) by whoever holds its lease,
+ * the same way witness jobs are.
+ */
+
+import { query } from '@/lib/db';
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type TxStatus = 'pending' | 'confirmed' | 'reverted' | 'cancelled' | 'dropped';
+
+export type BroadcastKind = 'original' | 'speed-up' | 'cancel';
+
+/** One signed TX sent for a nonce */
+export interface TxBroadcast {
+  hash: string;
+  kind: BroadcastKind;
+  maxFeePerGas: string;          // wei, decimal
+  maxPriorityFeePerGas: string;  // wei, decimal
+  sentAt: string;
+}
+
+export interface ManagedTx {
+  id: string;
+  /** Caller's idempotency key — the same ref never gets a second live TX */
+  ref: string;
+  chainId: number;
+  signer: string;
+  nonce: number;
+  to: string;
+  data: string;
+  gasLimit: string;
+  status: TxStatus;
+  broadcasts: TxBroadcast[];
+  /** Set once mined: the broadcast that landed */
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  error?: string;
+  createdAt: string;
+  confirmedAt?: string;
+}
+
+// ─── Schema ───────────────────────────────────────────────────
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS witness_txs (
+    id                   TEXT PRIMARY KEY,
+    ref                  TEXT NOT NULL,
+    chain_id             INT NOT NULL,
+    signer               TEXT NOT NULL,
+    nonce                BIGINT NOT NULL,
+    to_address           TEXT NOT NULL,
+    data                 TEXT NOT NULL,
+    gas_limit            TEXT NOT NULL,
+    status               TEXT NOT NULL,
+    broadcasts           JSONB NOT NULL DEFAULT '[]',
+    tx_hash              TEXT,
+    block_number         BIGINT,
+    gas_used             TEXT,
+    effective_gas_price  TEXT,
+    error                TEXT,
+    lease_owner          TEXT,
+    locked_until         TIMESTAMPTZ,
+    created_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    confirmed_at         TIMESTAMPTZ
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS witness_txs_nonce_idx
+    ON witness_txs (chain_id, signer, nonce) WHERE status <> 'dropped';
+  CREATE INDEX IF NOT EXISTS witness_txs_ref_idx ON witness_txs (chain_id, ref);
+  CREATE INDEX IF NOT EXISTS witness_txs_status_idx ON witness_txs (status);
+`;
+
+let _schemaReady: Promise<void> | null = null;
+
+/** Create the witness_txs table on first use (idempotent) */
+function ensureSchema(): Promise<void> {
+  if (!_schemaReady) {
+    _schemaReady = query(SCHEMA)
+      .then(() => undefined)
+      .catch((err) => {
+        _schemaReady = null;
+        throw err;
+      });
+  }
+  return _schemaReady;
+}
+
+// ─── Row Mapping ──────────────────────────────────────────────
+
+function toIso(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function rowToTx(row: any): ManagedTx {
+  return {
+    id: row.id,
+    ref: row.ref,
+    chainId: row.chain_id,
+    signer: row.signer,
+    nonce: Number(row.nonce),
+    to: row.to_address,
+    data: row.data,
+    gasLimit: row.gas_limit,
+    status: row.status,
+    broadcasts: row.broadcasts ?? [],
+    txHash: row.tx_hash || undefined,
+    blockNumber: row.block_number != null ? Number(row.block_number) : undefined,
+    gasUsed: row.gas_used || undefined,
+    effectiveGasPrice: row.effective_gas_price || undefined,
+    error: row.error || undefined,
+    createdAt: toIso(row.created_at),
+    confirmedAt: row.confirmed_at ? toIso(row.confirmed_at) : undefined,
+  };
+}
+
+// ─── Nonces ───────────────────────────────────────────────────
+
+/**
+ * Insert a pending TX at the lowest nonce ≥ `minNonce` that no live row
+ * holds, leased to `owner`. Returns undefined when another instance took
+ * the same nonce first (unique violation) — the caller just tries again.
+ */
+export async function allocateTx(
+  params: {
+    id: string;
+    ref: string;
+    chainId: number;
+    signer: string;
+    to: string;
+    data: string;
+    gasLimit: string;
+    minNonce: number;
+  },
+  owner: string,
+  leaseMs: number,
+): Promise<ManagedTx | undefined> {
+  await ensureSchema();
+  try {
+    const res = await query(
+      `INSERT INTO witness_txs
+         (id, ref, chain_id, signer, nonce, to_address, data, gas_limit, status, lease_owner, locked_until)
+       SELECT $1, $2, $3, $4, n, $5, $6, $7, 'pending', $9, NOW() + $10::int * interval '1 millisecond'
+       FROM generate_series($8::bigint, $8::bigint + 10000) AS n
+       WHERE NOT EXISTS (
+         SELECT 1 FROM witness_txs
+         WHERE chain_id = $3 AND signer = $4 AND nonce = n AND status <> 'dropped'
+       )
+       ORDER BY n
+       LIMIT 1
+       RETURNING *`,
+      [
+        params.id, params.ref, params.chainId, params.signer, params.to,
+        params.data, params.gasLimit, params.minNonce, owner, leaseMs,
+      ],
+    );
+    return res.rows.length ? rowToTx(res.rows[0]) : undefined;
+  } catch (err: any) {
+    if (err?.code === '23505') return undefined;
+    throw err;
+  }
+}
+
+// ─── Read ─────────────────────────────────────────────────────
+
+export async function getTx(id: string): Promise<ManagedTx | undefined> {
+  await ensureSchema();
+  const res = await query(`SELECT * FROM witness_txs WHERE id = $1`, [id]);
+  return res.rows.length ? rowToTx(res.rows[0]) : undefined;
+}
+
+/** The TX for `ref` on a chain that is still pending or already confirmed, if any */
+export async function getLiveTxByRef(chainId: number, ref: string): Promise<ManagedTx | undefined> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM witness_txs
+     WHERE chain_id = $1 AND ref = $2 AND status IN ('pending', 'confirmed')
+     ORDER BY created_at DESC LIMIT 1`,
+    [chainId, ref],
+  );
+  return res.rows.length ? rowToTx(res.rows[0]) : undefined;
+}
+
+/** The TX one of whose broadcasts is `hash` */
+export async function getTxByHash(hash: string): Promise<ManagedTx | undefined> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM witness_txs
+     WHERE broadcasts @> jsonb_build_array(jsonb_build_object('hash', $1::text))
+     LIMIT 1`,
+    [hash],
+  );
+  return res.rows.length ? rowToTx(res.rows[0]) : undefined;
+}
+
+export async function listTxs(status?: TxStatus, limit = 100): Promise<ManagedTx[]> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM witness_txs
+     WHERE $1::text IS NULL OR status = $1
+     ORDER BY created_at DESC LIMIT $2`,
+    [status ?? null, limit],
+  );
+  return res.rows.map(rowToTx);
+}
+
+// ─── Leases ───────────────────────────────────────────────────
+
+/**
+ * Take (or renew) the lease on a pending TX.
+ * Returns undefined if another owner holds it or the TX is final.
+ */
+export async function leaseTx(id: string, owner: string, leaseMs: number): Promise<ManagedTx | undefined> {
+  const res = await query(
+    `UPDATE witness_txs SET
+       lease_owner = $2,
+       locked_until = NOW() + $3::int * interval '1 millisecond',
+       updated_at = NOW()
+     WHERE id = $1 AND status = 'pending'
+       AND (lease_owner = $2 OR locked_until IS NULL OR locked_until < NOW())
+     RETURNING *`,
+    [id, owner, leaseMs],
+  );
+  return res.rows.length ? rowToTx(res.rows[0]) : undefined;
+}
+
+/** Pending TXs nobody is driving (their owner died) */
+export async function listOrphanedTxs(limit = 20): Promise<ManagedTx[]> {
+  await ensureSchema();
+  const res = await query(
+    `SELECT * FROM witness_txs
+     WHERE status = 'pending' AND (locked_until IS NULL OR locked_until < NOW())
+     ORDER BY chain_id, signer, nonce
+     LIMIT $1`,
+    [limit],
+  );
+  return res.rows.map(rowToTx);
+}
+
+// ─── Updates ──────────────────────────────────────────────────
+
+export async function appendBroadcast(id: string, broadcast: TxBroadcast): Promise<void> {
+  await query(
+    `UPDATE witness_txs SET broadcasts = broadcasts || $2::jsonb, updated_at = NOW() WHERE id = $1`,
+    [id, JSON.stringify([broadcast])],
+  );
+}
+
+/** A broadcast was mined — record its receipt and close the TX */
+export async function finalizeTx(
+  id: string,
+  status: 'confirmed' | 'reverted' | 'cancelled',
+  receipt: { txHash: string; blockNumber: number; gasUsed: string; effectiveGasPrice: string },
+): Promise<void> {
+  await query(
+    `UPDATE witness_txs SET
+       status = $2,
+       tx_hash = $3,
+       block_number = $4,
+       gas_used = $5,
+       effective_gas_price = $6,
+       lease_owner = NULL,
+       locked_until = NULL,
+       confirmed_at = NOW(),
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, status, receipt.txHash, receipt.blockNumber, receipt.gasUsed, receipt.effectiveGasPrice],
+  );
+}
+
+/** Release the nonce: nothing of ours was (or will be) mined at it */
+export async function dropTx(id: string, error: string): Promise<void> {
+  await query(
+    `UPDATE witness_txs SET
+       status = 'dropped',
+       error = $2,
+       lease_owner = NULL,
+       locked_until = NULL,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [id, error],
+  );
+}
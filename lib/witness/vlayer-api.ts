@@ -17,6 +17,14 @@ export interface WebProof {
   meta: { notaryUrl: string };
 }
 
+/** Non-2xx response from a vlayer prover (status drives retry decisions) */
+export class VlayerApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'VlayerApiError';
+  }
+}
+
 interface CompressResult {
   success: boolean;
   data?: { zkProof: string; journalDataAbi: string };
@@ -48,7 +56,7 @@ export async function generateWebProof(url: string): Promise<WebProof> {
 
   if (!response.ok) {
     const body = await response.text().catch(() => '');
-    throw new Error(`Web Proof failed (${response.status}): ${body}`);
+    throw new VlayerApiError(`Web Proof failed (${response.status}): ${body}`, response.status);
   }
 
   return (await response.json()) as WebProof;
@@ -87,7 +95,7 @@ export async function compressToZKProof(
 
   if (!response.ok) {
     const body = await response.text().catch(() => '');
-    throw new Error(`ZK Proof compression failed (${response.status}): ${body}`);
+    throw new VlayerApiError(`ZK Proof compression failed (${response.status}): ${body}`, response.status);
   }
 
   const result = (await response.json()) as CompressResult;
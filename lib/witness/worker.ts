@@ -0,0 +1,72 @@
+/**
+ * Witness Worker — resumes interrupted proof jobs
+ *
+ * On startup (and then every WITNESS_WORKER_INTERVAL_MS) it claims
+ * unfinished jobs whose lease has expired — i.e. the instance that was
+ * running them died — and continues each from its last completed step.
+ *
+ * With batch anchoring on, each sweep also cuts batches that waited
+ * WITNESS_BATCH_MAX_WAIT_MS and re-anchors batches left behind (batcher.ts).
+ * Pending transactions whose watcher died are picked up as well, so a
+ * stuck TX still gets sped up when no job is waiting for it (tx-manager.ts).
+ *
+ * Started from server.ts; safe to run on every Cloud Run instance.
+ */
+
+import { witnessBatchConfig, witnessConfig } from '@/lib/config';
+import { claimResumableJobs } from '@/lib/witness/job-store';
+import { runWitnessJob } from '@/lib/witness/pipeline';
+import { flushWitnessBatches } from '@/lib/witness/batcher';
+import { resumeOrphanedTransactions } from '@/lib/witness/tx-manager';
+
+let _timer: NodeJS.Timeout | null = null;
+let _sweeping = false;
+
+/**
+ * Claim and run one batch of resumable jobs.
+ * Returns the number of jobs picked up.
+ */
+export async function resumeInterruptedWitnesses(): Promise<number> {
+  if (_sweeping) return 0;
+  _sweeping = true;
+
+  try {
+    const jobs = await claimResumableJobs(witnessConfig.leaseMs, witnessConfig.batchSize);
+    if (jobs.length > 0) {
+      console.log(`⛓️ [WitnessWorker] Resuming ${jobs.length} interrupted job(s)`);
+    }
+    // Sequential — proof generation is heavy and vlayer is rate-limited
+    for (const job of jobs) {
+      await runWitnessJob(job);
+    }
+    return jobs.length;
+  } finally {
+    _sweeping = false;
+  }
+}
+
+/** Start the periodic sweep (no-op if disabled or already running) */
+export function startWitnessWorker(): void {
+  if (!witnessConfig.workerEnabled || _timer) return;
+
+  const sweep = () => {
+    resumeOrphanedTransactions()
+      .then(() => resumeInterruptedWitnesses())
+      .then(() => (witnessBatchConfig.enabled ? flushWitnessBatches() : 0))
+      .catch((err) => {
+        console.error('⛓️ [WitnessWorker] Sweep failed:', err instanceof Error ? err.message : err);
+      });
+  };
+
+  console.log(`⛓️ [WitnessWorker] Started (interval ${witnessConfig.workerIntervalMs}ms)`);
+  sweep();
+  _timer = setInterval(sweep, witnessConfig.workerIntervalMs);
+  _timer.unref();
+}
+
+export function stopWitnessWorker(): void {
+  if (_timer) {
+    clearInterval(_timer);
+    _timer = null;
+  }
+}
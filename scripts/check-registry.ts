@@ -3,18 +3,24 @@
  * VeriCall Registry Inspector — CLI (V3)
  *
  * Read on-chain records from VeriCallRegistryV3 and decode the
- * vlayer ZK proof journal data using on-chain getProvenData().
+ * vlayer ZK proof journal data (decodeJournal, 9–11 fields).
  *
  * Usage:
- *   npx tsx scripts/check-registry.ts [--json] [--v1]
+ *   npx tsx scripts/check-registry.ts [--json] [--v1] [--network <slug|chainId>]
  *
- * V3 uses on-chain getProvenData() for journal decoding.
+ * --network picks the chain (default CHAIN_ID, else base-sepolia); the
+ * registry address comes from VERICALL_CONTRACT_ADDRESS_<chainId> (or
+ * VERICALL_CONTRACT_ADDRESS) or contracts/deployments/<chainId>.json.
+ *
+ * Journals are decoded offline, since getProvenData() differs across versions.
  * Each record has a `verified` flag and decision-journal binding.
  */
 
-import { createPublicClient, http } from 'viem';
-import { baseSepolia } from 'viem/chains';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
 import { VERICALL_REGISTRY_ABI } from '../lib/witness/abi';
+import { findChainBySelector } from '../lib/chains';
+import { createVerificationClient, readProvenData, type ProvenData } from '../lib/verification';
 
 // ─── V1 ABI (legacy, for --v1 mode) ──────────────────────────
 
@@ -32,15 +38,25 @@ const V1_ABI = [
 const V1_CONTRACT = '0xe454ca755219310b2728d39db8039cbaa7abc3b8' as `0x${string}`;
 
 const USE_V1 = process.argv.includes('--v1');
+
+const NETWORK = (() => {
+  const idx = process.argv.indexOf('--network');
+  const selector = idx >= 0 && process.argv[idx + 1] ? process.argv[idx + 1] : process.env.CHAIN_ID || 'base-sepolia';
+  const info = findChainBySelector(selector);
+  if (!info) throw new Error(`Unknown network "${selector}"`);
+  return info;
+})();
+const CHAIN_ID = NETWORK.chain.id;
+const IS_DEFAULT_CHAIN = CHAIN_ID === parseInt(process.env.CHAIN_ID || '84532', 10);
+
 const CONTRACT = (
   USE_V1
     ? V1_CONTRACT
-    : (process.env.VERICALL_CONTRACT_ADDRESS || (() => {
-        // Read V2 address from deployment.json if available
+    : (process.env[`VERICALL_CONTRACT_ADDRESS_${CHAIN_ID}`] ||
+      (IS_DEFAULT_CHAIN && process.env.VERICALL_CONTRACT_ADDRESS) || (() => {
+        // Read the address from the chain's deployment manifest if available
         try {
-          const { readFileSync } = require('fs');
-          const { resolve } = require('path');
-          const dep = JSON.parse(readFileSync(resolve(__dirname, '../contracts/deployment.json'), 'utf-8'));
+          const dep = JSON.parse(readFileSync(resolve(__dirname, `../contracts/deployments/${CHAIN_ID}.json`), 'utf-8'));
           return dep.contractAddress;
         } catch {
           return '0x0000000000000000000000000000000000000000';
@@ -48,10 +64,17 @@ const CONTRACT = (
       })())
 ) as `0x${string}`;
 
-const RPC_URL = process.env.ETHEREUM_RPC_URL || 'https://sepolia.base.org';
-const BASESCAN = 'https://sepolia.basescan.org';
+const RPC_URL = process.env[`RPC_URL_${CHAIN_ID}`] ||
+  (IS_DEFAULT_CHAIN && process.env.ETHEREUM_RPC_URL) ||
+  NETWORK.defaultRpcUrl;
+const EXPLORER = NETWORK.explorerUrl;
 const JSON_MODE = process.argv.includes('--json');
 
+/** Explorer link for an address (the bare address on a local devnet) */
+function addressLink(address: string): string {
+  return EXPLORER ? `${EXPLORER}/address/${address}` : address;
+}
+
 // ─── Decision Labels ──────────────────────────────────────────
 
 const DECISION_LABEL: Record<number, string> = {
@@ -78,10 +101,7 @@ const RED = '\x1b[31m';
 // ─── Main ──────────────────────────────────────────────────────
 
 async function main() {
-  const client = createPublicClient({
-    chain: baseSepolia,
-    transport: http(RPC_URL),
-  });
+  const client = createVerificationClient(NETWORK.chain, RPC_URL);
 
   // Select ABI based on version
   const ABI = USE_V1 ? V1_ABI : VERICALL_REGISTRY_ABI;
@@ -90,8 +110,8 @@ async function main() {
   if (!JSON_MODE) {
     console.log(`\n${BOLD}⛓️  VeriCall Registry Inspector (${USE_V1 ? 'V1' : 'V3'})${RESET}`);
     console.log(`${DIM}Contract: ${CONTRACT}${RESET}`);
-    console.log(`${DIM}Network:  Base Sepolia (chainId 84532)${RESET}`);
-    console.log(`${DIM}Explorer: ${BASESCAN}/address/${CONTRACT}${RESET}\n`);
+    console.log(`${DIM}Network:  ${NETWORK.name} (chainId ${CHAIN_ID})${RESET}`);
+    console.log(`${DIM}Explorer: ${addressLink(CONTRACT)}${RESET}\n`);
   }
 
   // Verify bytecode exists
@@ -186,45 +206,20 @@ async function main() {
     const timestamp = Number(record.timestamp);
     const date = new Date(timestamp * 1000);
 
-    // V3: use on-chain getProvenData() for journal decoding
-    let provenData = {
-      notaryKeyFingerprint: '' as string,
-      method: '' as string,
-      url: '' as string,
-      proofTimestamp: 0,
-      queriesHash: '' as string,
-      provenDecision: '' as string,
-      provenReason: '' as string,
-      provenSystemPromptHash: '' as string,
-      provenTranscriptHash: '' as string,
-      extractedData: '' as string,
+    // Journal decoded offline from getRecord() (shared with scripts/verify.ts)
+    const proven: ProvenData | null = USE_V1 ? null : await readProvenData(client, CONTRACT, callId);
+    const provenData = {
+      notaryKeyFingerprint: proven?.notaryKeyFingerprint ?? '',
+      method: proven?.method ?? '',
+      url: proven?.url ?? '',
+      proofTimestamp: proven?.proofTimestamp ?? 'N/A',
+      queriesHash: proven?.queriesHash ?? '',
+      provenSystemPromptHash: proven?.provenSystemPromptHash ?? '',
+      provenTranscriptHash: proven?.provenTranscriptHash ?? '',
+      provenAudioHash: proven?.provenAudioHash ?? '',
+      extractedData: proven?.extractedData ?? '',
     };
 
-    if (!USE_V1) {
-      try {
-        const pd = (await client.readContract({
-          address: CONTRACT,
-          abi: ABI,
-          functionName: 'getProvenData',
-          args: [callId],
-        })) as any;
-        provenData = {
-          notaryKeyFingerprint: pd[0] || pd.notaryKeyFingerprint || '',
-          method: pd[1] || pd.method || '',
-          url: pd[2] || pd.url || '',
-          proofTimestamp: Number(pd[3] || pd.proofTimestamp || 0),
-          queriesHash: pd[4] || pd.queriesHash || '',
-          provenDecision: pd[5] || '',
-          provenReason: pd[6] || '',
-          provenSystemPromptHash: pd[7] || '',
-          provenTranscriptHash: pd[8] || '',
-          extractedData: `${pd[5] || ''}|${pd[6] || ''}`,
-        };
-      } catch {
-        // getProvenData may fail for records without journal data
-      }
-    }
-
     // Journal integrity check
     let journalIntegrity = false;
     try {
@@ -254,15 +249,13 @@ async function main() {
         notaryKeyFingerprint: provenData.notaryKeyFingerprint,
         method: provenData.method || 'N/A',
         url: provenData.url || record.sourceUrl,
-        proofTimestamp: provenData.proofTimestamp
-          ? new Date(provenData.proofTimestamp * 1000).toISOString()
-          : 'N/A',
+        proofTimestamp: provenData.proofTimestamp,
         queriesHash: provenData.queriesHash,
         extractedData: provenData.extractedData,
       },
       links: {
-        contract: `${BASESCAN}/address/${CONTRACT}`,
-        callId: `${BASESCAN}/address/${CONTRACT}#readContract`,
+        contract: addressLink(CONTRACT),
+        callId: EXPLORER ? `${EXPLORER}/address/${CONTRACT}#readContract` : CONTRACT,
       },
     };
 
@@ -282,11 +275,11 @@ async function main() {
       console.log('');
 
       // V3: on-chain proven data
-      console.log(`  ${BOLD}📡 Proven Data (on-chain getProvenData):${RESET}`);
+      console.log(`  ${BOLD}📡 Proven Data (decoded journal):${RESET}`);
       console.log(`  ${CYAN}Method:${RESET}      ${provenData.method || 'N/A'}`);
       console.log(`  ${CYAN}URL:${RESET}         ${provenData.url || record.sourceUrl}`);
-      if (provenData.proofTimestamp > 0) {
-        console.log(`  ${CYAN}Proof Time:${RESET}  ${new Date(provenData.proofTimestamp * 1000).toISOString()}`);
+      if (provenData.proofTimestamp !== 'N/A') {
+        console.log(`  ${CYAN}Proof Time:${RESET}  ${provenData.proofTimestamp}`);
       }
       if (provenData.extractedData) {
         console.log(`  ${CYAN}Extracted:${RESET}   ${provenData.extractedData}`);
@@ -297,6 +290,9 @@ async function main() {
       if (provenData.provenTranscriptHash) {
         console.log(`  ${CYAN}Transcript ♯:${RESET}${provenData.provenTranscriptHash.slice(0, 24)}...`);
       }
+      if (provenData.provenAudioHash) {
+        console.log(`  ${CYAN}Audio ♯:${RESET}     ${provenData.provenAudioHash.slice(0, 24)}...`);
+      }
       if (provenData.notaryKeyFingerprint && provenData.notaryKeyFingerprint !== '0x' + '0'.repeat(64)) {
         console.log(`  ${CYAN}Notary FP:${RESET}  ${(provenData.notaryKeyFingerprint as string).slice(0, 18)}...`);
       }
@@ -312,7 +308,7 @@ async function main() {
 
       console.log('');
       console.log(`  ${BOLD}🔗 Links:${RESET}`);
-      console.log(`  ${DIM}Contract: ${BASESCAN}/address/${CONTRACT}${RESET}`);
+      console.log(`  ${DIM}Contract: ${addressLink(CONTRACT)}${RESET}`);
       console.log('');
     }
   }
@@ -321,8 +317,8 @@ async function main() {
     console.log(JSON.stringify({
       version: USE_V1 ? 'v1' : 'v3',
       contract: CONTRACT,
-      network: 'base-sepolia',
-      chainId: 84532,
+      network: NETWORK.slug,
+      chainId: CHAIN_ID,
       stats: { total: totalRecords, accepted, blocked, recorded },
       owner,
       ...(USE_V1 ? { guestId } : { imageId, verifier: verifierAddr }),
@@ -333,8 +329,8 @@ async function main() {
       console.log(`${DIM}   (no records yet)${RESET}\n`);
     }
     console.log(`${BOLD}🔗 Quick Links:${RESET}`);
-    console.log(`   Contract:  ${BASESCAN}/address/${CONTRACT}`);
-    console.log(`   Owner:     ${BASESCAN}/address/${owner}`);
+    console.log(`   Contract:  ${addressLink(CONTRACT)}`);
+    console.log(`   Owner:     ${addressLink(owner)}`);
     console.log('');
   }
 }
@@ -21,8 +21,16 @@
 
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
-import { createPublicClient, http, keccak256, sha256 } from 'viem';
 import { baseSepolia } from 'viem/chains';
+import { getChainInfo } from '../lib/chains';
+import {
+  PINNED_DEPLOYMENTS,
+  VERICALL_REPO,
+  createVerificationClient,
+  verifyRegistry,
+  type CheckResult,
+  type RegistryTarget,
+} from '../lib/verification';
 
 // ─── Load .env.local (same as Next.js) ───────────────────────
 try {
@@ -83,169 +91,66 @@ const SHOW_CURSOR = `${ESC}[?25h`;
 
 // ─── On-chain verification (post-COMPLETE) ───────────────────
 
-const VERIFY_CONFIG = {
-  registry: '0x9beb87effdac68baf13b505b7e1515f9d43e6ad2' as `0x${string}`,
-  mockVerifier: '0xd447c1342f7350ec5f0af60f8ed98e33b8c78ea1' as `0x${string}`,
-  imageId: '0x6e251f4d993427d02a4199e1201f3b54462365d7c672a51be57f776d509b47eb',
-  rpcUrl: 'https://sepolia.base.org',
-  basescan: 'https://sepolia.basescan.org',
-  deployBlock: 37354216n,
-} as const;
-
-const REGISTRY_ABI = [
-  { type: 'function', name: 'getStats', inputs: [], outputs: [{ name: 'total', type: 'uint256' }, { name: 'accepted', type: 'uint256' }, { name: 'blocked', type: 'uint256' }, { name: 'recorded', type: 'uint256' }], stateMutability: 'view' },
-  { type: 'function', name: 'owner', inputs: [], outputs: [{ name: '', type: 'address' }], stateMutability: 'view' },
-  { type: 'function', name: 'imageId', inputs: [], outputs: [{ name: '', type: 'bytes32' }], stateMutability: 'view' },
-  { type: 'function', name: 'verifier', inputs: [], outputs: [{ name: '', type: 'address' }], stateMutability: 'view' },
-  { type: 'function', name: 'callIds', inputs: [{ name: '', type: 'uint256' }], outputs: [{ name: '', type: 'bytes32' }], stateMutability: 'view' },
-  { type: 'function', name: 'getRecord', inputs: [{ name: 'callId', type: 'bytes32' }], outputs: [{ name: '', type: 'tuple', components: [{ name: 'decision', type: 'uint8' }, { name: 'reason', type: 'string' }, { name: 'journalHash', type: 'bytes32' }, { name: 'zkProofSeal', type: 'bytes' }, { name: 'journalDataAbi', type: 'bytes' }, { name: 'sourceUrl', type: 'string' }, { name: 'timestamp', type: 'uint256' }, { name: 'submitter', type: 'address' }, { name: 'verified', type: 'bool' }] }], stateMutability: 'view' },
-  { type: 'function', name: 'getProvenData', inputs: [{ name: 'callId', type: 'bytes32' }], outputs: [{ name: 'notaryKeyFingerprint', type: 'bytes32' }, { name: 'method', type: 'string' }, { name: 'url', type: 'string' }, { name: 'proofTimestamp', type: 'uint256' }, { name: 'queriesHash', type: 'bytes32' }, { name: 'provenDecision', type: 'string' }, { name: 'provenReason', type: 'string' }], stateMutability: 'view' },
-  { type: 'function', name: 'verifyJournal', inputs: [{ name: 'callId', type: 'bytes32' }, { name: 'journalData', type: 'bytes' }], outputs: [{ name: '', type: 'bool' }], stateMutability: 'view' },
-] as const;
-
-const MOCK_VERIFIER_ABI = [
-  { type: 'function', name: 'SELECTOR', inputs: [], outputs: [{ name: '', type: 'bytes4' }], stateMutability: 'view' },
-  { type: 'function', name: 'verify', inputs: [{ name: 'seal', type: 'bytes' }, { name: 'imageId', type: 'bytes32' }, { name: 'journalDigest', type: 'bytes32' }], outputs: [], stateMutability: 'pure' },
-] as const;
-
-const DECISION_MAP: Record<number, string> = { 0: 'UNKNOWN', 1: 'ACCEPT', 2: 'BLOCK', 3: 'RECORD' };
+const VERIFY_CHAIN = getChainInfo(baseSepolia.id);
+
+const VERIFY_TARGET: RegistryTarget = {
+  chainId: baseSepolia.id,
+  network: VERIFY_CHAIN.name,
+  registry: PINNED_DEPLOYMENTS[baseSepolia.id].registry,
+  deployBlock: PINNED_DEPLOYMENTS[baseSepolia.id].deployBlock,
+  explorerUrl: VERIFY_CHAIN.explorerUrl,
+  repo: VERICALL_REPO,
+};
 
 /**
  * Run trust-minimized on-chain verification on the latest record.
- * This reads ONLY from the public blockchain — same checks as scripts/verify.ts.
+ * This reads ONLY from the public blockchain — the same checks as
+ * scripts/verify.ts and /verify (lib/verification).
  */
 async function runPostCompleteVerification(): Promise<void> {
   separator('🔍 ON-CHAIN VERIFICATION');
-  line(`${CYAN}🔍${RESET}     `, `${DIM}Reading directly from Base Sepolia (public RPC, no VeriCall APIs)…${RESET}`);
+  line(`${CYAN}🔍${RESET}     `, `${DIM}Reading directly from ${VERIFY_CHAIN.name} (public RPC, no VeriCall APIs)…${RESET}`);
   console.log();
 
-  const client: any = createPublicClient({ chain: baseSepolia, transport: http(VERIFY_CONFIG.rpcUrl) });
+  const client = createVerificationClient(VERIFY_CHAIN.chain, VERIFY_CHAIN.defaultRpcUrl);
 
   try {
-    // ─── Phase 1: Contract Checks ──────────────────────
-
-    // C1: Contract bytecode
-    const bytecode = await client.getCode({ address: VERIFY_CONFIG.registry });
-    const bytecodeOk = !!bytecode && bytecode !== '0x';
-    printCheck('C1', 'Contract bytecode exists', bytecodeOk,
-      bytecodeOk ? `${((bytecode!.length - 2) / 2)} bytes deployed` : 'No contract found');
-    if (!bytecodeOk) { line(`${RED}✗${RESET}      `, `Cannot verify — no contract`); return; }
-
-    // C2: Contract responds
-    const stats = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'getStats' })) as [bigint, bigint, bigint, bigint];
-    const total = Number(stats[0]);
-    printCheck('C2', 'Contract responds (getStats)', true,
-      `total=${total}, accepted=${stats[1]}, blocked=${stats[2]}, recorded=${stats[3]}`);
-
-    // C3: Verifier
-    const verifierAddr = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'verifier' })) as `0x${string}`;
-    let isMock = false;
-    try {
-      const sel = (await client.readContract({ address: verifierAddr, abi: MOCK_VERIFIER_ABI, functionName: 'SELECTOR' })) as string;
-      isMock = sel === '0xffffffff';
-    } catch { /* not mock */ }
-    printCheck('C3', 'Verifier configured', true,
-      isMock ? `MockVerifier at ${fmtHash(verifierAddr)} (0xFFFFFFFF)` : `Verifier at ${fmtHash(verifierAddr)}`);
-
-    // C4: Image ID
-    const imgId = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'imageId' })) as `0x${string}`;
-    printCheck('C4', 'Image ID (ZK guest program)', imgId !== ('0x' + '0'.repeat(64)),
-      `${fmtHash(imgId)}`);
-
-    // C5: Owner
-    const owner = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'owner' })) as `0x${string}`;
-    printCheck('C5', 'Owner address', true, `${fmtHash(owner)}`);
+    const report = await verifyRegistry(client, VERIFY_TARGET, {
+      records: 'latest',
+      onCheck: printCheck,
+      onContract: (contract) => {
+        console.log();
+        if (contract.stats.total === 0) return;
+        const idx = contract.stats.total - 1;
+        line(`${CYAN}📄${RESET}     `, `${BOLD}Verifying latest record #${idx}${RESET}`);
+        console.log();
+      },
+    });
 
-    console.log();
-    if (total === 0) {
+    if (report.records.length === 0) {
       line(`${YELLOW}⚠${RESET}      `, `No records on-chain yet`);
       return;
     }
 
-    // ─── Phase 2: Latest Record ────────────────────────
-
-    const idx = total - 1;
-    const callId = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'callIds', args: [BigInt(idx)] })) as `0x${string}`;
-    const record = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'getRecord', args: [callId] })) as any;
-
-    line(`${CYAN}📄${RESET}     `, `${BOLD}Verifying latest record #${idx}${RESET}  ${DIM}${DECISION_MAP[Number(record.decision)] || '?'}: ${record.reason.slice(0, 60)}${RESET}`);
-    console.log();
-
-    // V1: verified flag
-    printCheck('V1', 'verified == true (ZK proof passed)', record.verified === true,
-      record.verified ? 'On-chain verifier confirmed ZK proof at registration' : 'NOT VERIFIED');
-
-    // V2: Journal hash
-    const computedHash = keccak256(record.journalDataAbi);
-    const hashMatch = computedHash === record.journalHash;
-    printCheck('V2', 'Journal hash integrity (keccak256)', hashMatch,
-      hashMatch ? 'keccak256(journalDataAbi) matches stored commitment' : 'HASH MISMATCH');
-
-    // V3: On-chain verifyJournal
-    let journalOk = false;
-    try {
-      journalOk = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'verifyJournal', args: [callId, record.journalDataAbi] })) as boolean;
-    } catch { /* fail */ }
-    printCheck('V3', 'On-chain verifyJournal()', journalOk,
-      journalOk ? 'Contract confirms journal integrity' : 'Contract rejected journal');
-
-    // V4: Independent seal re-verification
-    let sealOk = false;
-    try {
-      const digest = sha256(record.journalDataAbi);
-      await client.readContract({ address: verifierAddr, abi: MOCK_VERIFIER_ABI, functionName: 'verify', args: [record.zkProofSeal, imgId, digest] });
-      sealOk = true;
-    } catch { /* fail */ }
-    printCheck('V4', 'Independent verifier.verify() call', sealOk,
-      sealOk ? 'Direct seal re-verification passed' : 'Seal verification failed');
-
-    // V5: Proven data
-    let pdValid = false;
-    try {
-      const pd = (await client.readContract({ address: VERIFY_CONFIG.registry, abi: REGISTRY_ABI, functionName: 'getProvenData', args: [callId] })) as any;
-      const notaryOk = pd[0] !== ('0x' + '0'.repeat(64));
-      const methodOk = pd[1] === 'GET';
-      const urlOk = (pd[2] as string).length > 0;
-      const dataOk = (pd[5] as string).length > 0;
-      pdValid = notaryOk && methodOk && urlOk && dataOk;
-      printCheck('V5', 'Proven data (TLSNotary metadata)', pdValid,
-        pdValid ? `Method=${pd[1]}, URL present, Notary FP non-zero` : 'Invalid proven data');
-    } catch {
-      printCheck('V5', 'Proven data (TLSNotary metadata)', false, 'Failed to decode');
-    }
-
-    // V6: Source URL pattern
-    const urlPattern = /\/api\/witness\/decision\/CA/;
-    const urlOk = urlPattern.test(record.sourceUrl);
-    printCheck('V6', 'Source URL matches Decision API', urlOk,
-      urlOk ? fmtHash(record.sourceUrl) : `Unexpected: ${record.sourceUrl}`);
-
-    // V7: Seal format (mock = starts with 0xffffffff)
-    const sealHex = record.zkProofSeal as string;
-    const sealPrefix = sealHex.slice(0, 10).toLowerCase();
-    const sealFmtOk = sealPrefix === '0xffffffff';
-    printCheck('V7', 'ZK seal format (RISC Zero mock selector)', sealFmtOk,
-      sealFmtOk ? `Seal: ${fmtHash(sealHex)} (${(sealHex.length - 2) / 2} bytes)` : `Unexpected prefix: ${sealPrefix}`);
-
     // Summary
-    const checks = [record.verified, hashMatch, journalOk, sealOk, pdValid, urlOk, sealFmtOk];
-    const passed = checks.filter(Boolean).length;
-    const total7 = checks.length;
+    const { passCount, failCount } = report.summary;
+    const recordChecks = report.records[0].checks.length;
+    const contractChecks = report.contract.checks.length;
     console.log();
 
-    if (passed === total7) {
+    if (report.summary.allPassed) {
       line(`${GREEN}${BOLD}✅${RESET}     `,
-        `${GREEN}${BOLD}ALL ${passed + 5}/${total7 + 5} CHECKS PASSED${RESET}  ${DIM}(5 contract + ${total7} record)${RESET}`);
+        `${GREEN}${BOLD}ALL ${passCount}/${passCount} CHECKS PASSED${RESET}  ${DIM}(${contractChecks} contract + ${recordChecks} record)${RESET}`);
       line(`       `, `${DIM}This verification read ONLY from the public blockchain.${RESET}`);
       line(`       `, `${DIM}No API keys, wallets, or trust in VeriCall required.${RESET}`);
     } else {
       line(`${RED}${BOLD}⚠${RESET}      `,
-        `${RED}${passed + 5}/${total7 + 5} checks passed (${total7 - passed} failed)${RESET}`);
+        `${RED}${passCount}/${passCount + failCount} checks passed (${failCount} failed)${RESET}`);
     }
 
     // Links
     console.log();
-    line(`${CYAN}🔗${RESET}     `, `${DIM}Contract: ${VERIFY_CONFIG.basescan}/address/${VERIFY_CONFIG.registry}${RESET}`);
+    line(`${CYAN}🔗${RESET}     `, `${DIM}Contract: ${VERIFY_CHAIN.explorerUrl}/address/${VERIFY_TARGET.registry}${RESET}`);
     line(`       `, `${DIM}Verify yourself: npx tsx scripts/verify.ts${RESET}`);
     line(`       `, `${DIM}Web: https://vericall-kkz6k4jema-uc.a.run.app/verify${RESET}`);
 
@@ -255,10 +160,10 @@ async function runPostCompleteVerification(): Promise<void> {
   }
 }
 
-function printCheck(id: string, label: string, passed: boolean, detail: string): void {
-  const icon = passed ? `${GREEN}✅${RESET}` : `${RED}❌${RESET}`;
-  line(icon, `${BOLD}[${id}]${RESET} ${label}`);
-  line(`       `, `${DIM}→ ${detail}${RESET}`);
+function printCheck(check: CheckResult): void {
+  const icon = check.passed ? `${GREEN}✅${RESET}` : `${RED}❌${RESET}`;
+  line(icon, `${BOLD}[${check.id}]${RESET} ${check.label}`);
+  line(`       `, `${DIM}→ ${check.detail}${RESET}`);
 }
 
 // ─── Helpers ──────────────────────────────────────────────────
@@ -449,11 +354,25 @@ function handleEvent(event: DemoEvent): void {
       break;
     }
 
+    case 'witness:batched': {
+      line(
+        `${CYAN}🌳${RESET}     `,
+        `${GREEN}✓${RESET} Queued for batch anchoring  ${DIM}(leaf ${fmtHash(String(data.leaf ?? ''))})${RESET}`,
+      );
+      break;
+    }
+
     case 'witness:on-chain': {
       line(
         `${CYAN}⛓️${RESET}      `,
         `${GREEN}${BOLD}✓ ON-CHAIN!${RESET}  TX: ${GREEN}${fmtHash(String(data.txHash ?? ''))}${RESET}  block: ${data.blockNumber}`,
       );
+      if (data.batchRoot) {
+        line(
+          `       `,
+          `${DIM}batch root ${fmtHash(String(data.batchRoot))} — leaf ${data.leafIndex} of ${data.batchSize}${RESET}`,
+        );
+      }
       line(
         `       `,
         `${DIM}https://sepolia.basescan.org/tx/${data.txHash}${RESET}`,
@@ -467,8 +386,15 @@ function handleEvent(event: DemoEvent): void {
       console.log();
 
       // Auto-verify: read the record back from chain and run checks
-      // Then go back to waiting state
-      runPostCompleteVerification()
+      // Then go back to waiting state. A batched call has no record of its
+      // own — point at the inclusion proof check instead.
+      if (data.batchRoot) {
+        line(
+          `       `,
+          `${DIM}Verify: npx tsx scripts/verify.ts --inclusion <BASE_URL>/witness/verify/${data.witnessId}${RESET}`,
+        );
+      }
+      (data.batchRoot ? Promise.resolve() : runPostCompleteVerification())
         .catch(() => {/* verification is best-effort */})
         .finally(() => {
           console.log();
@@ -19,10 +19,10 @@
  *   2. Deploy VeriCallRegistryV2(mockVerifierAddr, guestId)
  *   3. On-chain verification (5 checks)
  *   4. Auto-sync to all config locations:
- *      a. contracts/deployment.json  (Single Source of Truth)
+ *      a. contracts/deployments/84532.json  (Single Source of Truth)
  *      b. .env.local                 (local dev)
  *      c. GCP Secret Manager         (Cloud Run production)
- *      → GitHub Actions reads deployment.json on push
+ *      → GitHub Actions reads deployments/84532.json on push
  */
 
 import {
@@ -308,7 +308,7 @@ async function main() {
 
   console.log('\n── Step 4: Save & Sync ──');
 
-  // 4a: deployment.json (Single Source of Truth)
+  // 4a: deployments/84532.json (Single Source of Truth)
   const deployment = {
     version: 'v2',
     network: 'base-sepolia',
@@ -326,9 +326,9 @@ async function main() {
     notes: 'MockVerifier pattern (LensMint). Replace mockVerifier with RiscZeroVerifierRouter for production.',
   };
 
-  const deployPath = resolve(__dirname, '../contracts/deployment.json');
+  const deployPath = resolve(__dirname, '../contracts/deployments/84532.json');
   writeFileSync(deployPath, JSON.stringify(deployment, null, 2));
-  console.log(`   [4a] ✅ deployment.json saved`);
+  console.log(`   [4a] ✅ deployments/84532.json saved`);
 
   // 4b: .env.local — upsert VERICALL_CONTRACT_ADDRESS
   const envPath = resolve(__dirname, '../.env.local');
@@ -374,7 +374,7 @@ async function main() {
   console.log(`\n  MockVerifier:     ${mockAddress}`);
   console.log(`  RegistryV2:       ${v2Address}`);
   console.log(`  V1 (legacy):      0xe454ca755219310b2728d39db8039cbaa7abc3b8`);
-  console.log(`\n  📄 deployment.json  ✅`);
+  console.log(`\n  📄 deployments/84532.json  ✅`);
   console.log(`  📝 .env.local       ✅`);
   console.log(`  ☁️  Secret Manager   ${SKIP_SYNC ? '⏭️ skipped' : '✅'}`);
   console.log(`\n  Next: git push → GitHub Actions will deploy to Cloud Run`);
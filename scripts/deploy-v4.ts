@@ -290,9 +290,9 @@ async function main() {
     notes: 'V4: source code attestation (10-field journal). MockVerifier for dev.',
   };
 
-  const deployPath = resolve(__dirname, '../contracts/deployment.json');
+  const deployPath = resolve(__dirname, '../contracts/deployments/84532.json');
   writeFileSync(deployPath, JSON.stringify(deployment, null, 2));
-  console.log(`   [4a] ✅ deployment.json saved`);
+  console.log(`   [4a] ✅ deployments/84532.json saved`);
 
   // .env.local update
   const envPath = resolve(__dirname, '../.env.local');
@@ -0,0 +1,396 @@
+#!/usr/bin/env npx tsx
+/**
+ * Deploy VeriCallRegistryV5 + RiscZeroMockVerifier to Base Sepolia.
+ *
+ * V5 adds (registerCallDecision signature unchanged):
+ *   - 11-field journal: provenAudioHash after provenSourceCodeCommit
+ *   - anchorBatch() — one Merkle root for many calls
+ *   - verifyBatchedDecision() / verifyInclusion() / batchLeaf()
+ *   - amendDecision() / amendBatchedDecision() / getAmendments() — append-only corrections and disputes
+ *
+ * Set WITNESS_BATCH_ENABLED=true once the server points at the new address.
+ *
+ * Usage:
+ *   npx tsx scripts/deploy-v5.ts [--skip-sync]
+ */
+
+import {
+  createWalletClient, createPublicClient, http, formatEther,
+  keccak256, encodePacked, encodeAbiParameters,
+} from 'viem';
+import { baseSepolia } from 'viem/chains';
+import { mnemonicToAccount, privateKeyToAccount } from 'viem/accounts';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { resolve } from 'path';
+import { execSync } from 'child_process';
+import dotenv from 'dotenv';
+import { batchLeaf, buildMerkleTree } from '../lib/witness/merkle';
+
+dotenv.config({ path: resolve(__dirname, '../.env.local') });
+
+// ─── Flags ─────────────────────────────────────────────────────
+
+const SKIP_SYNC = process.argv.includes('--skip-sync');
+const GCP_PROJECT = process.env.GCP_PROJECT_ID || 'ethglobal-479011';
+
+// ─── Config ────────────────────────────────────────────────────
+
+const RPC_URL = process.env.ETHEREUM_RPC_URL || 'https://sepolia.base.org';
+const GUEST_ID = process.env.VLAYER_GUEST_ID ||
+  '0x6e251f4d993427d02a4199e1201f3b54462365d7c672a51be57f776d509b47eb';
+const BASESCAN = 'https://sepolia.basescan.org';
+
+const NOTARY_KEY_FP = process.env.VLAYER_NOTARY_KEY_FP ||
+  '0xa7e62d7f17aa7a22c26bdb93b7ce9400e826ffb2c6f54e54d2ded015677499af';
+
+// Deploy with bytes32(0) to skip check, then update after first proof.
+const QUERIES_HASH = process.env.VLAYER_QUERIES_HASH ||
+  '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+const URL_PREFIX = process.env.VLAYER_URL_PREFIX ||
+  process.env.VLAYER_PROOF_SOURCE_URL ||
+  process.env.NEXT_PUBLIC_BASE_URL ||
+  'https://vericall-kkz6k4jema-uc.a.run.app';
+const DECISION_URL_PREFIX = `${URL_PREFIX}/api/witness/decision/`;
+
+// ─── Wallet ────────────────────────────────────────────────────
+
+function getAccount() {
+  const mnemonic = process.env.DEPLOYER_MNEMONIC;
+  if (mnemonic) return mnemonicToAccount(mnemonic.trim());
+  const pk = process.env.DEPLOYER_PRIVATE_KEY;
+  if (pk) return privateKeyToAccount(pk as `0x${string}`);
+  throw new Error('Set DEPLOYER_MNEMONIC or DEPLOYER_PRIVATE_KEY in .env.local');
+}
+
+// ─── Load Forge Artifacts ──────────────────────────────────────
+
+function loadArtifact(name: string) {
+  const path = resolve(__dirname, `../contracts/out/${name}.sol/${name}.json`);
+  const json = JSON.parse(readFileSync(path, 'utf-8'));
+  return {
+    abi: json.abi,
+    bytecode: json.bytecode.object as `0x${string}`,
+  };
+}
+
+// ─── Main ──────────────────────────────────────────────────────
+
+async function main() {
+  console.log('\n🚀 VeriCallRegistryV5 Deployment (Merkle Batch Anchoring)');
+  console.log('═'.repeat(60));
+
+  const account = getAccount();
+  console.log(`\n📍 Deployer:          ${account.address}`);
+  console.log(`🔗 Network:           Base Sepolia (chainId 84532)`);
+  console.log(`🆔 Guest ID:          ${GUEST_ID.slice(0, 18)}...`);
+  console.log(`🔑 Notary FP:         ${NOTARY_KEY_FP.slice(0, 18)}...`);
+  console.log(`#️⃣  Queries Hash:      ${QUERIES_HASH.slice(0, 18)}...`);
+  console.log(`🔗 URL Prefix:        ${DECISION_URL_PREFIX}`);
+
+  const publicClient = createPublicClient({
+    chain: baseSepolia,
+    transport: http(RPC_URL),
+  });
+
+  const walletClient = createWalletClient({
+    account,
+    chain: baseSepolia,
+    transport: http(RPC_URL),
+  });
+
+  const balance = await publicClient.getBalance({ address: account.address });
+  console.log(`💰 Balance:           ${formatEther(balance)} ETH`);
+  if (balance === 0n) throw new Error('No ETH balance');
+
+  // ── Step 1: Deploy RiscZeroMockVerifier ────────────────────
+
+  console.log('\n── Step 1/3: Deploying RiscZeroMockVerifier ──');
+  const mockArtifact = loadArtifact('RiscZeroMockVerifier');
+  const mockHash = await walletClient.deployContract({
+    abi: mockArtifact.abi,
+    bytecode: mockArtifact.bytecode,
+    args: [],
+  });
+  console.log(`   TX: ${mockHash}`);
+  const mockReceipt = await publicClient.waitForTransactionReceipt({ hash: mockHash });
+  const mockAddress = mockReceipt.contractAddress!;
+  console.log(`   ✅ MockVerifier deployed: ${mockAddress}`);
+
+  // ── Step 2: Deploy VeriCallRegistryV5 ──────────────────────
+
+  console.log('\n── Step 2/3: Deploying VeriCallRegistryV5 ──');
+  const v5Artifact = loadArtifact('VeriCallRegistryV5');
+  const v5Hash = await walletClient.deployContract({
+    abi: v5Artifact.abi,
+    bytecode: v5Artifact.bytecode,
+    args: [
+      mockAddress,
+      GUEST_ID as `0x${string}`,
+      NOTARY_KEY_FP as `0x${string}`,
+      QUERIES_HASH as `0x${string}`,
+      DECISION_URL_PREFIX,
+    ],
+  });
+  console.log(`   TX: ${v5Hash}`);
+  const v5Receipt = await publicClient.waitForTransactionReceipt({ hash: v5Hash });
+  const v5Address = v5Receipt.contractAddress!;
+  console.log(`   ✅ RegistryV5 deployed: ${v5Address}`);
+  console.log(`   🔗 ${BASESCAN}/address/${v5Address}`);
+
+  // ── Step 3: Verification ───────────────────────────────────
+
+  console.log('\n── Step 3/3: On-chain Verification ──');
+
+  async function getCodeWithRetry(addr: `0x${string}`, label: string, maxRetries = 5): Promise<number> {
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const code = await publicClient.getCode({ address: addr });
+      const bytes = code && code !== '0x' ? (code.length - 2) / 2 : 0;
+      if (bytes > 0) return bytes;
+      if (attempt < maxRetries) {
+        console.log(`   ${label}: waiting for RPC propagation (${attempt}/${maxRetries})...`);
+        await new Promise((r) => setTimeout(r, 3000));
+      }
+    }
+    return 0;
+  }
+
+  const mockBytes = await getCodeWithRetry(mockAddress, 'MockVerifier');
+  console.log(`   MockVerifier: ${mockBytes} bytes ${mockBytes > 0 ? '✅' : '❌'}`);
+  const v5Bytes = await getCodeWithRetry(v5Address, 'RegistryV5');
+  console.log(`   RegistryV5:   ${v5Bytes} bytes ${v5Bytes > 0 ? '✅' : '❌'}`);
+
+  if (mockBytes === 0 || v5Bytes === 0) throw new Error('Contract bytecode not found');
+
+  // State verification
+  const verifierAddr = await publicClient.readContract({
+    address: v5Address, abi: v5Artifact.abi, functionName: 'verifier',
+  });
+  console.log(`   verifier:     ${(verifierAddr as string).toLowerCase() === mockAddress.toLowerCase() ? '✅' : '❌'}`);
+
+  const storedImageId = await publicClient.readContract({
+    address: v5Address, abi: v5Artifact.abi, functionName: 'imageId',
+  });
+  console.log(`   imageId:      ${storedImageId === GUEST_ID ? '✅' : '❌'}`);
+
+  // E2E simulation with 11-field journal
+  console.log(`\n   [E2E] Simulation with 11-field journal (V4 + provenAudioHash)`);
+
+  const testDecision = 'BLOCK';
+  const testReason = 'Suspicious sales pitch detected';
+  const testSystemPromptHash = 'a3f2b1c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2';
+  const testTranscriptHash = '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+  const testSourceCodeCommit = 'fb6d3e06800503a4cae2e1771e2286b0b8a41bcb';
+  const testAudioHash = 'fedcba0987654321fedcba0987654321fedcba0987654321fedcba0987654321';
+
+  const testJournal = encodeAbiParameters(
+    [
+      { type: 'bytes32' },  // notaryKeyFingerprint
+      { type: 'string' },   // method
+      { type: 'string' },   // url
+      { type: 'uint256' },  // timestamp
+      { type: 'bytes32' },  // queriesHash
+      { type: 'string' },   // provenDecision
+      { type: 'string' },   // provenReason
+      { type: 'string' },   // provenSystemPromptHash
+      { type: 'string' },   // provenTranscriptHash
+      { type: 'string' },   // provenSourceCodeCommit (NEW in V4)
+      { type: 'string' },   // provenAudioHash (NEW in V5)
+    ],
+    [
+      NOTARY_KEY_FP as `0x${string}`,
+      'GET',
+      `${DECISION_URL_PREFIX}test_call_sid`,
+      BigInt(Math.floor(Date.now() / 1000)),
+      QUERIES_HASH as `0x${string}`,
+      testDecision,
+      testReason,
+      testSystemPromptHash,
+      testTranscriptHash,
+      testSourceCodeCommit,
+      testAudioHash,
+    ],
+  );
+
+  const testSeal = (GUEST_ID.replace('0x', '0xffffffff')) as `0x${string}`;
+  const testCallId = keccak256(encodePacked(['string'], [`deploy_v5_verify_${Date.now()}`]));
+
+  try {
+    await publicClient.simulateContract({
+      account: account.address,
+      address: v5Address,
+      abi: v5Artifact.abi,
+      functionName: 'registerCallDecision',
+      args: [testCallId, 2, testReason, testSeal, testJournal],
+    });
+    console.log(`   ✅ Valid simulation PASSED (11-field journal)`);
+    console.log(`     → ZK verify           OK`);
+    console.log(`     → notaryFP check      OK`);
+    console.log(`     → method check        OK`);
+    console.log(`     → URL prefix check    OK`);
+    console.log(`     → decision binding    OK`);
+    console.log(`     → reason binding      OK`);
+    console.log(`     → sourceCodeCommit    OK (non-empty: ${testSourceCodeCommit.slice(0, 7)}…)`);
+  } catch (simErr: any) {
+    console.error(`   ❌ Simulation FAILED: ${simErr.shortMessage || simErr.message}`);
+    throw new Error('E2E simulation failed');
+  }
+
+  // Batch anchoring — contract hashing must match lib/witness/merkle.ts
+  console.log(`\n   [BATCH] Leaf + Merkle construction`);
+  const leaves = [1, 2, 3].map((decision) => batchLeaf({
+    callId: keccak256(encodePacked(['string'], [`deploy_v5_batch_${decision}_${Date.now()}`])),
+    decision,
+    journalDataAbi: testJournal,
+    zkProofSeal: testSeal,
+  }));
+  const tree = buildMerkleTree(leaves);
+
+  const contractLeaf = await publicClient.readContract({
+    address: v5Address, abi: v5Artifact.abi, functionName: 'batchLeaf',
+    args: [testCallId, 2, testJournal, testSeal],
+  });
+  const localLeaf = batchLeaf({ callId: testCallId, decision: 2, journalDataAbi: testJournal, zkProofSeal: testSeal });
+  console.log(`   batchLeaf():       ${contractLeaf === localLeaf ? '✅' : '❌'}`);
+  if (contractLeaf !== localLeaf) throw new Error('batchLeaf() differs from lib/witness/merkle.ts');
+
+  for (const [i, leaf] of leaves.entries()) {
+    const included = await publicClient.readContract({
+      address: v5Address, abi: v5Artifact.abi, functionName: 'verifyInclusion',
+      args: [tree.root, leaf, tree.proofs[i]],
+    });
+    console.log(`   verifyInclusion(#${i}): ${included ? '✅' : '❌'}`);
+    if (!included) throw new Error(`verifyInclusion() rejected leaf #${i}`);
+  }
+
+  try {
+    await publicClient.simulateContract({
+      account: account.address,
+      address: v5Address,
+      abi: v5Artifact.abi,
+      functionName: 'anchorBatch',
+      args: [tree.root, BigInt(leaves.length)],
+    });
+    console.log(`   ✅ anchorBatch() simulation PASSED`);
+  } catch (simErr: any) {
+    console.error(`   ❌ anchorBatch() simulation FAILED: ${simErr.shortMessage || simErr.message}`);
+    throw new Error('Batch simulation failed');
+  }
+
+  // Negative test — empty batch
+  console.log(`\n   [NEG] Empty batch test`);
+  try {
+    await publicClient.simulateContract({
+      account: account.address,
+      address: v5Address,
+      abi: v5Artifact.abi,
+      functionName: 'anchorBatch',
+      args: [tree.root, BigInt(0)],
+    });
+    console.error(`   ❌ SHOULD HAVE REVERTED`);
+    throw new Error('Empty batch was accepted');
+  } catch (negErr: any) {
+    if (negErr.message?.includes('was accepted')) throw negErr;
+    console.log(`   ✅ Empty batch correctly rejected`);
+  }
+
+  // Negative test — amendment for a callId that was never registered
+  console.log(`\n   [NEG] Amendment without a record`);
+  try {
+    await publicClient.simulateContract({
+      account: account.address,
+      address: v5Address,
+      abi: v5Artifact.abi,
+      functionName: 'amendDecision',
+      args: [testCallId, 0, 1, 'Caller was a relative', 'owner'],
+    });
+    console.error(`   ❌ SHOULD HAVE REVERTED`);
+    throw new Error('Amendment without a record was accepted');
+  } catch (negErr: any) {
+    if (negErr.message?.includes('was accepted')) throw negErr;
+    console.log(`   ✅ Amendment without a record correctly rejected`);
+  }
+
+  console.log(`\n   ═══ All verification checks passed ═══`);
+
+  // ── Step 4: Save ──────────────────────────────────────────
+
+  console.log('\n── Step 4: Save & Sync ──');
+
+  const deployment = {
+    version: 'v5',
+    network: 'base-sepolia',
+    chainId: 84532,
+    contractAddress: v5Address,
+    mockVerifierAddress: mockAddress,
+    deployer: account.address,
+    txHash: v5Hash,
+    mockVerifierTxHash: mockHash,
+    blockNumber: Number(v5Receipt.blockNumber),
+    guestId: GUEST_ID,
+    notaryKeyFingerprint: NOTARY_KEY_FP,
+    queriesHash: QUERIES_HASH,
+    expectedUrlPrefix: DECISION_URL_PREFIX,
+    deployedAt: new Date().toISOString(),
+    v4Address: '0x9a6015c6a0f13a816174995137e8a57a71250b81',
+    v3Address: '0x4395cf02b8d343aae958bda7ac6ed71fbd4abd48',
+    v2Address: '0x656ae703ca94cc4247493dec6f9af9c6f974ba82',
+    v1Address: '0xe454ca755219310b2728d39db8039cbaa7abc3b8',
+    verified: true,
+    notes: 'V5: Merkle batch anchoring + amendments + audio hash (11-field journal) on top of V4. MockVerifier for dev.',
+  };
+
+  const deployPath = resolve(__dirname, '../contracts/deployments/84532.json');
+  writeFileSync(deployPath, JSON.stringify(deployment, null, 2));
+  console.log(`   [4a] ✅ deployments/84532.json saved`);
+
+  // .env.local update
+  const envPath = resolve(__dirname, '../.env.local');
+  if (existsSync(envPath)) {
+    let envContent = readFileSync(envPath, 'utf-8');
+    const envKey = 'VERICALL_CONTRACT_ADDRESS';
+    const envLine = `${envKey}=${v5Address}`;
+    if (envContent.includes(envKey)) {
+      envContent = envContent.replace(new RegExp(`^${envKey}=.*$`, 'm'), envLine);
+    } else {
+      envContent += `\n${envLine}\n`;
+    }
+    writeFileSync(envPath, envContent);
+    console.log(`   [4b] ✅ .env.local updated → ${envLine}`);
+  }
+
+  // GCP Secret Manager
+  if (SKIP_SYNC) {
+    console.log(`   [4c] ⏭️  GCP sync skipped`);
+  } else {
+    try {
+      execSync(
+        `printf '%s' "${v5Address}" | gcloud secrets versions add VERICALL_CONTRACT_ADDRESS --data-file=- --project=${GCP_PROJECT}`,
+        { stdio: 'pipe' },
+      );
+      console.log(`   [4c] ✅ GCP Secret Manager updated`);
+    } catch {
+      console.warn(`   [4c] ⚠️  GCP sync failed (non-fatal)`);
+    }
+  }
+
+  // ── Summary ────────────────────────────────────────────────
+
+  console.log('\n' + '═'.repeat(60));
+  console.log('🎉 V5 Deployment Complete!');
+  console.log('═'.repeat(60));
+  console.log(`\n  MockVerifier:     ${mockAddress}`);
+  console.log(`  RegistryV5:       ${v5Address}`);
+  console.log(`  V4 (legacy):      0x9a6015c6a0f13a816174995137e8a57a71250b81`);
+  console.log(`\n  V5 improvements:`);
+  console.log(`    ✅ anchorBatch() — one TX per batch of calls`);
+  console.log(`    ✅ Per-call Merkle inclusion proofs (verifyBatchedDecision)`);
+  console.log(`    ✅ Append-only amendments (amendDecision / getAmendments)`);
+  console.log(`    ✅ Set WITNESS_BATCH_ENABLED=true to switch the pipeline over`);
+  console.log('');
+}
+
+main().catch((err) => {
+  console.error('\n❌ Deployment failed:', err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,284 @@
+#!/usr/bin/env npx tsx
+/**
+ * Local devnet — VeriCallRegistryV4 + RiscZeroMockVerifier on anvil.
+ *
+ * One command for offline chain-side development:
+ *   1. Builds the contracts with forge if contracts/out is missing
+ *   2. Starts anvil (chainId 31337, state kept in .devnet/) unless a node already answers
+ *   3. Deploys both contracts with anvil's account #0 (skipped if the last deployment is still there)
+ *   4. Writes contracts/deployments/31337.json and prints the env for the app
+ *
+ * With CHAIN_ID=31337 the witness pipeline and the explorer API use the devnet;
+ * `npx tsx scripts/verify.ts --devnet` verifies against it.
+ *
+ * Usage:
+ *   npx tsx scripts/devnet.ts              # start anvil + deploy, keep running (Ctrl+C to stop)
+ *   npx tsx scripts/devnet.ts --redeploy   # deploy fresh contracts even if the old ones exist
+ *   npx tsx scripts/devnet.ts --seed       # + register one sample decision
+ *   npx tsx scripts/devnet.ts --no-node    # deploy to an already running node and exit
+ */
+
+import {
+  createWalletClient, createPublicClient, http,
+  keccak256, encodePacked, encodeAbiParameters,
+} from 'viem';
+import { foundry } from 'viem/chains';
+import { privateKeyToAccount } from 'viem/accounts';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { resolve } from 'path';
+import { execSync, spawn, type ChildProcess } from 'child_process';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: resolve(__dirname, '../.env.local') });
+
+// ─── Flags ─────────────────────────────────────────────────────
+
+const args = process.argv.slice(2);
+const REDEPLOY = args.includes('--redeploy');
+const SEED = args.includes('--seed');
+const NO_NODE = args.includes('--no-node');
+
+// ─── Config ────────────────────────────────────────────────────
+
+const PORT = parseInt(process.env.DEVNET_PORT || '8545', 10);
+const RPC_URL = `http://127.0.0.1:${PORT}`;
+const CHAIN_ID = foundry.id;
+
+// anvil's well-known account #0 (test mnemonic) — never use it outside a devnet
+const ANVIL_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const PRIVATE_KEY = (process.env.DEVNET_PRIVATE_KEY || ANVIL_KEY) as `0x${string}`;
+
+// Same verifier parameters as the Base Sepolia deployment, so real vlayer journals verify here too
+const GUEST_ID = process.env.VLAYER_GUEST_ID ||
+  '0x6e251f4d993427d02a4199e1201f3b54462365d7c672a51be57f776d509b47eb';
+const NOTARY_KEY_FP = process.env.VLAYER_NOTARY_KEY_FP ||
+  '0xa7e62d7f17aa7a22c26bdb93b7ce9400e826ffb2c6f54e54d2ded015677499af';
+const QUERIES_HASH = process.env.VLAYER_QUERIES_HASH ||
+  '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+const URL_PREFIX = process.env.VLAYER_URL_PREFIX ||
+  process.env.NEXT_PUBLIC_BASE_URL ||
+  'http://localhost:3000';
+const DECISION_URL_PREFIX = `${URL_PREFIX}/api/witness/decision/`;
+
+const ROOT = resolve(__dirname, '..');
+const STATE_DIR = resolve(ROOT, '.devnet');
+const MANIFEST_PATH = resolve(ROOT, `contracts/deployments/${CHAIN_ID}.json`);
+
+// ─── Artifacts ─────────────────────────────────────────────────
+
+function artifactPath(name: string): string {
+  return resolve(ROOT, `contracts/out/${name}.sol/${name}.json`);
+}
+
+function loadArtifact(name: string) {
+  const json = JSON.parse(readFileSync(artifactPath(name), 'utf-8'));
+  return {
+    abi: json.abi,
+    bytecode: json.bytecode.object as `0x${string}`,
+  };
+}
+
+function ensureArtifacts(): void {
+  if (['RiscZeroMockVerifier', 'VeriCallRegistryV4'].every((name) => existsSync(artifactPath(name)))) return;
+
+  console.log('\n── Building contracts (forge build) ──');
+  try {
+    execSync('forge build', { cwd: ROOT, stdio: 'inherit' });
+  } catch {
+    throw new Error('forge build failed — install Foundry (https://getfoundry.sh) or build contracts/out first');
+  }
+}
+
+// ─── Node ──────────────────────────────────────────────────────
+
+const publicClient = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+
+async function nodeChainId(): Promise<number | null> {
+  try {
+    return await publicClient.getChainId();
+  } catch {
+    return null;
+  }
+}
+
+async function startAnvil(): Promise<ChildProcess> {
+  mkdirSync(STATE_DIR, { recursive: true });
+  const anvil = spawn(
+    'anvil',
+    ['--port', String(PORT), '--chain-id', String(CHAIN_ID), '--state', resolve(STATE_DIR, 'anvil-state.json')],
+    { stdio: ['ignore', 'ignore', 'inherit'] },
+  );
+  anvil.on('error', (err) => {
+    console.error(`   ❌ Could not start anvil (${err.message}) — install Foundry (https://getfoundry.sh)`);
+    process.exit(1);
+  });
+
+  for (let attempt = 0; attempt < 40; attempt++) {
+    if ((await nodeChainId()) === CHAIN_ID) return anvil;
+    await new Promise((r) => setTimeout(r, 250));
+  }
+  anvil.kill();
+  throw new Error(`anvil did not answer on ${RPC_URL}`);
+}
+
+// ─── Deploy ────────────────────────────────────────────────────
+
+interface DevnetManifest {
+  contractAddress: `0x${string}`;
+  mockVerifierAddress: `0x${string}`;
+  [key: string]: unknown;
+}
+
+async function existingDeployment(): Promise<DevnetManifest | null> {
+  if (REDEPLOY || !existsSync(MANIFEST_PATH)) return null;
+  const manifest = JSON.parse(readFileSync(MANIFEST_PATH, 'utf-8')) as DevnetManifest;
+  const code = await publicClient.getCode({ address: manifest.contractAddress });
+  return code && code !== '0x' ? manifest : null;
+}
+
+async function deploy(): Promise<DevnetManifest> {
+  const account = privateKeyToAccount(PRIVATE_KEY);
+  const walletClient = createWalletClient({ account, chain: foundry, transport: http(RPC_URL) });
+
+  console.log('\n── Deploying RiscZeroMockVerifier ──');
+  const mockArtifact = loadArtifact('RiscZeroMockVerifier');
+  const mockHash = await walletClient.deployContract({
+    abi: mockArtifact.abi,
+    bytecode: mockArtifact.bytecode,
+    args: [],
+  });
+  const mockReceipt = await publicClient.waitForTransactionReceipt({ hash: mockHash });
+  const mockAddress = mockReceipt.contractAddress!;
+  console.log(`   ✅ MockVerifier: ${mockAddress}`);
+
+  console.log('\n── Deploying VeriCallRegistryV4 ──');
+  const v4Artifact = loadArtifact('VeriCallRegistryV4');
+  const v4Hash = await walletClient.deployContract({
+    abi: v4Artifact.abi,
+    bytecode: v4Artifact.bytecode,
+    args: [
+      mockAddress,
+      GUEST_ID as `0x${string}`,
+      NOTARY_KEY_FP as `0x${string}`,
+      QUERIES_HASH as `0x${string}`,
+      DECISION_URL_PREFIX,
+    ],
+  });
+  const v4Receipt = await publicClient.waitForTransactionReceipt({ hash: v4Hash });
+  const v4Address = v4Receipt.contractAddress!;
+  console.log(`   ✅ RegistryV4:   ${v4Address}`);
+
+  const manifest = {
+    version: 'v4',
+    network: 'local',
+    chainId: CHAIN_ID,
+    rpcUrl: RPC_URL,
+    contractAddress: v4Address,
+    mockVerifierAddress: mockAddress,
+    deployer: account.address,
+    txHash: v4Hash,
+    mockVerifierTxHash: mockHash,
+    blockNumber: Number(v4Receipt.blockNumber),
+    guestId: GUEST_ID,
+    notaryKeyFingerprint: NOTARY_KEY_FP,
+    queriesHash: QUERIES_HASH,
+    expectedUrlPrefix: DECISION_URL_PREFIX,
+    deployedAt: new Date().toISOString(),
+    verified: false,
+    notes: 'Local devnet (anvil) — written by scripts/devnet.ts, not committed.',
+  };
+
+  mkdirSync(resolve(MANIFEST_PATH, '..'), { recursive: true });
+  writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  console.log(`   ✅ ${MANIFEST_PATH.replace(ROOT + '/', '')} saved`);
+  return manifest;
+}
+
+/** Register one sample BLOCK decision so the explorer and verify.ts have a record */
+async function seed(registry: `0x${string}`): Promise<void> {
+  const account = privateKeyToAccount(PRIVATE_KEY);
+  const walletClient = createWalletClient({ account, chain: foundry, transport: http(RPC_URL) });
+  const { abi } = loadArtifact('VeriCallRegistryV4');
+
+  const reason = 'Devnet sample: unsolicited SEO sales pitch';
+  const callSid = `devnet_seed_${Date.now()}`;
+  const journal = encodeAbiParameters(
+    [
+      { type: 'bytes32' }, { type: 'string' }, { type: 'string' },
+      { type: 'uint256' }, { type: 'bytes32' }, { type: 'string' },
+      { type: 'string' }, { type: 'string' }, { type: 'string' }, { type: 'string' },
+    ],
+    [
+      NOTARY_KEY_FP as `0x${string}`, 'GET',
+      `${DECISION_URL_PREFIX}${callSid}`, BigInt(Math.floor(Date.now() / 1000)),
+      QUERIES_HASH as `0x${string}`, 'BLOCK', reason,
+      'a3f2b1c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2',
+      '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+      'fb6d3e06800503a4cae2e1771e2286b0b8a41bcb',
+    ],
+  );
+  const seal = (GUEST_ID.replace('0x', '0xffffffff')) as `0x${string}`;
+  const callId = keccak256(encodePacked(['string'], [`vericall_${callSid}`]));
+
+  console.log('\n── Seeding a sample decision ──');
+  const hash = await walletClient.writeContract({
+    address: registry,
+    abi,
+    functionName: 'registerCallDecision',
+    args: [callId, 2, reason, seal, journal],
+  });
+  await publicClient.waitForTransactionReceipt({ hash });
+  console.log(`   ✅ Registered ${callId.slice(0, 18)}… (BLOCK) in ${hash}`);
+}
+
+// ─── Main ──────────────────────────────────────────────────────
+
+async function main() {
+  console.log('\n🧪 VeriCall Local Devnet');
+  console.log('═'.repeat(60));
+
+  ensureArtifacts();
+
+  let anvil: ChildProcess | null = null;
+  const running = await nodeChainId();
+  if (running !== null) {
+    if (running !== CHAIN_ID) throw new Error(`Node on ${RPC_URL} has chainId ${running}, expected ${CHAIN_ID}`);
+    console.log(`\n🔗 Using the node already running on ${RPC_URL}`);
+  } else if (NO_NODE) {
+    throw new Error(`No node on ${RPC_URL} (--no-node)`);
+  } else {
+    anvil = await startAnvil();
+    console.log(`\n🔗 anvil started on ${RPC_URL} (state: .devnet/anvil-state.json)`);
+  }
+
+  let manifest = await existingDeployment();
+  if (manifest) {
+    console.log(`\n♻️  Registry still deployed at ${manifest.contractAddress} (--redeploy for a fresh one)`);
+  } else {
+    manifest = await deploy();
+  }
+
+  if (SEED) await seed(manifest.contractAddress);
+
+  console.log('\n' + '═'.repeat(60));
+  console.log('Run the app against the devnet with (.env.local):\n');
+  console.log(`  CHAIN_ID=${CHAIN_ID}`);
+  console.log(`  ETHEREUM_RPC_URL=${RPC_URL}`);
+  console.log(`  DEPLOYER_PRIVATE_KEY=${PRIVATE_KEY}   # registry owner — unset DEPLOYER_MNEMONIC`);
+  console.log('  # and unset VERICALL_CONTRACT_ADDRESS so the devnet manifest is used');
+  console.log(`\nVerify:  npx tsx scripts/verify.ts --devnet`);
+
+  if (!anvil) return;
+
+  console.log('\nDevnet running — Ctrl+C to stop (state is saved on exit)');
+  const stop = () => anvil!.kill('SIGINT');
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+  await new Promise<void>((r) => anvil!.on('exit', () => r()));
+}
+
+main().catch((err) => {
+  console.error(`\n❌ ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
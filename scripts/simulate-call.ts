@@ -0,0 +1,141 @@
+#!/usr/bin/env npx tsx
+/**
+ * VeriCall Call Simulator — Twilio Media Streams without a phone
+ *
+ * Plays a scripted caller into the /stream WebSocket handler, acknowledges
+ * marks like Twilio does, and asserts on the decision and demo events.
+ *
+ * Usage:
+ *   npx tsx scripts/simulate-call.ts --text "Hi, I have a proposal for you"
+ *   npx tsx scripts/simulate-call.ts --script calls/postcard.txt --expect-decision BLOCK
+ *   npx tsx scripts/simulate-call.ts --audio caller.wav --url ws://localhost:3000/stream
+ *
+ * Options:
+ *   --text <utterance>         Caller turn as text (repeatable; "[ja-JP] …" = detected language)
+ *   --audio <file>             Caller turn from .wav (16-bit PCM) or .ulaw (repeatable)
+ *   --script <file>            Caller turns, one per line (`@file.wav` = audio turn)
+ *   --url <ws-url>             Use a running server instead of the in-process handler
+ *   --events <sse-url>         Demo SSE endpoint for remote mode (Bearer VERICALL_DEMO_TOKEN)
+ *   --from <number>            Caller number (default +15555550100)
+ *   --to <number>              Called number (selects the screening policy)
+ *   --speed <n>                Playback speed factor (default 4 in-process, 1 remote)
+ *   --expect-decision <D>      Fail unless the AI decides ACCEPT / BLOCK / RECORD
+ *   --expect-events <a,b,...>  Fail unless these demo events occur in order
+ *   --json                     Print the full result as JSON
+ *
+ * In-process mode uses the offline providers (scripted STT, tone TTS,
+ * rule-based screener) unless VOICE_*_PROVIDER is set explicitly.
+ * Exit code: 0 = all expectations met, 1 = failure.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve, dirname } from 'path';
+
+// ─── Load .env.local (same as Next.js) ───────────────────────
+try {
+  const envPath = resolve(__dirname, '..', '.env.local');
+  const envContent = readFileSync(envPath, 'utf-8');
+  for (const line of envContent.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const eq = trimmed.indexOf('=');
+    if (eq === -1) continue;
+    const key = trimmed.slice(0, eq).trim();
+    const val = trimmed.slice(eq + 1).trim().replace(/^["']|["']$/g, '');
+    if (!process.env[key]) process.env[key] = val;
+  }
+} catch { /* .env.local not found — ok */ }
+
+// ─── CLI args ─────────────────────────────────────────────────
+
+const args = process.argv.slice(2);
+
+function flag(name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i !== -1 ? args[i + 1] : undefined;
+}
+
+function flags(name: string): Array<{ index: number; value: string }> {
+  return args
+    .map((a, index) => ({ a, index }))
+    .filter(({ a, index }) => a === name && args[index + 1] !== undefined)
+    .map(({ index }) => ({ index, value: args[index + 1] }));
+}
+
+const remoteUrl = flag('--url');
+const jsonOutput = args.includes('--json');
+
+// ─── Main ─────────────────────────────────────────────────────
+
+async function main() {
+  if (!remoteUrl) {
+    // Offline providers for the in-process handler (must be set before import)
+    process.env.VOICE_STT_PROVIDER ||= 'scripted';
+    process.env.VOICE_TTS_PROVIDER ||= 'tone';
+    process.env.VOICE_LLM_PROVIDER ||= 'rules';
+  }
+
+  const { simulateCall } = await import('../lib/simulator/call-simulator');
+  type Turn = Parameters<typeof simulateCall>[0]['turns'][number];
+
+  // Turns keep command-line order across --text / --audio
+  const turns: Turn[] = [
+    ...flags('--text').map(({ index, value }) => ({ index, turn: { text: value } as Turn })),
+    ...flags('--audio').map(({ index, value }) => ({ index, turn: { audioFile: resolve(value) } as Turn })),
+  ].sort((a, b) => a.index - b.index).map((t) => t.turn);
+
+  const scriptPath = flag('--script');
+  if (scriptPath) {
+    const base = dirname(resolve(scriptPath));
+    for (const line of readFileSync(scriptPath, 'utf-8').split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      turns.push(trimmed.startsWith('@')
+        ? { audioFile: resolve(base, trimmed.slice(1)) }
+        : { text: trimmed });
+    }
+  }
+
+  if (turns.length === 0) {
+    console.error('No caller turns — pass --text, --audio or --script');
+    process.exit(1);
+  }
+
+  const expectEvents = flag('--expect-events');
+  const result = await simulateCall({
+    url: remoteUrl,
+    eventsUrl: flag('--events'),
+    eventsToken: process.env.VERICALL_DEMO_TOKEN,
+    from: flag('--from'),
+    to: flag('--to'),
+    turns,
+    speed: parseFloat(flag('--speed') || (remoteUrl ? '1' : '4')),
+    expect: {
+      decision: flag('--expect-decision')?.toUpperCase(),
+      events: expectEvents ? (expectEvents.split(',') as any) : undefined,
+    },
+    onEvent: jsonOutput ? undefined : (e) => {
+      const text = e.data.text ? ` "${e.data.text}"` : e.data.decision ? ` ${e.data.decision}` : '';
+      console.log(`  ▸ ${e.type}${text}`);
+    },
+  });
+
+  if (jsonOutput) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log('');
+    console.log(`  Call:      ${result.callSid}`);
+    console.log(`  Decision:  ${result.decision ?? '(none)'}`);
+    console.log(`  AI audio:  ${result.aiUtterances} utterance(s), ${Math.round(result.aiAudioMs)}ms, ${result.marksAcknowledged} mark(s) acked`);
+    console.log(`  Hang-up:   ${result.closedByServer ? 'by server' : 'by simulator'} after ${result.durationMs}ms`);
+    console.log(`  Result:    ${result.passed ? '✅ PASS' : '❌ FAIL'}`);
+    result.failures.forEach((f) => console.log(`    - ${f}`));
+  }
+
+  process.exit(result.passed ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error('Simulation error:', err);
+  process.exit(1);
+});
@@ -2,7 +2,7 @@
 /**
  * VeriCall — Trust-Minimized Independent Verification Report
  *
- * This script reads ONLY from the public Base Sepolia blockchain.
+ * This script reads ONLY from a public blockchain (Base Sepolia by default).
  * No API keys, no wallets, no trust in VeriCall operators required.
  *
  * Anyone can run this to independently verify that every AI call
@@ -13,67 +13,180 @@
  *   npx tsx scripts/verify.ts                 # Full verification report
  *   npx tsx scripts/verify.ts --record 0      # Verify specific record
  *   npx tsx scripts/verify.ts --deep          # + Re-fetch source URLs
+ *   npx tsx scripts/verify.ts --repo <path>   # + Recompute systemPromptHash from a local clone
+ *   npx tsx scripts/verify.ts --transcript <file>   # + Check a transcript disclosure
+ *                                             #   (GET /api/witness/transcript/[callSid] response,
+ *                                             #   or the plain transcript of a `sha256` record)
  *   npx tsx scripts/verify.ts --cast          # Print Foundry `cast` commands
  *   npx tsx scripts/verify.ts --json          # Machine-readable JSON output
+ *   npx tsx scripts/verify.ts --inclusion <url|file>   # Batched call: Merkle inclusion proof
+ *                                             #   (GET /witness/verify/[id] response, or a saved copy)
+ *   npx tsx scripts/verify.ts --inclusion <…> --registry 0x…   # Pin the V5 registry address
+ *   npx tsx scripts/verify.ts --signed <url|file>   # Server-signed decision, checked offline
+ *                                             #   (Decision API or /witness/verify/[id] response)
+ *   npx tsx scripts/verify.ts --signed <…> --keys <url|file>   # Pin the decision key set
+ *   npx tsx scripts/verify.ts --network base --registry 0x…   # Another network (slug or chain ID)
+ *   npx tsx scripts/verify.ts --rpc <url>     # Use your own RPC endpoint
+ *   npx tsx scripts/verify.ts --devnet [manifest]   # Local devnet (scripts/devnet.ts), same as --network local
  *
- * Requirements: Node.js ≥ 18, internet access (Base Sepolia RPC)
+ * Requirements: Node.js ≥ 18, internet access (the network's RPC)
  * No wallet or private key needed — read-only verification.
+ *
+ * VeriCall can register each decision on several networks under the same
+ * callId. Only Base Sepolia has its deployment pinned below; for another
+ * network pass the registry address you expect with --registry.
+ *
+ * --devnet is for developing the chain side offline: a local node has no
+ * public addresses to pin, so it reads them from the deployment manifest
+ * (default contracts/deployments/31337.json).
+ *
+ * The checks (C1–C5, V1–V10, B1–B8) are lib/verification, the same code the
+ * /verify page runs in the browser; this script picks the network, prints
+ * the results and builds the `cast` commands.
+ *
+ * V11 and V12 are in the same catalog but need material only the verifier
+ * has, so they run here. --repo reads the screening prompts at each record's
+ * provenSourceCodeCommit from a git clone (its working tree is left alone)
+ * and looks for one that hashes to provenSystemPromptHash; --transcript
+ * recomputes the turn commitments of a disclosure the call's owner handed
+ * over. Records from before salting (transcriptScheme `sha256`) committed
+ * to SHA-256 of the transcript text, so for them the file is the plain
+ * transcript instead. A disclosure is checked against the --record given,
+ * or else every record whose provenTranscriptHash it claims.
+ *
+ * --signed is the fallback for a call with no proof on-chain (vlayer down
+ * or not configured): it checks the server's signature on the decision
+ * record against the published key set (S1–S3). No chain access — and a
+ * weaker trust level, since the operator holding the key can sign anything.
  */
 
-import { createPublicClient, http, keccak256, parseAbiItem, sha256 } from 'viem';
-import { baseSepolia } from 'viem/chains';
+import type { Chain } from 'viem';
+import { baseSepolia, foundry } from 'viem/chains';
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { findChainBySelector, getChainInfo } from '../lib/chains';
+import { definePolicy, localizePolicy } from '../lib/voice-ai/policy';
+import { verifyTranscriptReveal, type TranscriptReveal } from '../lib/witness/transcript-commitment';
+import {
+  CHECKS,
+  CONTRACT_CHECK_IDS,
+  DEEP_CHECK_IDS,
+  PINNED_DEPLOYMENTS,
+  RECORD_CHECK_IDS,
+  REPRODUCTION_CHECK_IDS,
+  VERICALL_REPO,
+  checkResult,
+  createVerificationClient,
+  parseDecisionKeySet,
+  parseInclusionProof,
+  parseSignedDecision,
+  verifyInclusion,
+  verifyRegistry,
+  verifySignedDecision,
+  type CheckResult,
+  type ContractReport,
+  type DecisionKeySet,
+  type InclusionProof,
+  type RecordReport,
+  type RegistryTarget,
+  type SignedDecision,
+  type VerificationClient,
+  type VerificationReport,
+} from '../lib/verification';
 
 // ═══════════════════════════════════════════════════════════════
-// Config — hardcoded for trust-minimized verification.
+// Config — pinned for trust-minimized verification.
 // A verifier should NOT rely on .env or local config files.
-// These are public, on-chain addresses anyone can check.
+// These are public, on-chain addresses anyone can check
+// (lib/verification/deployments.ts).
 // ═══════════════════════════════════════════════════════════════
 
-const CONFIG = {
-  registry: '0x9a6015c6a0f13a816174995137e8a57a71250b81' as `0x${string}`,
-  mockVerifier: '0xea998b642b469736a3f656328853203da3d92724' as `0x${string}`,
-  deployer: '0x485A974140923524a74B0D72aF117852F31B412D' as `0x${string}`,
-  deployBlock: 37374494n,
-  imageId: '0x6e251f4d993427d02a4199e1201f3b54462365d7c672a51be57f776d509b47eb',
-  rpcUrl: 'https://sepolia.base.org',
-  basescan: 'https://sepolia.basescan.org',
-  chainId: 84532,
-  network: 'Base Sepolia',
-  repo: 'https://github.com/rtree/veriCall',
-} as const;
+interface NetworkConfig {
+  registry: `0x${string}`;
+  mockVerifier: `0x${string}`;
+  deployBlock: number;
+  rpcUrl: string;
+  /** Block explorer base URL ('' on a local devnet) */
+  basescan: string;
+  chainId: number;
+  network: string;
+  chain: Chain;
+  repo: string;
+}
 
-// ═══════════════════════════════════════════════════════════════
-// ABIs — inlined so the script is fully self-contained.
-// No imports from the project codebase.
-// ═══════════════════════════════════════════════════════════════
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 
-const REGISTRY_ABI = [
-  { type: 'function', name: 'getStats', inputs: [], outputs: [{ name: 'total', type: 'uint256' }, { name: 'accepted', type: 'uint256' }, { name: 'blocked', type: 'uint256' }, { name: 'recorded', type: 'uint256' }], stateMutability: 'view' },
-  { type: 'function', name: 'owner', inputs: [], outputs: [{ name: '', type: 'address' }], stateMutability: 'view' },
-  { type: 'function', name: 'imageId', inputs: [], outputs: [{ name: '', type: 'bytes32' }], stateMutability: 'view' },
-  { type: 'function', name: 'verifier', inputs: [], outputs: [{ name: '', type: 'address' }], stateMutability: 'view' },
-  { type: 'function', name: 'callIds', inputs: [{ name: '', type: 'uint256' }], outputs: [{ name: '', type: 'bytes32' }], stateMutability: 'view' },
-  { type: 'function', name: 'getRecord', inputs: [{ name: 'callId', type: 'bytes32' }], outputs: [{ name: '', type: 'tuple', components: [{ name: 'decision', type: 'uint8' }, { name: 'reason', type: 'string' }, { name: 'journalHash', type: 'bytes32' }, { name: 'zkProofSeal', type: 'bytes' }, { name: 'journalDataAbi', type: 'bytes' }, { name: 'sourceUrl', type: 'string' }, { name: 'timestamp', type: 'uint256' }, { name: 'submitter', type: 'address' }, { name: 'verified', type: 'bool' }] }], stateMutability: 'view' },
-  { type: 'function', name: 'getProvenData', inputs: [{ name: 'callId', type: 'bytes32' }], outputs: [{ name: 'notaryKeyFingerprint', type: 'bytes32' }, { name: 'method', type: 'string' }, { name: 'url', type: 'string' }, { name: 'proofTimestamp', type: 'uint256' }, { name: 'queriesHash', type: 'bytes32' }, { name: 'provenDecision', type: 'string' }, { name: 'provenReason', type: 'string' }, { name: 'provenSystemPromptHash', type: 'string' }, { name: 'provenTranscriptHash', type: 'string' }, { name: 'provenSourceCodeCommit', type: 'string' }], stateMutability: 'view' },
-  { type: 'function', name: 'verifyJournal', inputs: [{ name: 'callId', type: 'bytes32' }, { name: 'journalData', type: 'bytes' }], outputs: [{ name: '', type: 'bool' }], stateMutability: 'view' },
-  { type: 'function', name: 'EXPECTED_NOTARY_KEY_FP', inputs: [], outputs: [{ name: '', type: 'bytes32' }], stateMutability: 'view' },
-  { type: 'function', name: 'expectedQueriesHash', inputs: [], outputs: [{ name: '', type: 'bytes32' }], stateMutability: 'view' },
-  { type: 'function', name: 'expectedUrlPrefix', inputs: [], outputs: [{ name: '', type: 'string' }], stateMutability: 'view' },
-] as const;
-
-const MOCK_VERIFIER_ABI = [
-  { type: 'function', name: 'SELECTOR', inputs: [], outputs: [{ name: '', type: 'bytes4' }], stateMutability: 'view' },
-  { type: 'function', name: 'verify', inputs: [{ name: 'seal', type: 'bytes' }, { name: 'imageId', type: 'bytes32' }, { name: 'journalDigest', type: 'bytes32' }], outputs: [], stateMutability: 'pure' },
-] as const;
-
-// ─── Event ABI items for log lookups ───────────────────────────
-
-const CallDecisionRecordedEvent = parseAbiItem(
-  'event CallDecisionRecorded(bytes32 indexed callId, uint8 decision, uint256 timestamp, address submitter)',
-);
-const ProofVerifiedEvent = parseAbiItem(
-  'event ProofVerified(bytes32 indexed callId, bytes32 imageId, bytes32 journalDigest)',
-);
+const BASE_SEPOLIA: NetworkConfig = (() => {
+  const pinned = PINNED_DEPLOYMENTS[baseSepolia.id];
+  const info = getChainInfo(baseSepolia.id);
+  return {
+    registry: pinned.registry,
+    mockVerifier: pinned.mockVerifier,
+    deployBlock: pinned.deployBlock,
+    rpcUrl: info.defaultRpcUrl,
+    basescan: info.explorerUrl ?? '',
+    chainId: pinned.chainId,
+    network: info.name,
+    chain: info.chain,
+    repo: VERICALL_REPO,
+  };
+})();
+
+/** Devnet addresses from the manifest scripts/devnet.ts wrote */
+function loadDevnetConfig(manifestPath: string): NetworkConfig {
+  const m = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  return {
+    registry: m.contractAddress,
+    mockVerifier: m.mockVerifierAddress,
+    deployBlock: m.blockNumber ?? 0,
+    rpcUrl: m.rpcUrl || 'http://127.0.0.1:8545',
+    basescan: '',
+    chainId: m.chainId ?? foundry.id,
+    network: 'Local devnet',
+    chain: foundry,
+    repo: VERICALL_REPO,
+  };
+}
+
+/**
+ * Config for a network without pinned addresses. The registry must come
+ * from the user (--registry); everything else is read from the contract.
+ */
+function unpinnedConfig(selector: string, registry: `0x${string}` | null): NetworkConfig {
+  const known = findChainBySelector(selector);
+  if (!known) {
+    throw new Error(`Unknown network "${selector}" (known: base-sepolia, base, optimism, arbitrum, local or a chain ID)`);
+  }
+  // --inclusion reads the registry from the proof (or --registry) instead; --signed needs none
+  if (!registry && !INCLUSION_SRC && !SIGNED_SRC) {
+    throw new Error(`No pinned VeriCall deployment on ${known.name} — pass --registry 0x…`);
+  }
+  return {
+    registry: registry ?? ZERO_ADDRESS,
+    mockVerifier: ZERO_ADDRESS,
+    deployBlock: 0,
+    rpcUrl: known.defaultRpcUrl,
+    basescan: known.explorerUrl ?? '',
+    chainId: known.chain.id,
+    network: known.name,
+    chain: known.chain,
+    repo: VERICALL_REPO,
+  };
+}
+
+/** What the verification core needs to know about CONFIG */
+function registryTarget(registry: `0x${string}` = CONFIG.registry): RegistryTarget {
+  return {
+    chainId: CONFIG.chainId,
+    network: CONFIG.network,
+    registry,
+    deployBlock: CONFIG.deployBlock,
+    explorerUrl: CONFIG.basescan || null,
+    repo: CONFIG.repo,
+  };
+}
 
 // ═══════════════════════════════════════════════════════════════
 // CLI Flags
@@ -87,6 +200,56 @@ const RECORD_INDEX = (() => {
   const idx = args.indexOf('--record');
   return idx >= 0 && args[idx + 1] ? parseInt(args[idx + 1], 10) : null;
 })();
+const INCLUSION_SRC = (() => {
+  const idx = args.indexOf('--inclusion');
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] : null;
+})();
+const SIGNED_SRC = (() => {
+  const idx = args.indexOf('--signed');
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] : null;
+})();
+const KEYS_SRC = (() => {
+  const idx = args.indexOf('--keys');
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] : null;
+})();
+const REGISTRY_OVERRIDE = (() => {
+  const idx = args.indexOf('--registry');
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] as `0x${string}` : null;
+})();
+const NETWORK = (() => {
+  const idx = args.indexOf('--network');
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] : null;
+})();
+const REPO_PATH = (() => {
+  const idx = args.indexOf('--repo');
+  return idx >= 0 && args[idx + 1] ? resolve(args[idx + 1]) : null;
+})();
+const TRANSCRIPT_FILE = (() => {
+  const idx = args.indexOf('--transcript');
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] : null;
+})();
+const RPC_OVERRIDE = (() => {
+  const idx = args.indexOf('--rpc');
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] : null;
+})();
+const DEVNET_MANIFEST = (() => {
+  const idx = args.indexOf('--devnet');
+  const local = NETWORK === 'local' || NETWORK === String(foundry.id);
+  if (idx < 0 && !local) return null;
+  const next = idx >= 0 ? args[idx + 1] : undefined;
+  return next && !next.startsWith('--') ? next : resolve(__dirname, '../contracts/deployments/31337.json');
+})();
+
+function selectConfig(): NetworkConfig {
+  if (DEVNET_MANIFEST) return loadDevnetConfig(DEVNET_MANIFEST);
+  if (!NETWORK || NETWORK === 'base-sepolia' || NETWORK === String(BASE_SEPOLIA.chainId)) {
+    return REGISTRY_OVERRIDE && !INCLUSION_SRC ? { ...BASE_SEPOLIA, registry: REGISTRY_OVERRIDE, deployBlock: 0 } : BASE_SEPOLIA;
+  }
+  return unpinnedConfig(NETWORK, REGISTRY_OVERRIDE);
+}
+
+const BASE_CONFIG = selectConfig();
+const CONFIG: NetworkConfig = RPC_OVERRIDE ? { ...BASE_CONFIG, rpcUrl: RPC_OVERRIDE } : BASE_CONFIG;
 
 // ═══════════════════════════════════════════════════════════════
 // Terminal Colors
@@ -110,9 +273,6 @@ const FAIL = `${C.RD}❌${C.R}`;
 const WARN = `${C.Y}⚠️${C.R}`;
 const INFO = `${C.CY}ℹ${C.R}`;
 
-const DECISION_LABEL: Record<number, string> = {
-  0: 'UNKNOWN', 1: 'ACCEPT', 2: 'BLOCK', 3: 'RECORD',
-};
 const DECISION_EMOJI: Record<number, string> = {
   0: '❓', 1: '✅', 2: '🚫', 3: '📝',
 };
@@ -121,62 +281,11 @@ const DECISION_EMOJI: Record<number, string> = {
 // Types
 // ═══════════════════════════════════════════════════════════════
 
-interface CheckResult {
-  id: string;
-  label: string;
-  passed: boolean;
-  detail: string;
-  extra?: Record<string, any>;
-}
-
-interface RecordVerification {
-  index: number;
-  callId: string;
-  decision: string;
-  reason: string;
-  timestamp: string;
-  sourceUrl: string;
-  submitter: string;
-  txHash: string | null;
-  basescanTx: string | null;
-  checks: CheckResult[];
-  provenData: {
-    notaryKeyFingerprint: string;
-    method: string;
-    url: string;
-    proofTimestamp: string;
-    queriesHash: string;
-    provenDecision: string;
-    provenReason: string;
-    provenSystemPromptHash: string;
-    provenTranscriptHash: string;
-    provenSourceCodeCommit: string;
-    extractedData: string;
-  };
-  deepCheck?: {
-    urlAccessible: boolean;
-    responseConsistent: boolean;
-    currentResponse: string | null;
-  };
-}
-
-interface VerificationReport {
+/** --json output: the core report plus how to reproduce it */
+interface CliReport extends VerificationReport {
   title: string;
-  generated: string;
-  contract: string;
-  network: string;
-  chainId: number;
-  basescan: string;
   rpcUrl: string;
-  contractChecks: CheckResult[];
-  records: RecordVerification[];
-  summary: {
-    totalRecords: number;
-    allPassed: boolean;
-    passCount: number;
-    failCount: number;
-    trustModel: string[];
-  };
+  trustModel: string[];
   reproduce: {
     cli: string;
     cast: string[];
@@ -188,30 +297,22 @@ interface VerificationReport {
 // ═══════════════════════════════════════════════════════════════
 
 async function main(): Promise<void> {
-  const client = createPublicClient({
-    chain: baseSepolia,
-    transport: http(CONFIG.rpcUrl),
-  });
+  if (SIGNED_SRC) {
+    await verifySignedRecord(SIGNED_SRC);
+    return;
+  }
 
-  const report: VerificationReport = {
-    title: 'VeriCall — Independent Verification Report',
-    generated: new Date().toISOString(),
-    contract: CONFIG.registry,
-    network: CONFIG.network,
-    chainId: CONFIG.chainId,
-    basescan: `${CONFIG.basescan}/address/${CONFIG.registry}`,
-    rpcUrl: CONFIG.rpcUrl,
-    contractChecks: [],
-    records: [],
-    summary: {
-      totalRecords: 0,
-      allPassed: true,
-      passCount: 0,
-      failCount: 0,
-      trustModel: [],
-    },
-    reproduce: { cli: '', cast: [] },
-  };
+  const client = createVerificationClient(CONFIG.chain, CONFIG.rpcUrl);
+
+  if (INCLUSION_SRC) {
+    await verifyInclusionProof(client, INCLUSION_SRC);
+    return;
+  }
+
+  if (REPO_PATH) checkRepo(REPO_PATH);
+  const transcript = TRANSCRIPT_FILE ? loadTranscriptDisclosure(TRANSCRIPT_FILE) : null;
+
+  const generated = new Date().toISOString();
 
   // ─── Header ────────────────────────────────────────────────
 
@@ -222,530 +323,431 @@ async function main(): Promise<void> {
     console.log(`${C.B}║  "Replace 'trust the AI' with 'verify the AI'"                  ║${C.R}`);
     console.log(`${C.B}╚══════════════════════════════════════════════════════════════════╝${C.R}`);
     console.log('');
-    console.log(`  ${C.D}Generated:${C.R} ${report.generated}`);
+    console.log(`  ${C.D}Generated:${C.R} ${generated}`);
     console.log(`  ${C.D}Contract:${C.R}  ${CONFIG.registry}`);
     console.log(`  ${C.D}Network:${C.R}   ${CONFIG.network} (chainId ${CONFIG.chainId})`);
     console.log(`  ${C.D}RPC:${C.R}       ${CONFIG.rpcUrl}`);
-    console.log(`  ${C.D}BaseScan:${C.R}  ${CONFIG.basescan}/address/${CONFIG.registry}`);
+    if (CONFIG.basescan) console.log(`  ${C.D}BaseScan:${C.R}  ${CONFIG.basescan}/address/${CONFIG.registry}`);
     console.log('');
     console.log(`  ${C.D}This report reads ONLY from the public blockchain.${C.R}`);
     console.log(`  ${C.D}No API keys, wallets, or trust in VeriCall required.${C.R}`);
     console.log('');
-  }
-
-  // ═══════════════════════════════════════════════════════════
-  // Phase 1: Contract Verification
-  // ═══════════════════════════════════════════════════════════
 
-  if (!JSON_MODE && !CAST_MODE) {
     console.log(`${C.B}━━━ Phase 1: Contract Verification ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${C.R}`);
     console.log('');
   }
 
-  // C1: Contract bytecode exists
-  const bytecode = await client.getCode({ address: CONFIG.registry });
-  const bytecodeLen = bytecode ? (bytecode.length - 2) / 2 : 0;
-  const c1: CheckResult = {
-    id: 'C1', label: 'Contract bytecode exists',
-    passed: !!bytecode && bytecode !== '0x',
-    detail: `${bytecodeLen} bytes at ${CONFIG.registry}`,
-  };
-  report.contractChecks.push(c1);
-  if (!c1.passed) throw new Error(`No contract at ${CONFIG.registry} — cannot verify`);
-
-  // C2: Contract responds as VeriCallRegistryV4
-  const stats = (await client.readContract({
-    address: CONFIG.registry, abi: REGISTRY_ABI, functionName: 'getStats',
-  })) as [bigint, bigint, bigint, bigint];
-  const totalRecords = Number(stats[0]);
-  const c2: CheckResult = {
-    id: 'C2', label: 'Contract responds as VeriCallRegistryV4',
-    passed: true,
-    detail: `getStats() → total=${totalRecords}, accepted=${stats[1]}, blocked=${stats[2]}, recorded=${stats[3]}`,
-  };
-  report.contractChecks.push(c2);
-
-  // C3: Verifier contract
-  const verifierAddr = (await client.readContract({
-    address: CONFIG.registry, abi: REGISTRY_ABI, functionName: 'verifier',
-  })) as `0x${string}`;
-  const verifierCode = await client.getCode({ address: verifierAddr });
-  let mockSelector = '';
-  let isMockVerifier = false;
-  try {
-    mockSelector = (await client.readContract({
-      address: verifierAddr, abi: MOCK_VERIFIER_ABI, functionName: 'SELECTOR',
-    })) as string;
-    isMockVerifier = mockSelector === '0xffffffff';
-  } catch { /* not a mock verifier */ }
-
-  const c3: CheckResult = {
-    id: 'C3', label: 'Verifier contract configured',
-    passed: !!verifierCode && verifierCode !== '0x',
-    detail: isMockVerifier
-      ? `MockVerifier at ${verifierAddr} (SELECTOR=0xFFFFFFFF) — hackathon dev mode`
-      : `Verifier at ${verifierAddr}`,
-    extra: { verifierAddr, isMockVerifier, mockSelector },
-  };
-  report.contractChecks.push(c3);
-
-  // C4: Image ID
-  const imageId = (await client.readContract({
-    address: CONFIG.registry, abi: REGISTRY_ABI, functionName: 'imageId',
-  })) as `0x${string}`;
-  const c4: CheckResult = {
-    id: 'C4', label: 'Image ID (ZK guest program) configured',
-    passed: imageId !== '0x' + '0'.repeat(64),
-    detail: imageId,
-  };
-  report.contractChecks.push(c4);
-
-  // C5: Owner
-  const owner = (await client.readContract({
-    address: CONFIG.registry, abi: REGISTRY_ABI, functionName: 'owner',
-  })) as `0x${string}`;
-  const c5: CheckResult = {
-    id: 'C5', label: 'Owner address',
-    passed: true,
-    detail: owner,
-  };
-  report.contractChecks.push(c5);
-
-  if (!JSON_MODE && !CAST_MODE) {
-    for (const check of report.contractChecks) {
-      const icon = check.passed ? PASS : FAIL;
-      console.log(`  ${icon} ${C.B}[${check.id}]${C.R} ${check.label}`);
-      console.log(`       ${C.D}→ ${check.detail}${C.R}`);
-      if (check.id === 'C3' && isMockVerifier) {
-        console.log(`       ${C.D}→ Note: MockVerifier for hackathon. Production uses RiscZeroVerifierRouter.${C.R}`);
-      }
-      if (check.id === 'C1') {
-        console.log(`       ${C.D}→ ${CONFIG.basescan}/address/${CONFIG.registry}${C.R}`);
-      }
-    }
-    console.log('');
-  }
-
   // ═══════════════════════════════════════════════════════════
-  // Phase 2: Record Verification
+  // Phase 1 + 2: Contract and Record Verification
   // ═══════════════════════════════════════════════════════════
 
-  const startIdx = RECORD_INDEX !== null ? RECORD_INDEX : 0;
-  const endIdx = RECORD_INDEX !== null ? RECORD_INDEX + 1 : totalRecords;
-
-  if (!JSON_MODE && !CAST_MODE) {
-    if (RECORD_INDEX !== null) {
-      console.log(`${C.B}━━━ Phase 2: Record Verification (record #${RECORD_INDEX}) ━━━━━━━━━━━━━━━━${C.R}`);
-    } else {
-      console.log(`${C.B}━━━ Phase 2: Record Verification (${totalRecords} record${totalRecords !== 1 ? 's' : ''}) ━━━━━━━━━━━━━━━━━━${C.R}`);
-    }
-    console.log('');
-  }
-
-  for (let i = startIdx; i < endIdx; i++) {
-    const recordResult = await verifyRecord(client, i, imageId, verifierAddr);
-    report.records.push(recordResult);
+  const interactive = !JSON_MODE && !CAST_MODE;
+  const report = await verifyRegistry(client, registryTarget(), {
+    records: RECORD_INDEX !== null ? [RECORD_INDEX] : undefined,
+    deep: DEEP_MODE,
+    onCheck: (check) => {
+      // Contract checks print as they finish; record checks with their record
+      if (interactive && CONTRACT_CHECK_IDS.includes(check.id)) printCheck(check, '  ', '       ');
+    },
+    onContract: (contract) => {
+      if (interactive) printRecordsHeader(contract);
+    },
+    onRecord: (record) => {
+      // Appended before verifyRegistry() totals the summary, so V11/V12 count like the rest
+      record.checks.push(...reproductionChecks(record, transcript));
+      if (interactive) printRecord(record);
+    },
+  });
 
-    if (!JSON_MODE && !CAST_MODE) {
-      printRecord(recordResult);
-    }
+  if (transcript && !report.records.some((r) => r.checks.some((c) => c.id === 'V12'))) {
+    const msg = `No verified record proves transcriptHash ${transcript.hashes[0].slice(0, 16)}… — pass --record <n> to check the disclosure against one`;
+    if (JSON_MODE) console.error(msg);
+    else console.log(`  ${WARN} ${msg}\n`);
+    process.exitCode = 1;
   }
 
   // ═══════════════════════════════════════════════════════════
   // Phase 3: Verification Summary
   // ═══════════════════════════════════════════════════════════
 
-  const allRecordChecks = report.records.flatMap(r => r.checks);
-  const passCount = allRecordChecks.filter(c => c.passed).length;
-  const failCount = allRecordChecks.filter(c => !c.passed).length;
-  const allPassed = failCount === 0 && report.contractChecks.every(c => c.passed);
-
-  report.summary = {
-    totalRecords: report.records.length,
-    allPassed,
-    passCount: passCount + report.contractChecks.filter(c => c.passed).length,
-    failCount: failCount + report.contractChecks.filter(c => !c.passed).length,
+  const castCommands = buildCastCommands(report);
+  const cliReport: CliReport = {
+    title: 'VeriCall — Independent Verification Report',
+    ...report,
+    generated,
+    rpcUrl: CONFIG.rpcUrl,
     trustModel: [
-      'This verification reads ONLY from the public Base Sepolia blockchain.',
+      `This verification reads ONLY from the public ${CONFIG.network} blockchain.`,
       'No trust in VeriCall operators is required.',
       '',
       'What each check proves:',
-      '  V1: The ZK proof was verified by the on-chain verifier during registration',
-      '  V2: The journal data has not been modified after submission (keccak256 commitment)',
-      '  V3: The contract itself confirms journal integrity (on-chain verifyJournal())',
-      '  V4: Independent re-verification — calling verifier.verify() directly from this script',
-      '  V5: The TLSNotary/HTTP metadata in the journal is well-formed and non-trivial',
-      '  V5b: The proven decision matches the on-chain record decision',
-      '  V6: The registration transaction exists and is findable on BaseScan',
-      '  V7: The ProofVerified event was emitted, confirming ZK verification happened on-chain',
-      '  V8: Source code commit SHA is present on-chain (verifiable on GitHub)',
-      ...(DEEP_MODE ? [
-        '  V9: The source URL is still accessible (current state check)',
-        '  V10: The current API response is consistent with on-chain extracted data',
-      ] : []),
+      ...[
+        ...RECORD_CHECK_IDS,
+        ...(DEEP_MODE ? DEEP_CHECK_IDS : []),
+        ...REPRODUCTION_CHECK_IDS.filter((id) => id === 'V11' ? REPO_PATH : transcript),
+      ].map((id) => `  ${id}: ${CHECKS[id].proves}`),
     ],
-  };
-
-  // Build reproduce instructions
-  const castCommands = buildCastCommands(report);
-  report.reproduce = {
-    cli: `git clone ${CONFIG.repo} && cd veriCall && pnpm install && npx tsx scripts/verify.ts`,
-    cast: castCommands,
+    reproduce: {
+      cli: `git clone ${CONFIG.repo} && cd veriCall && pnpm install && npx tsx scripts/verify.ts`,
+      cast: castCommands,
+    },
   };
 
   // ─── Output ────────────────────────────────────────────────
 
   if (JSON_MODE) {
-    console.log(JSON.stringify(report, null, 2));
+    console.log(JSON.stringify(cliReport, null, 2));
   } else if (CAST_MODE) {
-    printCastCommands(report, castCommands);
+    printCastCommands(cliReport, castCommands);
   } else {
-    printSummary(report);
+    printSummary(cliReport);
   }
 }
 
 // ═══════════════════════════════════════════════════════════════
-// Record Verification
+// Batched Calls — Merkle Inclusion Proof (--inclusion)
 // ═══════════════════════════════════════════════════════════════
 
-async function verifyRecord(
-  client: ReturnType<typeof createPublicClient>,
-  index: number,
-  imageId: `0x${string}`,
-  verifierAddr: `0x${string}`,
-): Promise<RecordVerification> {
-  const checks: CheckResult[] = [];
+/** JSON from a URL or a saved file */
+async function readJsonSource(src: string): Promise<unknown> {
+  return /^https?:\/\//.test(src)
+    ? (await fetch(src, { headers: { Accept: 'application/json' }, signal: AbortSignal.timeout(10000) })).json()
+    : JSON.parse(readFileSync(src, 'utf-8'));
+}
 
-  // Read callId
-  const callId = (await client.readContract({
-    address: CONFIG.registry, abi: REGISTRY_ABI, functionName: 'callIds',
-    args: [BigInt(index)],
-  })) as `0x${string}`;
-
-  // Read record
-  const record = (await client.readContract({
-    address: CONFIG.registry, abi: REGISTRY_ABI, functionName: 'getRecord',
-    args: [callId],
-  })) as any;
-
-  const decision = Number(record.decision);
-  const timestamp = Number(record.timestamp);
-  const date = new Date(timestamp * 1000);
-
-  // ─── V1: verified flag ─────────────────────────────────────
-
-  checks.push({
-    id: 'V1', label: 'verified flag == true (ZK proof passed during registration)',
-    passed: record.verified === true,
-    detail: record.verified
-      ? 'The contract verified the ZK proof when this record was submitted'
-      : 'WARNING: Record was stored without passing ZK verification',
-  });
+/** A /witness/verify/[id] response (its `inclusion` field) or the bare proof, from a URL or file */
+async function loadInclusionProof(src: string): Promise<InclusionProof> {
+  const raw = await readJsonSource(src);
+  try {
+    return parseInclusionProof(raw);
+  } catch {
+    throw new Error(`No inclusion proof in ${src} — the call may not be anchored in a batch (yet)`);
+  }
+}
 
-  // ─── V2: Journal hash commitment ──────────────────────────
-
-  const computedJournalHash = keccak256(record.journalDataAbi);
-  const journalHashMatch = computedJournalHash === record.journalHash;
-  checks.push({
-    id: 'V2', label: 'Journal hash integrity (offline keccak256 check)',
-    passed: journalHashMatch,
-    detail: journalHashMatch
-      ? `keccak256(journalDataAbi) == stored journalHash`
-      : `MISMATCH: computed ${computedJournalHash} ≠ stored ${record.journalHash}`,
-    extra: { computed: computedJournalHash, stored: record.journalHash },
-  });
+async function verifyInclusionProof(client: VerificationClient, src: string): Promise<void> {
+  const p = await loadInclusionProof(src);
+  const registry = REGISTRY_OVERRIDE || p.contractAddress;
+  const report = await verifyInclusion(client, registryTarget(registry), p);
+  const { checks, allPassed } = report;
+
+  if (JSON_MODE) {
+    console.log(JSON.stringify({
+      title: 'VeriCall — Batched Call Inclusion Verification',
+      generated: report.generated,
+      contract: registry,
+      registrySource: REGISTRY_OVERRIDE ? '--registry' : 'inclusion proof',
+      network: CONFIG.network,
+      callId: p.callId,
+      decision: report.decisionLabel,
+      batchRoot: p.batchRoot,
+      leafIndex: p.leafIndex,
+      batchSize: p.batchSize,
+      txHash: p.txHash,
+      basescanTx: CONFIG.basescan ? `${CONFIG.basescan}/tx/${p.txHash}` : null,
+      checks,
+      allPassed,
+    }, null, 2));
+  } else {
+    console.log('');
+    console.log(`${C.B}━━━ Batched Call: Merkle Inclusion Proof ━━━━━━━━━━━━━━━━━━━━━━━━${C.R}`);
+    console.log('');
+    console.log(`    ${C.CY}Registry:${C.R}   ${registry}`);
+    if (!REGISTRY_OVERRIDE) {
+      console.log(`    ${C.D}            ${WARN} taken from the proof — pin it with --registry to avoid trusting the server${C.R}`);
+    }
+    console.log(`    ${C.CY}Call ID:${C.R}    ${p.callId.slice(0, 22)}...`);
+    console.log(`    ${C.CY}Decision:${C.R}   ${DECISION_EMOJI[p.decision] || '?'} ${report.decisionLabel}`);
+    console.log(`    ${C.CY}Batch root:${C.R} ${p.batchRoot}`);
+    console.log(`    ${C.CY}Leaf:${C.R}       #${p.leafIndex} of ${p.batchSize}`);
+    if (CONFIG.basescan) console.log(`    ${C.CY}BaseScan:${C.R}   ${CONFIG.basescan}/tx/${p.txHash}`);
+    console.log('');
+    for (const check of checks) printCheck(check, '    ', '         ');
+    console.log('');
+    const passed = checks.filter(c => c.passed).length;
+    console.log(allPassed
+      ? `  ${C.B}${C.G}✅ ALL CHECKS PASSED  (${passed}/${checks.length})${C.R}`
+      : `  ${C.B}${C.Y}⚠️  ${passed}/${checks.length} CHECKS PASSED${C.R}`);
+    console.log('');
+  }
 
-  // ─── V3: On-chain verifyJournal() ─────────────────────────
+  if (!allPassed) process.exitCode = 1;
+}
 
-  let journalVerified = false;
-  try {
-    journalVerified = (await client.readContract({
-      address: CONFIG.registry, abi: REGISTRY_ABI, functionName: 'verifyJournal',
-      args: [callId, record.journalDataAbi],
-    })) as boolean;
-  } catch (e: any) {
-    // will be marked as failed
-  }
-  checks.push({
-    id: 'V3', label: 'On-chain verifyJournal() returns true',
-    passed: journalVerified,
-    detail: journalVerified
-      ? 'Contract confirms keccak256(journalData) matches stored commitment'
-      : 'Contract rejected journal data integrity',
-  });
+// ═══════════════════════════════════════════════════════════════
+// Server-Signed Decision (--signed) — offline, weaker than the proof
+// ═══════════════════════════════════════════════════════════════
 
-  // ─── V4: Independent seal re-verification ─────────────────
+const DECISION_KEYS_PATH = '/.well-known/vericall-decision-keys.json';
 
-  let sealVerified = false;
-  let sealError = '';
+/** --keys, else the key set published next to the signed record */
+function decisionKeysSource(src: string): string {
+  if (KEYS_SRC) return KEYS_SRC;
+  if (/^https?:\/\//.test(src)) return new URL(DECISION_KEYS_PATH, src).toString();
+  throw new Error(`${src} is a file — pass --keys <url|file> (e.g. https://<host>${DECISION_KEYS_PATH})`);
+}
+
+async function verifySignedRecord(src: string): Promise<void> {
+  let signed: SignedDecision;
   try {
-    const journalDigest = sha256(record.journalDataAbi);
-    await client.readContract({
-      address: verifierAddr,
-      abi: MOCK_VERIFIER_ABI,
-      functionName: 'verify',
-      args: [record.zkProofSeal, imageId, journalDigest],
-    });
-    sealVerified = true;
-  } catch (e: any) {
-    sealError = e.message?.slice(0, 100) || 'Unknown error';
-  }
-  checks.push({
-    id: 'V4', label: 'Independent seal re-verification (verifier.verify() direct call)',
-    passed: sealVerified,
-    detail: sealVerified
-      ? 'Called verifier.verify(seal, imageId, sha256(journal)) — passed'
-      : `verifier.verify() failed: ${sealError}`,
-    extra: {
-      seal: `${record.zkProofSeal.slice(0, 20)}...${record.zkProofSeal.slice(-8)}`,
-      sealLength: (record.zkProofSeal.length - 2) / 2,
-    },
+    signed = parseSignedDecision(await readJsonSource(src));
+  } catch (err) {
+    throw new Error(`${src}: ${err instanceof Error ? err.message : err}`);
+  }
+  const keysSrc = decisionKeysSource(src);
+  const keySet: DecisionKeySet = parseDecisionKeySet(await readJsonSource(keysSrc));
+  const report = await verifySignedDecision(signed, keySet);
+  const { checks, allPassed } = report;
+
+  if (JSON_MODE) {
+    console.log(JSON.stringify({
+      title: 'VeriCall — Server-Signed Decision Verification',
+      trustLevel: 'server-signed',
+      keySource: keysSrc,
+      keySourcePinned: !!KEYS_SRC,
+      ...report,
+    }, null, 2));
+  } else {
+    console.log('');
+    console.log(`${C.B}━━━ Server-Signed Decision (offline) ━━━━━━━━━━━━━━━━━━━━━━━━━━━━${C.R}`);
+    console.log('');
+    console.log(`    ${C.CY}Call SID:${C.R}   ${signed.callSid}`);
+    console.log(`    ${C.CY}Decision:${C.R}   ${signed.decision}`);
+    if (typeof signed.reason === 'string') console.log(`    ${C.CY}Reason:${C.R}     ${signed.reason}`);
+    if (typeof signed.timestamp === 'string') console.log(`    ${C.CY}Time:${C.R}       ${signed.timestamp}`);
+    console.log(`    ${C.CY}Key:${C.R}        ${signed.signature.algorithm} ${signed.signature.keyId}`);
+    console.log(`    ${C.CY}Key set:${C.R}    ${keysSrc}`);
+    if (!KEYS_SRC) {
+      console.log(`    ${C.D}            ${WARN} published by the server that signed — pin it with --keys to avoid trusting that server${C.R}`);
+    }
+    console.log('');
+    for (const check of checks) printCheck(check, '    ', '         ');
+    console.log('');
+    const passed = checks.filter(c => c.passed).length;
+    console.log(allPassed
+      ? `  ${C.B}${C.G}✅ SIGNATURE VALID  (${passed}/${checks.length})${C.R}`
+      : `  ${C.B}${C.Y}⚠️  ${passed}/${checks.length} CHECKS PASSED${C.R}`);
+    console.log('');
+    console.log(`  ${INFO} ${C.D}Trust level: server-signed. This shows the holder of the decision key issued${C.R}`);
+    console.log(`    ${C.D}this record; unlike TLSNotary + ZK it cannot show the operator didn't sign${C.R}`);
+    console.log(`    ${C.D}something else. Once the call is on-chain, run without --signed.${C.R}`);
+    console.log('');
+  }
+
+  if (!allPassed) process.exitCode = 1;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Reproduction — System Prompt and Transcript (--repo, --transcript)
+// ═══════════════════════════════════════════════════════════════
+
+/** Where a commit keeps the prompts it can screen with (see lib/voice-ai/policy-registry.ts) */
+const PROMPT_SOURCE = 'lib/voice-ai/gemini.ts';
+/** Per-language scam patterns, folded into the hashed prompt by localizePolicy() */
+const LANGUAGE_SOURCE = 'lib/voice-ai/languages.ts';
+const POLICY_MODULE = 'lib/voice-ai/policy.ts';
+const POLICY_FILE = /^policies\/[a-z0-9][a-z0-9._-]*\/[1-9]\d*\.txt$/;
+
+/** `const SYSTEM_PROMPT… = \`…\`` — the built-in prompts are plain template literals */
+const PROMPT_LITERAL = /const\s+(SYSTEM_PROMPT\w*)\s*=\s*`((?:[^`\\]|\\[\s\S])*)`/g;
+
+/** One language profile's code, name and screeningNotes (template or empty string literal) */
+const LANGUAGE_PROFILE = /code:\s*'([^']+)',\s*name:\s*'([^']+)',[\s\S]*?screeningNotes:\s*(?:`((?:[^`\\]|\\[\s\S])*)`|'')/g;
+
+const TEMPLATE_ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0', '\n': '',
+};
+
+interface PromptCandidate {
+  /** File (and constant) the prompt came from */
+  source: string;
+  hash: string;
+}
+
+const promptCache = new Map<string, PromptCandidate[]>();
+
+function git(gitArgs: string[]): string {
+  return execFileSync('git', ['-C', REPO_PATH!, ...gitArgs], {
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+    maxBuffer: 16 * 1024 * 1024,
   });
+}
 
-  // ─── V5: Proven data extraction ───────────────────────────
-
-  let provenData = {
-    notaryKeyFingerprint: '' as string,
-    method: '' as string,
-    url: '' as string,
-    proofTimestamp: 0,
-    queriesHash: '' as string,
-    provenDecision: '' as string,
-    provenReason: '' as string,
-    provenSystemPromptHash: '' as string,
-    provenTranscriptHash: '' as string,
-    provenSourceCodeCommit: '' as string,
-    extractedData: '' as string,  // reconstructed for backward compat
-  };
-  let provenDataValid = false;
+function checkRepo(path: string): void {
   try {
-    const pd = (await client.readContract({
-      address: CONFIG.registry, abi: REGISTRY_ABI, functionName: 'getProvenData',
-      args: [callId],
-    })) as any;
-    provenData = {
-      notaryKeyFingerprint: pd[0] || '',
-      method: pd[1] || '',
-      url: pd[2] || '',
-      proofTimestamp: Number(pd[3] || 0),
-      queriesHash: pd[4] || '',
-      provenDecision: pd[5] || '',
-      provenReason: pd[6] || '',
-      provenSystemPromptHash: pd[7] || '',
-      provenTranscriptHash: pd[8] || '',
-      provenSourceCodeCommit: pd[9] || '',
-      extractedData: `${pd[5] || ''}|${pd[6] || ''}`,  // reconstructed summary
-    };
-    const notaryNonZero = provenData.notaryKeyFingerprint !== '0x' + '0'.repeat(64);
-    const methodGet = provenData.method === 'GET';
-    const urlNonEmpty = provenData.url.length > 0;
-    const dataPresent = provenData.provenDecision.length > 0;
-    provenDataValid = notaryNonZero && methodGet && urlNonEmpty && dataPresent;
-  } catch { /* will be marked failed */ }
-
-  checks.push({
-    id: 'V5', label: 'Proven data decoded via getProvenData() — TLSNotary metadata valid',
-    passed: provenDataValid,
-    detail: provenDataValid
-      ? `Method=${provenData.method}, URL present, Notary FP non-zero, Data extracted`
-      : 'Failed to decode or validate journal proven data fields',
-    extra: {
-      method: provenData.method,
-      url: provenData.url,
-      notaryFP: provenData.notaryKeyFingerprint
-        ? `${(provenData.notaryKeyFingerprint as string).slice(0, 18)}...`
-        : 'N/A',
-      extractedDataPreview: provenData.extractedData.slice(0, 120),
-      proofTimestamp: provenData.proofTimestamp > 0
-        ? new Date(provenData.proofTimestamp * 1000).toISOString()
-        : 'N/A',
-    },
-  });
+    execFileSync('git', ['-C', path, 'rev-parse', '--git-dir'], { stdio: 'ignore' });
+  } catch {
+    throw new Error(`--repo ${path} is not a git clone of ${CONFIG.repo}`);
+  }
+}
 
-  // ─── V6: TX hash from CallDecisionRecorded event ──────────
+/** The value of a template literal body with no ${} in it */
+function cookTemplateLiteral(raw: string): string {
+  return raw
+    .replace(/\r\n?/g, '\n')
+    .replace(/\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|[\s\S])/g, (_, esc: string) =>
+      esc.length > 1 ? String.fromCodePoint(parseInt(esc.slice(1).replace(/[{}]/g, ''), 16)) : TEMPLATE_ESCAPES[esc] ?? esc);
+}
 
-  let txHash: string | null = null;
-  try {
-    const logs = await client.getLogs({
-      address: CONFIG.registry,
-      event: CallDecisionRecordedEvent,
-      args: { callId },
-      fromBlock: CONFIG.deployBlock,
-      toBlock: 'latest',
-    });
-    if (logs.length > 0) {
-      txHash = logs[0].transactionHash;
+/**
+ * Every prompt the source at `commit` can screen with, hashed the way
+ * definePolicy() does — and, from commits that localize policies, each of
+ * them localized to every language profile at that commit. (The section
+ * wording is this checkout's localizePolicy().) Throws if the clone
+ * doesn't have the commit.
+ */
+function promptCandidates(commit: string): PromptCandidate[] {
+  const cached = promptCache.get(commit);
+  if (cached) return cached;
+
+  git(['cat-file', '-e', `${commit}^{commit}`]);
+  const files = git(['ls-tree', '-r', '--name-only', commit]).split('\n');
+  const prompts: Array<{ source: string; prompt: string }> = [];
+
+  if (files.includes(PROMPT_SOURCE)) {
+    const source = git(['show', `${commit}:${PROMPT_SOURCE}`]);
+    for (const [, name, raw] of source.matchAll(PROMPT_LITERAL)) {
+      if (/(^|[^\\])\$\{/.test(raw)) continue;
+      prompts.push({ source: `${PROMPT_SOURCE} ${name}`, prompt: cookTemplateLiteral(raw) });
     }
-  } catch { /* event lookup may fail on some RPCs */ }
-
-  checks.push({
-    id: 'V6', label: 'Registration TX found via event logs',
-    passed: txHash !== null,
-    detail: txHash
-      ? `TX: ${txHash}`
-      : 'Could not find CallDecisionRecorded event (RPC may not support historical logs)',
-  });
-
-  // ─── V7: ProofVerified event ──────────────────────────────
+  }
+  for (const file of files.filter((f) => POLICY_FILE.test(f))) {
+    prompts.push({ source: file, prompt: git(['show', `${commit}:${file}`]) });
+  }
 
-  let proofEvent: { imageId: string; journalDigest: string } | null = null;
-  try {
-    const logs = await client.getLogs({
-      address: CONFIG.registry,
-      event: ProofVerifiedEvent,
-      args: { callId },
-      fromBlock: CONFIG.deployBlock,
-      toBlock: 'latest',
-    });
-    if (logs.length > 0) {
-      proofEvent = {
-        imageId: (logs[0].args as any).imageId,
-        journalDigest: (logs[0].args as any).journalDigest,
-      };
+  const localizes = files.includes(LANGUAGE_SOURCE) && files.includes(POLICY_MODULE)
+    && git(['show', `${commit}:${POLICY_MODULE}`]).includes('export function localizePolicy');
+  const languages = localizes
+    ? Array.from(git(['show', `${commit}:${LANGUAGE_SOURCE}`]).matchAll(LANGUAGE_PROFILE), ([, code, name, notes]) => ({
+        code, name, screeningNotes: notes ? cookTemplateLiteral(notes) : '',
+      }))
+    : [];
+
+  const candidates: PromptCandidate[] = [];
+  for (const { source, prompt } of prompts) {
+    const policy = definePolicy({ name: source, version: 1, prompt, source: 'file' });
+    candidates.push({ source, hash: policy.hash });
+    for (const language of languages) {
+      const localized = localizePolicy(policy, language);
+      if (localized !== policy) candidates.push({ source: `${source} + ${language.code}`, hash: localized.hash });
     }
-  } catch { /* event lookup may fail */ }
-
-  checks.push({
-    id: 'V7', label: 'ProofVerified event emitted (ZK verification happened on-chain)',
-    passed: proofEvent !== null,
-    detail: proofEvent
-      ? `ProofVerified(imageId=${(proofEvent.imageId as string).slice(0, 18)}..., journalDigest=${(proofEvent.journalDigest as string).slice(0, 18)}...)`
-      : 'Could not find ProofVerified event',
-  });
+  }
 
-  // ─── V5b: Decision consistency ────────────────────────────
-
-  const provenDecisionUpper = provenData.provenDecision?.toUpperCase() || '';
-  const onChainDecisionLabel = DECISION_LABEL[decision] || 'UNKNOWN';
-  const decisionMatch = provenDecisionUpper === onChainDecisionLabel.toUpperCase();
-  checks.push({
-    id: 'V5b', label: 'Decision consistency (proven vs on-chain)',
-    passed: decisionMatch,
-    detail: decisionMatch
-      ? `Proven "${provenData.provenDecision}" matches on-chain "${onChainDecisionLabel}"`
-      : `Proven "${provenData.provenDecision || '?'}" ≠ on-chain "${onChainDecisionLabel}"`,
-  });
+  promptCache.set(commit, candidates);
+  return candidates;
+}
 
-  // ─── V8: Source code attestation ──────────────────────────
-
-  const commitSha = provenData.provenSourceCodeCommit;
-  let v8Passed = false;
-  let v8Detail = '';
-  if (commitSha && commitSha.length >= 7 && commitSha !== 'unknown') {
-    const isValidHex = /^[0-9a-f]{7,40}$/.test(commitSha);
-    v8Passed = isValidHex;
-    v8Detail = isValidHex
-      ? `Commit ${commitSha.slice(0, 7)}… on-chain → ${CONFIG.repo}/tree/${commitSha}`
-      : `Invalid commit format: "${commitSha}"`;
-  } else {
-    v8Passed = false;
-    v8Detail = commitSha === 'unknown'
-      ? 'sourceCodeCommit = "unknown" — record created before attestation was deployed'
-      : 'Source code commit not in journal — cannot verify logic';
-  }
-  checks.push({
-    id: 'V8', label: 'Source code attestation (commit SHA on-chain)',
-    passed: v8Passed,
-    detail: v8Detail,
+/** V11 — a prompt at provenSourceCodeCommit hashes to provenSystemPromptHash */
+function verifyPromptReproduction(rec: RecordReport): CheckResult {
+  const { provenSourceCodeCommit: commit, provenSystemPromptHash } = rec.provenData;
+  const claimed = provenSystemPromptHash.toLowerCase();
+  if (!/^[0-9a-f]{7,40}$/.test(commit)) {
+    return checkResult('V11', false, 'No source code commit in the journal — nothing to reproduce');
+  }
+  if (!claimed) return checkResult('V11', false, 'No systemPromptHash in the journal');
+
+  const short = commit.slice(0, 7);
+  let candidates: PromptCandidate[];
+  try {
+    candidates = promptCandidates(commit);
+  } catch {
+    return checkResult('V11', false, `Commit ${short}… not in ${REPO_PATH} — git fetch, then retry`);
+  }
+
+  const match = candidates.find((c) => c.hash === claimed);
+  if (match) {
+    return checkResult('V11', true, `sha256(${match.source}) at ${short}… == systemPromptHash`, {
+      link: `${CONFIG.repo}/blob/${commit}/${match.source.split(' ')[0]}`,
+    });
+  }
+  return checkResult('V11', false, `None of ${candidates.length} prompt(s) at ${short}… hash to ${claimed.slice(0, 16)}…`, {
+    notes: [
+      ...candidates.map((c) => ({ text: `${c.source}: ${c.hash.slice(0, 16)}…` })),
+      { text: 'Policies published to the database are not in the source — fetch them from /api/policies/<name>/<version>' },
+    ],
   });
+}
 
-  // ─── V9/V10: Deep verification (--deep) ───────────────────
+/**
+ * What --transcript was given: a salted disclosure, or the plain text of a
+ * `sha256` record. `hashes` are the transcriptHash values it can match.
+ */
+type TranscriptDisclosure =
+  | { scheme: 'salted'; hashes: string[]; reveal: TranscriptReveal }
+  | { scheme: 'sha256'; hashes: string[]; text: string };
+
+/** A saved GET /api/witness/transcript/[callSid] response, or else a plain transcript */
+function loadTranscriptDisclosure(file: string): TranscriptDisclosure {
+  const content = readFileSync(file, 'utf-8');
+  let raw: Partial<TranscriptReveal> | null = null;
+  try {
+    raw = JSON.parse(content);
+  } catch { /* not JSON — a plain transcript */ }
 
-  let deepCheck: RecordVerification['deepCheck'] = undefined;
-  if (DEEP_MODE && provenData.url) {
-    deepCheck = await deepVerify(provenData.url, provenData.extractedData, checks);
+  if (raw && typeof raw === 'object' && ('turnCommitments' in raw || 'revealed' in raw)) {
+    if (typeof raw.transcriptHash !== 'string' || !Array.isArray(raw.turnCommitments) || !Array.isArray(raw.revealed)) {
+      throw new Error(`${file} is not a transcript disclosure (GET /api/witness/transcript/[callSid])`);
+    }
+    return { scheme: 'salted', hashes: [raw.transcriptHash], reveal: raw as TranscriptReveal };
   }
 
+  // Editors add a final newline the stored transcript may not have had
+  const variants = content.endsWith('\n') ? [content, content.slice(0, -1)] : [content];
   return {
-    index,
-    callId,
-    decision: `${DECISION_EMOJI[decision] || '?'} ${DECISION_LABEL[decision] || 'UNKNOWN'}`,
-    reason: record.reason,
-    timestamp: date.toISOString(),
-    sourceUrl: record.sourceUrl,
-    submitter: record.submitter,
-    txHash,
-    basescanTx: txHash ? `${CONFIG.basescan}/tx/${txHash}` : null,
-    checks,
-    provenData: {
-      notaryKeyFingerprint: provenData.notaryKeyFingerprint,
-      method: provenData.method,
-      url: provenData.url,
-      proofTimestamp: provenData.proofTimestamp > 0
-        ? new Date(provenData.proofTimestamp * 1000).toISOString()
-        : 'N/A',
-      queriesHash: provenData.queriesHash,
-      provenDecision: provenData.provenDecision,
-      provenReason: provenData.provenReason,
-      provenSystemPromptHash: provenData.provenSystemPromptHash,
-      provenTranscriptHash: provenData.provenTranscriptHash,
-      provenSourceCodeCommit: provenData.provenSourceCodeCommit,
-      extractedData: provenData.extractedData,
-    },
-    deepCheck,
+    scheme: 'sha256',
+    hashes: variants.map((text) => createHash('sha256').update(text).digest('hex')),
+    text: content,
   };
 }
 
-// ═══════════════════════════════════════════════════════════════
-// Deep Verification (--deep)
-// ═══════════════════════════════════════════════════════════════
-
-async function deepVerify(
-  url: string,
-  onChainExtractedData: string,
-  checks: CheckResult[],
-): Promise<RecordVerification['deepCheck']> {
-  let urlAccessible = false;
-  let responseConsistent = false;
-  let currentResponse: string | null = null;
+/** V12 — a disclosure checked against provenTranscriptHash, per its scheme */
+function verifyTranscriptDisclosure(rec: RecordReport, disclosure: TranscriptDisclosure): CheckResult {
+  return disclosure.scheme === 'salted'
+    ? verifySaltedDisclosure(rec, disclosure.reveal)
+    : verifyPlainTranscript(rec, disclosure);
+}
 
-  try {
-    const resp = await fetch(url, {
-      headers: { 'Accept': 'application/json' },
-      signal: AbortSignal.timeout(10000),
+/** V12 (sha256 records) — the plain transcript hashes to provenTranscriptHash */
+function verifyPlainTranscript(
+  rec: RecordReport,
+  disclosure: Extract<TranscriptDisclosure, { scheme: 'sha256' }>,
+): CheckResult {
+  const claimed = rec.provenData.provenTranscriptHash.toLowerCase();
+  const ok = disclosure.hashes.includes(claimed);
+  const lines = disclosure.text.split('\n').filter(Boolean);
+  return checkResult('V12', ok,
+    ok
+      ? `Plain transcript (${lines.length} line(s)) — SHA-256 matches transcriptHash`
+      : `SHA-256 of the transcript ${disclosure.hashes[0].slice(0, 16)}… ≠ proven ${claimed.slice(0, 16)}…`, {
+      notes: ok
+        ? lines.slice(0, 6).map((line) => ({ text: line.length > 70 ? `${line.slice(0, 70)}…` : line }))
+        : [{ text: 'Salted records (transcriptScheme salted-sha256-turns-v1) need the GET /api/witness/transcript/[callSid] response instead' }],
     });
-    urlAccessible = resp.ok;
-    if (resp.ok) {
-      currentResponse = await resp.text();
-
-      // Parse both the on-chain extracted data and current response
-      try {
-        const onChainParsed = JSON.parse(onChainExtractedData);
-        const currentParsed = JSON.parse(currentResponse);
-
-        // Check if the decision and reason match
-        const decisionMatch = onChainParsed.decision === currentParsed.decision;
-        const reasonMatch = onChainParsed.reason === currentParsed.reason;
-        responseConsistent = decisionMatch && reasonMatch;
-      } catch {
-        // If either isn't valid JSON, do a string comparison
-        responseConsistent = currentResponse.includes(onChainExtractedData) ||
-          onChainExtractedData.includes(currentResponse);
-      }
-    }
-  } catch {
-    // URL not accessible or timed out
-  }
-
-  checks.push({
-    id: 'V9', label: 'Source URL currently accessible',
-    passed: urlAccessible,
-    detail: urlAccessible
-      ? `HTTP 200 from ${url}`
-      : `Could not reach ${url} (may be expected if ephemeral)`,
-  });
+}
 
-  checks.push({
-    id: 'V10', label: 'Current API response consistent with on-chain extracted data',
-    passed: responseConsistent,
-    detail: responseConsistent
-      ? 'Decision API currently returns the same decision as the on-chain proof'
-      : urlAccessible
-        ? 'Response differs from on-chain data (acceptable — Web Proof locked historical state)'
-        : 'Could not compare (URL not accessible)',
-  });
+/** V12 (salted records) — the disclosed turns match their commitments, which hash to provenTranscriptHash */
+function verifySaltedDisclosure(rec: RecordReport, reveal: TranscriptReveal): CheckResult {
+  const problems = verifyTranscriptReveal(reveal, rec.provenData.provenTranscriptHash);
+  const turns = reveal.revealed.map((t) => ({
+    text: `Turn ${t.index} ${t.role}: ${t.content.length > 60 ? `${t.content.slice(0, 60)}…` : t.content}`,
+  }));
+  return checkResult('V12', problems.length === 0,
+    problems.length === 0
+      ? `${reveal.revealed.length} of ${reveal.turnCommitments.length} turn(s) disclosed — commitments hash to transcriptHash`
+      : problems[0], {
+      notes: [...problems.slice(1).map((text) => ({ text })), ...turns],
+    });
+}
 
-  return { urlAccessible, responseConsistent, currentResponse };
+function reproductionChecks(rec: RecordReport, transcript: TranscriptDisclosure | null): CheckResult[] {
+  const checks: CheckResult[] = [];
+  if (REPO_PATH) checks.push(verifyPromptReproduction(rec));
+  if (transcript && (RECORD_INDEX !== null
+    || transcript.hashes.some((h) => h.toLowerCase() === rec.provenData.provenTranscriptHash.toLowerCase()))) {
+    checks.push(verifyTranscriptDisclosure(rec, transcript));
+  }
+  return checks;
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -773,7 +775,7 @@ function buildCastCommands(report: VerificationReport): string[] {
     `cast call ${CONFIG.registry} "owner()(address)" ${rpc}`,
     ``,
     `# Check MockVerifier SELECTOR`,
-    `cast call ${report.contractChecks.find(c => c.id === 'C3')?.extra?.verifierAddr || CONFIG.mockVerifier} "SELECTOR()(bytes4)" ${rpc}`,
+    `cast call ${report.contract.verifier || CONFIG.mockVerifier} "SELECTOR()(bytes4)" ${rpc}`,
   ];
 
   for (const rec of report.records) {
@@ -784,18 +786,25 @@ function buildCastCommands(report: VerificationReport): string[] {
     commands.push(`cast call ${CONFIG.registry} "getRecord(bytes32)" ${rec.callId} ${rpc}`);
     commands.push(``);
     commands.push(`# Decode proven data (TLSNotary + HTTP metadata)`);
+    commands.push(`# (V4 returns 10 values; a V5 registry appends provenAudioHash — add ",string")`);
     commands.push(`cast call ${CONFIG.registry} "getProvenData(bytes32)(bytes32,string,string,uint256,bytes32,string,string,string,string,string)" ${rec.callId} ${rpc}`);
     commands.push(``);
     commands.push(`# Verify journal integrity on-chain`);
-    // We need the actual journal data hex
-    const check = rec.checks.find(c => c.id === 'V2');
     commands.push(`# (Requires journalDataAbi hex — retrieve via getRecord first)`);
     commands.push(`cast call ${CONFIG.registry} "verifyJournal(bytes32,bytes)(bool)" ${rec.callId} <journalDataAbi_hex> ${rpc}`);
 
+    if (rec.amendments.length > 0) {
+      commands.push(``);
+      commands.push(`# Amendment history (V5)`);
+      commands.push(`cast call ${CONFIG.registry} "getAmendments(bytes32)((uint8,uint8,string,string,uint256,address)[])" ${rec.callId} ${rpc}`);
+    }
+
     if (rec.txHash) {
       commands.push(``);
-      commands.push(`# View transaction on BaseScan`);
-      commands.push(`# ${CONFIG.basescan}/tx/${rec.txHash}`);
+      if (CONFIG.basescan) {
+        commands.push(`# View transaction on BaseScan`);
+        commands.push(`# ${CONFIG.basescan}/tx/${rec.txHash}`);
+      }
       commands.push(`cast tx ${rec.txHash} ${rpc}`);
       commands.push(`cast receipt ${rec.txHash} ${rpc}`);
     }
@@ -808,53 +817,61 @@ function buildCastCommands(report: VerificationReport): string[] {
 // Print Helpers
 // ═══════════════════════════════════════════════════════════════
 
-function printRecord(rec: RecordVerification): void {
+/** A check, its detail and its notes — the same layout for C, V and B checks */
+function printCheck(check: CheckResult, indent: string, detailIndent: string): void {
+  console.log(`${indent}${check.passed ? PASS : FAIL} ${C.B}[${check.id}]${C.R} ${check.label}`);
+  console.log(`${detailIndent}${C.D}→ ${check.detail}${C.R}`);
+  if (check.link && !check.detail.includes(check.link)) {
+    console.log(`${detailIndent}${C.D}→ ${check.link}${C.R}`);
+  }
+  for (const note of check.notes) {
+    console.log(`${detailIndent}${C.D}  • ${note.text}${C.R}`);
+  }
+}
+
+function printRecordsHeader(contract: ContractReport): void {
+  const total = contract.stats.total;
+  console.log('');
+  if (RECORD_INDEX !== null) {
+    console.log(`${C.B}━━━ Phase 2: Record Verification (record #${RECORD_INDEX}) ━━━━━━━━━━━━━━━━${C.R}`);
+  } else {
+    console.log(`${C.B}━━━ Phase 2: Record Verification (${total} record${total !== 1 ? 's' : ''}) ━━━━━━━━━━━━━━━━━━${C.R}`);
+  }
+  console.log('');
+}
+
+function printRecord(rec: RecordReport): void {
   console.log(`  ${C.B}─── Record #${rec.index} ────────────────────────────────────────${C.R}`);
   console.log('');
   console.log(`    ${C.CY}Call ID:${C.R}    ${rec.callId.slice(0, 22)}...`);
-  console.log(`    ${C.CY}Decision:${C.R}   ${rec.decision}`);
+  console.log(`    ${C.CY}Decision:${C.R}   ${DECISION_EMOJI[rec.decision] || '?'} ${rec.decisionLabel}`);
   console.log(`    ${C.CY}Reason:${C.R}     ${rec.reason}`);
   console.log(`    ${C.CY}Time:${C.R}       ${rec.timestamp}`);
   console.log(`    ${C.CY}Submitter:${C.R}  ${rec.submitter}`);
   console.log(`    ${C.CY}Source URL:${C.R} ${rec.sourceUrl}`);
   if (rec.txHash) {
     console.log(`    ${C.CY}TX Hash:${C.R}    ${rec.txHash}`);
-    console.log(`    ${C.CY}BaseScan:${C.R}   ${rec.basescanTx}`);
+    if (CONFIG.basescan) console.log(`    ${C.CY}BaseScan:${C.R}   ${CONFIG.basescan}/tx/${rec.txHash}`);
   }
-  console.log('');
-  console.log(`    ${C.B}Verification Checks:${C.R}`);
-  for (const check of rec.checks) {
-    const icon = check.passed ? PASS : FAIL;
-    console.log(`    ${icon} ${C.B}[${check.id}]${C.R} ${check.label}`);
-    console.log(`         ${C.D}→ ${check.detail}${C.R}`);
-
-    // Print extra detail for V5 (proven data)
-    if (check.id === 'V5' && check.passed && check.extra) {
-      console.log(`         ${C.D}  • Method:        ${check.extra.method}${C.R}`);
-      console.log(`         ${C.D}  • URL:           ${check.extra.url?.slice(0, 80)}${check.extra.url?.length > 80 ? '...' : ''}${C.R}`);
-      console.log(`         ${C.D}  • Notary FP:     ${check.extra.notaryFP}${C.R}`);
-      console.log(`         ${C.D}  • Proof Time:    ${check.extra.proofTimestamp}${C.R}`);
-      console.log(`         ${C.D}  • Extracted:     ${check.extra.extractedDataPreview}${check.extra.extractedDataPreview?.length >= 120 ? '...' : ''}${C.R}`);
-    }
-
-    // Print extra for V4 (seal info)
-    if (check.id === 'V4' && check.extra) {
-      console.log(`         ${C.D}  • Seal:          ${check.extra.seal} (${check.extra.sealLength} bytes)${C.R}`);
-    }
-
-    // Print GitHub link for V8 (source code attestation)
-    if (check.id === 'V8' && check.passed) {
-      const commit = rec.provenData.provenSourceCodeCommit;
-      console.log(`         ${C.D}  • GitHub:        ${CONFIG.repo}/tree/${commit}${C.R}`);
-      console.log(`         ${C.D}  • System prompt:  ${CONFIG.repo}/blob/${commit}/lib/voice-ai/gemini.ts${C.R}`);
+  if (rec.amendments.length > 0) {
+    console.log('');
+    console.log(`    ${C.B}Amendments${C.R} ${C.D}(appended — the record above is unchanged):${C.R}`);
+    for (const a of rec.amendments) {
+      const change = a.correctedDecision ? ` ${rec.decisionLabel} → ${a.correctedDecision}` : '';
+      console.log(`    ${WARN} ${C.B}#${a.index} ${a.kind.toUpperCase()}${C.R}${change} ${C.D}by ${a.filedBy}, ${a.timestamp}${C.R}`);
+      console.log(`         ${C.D}→ ${a.reason}${C.R}`);
     }
   }
   console.log('');
+  console.log(`    ${C.B}Verification Checks:${C.R}`);
+  for (const check of rec.checks) printCheck(check, '    ', '         ');
+  console.log('');
 }
 
-function printSummary(report: VerificationReport): void {
+function printSummary(report: CliReport): void {
   const { summary } = report;
   const total = summary.passCount + summary.failCount;
+  const verifiedOn = `  • ${summary.totalRecords} record${summary.totalRecords !== 1 ? 's' : ''} verified on ${CONFIG.network}`;
 
   console.log(`${C.B}━━━ Phase 3: Verification Summary ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${C.R}`);
   console.log('');
@@ -868,7 +885,7 @@ function printSummary(report: VerificationReport): void {
     console.log(`  ${c}║${' '.repeat(bW)}║${C.R}`);
     console.log(`  ${c}║${pad(`  ✅ ALL CHECKS PASSED  (${total}/${total})`)}  ║${C.R}`);
     console.log(`  ${c}║${' '.repeat(bW)}║${C.R}`);
-    console.log(`  ${c}║${pad(`  • ${summary.totalRecords} record${summary.totalRecords !== 1 ? 's' : ''} verified on Base Sepolia`)}  ║${C.R}`);
+    console.log(`  ${c}║${pad(verifiedOn)}  ║${C.R}`);
     console.log(`  ${c}║${pad('  • All ZK proofs independently re-verified')}  ║${C.R}`);
     console.log(`  ${c}║${pad('  • All journal hashes match on-chain commitments')}  ║${C.R}`);
     console.log(`  ${c}║${pad('  • All registration transactions found on-chain')}  ║${C.R}`);
@@ -879,13 +896,13 @@ function printSummary(report: VerificationReport): void {
     const failedChecks = report.records.flatMap(r =>
       r.checks.filter(c => !c.passed).map(c => ({ record: r.index, id: c.id, label: c.label }))
     );
-    const contractFails = report.contractChecks.filter(c => !c.passed);
+    const contractFails = report.contract.checks.filter(c => !c.passed);
     const c = `${C.B}${C.Y}`;
     console.log(`  ${c}╔${bar}╗${C.R}`);
     console.log(`  ${c}║${' '.repeat(bW)}║${C.R}`);
     console.log(`  ${c}║${pad(`  ⚠️  ${summary.passCount}/${total} CHECKS PASSED  (${summary.failCount} failed)`)}  ║${C.R}`);
     console.log(`  ${c}║${' '.repeat(bW)}║${C.R}`);
-    console.log(`  ${c}║${pad(`  • ${summary.totalRecords} record${summary.totalRecords !== 1 ? 's' : ''} verified on Base Sepolia`)}  ║${C.R}`);
+    console.log(`  ${c}║${pad(verifiedOn)}  ║${C.R}`);
     for (const f of contractFails) {
       console.log(`  ${c}║${pad(`  ${FAIL} [${f.id}] ${f.label}`)}  ║${C.R}`);
     }
@@ -910,7 +927,7 @@ function printSummary(report: VerificationReport): void {
   console.log(`  ${C.B}Trust Model:${C.R}`);
   const boxW = 84;
   console.log(`  ${C.D}┌${'─'.repeat(boxW)}┐${C.R}`);
-  for (const line of summary.trustModel) {
+  for (const line of report.trustModel) {
     console.log(`  ${C.D}│${C.R} ${line.padEnd(boxW - 2)} ${C.D}│${C.R}`);
   }
   console.log(`  ${C.D}└${'─'.repeat(boxW)}┘${C.R}`);
@@ -927,16 +944,19 @@ function printSummary(report: VerificationReport): void {
   console.log(`  ${C.MG}Option B — Use Foundry (fully independent, no VeriCall code):${C.R}`);
   console.log(`  ${C.D}  $ cast call ${CONFIG.registry} "getStats()(uint256,uint256,uint256,uint256)" --rpc-url ${CONFIG.rpcUrl}${C.R}`);
   console.log(`  ${C.D}  $ cast call ${CONFIG.registry} "getProvenData(bytes32)(bytes32,string,string,uint256,bytes32,string,string,string,string,string)" <callId> --rpc-url ${CONFIG.rpcUrl}${C.R}`);
+  console.log(`  ${C.D}  # (V5 registries return one more string: provenAudioHash)${C.R}`);
   console.log(`  ${C.D}  # Run: npx tsx scripts/verify.ts --cast   for all commands${C.R}`);
   console.log('');
-  console.log(`  ${C.MG}Option C — BaseScan (zero setup):${C.R}`);
-  console.log(`  ${C.D}  → Contract: ${CONFIG.basescan}/address/${CONFIG.registry}#readContract${C.R}`);
-  for (const rec of report.records) {
-    if (rec.txHash) {
-      console.log(`  ${C.D}  → Record #${rec.index} TX: ${CONFIG.basescan}/tx/${rec.txHash}${C.R}`);
+  if (CONFIG.basescan) {
+    console.log(`  ${C.MG}Option C — BaseScan (zero setup):${C.R}`);
+    console.log(`  ${C.D}  → Contract: ${CONFIG.basescan}/address/${CONFIG.registry}#readContract${C.R}`);
+    for (const rec of report.records) {
+      if (rec.txHash) {
+        console.log(`  ${C.D}  → Record #${rec.index} TX: ${CONFIG.basescan}/tx/${rec.txHash}${C.R}`);
+      }
     }
+    console.log('');
   }
-  console.log('');
 
   // Architecture one-liner
   console.log(`  ${C.B}Pipeline:${C.R}`);
@@ -945,7 +965,7 @@ function printSummary(report: VerificationReport): void {
   console.log('');
 }
 
-function printCastCommands(report: VerificationReport, commands: string[]): void {
+function printCastCommands(report: CliReport, commands: string[]): void {
   console.log('#!/bin/bash');
   console.log('# VeriCall — Independent Verification via Foundry (cast)');
   console.log(`# Generated: ${report.generated}`);
@@ -7,7 +7,10 @@ import { createServer, IncomingMessage } from 'http';
 import { parse } from 'url';
 import next from 'next';
 import { WebSocketServer, WebSocket } from 'ws';
-import { createSession, removeSession, getSession } from './lib/voice-ai/session';
+import { handleMediaStreamConnection } from './lib/voice-ai/stream-handler';
+import { startWitnessWorker, stopWitnessWorker } from './lib/witness/worker';
+import { startRetentionWorker, stopRetentionWorker } from './lib/retention';
+import { startRegistryIndexer, stopRegistryIndexer } from './lib/witness/indexer';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOSTNAME || '0.0.0.0';
@@ -16,15 +19,6 @@ const port = parseInt(process.env.PORT || '3000', 10);
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
 
-interface TwilioStartMessage {
-  event: 'start';
-  start: {
-    streamSid: string;
-    callSid: string;
-    customParameters?: Record<string, string>;
-  };
-}
-
 app.prepare().then(() => {
   const server = createServer((req, res) => {
     const parsedUrl = parse(req.url || '', true);
@@ -47,71 +41,27 @@ app.prepare().then(() => {
   });
 
   wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
-    console.log('[WebSocket] New connection');
-
-    let callSid: string | null = null;
-
-    ws.on('message', async (data: Buffer) => {
-      try {
-        const message = JSON.parse(data.toString());
-
-        // Debug: Log all events
-        if (message.event !== 'media') {
-          console.log(`[WebSocket] Event: ${message.event}`);
-        }
-
-        // Handle start event to get call info
-        if (message.event === 'start') {
-          const startMsg = message as TwilioStartMessage;
-          callSid = startMsg.start.callSid;
-          const from = startMsg.start.customParameters?.From || 'Unknown';
-
-          console.log(`[WebSocket] Call started: ${callSid} from ${from}`);
-
-          const session = createSession(ws, {
-            callSid,
-            from,
-            streamSid: startMsg.start.streamSid,
-          });
-
-          // Forward message to session
-          await session.handleMessage(data.toString());
-        } else if (callSid) {
-          // Forward all other messages to the session
-          const session = getSession(callSid);
-          if (session) {
-            await session.handleMessage(data.toString());
-          } else {
-            console.log(`[WebSocket] No session for callSid: ${callSid}`);
-          }
-        } else {
-          console.log(`[WebSocket] No callSid set for event: ${message.event}`);
-        }
-      } catch (error) {
-        console.error('[WebSocket] Error processing message:', error);
-      }
-    });
-
-    ws.on('close', () => {
-      console.log(`[WebSocket] Connection closed: ${callSid}`);
-      if (callSid) {
-        removeSession(callSid);
-      }
-    });
-
-    ws.on('error', (error) => {
-      console.error(`[WebSocket] Error: ${error.message}`);
-    });
+    handleMediaStreamConnection(ws, request);
   });
 
   server.listen(port, () => {
     console.log(`> Ready on http://${hostname}:${port}`);
     console.log(`> WebSocket ready on ws://${hostname}:${port}/stream`);
+
+    // Resume witness jobs interrupted by the previous instance
+    startWitnessWorker();
+    // Purge call data past its retention period
+    startRetentionWorker();
+    // Follow registry events into Postgres for /api/explorer
+    startRegistryIndexer();
   });
 
   // Graceful shutdown
   const shutdown = async () => {
     console.log('🛑 Shutting down...');
+    stopWitnessWorker();
+    stopRetentionWorker();
+    stopRegistryIndexer();
     try {
       const { closeDb } = await import('@/lib/db');
       await closeDb();